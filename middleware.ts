@@ -1,18 +1,35 @@
-import { auth } from "@/lib/auth"
+import NextAuth from "next-auth"
+import { authConfig } from "@/lib/auth.config"
 import { NextResponse } from "next/server"
 
+// Configuration sans base de données : le middleware s'exécute sur le runtime Edge
+const { auth } = NextAuth(authConfig)
+
 export default auth((req) => {
   const { nextUrl } = req
   const isLoggedIn = !!req.auth
 
-  const isAuthRoute = nextUrl.pathname.startsWith("/auth")
+  // La vérification d'email et la saisie du code 2FA restent accessibles une fois connecté
+  const isTwoFactorPage = nextUrl.pathname.startsWith("/auth/verify-2fa")
+  const isAuthRoute = nextUrl.pathname.startsWith("/auth") && !nextUrl.pathname.startsWith("/auth/verify-email") && !isTwoFactorPage
   const isProtectedRoute = nextUrl.pathname.startsWith("/dashboard")
 
+  // Connexion OAuth d'un compte avec 2FA : le code est exigé avant toute autre page
+  if (isLoggedIn && req.auth?.user?.deuxFacteursEnAttente && !isTwoFactorPage) {
+    return NextResponse.redirect(new URL("/auth/verify-2fa", nextUrl))
+  }
+
   // Redirect logged-in users away from auth routes
   if (isAuthRoute && isLoggedIn) {
     return NextResponse.redirect(new URL("/dashboard", nextUrl))
   }
 
+  // Les détenteurs de droits ADMIN doivent d'abord activer la double authentification
+  const isSecurityPage = nextUrl.pathname.startsWith("/profil/securite")
+  if (isLoggedIn && req.auth?.user?.deuxFacteursRequis && !isAuthRoute && !isSecurityPage) {
+    return NextResponse.redirect(new URL("/profil/securite", nextUrl))
+  }
+
   // Redirect non-logged-in users away from protected routes
   if (isProtectedRoute && !isLoggedIn) {
     return NextResponse.redirect(new URL("/auth/signin", nextUrl))
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "public"."RoleJardin" AS ENUM ('PROPRIETAIRE', 'JARDINIER', 'OBSERVATEUR');
+
+-- AlterTable
+ALTER TABLE "public"."permissions_utilisateur" ADD COLUMN     "jardin_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."membres_jardin" (
+    "id" TEXT NOT NULL,
+    "jardin_id" TEXT NOT NULL,
+    "utilisateur_id" TEXT NOT NULL,
+    "role" "public"."RoleJardin" NOT NULL,
+    "ajoute_par" TEXT,
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "mis_a_jour_a" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "membres_jardin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invitations_jardin" (
+    "id" TEXT NOT NULL,
+    "jardin_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "public"."RoleJardin" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "invite_par" TEXT NOT NULL,
+    "expire_a" TIMESTAMP(3) NOT NULL,
+    "acceptee_a" TIMESTAMP(3),
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invitations_jardin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "permissions_utilisateur_utilisateur_id_jardin_id_idx" ON "public"."permissions_utilisateur"("utilisateur_id", "jardin_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "membres_jardin_jardin_id_utilisateur_id_key" ON "public"."membres_jardin"("jardin_id", "utilisateur_id");
+
+-- CreateIndex
+CREATE INDEX "membres_jardin_utilisateur_id_idx" ON "public"."membres_jardin"("utilisateur_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invitations_jardin_token_hash_key" ON "public"."invitations_jardin"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "invitations_jardin_jardin_id_email_idx" ON "public"."invitations_jardin"("jardin_id", "email");
+
+-- AddForeignKey
+ALTER TABLE "public"."permissions_utilisateur" ADD CONSTRAINT "permissions_utilisateur_jardin_id_fkey" FOREIGN KEY ("jardin_id") REFERENCES "public"."jardins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."membres_jardin" ADD CONSTRAINT "membres_jardin_jardin_id_fkey" FOREIGN KEY ("jardin_id") REFERENCES "public"."jardins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."membres_jardin" ADD CONSTRAINT "membres_jardin_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invitations_jardin" ADD CONSTRAINT "invitations_jardin_jardin_id_fkey" FOREIGN KEY ("jardin_id") REFERENCES "public"."jardins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invitations_jardin" ADD CONSTRAINT "invitations_jardin_invite_par_fkey" FOREIGN KEY ("invite_par") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Les propriétaires existants deviennent membres PROPRIETAIRE de leur jardin
+INSERT INTO "public"."membres_jardin" ("id", "jardin_id", "utilisateur_id", "role", "cree_a", "mis_a_jour_a")
+SELECT gen_random_uuid()::text, "id", "proprietaire_id", 'PROPRIETAIRE', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "public"."jardins";
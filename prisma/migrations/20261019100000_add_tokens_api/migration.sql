@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."tokens_api" (
+    "id" TEXT NOT NULL,
+    "utilisateur_id" TEXT NOT NULL,
+    "nom" TEXT NOT NULL,
+    "prefixe" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "scopes" "public"."TypeRessource"[],
+    "expire_a" TIMESTAMP(3) NOT NULL,
+    "dernier_usage_a" TIMESTAMP(3),
+    "revoque_a" TIMESTAMP(3),
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tokens_api_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tokens_api_token_hash_key" ON "public"."tokens_api"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "tokens_api_utilisateur_id_idx" ON "public"."tokens_api"("utilisateur_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."tokens_api" ADD CONSTRAINT "tokens_api_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "totp_active_a" TIMESTAMP(3),
+ADD COLUMN     "totp_secret" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."codes_recuperation" (
+    "id" TEXT NOT NULL,
+    "utilisateur_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "utilise_a" TIMESTAMP(3),
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "codes_recuperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "codes_recuperation_utilisateur_id_idx" ON "public"."codes_recuperation"("utilisateur_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."codes_recuperation" ADD CONSTRAINT "codes_recuperation_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "adresse_ip" TEXT,
+ADD COLUMN     "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "dernier_acces_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "type_appareil" "public"."TypeAppareil",
+ADD COLUMN     "user_agent" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "public"."sessions"("user_id");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."StatutExport" AS ENUM ('EN_ATTENTE', 'EN_COURS', 'TERMINE', 'ECHEC');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "suppression_demandee_a" TIMESTAMP(3),
+ADD COLUMN     "suppression_prevue_a" TIMESTAMP(3),
+ADD COLUMN     "supprime_a" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."exports_donnees" (
+    "id" TEXT NOT NULL,
+    "utilisateur_id" TEXT NOT NULL,
+    "statut" "public"."StatutExport" NOT NULL DEFAULT 'EN_ATTENTE',
+    "chemin_fichier" TEXT,
+    "taille_octets" INTEGER,
+    "erreur" TEXT,
+    "expire_a" TIMESTAMP(3),
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "termine_a" TIMESTAMP(3),
+
+    CONSTRAINT "exports_donnees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exports_donnees_utilisateur_id_idx" ON "public"."exports_donnees"("utilisateur_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."exports_donnees" ADD CONSTRAINT "exports_donnees_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."modeles_amenagement" (
+    "id" TEXT NOT NULL,
+    "utilisateur_id" TEXT NOT NULL,
+    "nom" TEXT NOT NULL,
+    "description" TEXT,
+    "zones" JSONB NOT NULL,
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "mis_a_jour_a" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "modeles_amenagement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "modeles_amenagement_utilisateur_id_idx" ON "public"."modeles_amenagement"("utilisateur_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."modeles_amenagement" ADD CONSTRAINT "modeles_amenagement_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
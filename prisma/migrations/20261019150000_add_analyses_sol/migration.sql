@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."SourceAnalyseSol" AS ENUM ('LABORATOIRE', 'KIT', 'SONDE');
+
+-- CreateTable
+CREATE TABLE "public"."analyses_sol" (
+    "id" TEXT NOT NULL,
+    "zone_id" TEXT NOT NULL,
+    "utilisateur_id" TEXT,
+    "date_analyse" TIMESTAMP(3) NOT NULL,
+    "source" "public"."SourceAnalyseSol" NOT NULL,
+    "nom_source" TEXT,
+    "ph" DOUBLE PRECISION,
+    "azote_mg_kg" DOUBLE PRECISION,
+    "phosphore_mg_kg" DOUBLE PRECISION,
+    "potassium_mg_kg" DOUBLE PRECISION,
+    "matiere_organique_pct" DOUBLE PRECISION,
+    "texture" "public"."TypeSol",
+    "notes" TEXT,
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "analyses_sol_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "analyses_sol_zone_id_date_analyse_idx" ON "public"."analyses_sol"("zone_id", "date_analyse");
+
+-- AddForeignKey
+ALTER TABLE "public"."analyses_sol" ADD CONSTRAINT "analyses_sol_zone_id_fkey" FOREIGN KEY ("zone_id") REFERENCES "public"."zones"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."analyses_sol" ADD CONSTRAINT "analyses_sol_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
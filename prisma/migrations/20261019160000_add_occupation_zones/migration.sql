@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."instances_culture" ADD COLUMN     "part_surface" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "date_debut_occupation" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "date_fin_occupation" TIMESTAMP(3);
+
+-- Reprise : l'occupation commence à la mise en place et se termine avec le cycle
+UPDATE "public"."instances_culture"
+SET "date_debut_occupation" = COALESCE("date_repiquage_reelle", "date_semis_reelle", "date_repiquage_prevue", "date_semis_prevue", "cree_a"),
+    "date_fin_occupation" = CASE
+      WHEN "est_active" THEN "date_fin_cycle"
+      ELSE COALESCE("date_fin_cycle", "mis_a_jour_a")
+    END;
+
+-- Une fin antérieure au début (données incohérentes) ramène la période à zéro
+UPDATE "public"."instances_culture"
+SET "date_fin_occupation" = "date_debut_occupation"
+WHERE "date_fin_occupation" < "date_debut_occupation";
+
+-- DropForeignKey
+ALTER TABLE "public"."zones" DROP CONSTRAINT "zones_culture_actuelle_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."zones" DROP COLUMN "culture_actuelle_id";
+
+-- CreateIndex
+CREATE INDEX "instances_culture_zone_id_date_debut_occupation_idx" ON "public"."instances_culture"("zone_id", "date_debut_occupation");
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."jardins" ADD COLUMN     "archive_a" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."zones" ADD COLUMN     "archive_a" TIMESTAMP(3);
+
+-- Reprise : les zones déjà désactivées sont archivées à leur dernière modification
+UPDATE "public"."zones" SET "archive_a" = "mis_a_jour_a" WHERE "est_active" = false;
+
+-- CreateIndex
+CREATE INDEX "jardins_archive_a_idx" ON "public"."jardins"("archive_a");
+
+-- CreateIndex
+CREATE INDEX "zones_archive_a_idx" ON "public"."zones"("archive_a");
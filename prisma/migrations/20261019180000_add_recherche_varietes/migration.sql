@@ -0,0 +1,27 @@
+-- Extensions de recherche : suppression des accents et similarité par trigrammes
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- Normalisation des textes recherchés (minuscules, sans accents ni ligatures).
+-- unaccent() n'est pas IMMUTABLE : l'enveloppe fixe le dictionnaire pour pouvoir indexer.
+CREATE OR REPLACE FUNCTION "public"."normaliser_recherche"(texte text)
+  RETURNS text
+  LANGUAGE sql
+  IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT lower("public".unaccent('public.unaccent'::regdictionary, texte)) $$;
+
+-- AlterTable : document plein texte pondéré (nom > nom scientifique, famille > conseils)
+ALTER TABLE "public"."varietes_culture" ADD COLUMN "document_recherche" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('french'::regconfig, "public"."normaliser_recherche"("nom_commun")), 'A') ||
+    setweight(to_tsvector('french'::regconfig, coalesce("public"."normaliser_recherche"("nom_scientifique"), '')), 'B') ||
+    setweight(to_tsvector('french'::regconfig, coalesce("public"."normaliser_recherche"("famille"), '')), 'B') ||
+    setweight(to_tsvector('french'::regconfig, coalesce("public"."normaliser_recherche"("infos_culture"->>'conseilsCulture'), '')), 'C')
+  ) STORED;
+
+-- CreateIndex
+CREATE INDEX "varietes_culture_document_recherche_idx" ON "public"."varietes_culture" USING GIN ("document_recherche");
+
+-- CreateIndex : similarité des noms pour les fautes de frappe
+CREATE INDEX "varietes_culture_nom_commun_trgm_idx" ON "public"."varietes_culture"
+  USING GIN ("public"."normaliser_recherche"("nom_commun") gin_trgm_ops);
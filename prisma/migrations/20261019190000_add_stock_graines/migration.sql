@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "public"."sachets_graines" (
+    "id" TEXT NOT NULL,
+    "utilisateur_id" TEXT NOT NULL,
+    "variete_id" TEXT NOT NULL,
+    "fournisseur" VARCHAR(200),
+    "numero_lot" VARCHAR(100),
+    "date_achat" TIMESTAMP(3),
+    "annee_production" INTEGER,
+    "date_expiration" TIMESTAMP(3),
+    "quantite_initiale" INTEGER NOT NULL,
+    "quantite_restante" INTEGER NOT NULL,
+    "seuil_alerte" INTEGER,
+    "notes" TEXT,
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "mis_a_jour_a" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sachets_graines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."prelevements_graines" (
+    "id" TEXT NOT NULL,
+    "sachet_id" TEXT NOT NULL,
+    "instance_culture_id" TEXT NOT NULL,
+    "quantite" INTEGER NOT NULL,
+    "cree_a" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prelevements_graines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sachets_graines_utilisateur_id_variete_id_idx" ON "public"."sachets_graines"("utilisateur_id", "variete_id");
+
+-- CreateIndex
+CREATE INDEX "prelevements_graines_instance_culture_id_idx" ON "public"."prelevements_graines"("instance_culture_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prelevements_graines_sachet_id_instance_culture_id_key" ON "public"."prelevements_graines"("sachet_id", "instance_culture_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."sachets_graines" ADD CONSTRAINT "sachets_graines_utilisateur_id_fkey" FOREIGN KEY ("utilisateur_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sachets_graines" ADD CONSTRAINT "sachets_graines_variete_id_fkey" FOREIGN KEY ("variete_id") REFERENCES "public"."varietes_culture_utilisateur"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prelevements_graines" ADD CONSTRAINT "prelevements_graines_sachet_id_fkey" FOREIGN KEY ("sachet_id") REFERENCES "public"."sachets_graines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prelevements_graines" ADD CONSTRAINT "prelevements_graines_instance_culture_id_fkey" FOREIGN KEY ("instance_culture_id") REFERENCES "public"."instances_culture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."SourceDonnees" ADD VALUE 'IMPORT_CATALOGUE';
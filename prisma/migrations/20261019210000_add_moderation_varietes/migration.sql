@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."StatutModeration" AS ENUM ('BROUILLON', 'SOUMISE', 'APPROUVEE', 'REJETEE');
+
+-- CreateEnum
+CREATE TYPE "public"."ActionHistoriqueVariete" AS ENUM ('CREATION', 'MODIFICATION', 'SOUMISSION', 'APPROBATION', 'REJET');
+
+-- AlterTable
+ALTER TABLE "public"."varietes_culture" ADD COLUMN     "commentaire_moderation" TEXT,
+ADD COLUMN     "moderateur_id" TEXT,
+ADD COLUMN     "modere_a" TIMESTAMPTZ,
+ADD COLUMN     "soumis_a" TIMESTAMPTZ,
+ADD COLUMN     "statut_moderation" "public"."StatutModeration" NOT NULL DEFAULT 'APPROUVEE',
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."historique_varietes_culture" (
+    "id" TEXT NOT NULL,
+    "variete_id" TEXT NOT NULL,
+    "auteur_id" TEXT,
+    "action" "public"."ActionHistoriqueVariete" NOT NULL,
+    "version" INTEGER NOT NULL,
+    "donnees" JSONB,
+    "commentaire" TEXT,
+    "cree_a" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "historique_varietes_culture_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "varietes_culture_statut_moderation_soumis_a_idx" ON "public"."varietes_culture"("statut_moderation", "soumis_a");
+
+-- CreateIndex
+CREATE INDEX "historique_varietes_culture_variete_id_cree_a_idx" ON "public"."historique_varietes_culture"("variete_id", "cree_a");
+
+-- AddForeignKey
+ALTER TABLE "public"."varietes_culture" ADD CONSTRAINT "varietes_culture_moderateur_id_fkey" FOREIGN KEY ("moderateur_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."historique_varietes_culture" ADD CONSTRAINT "historique_varietes_culture_variete_id_fkey" FOREIGN KEY ("variete_id") REFERENCES "public"."varietes_culture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."historique_varietes_culture" ADD CONSTRAINT "historique_varietes_culture_auteur_id_fkey" FOREIGN KEY ("auteur_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
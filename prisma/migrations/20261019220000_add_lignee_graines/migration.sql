@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."instances_culture" ADD COLUMN     "sachet_source_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."sachets_graines" ADD COLUMN     "culture_origine_id" TEXT,
+ADD COLUMN     "generation" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "instances_culture_sachet_source_id_idx" ON "public"."instances_culture"("sachet_source_id");
+
+-- CreateIndex
+CREATE INDEX "sachets_graines_culture_origine_id_idx" ON "public"."sachets_graines"("culture_origine_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."instances_culture" ADD CONSTRAINT "instances_culture_sachet_source_id_fkey" FOREIGN KEY ("sachet_source_id") REFERENCES "public"."sachets_graines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sachets_graines" ADD CONSTRAINT "sachets_graines_culture_origine_id_fkey" FOREIGN KEY ("culture_origine_id") REFERENCES "public"."instances_culture"("id") ON DELETE SET NULL ON UPDATE CASCADE;
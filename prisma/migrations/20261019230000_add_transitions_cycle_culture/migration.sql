@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."transitions_cycle_culture" (
+    "id" TEXT NOT NULL,
+    "instance_culture_id" TEXT NOT NULL,
+    "etape_depart" "public"."EtapeCycleVie",
+    "etape_arrivee" "public"."EtapeCycleVie" NOT NULL,
+    "date_etape" TIMESTAMPTZ NOT NULL,
+    "acteur_id" TEXT,
+    "type_appareil" "public"."TypeAppareil",
+    "commentaire" TEXT,
+    "cree_a" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transitions_cycle_culture_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transitions_cycle_culture_instance_culture_id_date_etape_idx" ON "public"."transitions_cycle_culture"("instance_culture_id", "date_etape");
+
+-- AddForeignKey
+ALTER TABLE "public"."transitions_cycle_culture" ADD CONSTRAINT "transitions_cycle_culture_instance_culture_id_fkey" FOREIGN KEY ("instance_culture_id") REFERENCES "public"."instances_culture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."transitions_cycle_culture" ADD CONSTRAINT "transitions_cycle_culture_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
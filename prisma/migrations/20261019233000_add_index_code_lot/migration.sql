@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "instances_culture_code_lot_idx" ON "public"."instances_culture"("code_lot");
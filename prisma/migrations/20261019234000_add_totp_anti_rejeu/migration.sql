@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "totp_bloque_jusqua" TIMESTAMP(3),
+ADD COLUMN     "totp_dernier_pas" INTEGER,
+ADD COLUMN     "totp_echecs" INTEGER NOT NULL DEFAULT 0;
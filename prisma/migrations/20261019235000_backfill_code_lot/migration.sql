@@ -0,0 +1,5 @@
+-- Backfill : les cultures antérieures aux codes lot reçoivent le leur
+-- (même forme qu'à la création, suffixe tiré de l'identifiant)
+UPDATE "public"."instances_culture"
+SET "code_lot" = UPPER(SUBSTRING("nom" FROM 1 FOR 4)) || "annee_saison"::TEXT || UPPER(RIGHT("id", 6))
+WHERE "code_lot" IS NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."jardins" ADD COLUMN     "saison_courante" INTEGER;
@@ -0,0 +1,8 @@
+-- Les variétés importées avant relecture étaient publiées par défaut :
+-- celles qu'aucun modérateur n'a approuvées repassent en brouillon
+UPDATE "public"."varietes_culture"
+SET "statut_moderation" = 'BROUILLON'
+WHERE "source_donnees" = 'IMPORT_CATALOGUE'
+  AND "statut_moderation" = 'APPROUVEE'
+  AND "moderateur_id" IS NULL
+  AND "cree_par_id" IS NOT NULL;
@@ -0,0 +1,21 @@
+import { startAccountWorker } from '../src/lib/jobs/account.jobs';
+import { startPerformanceWorker } from '../src/lib/jobs/performance.jobs';
+
+async function main() {
+  const workers = [await startAccountWorker(), await startPerformanceWorker()];
+  console.log('Worker de tâches de fond démarré');
+
+  const shutdown = async () => {
+    console.log('Arrêt du worker...');
+    await Promise.all(workers.map(worker => worker.close()));
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Erreur au démarrage du worker:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { AccountDataService, DELAI_SUPPRESSION_JOURS } from '@/lib/services/account-data.service'
+import { z } from 'zod'
+
+const deletionSchema = z.object({
+  confirmation: z.literal('SUPPRIMER', { message: 'Saisissez SUPPRIMER pour confirmer' }),
+  password: z.string().optional()
+})
+
+/**
+ * GET /api/account/deletion - Suppression planifiée éventuelle
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const statut = await new AccountDataService().getDeletionStatus(session.user.id)
+
+    return NextResponse.json({ ...statut, delaiJours: DELAI_SUPPRESSION_JOURS }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération de la suppression:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération de la suppression' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/account/deletion - Planifie la suppression du compte après le délai de grâce
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { password } = deletionSchema.parse(body)
+
+    const accountDataService = new AccountDataService()
+    const statut = await accountDataService.getDeletionStatus(session.user.id)
+
+    if (statut.suppressionPrevueA) {
+      return NextResponse.json({ error: 'Une suppression est déjà planifiée' }, { status: 409 })
+    }
+
+    // Les comptes avec mot de passe doivent le confirmer
+    if (!(await accountDataService.confirmIdentity(session.user.id, password))) {
+      return NextResponse.json({ error: 'Mot de passe incorrect' }, { status: 403 })
+    }
+
+    const suppressionPrevueA = await accountDataService.requestDeletion(session.user.id)
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/account/deletion',
+      timestamp: new Date(),
+      typeActivite: TypeActivite.SUPPRESSION,
+      typeEntite: 'User',
+      idEntite: session.user.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { evenement: 'suppression_planifiee', suppressionPrevueA }
+    })
+
+    return NextResponse.json({ suppressionPrevueA }, { status: 202 })
+  } catch (error) {
+    console.error('Erreur lors de la demande de suppression:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la demande de suppression' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/account/deletion - Annule la suppression planifiée
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const cancelled = await new AccountDataService().cancelDeletion(session.user.id)
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Aucune suppression planifiée' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'DELETE /api/account/deletion',
+      timestamp: new Date(),
+      typeActivite: TypeActivite.MISE_A_JOUR,
+      typeEntite: 'User',
+      idEntite: session.user.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { evenement: 'suppression_annulee' }
+    })
+
+    return NextResponse.json({ message: 'Suppression annulée' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de l\'annulation de la suppression:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'annulation de la suppression' },
+      { status: 500 }
+    )
+  }
+}
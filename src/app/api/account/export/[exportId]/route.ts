@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs'
+import { NextResponse } from 'next/server'
+import { StatutExport } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { AccountDataService } from '@/lib/services/account-data.service'
+
+/**
+ * GET /api/account/export/[exportId] - Télécharge l'archive d'un export terminé
+ */
+export async function GET(
+  _req: Request,
+  context: { params: Promise<{ exportId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const demande = await new AccountDataService().findExport(session.user.id, params.exportId)
+
+    if (!demande) {
+      return NextResponse.json({ error: 'Export non trouvé' }, { status: 404 })
+    }
+
+    if (demande.statut !== StatutExport.TERMINE || !demande.cheminFichier) {
+      return NextResponse.json({ error: 'Export pas encore disponible' }, { status: 409 })
+    }
+
+    if (demande.expireA && demande.expireA <= new Date()) {
+      return NextResponse.json({ error: 'Export expiré' }, { status: 410 })
+    }
+
+    const contenu = await fs.readFile(demande.cheminFichier)
+
+    return new NextResponse(new Uint8Array(contenu), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="bas-malin-donnees-${demande.creeA.toISOString().slice(0, 10)}.zip"`
+      }
+    })
+  } catch (error) {
+    console.error('Erreur lors du téléchargement de l\'export:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors du téléchargement de l\'export' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { AccountDataService } from '@/lib/services/account-data.service'
+import { enqueueDataExport } from '@/lib/jobs/account.jobs'
+
+/**
+ * GET /api/account/export - Liste des exports de données personnelles
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const exports = await new AccountDataService().listExports(session.user.id)
+
+    return NextResponse.json({ exports }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des exports:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des exports' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/account/export - Demande une archive ZIP de toutes ses données
+ * L'archive est construite en tâche de fond ; son statut se suit via GET.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const demande = await new AccountDataService().requestExport(session.user.id)
+
+    if (!demande) {
+      return NextResponse.json({ error: 'Un export est déjà en cours' }, { status: 409 })
+    }
+
+    await enqueueDataExport(demande.id)
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/account/export',
+      timestamp: new Date(),
+      typeActivite: TypeActivite.EXPORT,
+      typeEntite: 'ExportDonnees',
+      idEntite: demande.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent'))
+    })
+
+    return NextResponse.json({ export: demande }, { status: 202 })
+  } catch (error) {
+    console.error('Erreur lors de la demande d\'export:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la demande d\'export' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite, TypeAppareil, TypeProfil } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { getAdministeredJardinIds, isTwoFactorEnrolmentRequired, logActivity } from '@/lib/security'
+import { toCsv } from '@/lib/csv'
+import { z } from 'zod'
+
+// Schema de validation des filtres du journal d'audit
+const auditQuerySchema = z.object({
+  utilisateurId: z.string().optional(),
+  typeActivite: z.nativeEnum(TypeActivite).optional(),
+  typeEntite: z.string().optional(),
+  idEntite: z.string().optional(),
+  typeAppareil: z.nativeEnum(TypeAppareil).optional(),
+  jardinId: z.string().optional(),
+  depuis: z.coerce.date().optional(),
+  jusqua: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(['json', 'csv']).default('json')
+})
+
+/**
+ * GET /api/audit - Journal d'audit filtrable (EXPERT uniquement)
+ * Limité aux jardins que l'appelant possède ou administre.
+ * ?format=csv exporte toutes les lignes correspondant aux filtres.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    if (session.user.typeProfil !== TypeProfil.EXPERT) {
+      return NextResponse.json({ error: 'Accès réservé aux experts' }, { status: 403 })
+    }
+
+    if (await isTwoFactorEnrolmentRequired(session.user.id, session.user.typeProfil)) {
+      return NextResponse.json({ error: 'Double authentification requise pour cette action' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const { page, limit, format, ...filtres } = auditQuerySchema.parse(
+      Object.fromEntries(searchParams.entries())
+    )
+
+    const jardinIds = await getAdministeredJardinIds(session.user.id)
+    if (filtres.jardinId && !jardinIds.includes(filtres.jardinId)) {
+      return NextResponse.json({ error: 'Permission ADMIN requise sur ce jardin' }, { status: 403 })
+    }
+
+    const filters = { ...filtres, jardinIds }
+
+    const dataService = getDataService()
+
+    if (format === 'csv') {
+      const activites = await dataService.activite.findForExport(filters)
+
+      await logActivity({
+        userId: session.user.id,
+        action: 'GET /api/audit',
+        timestamp: new Date(),
+        typeActivite: TypeActivite.EXPORT,
+        typeEntite: 'ActiviteUtilisateur',
+        metadata: { filtres, lignes: activites.length }
+      })
+
+      const csv = toCsv(
+        ['date', 'utilisateur', 'email', 'typeActivite', 'typeEntite', 'idEntite', 'typeAppareil', 'action', 'jardinId'],
+        activites.map(activite => {
+          const metadonnees = (activite.metadonneesActivite ?? {}) as Record<string, unknown>
+          return [
+            activite.creeA,
+            activite.utilisateur.name,
+            activite.utilisateur.email,
+            activite.typeActivite,
+            activite.typeEntite,
+            activite.idEntite,
+            activite.typeAppareil,
+            metadonnees.action as string | undefined,
+            metadonnees.jardinId as string | undefined
+          ]
+        })
+      )
+
+      return new NextResponse(csv, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`
+        }
+      })
+    }
+
+    const { activites, total } = await dataService.activite.findPaginated(filters, page, limit)
+
+    return NextResponse.json({
+      activites,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération du journal d\'audit:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération du journal d\'audit' },
+      { status: 500 }
+    )
+  }
+}
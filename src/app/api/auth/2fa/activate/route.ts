@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { TwoFactorService } from '@/lib/services/two-factor.service'
+import { z } from 'zod'
+
+const activateSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Le code doit contenir 6 chiffres')
+})
+
+/**
+ * POST /api/auth/2fa/activate - Valide le premier code et active la 2FA
+ * Retourne les codes de secours, affichés une seule fois.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { code } = activateSchema.parse(body)
+
+    const codesRecuperation = await new TwoFactorService().activate(session.user.id, code)
+
+    if (!codesRecuperation) {
+      return NextResponse.json({ error: 'Code invalide ou enrôlement non démarré' }, { status: 400 })
+    }
+
+    return NextResponse.json({ codesRecuperation }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de l\'activation de la 2FA:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'activation de la 2FA' },
+      { status: 500 }
+    )
+  }
+}
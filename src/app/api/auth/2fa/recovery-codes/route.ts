@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { TwoFactorService } from '@/lib/services/two-factor.service'
+import { z } from 'zod'
+
+const regenerateSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Le code doit contenir 6 chiffres')
+})
+
+/**
+ * POST /api/auth/2fa/recovery-codes - Régénère les codes de secours
+ * Les anciens codes sont invalidés.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { code } = regenerateSchema.parse(body)
+
+    const codesRecuperation = await new TwoFactorService().regenerateRecoveryCodes(session.user.id, code)
+
+    if (!codesRecuperation) {
+      return NextResponse.json({ error: 'Code invalide' }, { status: 400 })
+    }
+
+    return NextResponse.json({ codesRecuperation }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la régénération des codes de secours:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la régénération des codes de secours' },
+      { status: 500 }
+    )
+  }
+}
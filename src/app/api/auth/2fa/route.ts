@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isTwoFactorMandatory } from '@/lib/security'
+import { TwoFactorService } from '@/lib/services/two-factor.service'
+import { z } from 'zod'
+
+const disableSchema = z.object({
+  code: z.string().min(6, 'Code requis')
+})
+
+/**
+ * GET /api/auth/2fa - Statut de la double authentification
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const status = await new TwoFactorService().getStatus(session.user.id)
+    const obligatoire = await isTwoFactorMandatory(session.user.id, session.user.typeProfil)
+
+    return NextResponse.json({ ...status, obligatoire }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération du statut 2FA:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération du statut 2FA' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/auth/2fa - Désactive la double authentification
+ * Impossible pour les détenteurs de ADMIN, y compris dans un seul jardin,
+ * pour qui elle est obligatoire.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    if (await isTwoFactorMandatory(session.user.id, session.user.typeProfil)) {
+      return NextResponse.json(
+        { error: 'La double authentification est obligatoire pour les comptes administrateurs' },
+        { status: 403 }
+      )
+    }
+
+    const body = await req.json()
+    const { code } = disableSchema.parse(body)
+
+    const disabled = await new TwoFactorService().disable(session.user.id, code)
+
+    if (!disabled) {
+      return NextResponse.json({ error: 'Code invalide' }, { status: 400 })
+    }
+
+    return NextResponse.json({ message: 'Double authentification désactivée' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la désactivation de la 2FA:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la désactivation de la 2FA' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { TwoFactorService } from '@/lib/services/two-factor.service'
+
+/**
+ * POST /api/auth/2fa/setup - Démarre l'enrôlement (secret + QR code)
+ * Un nouvel appel remplace le secret en attente tant que la 2FA n'est pas activée.
+ */
+export async function POST() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const twoFactorService = new TwoFactorService()
+    const status = await twoFactorService.getStatus(session.user.id)
+    if (status.active) {
+      return NextResponse.json(
+        { error: 'La double authentification est déjà active' },
+        { status: 409 }
+      )
+    }
+
+    const enrolment = await twoFactorService.startEnrolment(session.user.id)
+
+    return NextResponse.json(enrolment, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de l\'enrôlement 2FA:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'enrôlement 2FA' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountService } from '@/lib/services/account.service'
+import { publicRateLimit, withRateLimitHeaders } from '@/lib/middleware'
+import { z } from 'zod'
+
+const confirmResetSchema = z.object({
+  token: z.string().min(1, 'Token requis'),
+  password: z.string().min(8, 'Le mot de passe doit contenir au moins 8 caractères').max(128)
+})
+
+/**
+ * POST /api/auth/password-reset/confirm - Définit le nouveau mot de passe
+ */
+export const POST = withRateLimitHeaders(async function POST(req: NextRequest) {
+  try {
+    const rateLimited = await publicRateLimit(req)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const body = await req.json()
+    const { token, password } = confirmResetSchema.parse(body)
+
+    const success = await new AccountService().resetPassword(token, password)
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Lien de réinitialisation invalide ou expiré' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Mot de passe mis à jour' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la réinitialisation du mot de passe:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la réinitialisation du mot de passe' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountService } from '@/lib/services/account.service'
+import { getAppBaseUrl } from '@/lib/config/app-url'
+import { publicRateLimit, withRateLimitHeaders } from '@/lib/middleware'
+import { z } from 'zod'
+
+const requestResetSchema = z.object({
+  email: z.string().email('Email invalide')
+})
+
+/**
+ * POST /api/auth/password-reset - Demande un lien de réinitialisation
+ * Répond toujours 202 pour ne pas révéler l'existence d'un compte.
+ */
+export const POST = withRateLimitHeaders(async function POST(req: NextRequest) {
+  try {
+    const rateLimited = await publicRateLimit(req)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const body = await req.json()
+    const { email } = requestResetSchema.parse(body)
+
+    // Lien envoyé par email : jamais construit depuis l'en-tête Host
+    const baseUrl = getAppBaseUrl()
+    if (!baseUrl) {
+      console.error('NEXTAUTH_URL non configurée : lien par email impossible')
+      return NextResponse.json({ error: 'Service indisponible' }, { status: 503 })
+    }
+    await new AccountService().requestPasswordReset(email, baseUrl)
+
+    return NextResponse.json(
+      { message: 'Si un compte existe pour cet email, un lien de réinitialisation a été envoyé' },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Erreur lors de la demande de réinitialisation:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la demande de réinitialisation' },
+      { status: 500 }
+    )
+  }
+})
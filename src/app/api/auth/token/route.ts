@@ -5,7 +5,8 @@ export async function GET(request: NextRequest) {
   try {
     const token = await getToken({ req: request });
     
-    if (!token) {
+    // Second facteur OAuth non saisi : pas de token WebSocket
+    if (!token || token.deuxFacteursEnAttente) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
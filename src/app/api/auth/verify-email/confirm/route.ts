@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountService } from '@/lib/services/account.service'
+import { publicRateLimit, withRateLimitHeaders } from '@/lib/middleware'
+import { z } from 'zod'
+
+const confirmVerificationSchema = z.object({
+  token: z.string().min(1, 'Token requis')
+})
+
+/**
+ * POST /api/auth/verify-email/confirm - Confirme l'adresse email
+ */
+export const POST = withRateLimitHeaders(async function POST(req: NextRequest) {
+  try {
+    const rateLimited = await publicRateLimit(req)
+    if (rateLimited) {
+      return rateLimited
+    }
+
+    const body = await req.json()
+    const { token } = confirmVerificationSchema.parse(body)
+
+    const verified = await new AccountService().verifyEmail(token)
+
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'Lien de vérification invalide ou expiré' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Adresse email vérifiée' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la vérification de l\'email:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la vérification de l\'email' },
+      { status: 500 }
+    )
+  }
+})
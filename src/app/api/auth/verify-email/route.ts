@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { AccountService } from '@/lib/services/account.service'
+import { getAppBaseUrl } from '@/lib/config/app-url'
+
+/**
+ * POST /api/auth/verify-email - Envoie un lien de vérification à l'utilisateur connecté
+ */
+export async function POST() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    // Lien envoyé par email : jamais construit depuis l'en-tête Host
+    const baseUrl = getAppBaseUrl()
+    if (!baseUrl) {
+      console.error('NEXTAUTH_URL non configurée : lien par email impossible')
+      return NextResponse.json({ error: 'Service indisponible' }, { status: 503 })
+    }
+    const sent = await new AccountService().sendEmailVerification(session.user.id, baseUrl)
+
+    if (!sent) {
+      return NextResponse.json({ error: 'Adresse email déjà vérifiée' }, { status: 409 })
+    }
+
+    return NextResponse.json({ message: 'Email de vérification envoyé' }, { status: 202 })
+  } catch (error) {
+    console.error('Erreur lors de l\'envoi de l\'email de vérification:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'envoi de l\'email de vérification' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,11 +7,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-// Note: NextAuth v5 - auth will be imported from middleware
-// import { getServerSession } from 'next-auth'
-// import { authOptions } from '@/lib/auth'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, TypeRessource } from '@prisma/client'
 import { z } from 'zod'
+import { authorizeRequest, withRateLimitHeaders } from '@/lib/middleware'
 
 const prisma = new PrismaClient()
 
@@ -34,13 +32,14 @@ const DataQuerySchema = z.object({
  * GET /api/collection/data
  * Get collected data with filtering and pagination
  */
-export async function GET(request: NextRequest) {
+export const GET = withRateLimitHeaders(async function GET(request: NextRequest) {
   try {
-    // Temporary auth bypass for build - implement proper NextAuth v5 auth
-    const session = { user: { id: 'temp-user-id' } }
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    // Session ou token personnel (scope IOT) ; l'accès au jardin est vérifié ci-dessous
+    const acces = await authorizeRequest(request, undefined, TypeRessource.IOT)
+    if (acces.response) {
+      return acces.response
     }
+    const userId = acces.identity.userId
 
     const { searchParams } = new URL(request.url)
     const query = Object.fromEntries(searchParams.entries())
@@ -54,11 +53,11 @@ export async function GET(request: NextRequest) {
 
     const validatedQuery = DataQuerySchema.parse(processedQuery)
 
-    // Verify user owns the garden
+    // Verify user is a member of the garden
     const jardin = await prisma.jardin.findFirst({
       where: {
         id: validatedQuery.jardinId,
-        proprietaireId: session.user.id
+        membres: { some: { utilisateurId: userId } }
       }
     })
 
@@ -70,7 +69,7 @@ export async function GET(request: NextRequest) {
     const where: Record<string, unknown> = {
       source: {
         jardinId: validatedQuery.jardinId,
-        utilisateurId: session.user.id
+        utilisateurId: userId
       }
     }
 
@@ -217,19 +216,20 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/collection/data/enrich
  * Trigger enrichment for specific data items
  */
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
-    // Temporary auth bypass for build - implement proper NextAuth v5 auth
-    const session = { user: { id: 'temp-user-id' } }
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    // Session ou token personnel (scope IOT) ; l'accès au jardin est vérifié ci-dessous
+    const acces = await authorizeRequest(request, undefined, TypeRessource.IOT)
+    if (acces.response) {
+      return acces.response
     }
+    const userId = acces.identity.userId
 
     const { dataIds, priority = 5, processorTypes } = await request.json()
 
@@ -242,7 +242,7 @@ export async function POST(request: NextRequest) {
       where: {
         id: { in: dataIds },
         source: {
-          utilisateurId: session.user.id
+          utilisateurId: userId
         }
       },
       include: {
@@ -309,7 +309,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * Calculate enrichment status breakdown
@@ -8,11 +8,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-// Note: NextAuth v5 - auth will be imported from middleware
-// import { getServerSession } from 'next-auth'
-// import { authOptions } from '@/lib/auth'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, RoleJardin, TypeRessource } from '@prisma/client'
 import { z } from 'zod'
+import { authorizeRequest, withRateLimitHeaders } from '@/lib/middleware'
 
 const prisma = new PrismaClient()
 
@@ -29,13 +27,14 @@ const CreateSourceSchema = z.object({
  * GET /api/collection/sources
  * List all data collection sources for user's gardens
  */
-export async function GET(request: NextRequest) {
+export const GET = withRateLimitHeaders(async function GET(request: NextRequest) {
   try {
-    // Temporary auth bypass for build - implement proper NextAuth v5 auth
-    const session = { user: { id: 'temp-user-id' } }
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    // Session ou token personnel (scope IOT) ; l'accès au jardin est vérifié ci-dessous
+    const acces = await authorizeRequest(request, undefined, TypeRessource.IOT)
+    if (acces.response) {
+      return acces.response
     }
+    const userId = acces.identity.userId
 
     const { searchParams } = new URL(request.url)
     const jardinId = searchParams.get('jardinId')
@@ -44,7 +43,7 @@ export async function GET(request: NextRequest) {
 
     // Build where clause
     const where: Record<string, unknown> = {
-      utilisateurId: session.user.id
+      utilisateurId: userId
     }
 
     if (jardinId) {
@@ -135,28 +134,34 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/collection/sources
  * Create a new data collection source
  */
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
-    // Temporary auth bypass for build - implement proper NextAuth v5 auth
-    const session = { user: { id: 'temp-user-id' } }
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    // Session ou token personnel (scope IOT) ; l'accès au jardin est vérifié ci-dessous
+    const acces = await authorizeRequest(request, undefined, TypeRessource.IOT)
+    if (acces.response) {
+      return acces.response
     }
+    const userId = acces.identity.userId
 
     const body = await request.json()
     const validatedData = CreateSourceSchema.parse(body)
 
-    // Verify user owns the garden
+    // Verify user can write to the garden (observers are read-only)
     const jardin = await prisma.jardin.findFirst({
       where: {
         id: validatedData.jardinId,
-        proprietaireId: session.user.id
+        membres: {
+          some: {
+            utilisateurId: userId,
+            role: { in: [RoleJardin.PROPRIETAIRE, RoleJardin.JARDINIER] }
+          }
+        }
       }
     })
 
@@ -186,7 +191,7 @@ export async function POST(request: NextRequest) {
         configuration: validatedData.configuration as any,
         frequenceMs: validatedData.frequenceMs,
         enabled: validatedData.enabled,
-        utilisateurId: session.user.id,
+        utilisateurId: userId,
         statut: 'ACTIVE',
         prochaineCollectePrevue: new Date(Date.now() + validatedData.frequenceMs)
       },
@@ -231,7 +236,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * Validate configuration based on source type
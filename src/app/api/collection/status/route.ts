@@ -8,11 +8,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-// Note: NextAuth v5 - auth will be imported from middleware
-// import { getServerSession } from 'next-auth'
-// import { authOptions } from '@/lib/auth'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, RoleJardin, TypeRessource } from '@prisma/client'
 import Redis from 'ioredis'
+import { authorizeRequest, withRateLimitHeaders } from '@/lib/middleware'
 
 const prisma = new PrismaClient()
 const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379')
@@ -21,13 +19,14 @@ const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379')
  * GET /api/collection/status
  * Get real-time data collection status
  */
-export async function GET(request: NextRequest) {
+export const GET = withRateLimitHeaders(async function GET(request: NextRequest) {
   try {
-    // Temporary auth bypass for build - implement proper NextAuth v5 auth
-    const session = { user: { id: 'temp-user-id' } }
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    // Session ou token personnel (scope IOT) ; l'accès au jardin est vérifié ci-dessous
+    const acces = await authorizeRequest(request, undefined, TypeRessource.IOT)
+    if (acces.response) {
+      return acces.response
     }
+    const userId = acces.identity.userId
 
     const { searchParams } = new URL(request.url)
     const jardinId = searchParams.get('jardinId')
@@ -36,11 +35,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'ID jardin requis' }, { status: 400 })
     }
 
-    // Verify user owns the garden
+    // Verify user is a member of the garden
     const jardin = await prisma.jardin.findFirst({
       where: {
         id: jardinId,
-        proprietaireId: session.user.id
+        membres: { some: { utilisateurId: userId } }
       }
     })
 
@@ -49,7 +48,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get collection status from Redis cache and database
-    const status = await getCollectionStatus(jardinId, session.user.id)
+    const status = await getCollectionStatus(jardinId, userId)
 
     return NextResponse.json(status)
 
@@ -60,19 +59,20 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/collection/start
  * Start data collection for a garden
  */
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
-    // Temporary auth bypass for build - implement proper NextAuth v5 auth
-    const session = { user: { id: 'temp-user-id' } }
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    // Session ou token personnel (scope IOT) ; l'accès au jardin est vérifié ci-dessous
+    const acces = await authorizeRequest(request, undefined, TypeRessource.IOT)
+    if (acces.response) {
+      return acces.response
     }
+    const userId = acces.identity.userId
 
     const { jardinId, sources } = await request.json()
 
@@ -80,11 +80,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'ID jardin requis' }, { status: 400 })
     }
 
-    // Verify user owns the garden
+    // Verify user can write to the garden (observers are read-only)
     const jardin = await prisma.jardin.findFirst({
       where: {
         id: jardinId,
-        proprietaireId: session.user.id
+        membres: {
+          some: {
+            utilisateurId: userId,
+            role: { in: [RoleJardin.PROPRIETAIRE, RoleJardin.JARDINIER] }
+          }
+        }
       }
     })
 
@@ -93,7 +98,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Start collection service
-    const result = await startCollectionService(jardinId, session.user.id, sources)
+    const result = await startCollectionService(jardinId, userId, sources)
 
     return NextResponse.json({
       message: 'Collecte de données démarrée',
@@ -108,7 +113,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * Get comprehensive collection status
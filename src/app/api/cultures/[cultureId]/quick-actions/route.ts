@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CategorieIntervention, EtapeCycleVie, TypeRessource } from '@prisma/client'
+import { getDataService } from '@/lib/config/database'
+import { authorizeRequest, withRateLimitHeaders } from '@/lib/middleware'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Maintenant par défaut ; une saisie ne se date pas dans le futur
+const dateSaisieSchema = z.coerce.date()
+  .refine(date => date <= new Date(), 'Une saisie ne peut être datée dans le futur')
+  .optional()
+
+// Schema de validation des saisies rapides depuis la fiche culture
+const quickActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('recolte'),
+    poidsTotalKg: z.number().positive('Poids requis').max(1000),
+    quantiteUnites: z.number().int().positive().optional(),
+    date: dateSaisieSchema,
+    notes: z.string().max(1000, 'Notes trop longues').optional()
+  }),
+  z.object({
+    action: z.literal('intervention'),
+    categorie: z.nativeEnum(CategorieIntervention),
+    date: dateSaisieSchema,
+    notes: z.string().max(1000, 'Notes trop longues').optional()
+  }),
+  z.object({
+    action: z.literal('note'),
+    texte: z.string().trim().min(1, 'Note vide').max(1000, 'Note trop longue')
+  })
+])
+
+/**
+ * POST /api/cultures/[cultureId]/quick-actions - Saisie rapide sur une culture :
+ * récolte, intervention ou note
+ */
+export const POST = withRateLimitHeaders(async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ cultureId: string }> }
+) {
+  try {
+    const params = await context.params
+    const body = await req.json()
+    const saisie = quickActionSchema.parse(body)
+
+    // Session ou token personnel, au scope de la saisie (relevés de récolte automatisés...)
+    const acces = await authorizeRequest(
+      req,
+      undefined,
+      saisie.action === 'recolte' ? TypeRessource.RECOLTE : saisie.action === 'intervention' ? TypeRessource.INTERVENTION : TypeRessource.JARDIN
+    )
+    if (acces.response) {
+      return acces.response
+    }
+    const { userId, typeProfil } = acces.identity
+
+    const dataService = getDataService()
+
+    const culture = await dataService.culture.findById(params.cultureId)
+    const zone = culture && await dataService.zone.findById(culture.zoneId)
+    if (!culture || !zone) {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      userId,
+      typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    // Une étiquette reste scannable après la clôture : la culture n'accepte plus de saisie
+    if (!culture.estActive || culture.etapeCycleVie === EtapeCycleVie.TERMINE) {
+      return NextResponse.json({ error: 'Culture terminée : saisie impossible' }, { status: 409 })
+    }
+
+    let reponse: Record<string, unknown>
+    let entite: { type: string; id: string }
+
+    switch (saisie.action) {
+      case 'recolte': {
+        const recolte = await dataService.recolte.create({
+          utilisateurId: userId,
+          instanceCultureId: culture.id,
+          zoneId: culture.zoneId,
+          dateRecolte: saisie.date ?? new Date(),
+          poidsTotalKg: saisie.poidsTotalKg,
+          quantiteUnites: saisie.quantiteUnites,
+          notes: saisie.notes
+        })
+        reponse = { recolte }
+        entite = { type: 'Recolte', id: recolte.id }
+        break
+      }
+      case 'intervention': {
+        const intervention = await dataService.culture.addIntervention(culture.id, {
+          utilisateurId: userId,
+          categorie: saisie.categorie,
+          dateReelle: saisie.date,
+          notes: saisie.notes
+        })
+        if (!intervention) {
+          return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+        }
+        reponse = { intervention }
+        entite = { type: 'Intervention', id: intervention.id }
+        break
+      }
+      case 'note': {
+        const miseAJour = await dataService.culture.appendNote(culture.id, saisie.texte)
+        if (!miseAJour) {
+          return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+        }
+        reponse = { culture: miseAJour }
+        entite = { type: 'InstanceCulture', id: miseAJour.id }
+        break
+      }
+    }
+
+    await logActivity({
+      userId: userId,
+      action: `POST /api/cultures/${culture.id}/quick-actions`,
+      timestamp: new Date(),
+      typeEntite: entite.type,
+      idEntite: entite.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId, cultureId: culture.id, action: saisie.action }
+    })
+
+    return NextResponse.json(reponse, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la saisie rapide sur la culture:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la saisie rapide sur la culture' },
+      { status: 500 }
+    )
+  }
+})
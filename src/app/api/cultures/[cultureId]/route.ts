@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess } from '@/lib/security'
+import { Permission } from '@/types/auth'
+
+/**
+ * GET /api/cultures/[cultureId] - Fiche d'une culture : variété, zone,
+ * dernières interventions et récoltes
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ cultureId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const culture = await dataService.culture.findByIdWithDetails(params.cultureId)
+    const zone = culture && await dataService.zone.findById(culture.zoneId)
+    if (!culture || !zone) {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    return NextResponse.json({ culture }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération de la culture:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération de la culture' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EtapeCycleVie } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Schema de validation pour un changement d'étape
+const transitionSchema = z.object({
+  etape: z.nativeEnum(EtapeCycleVie),
+  date: z.coerce.date().optional(), // Maintenant par défaut
+  commentaire: z.string().max(500, 'Commentaire trop long').optional(),
+  quantitePlantee: z.number().int().positive().optional(), // Graines semées, décomptées du stock
+  sachetSourceId: z.string().cuid().optional() // Lot semé, parent de la culture dans la lignée
+}).refine(transition => (transition.quantitePlantee === undefined && transition.sachetSourceId === undefined)
+  || transition.etape === EtapeCycleVie.SEME, {
+  message: 'La quantité et le lot semés accompagnent le passage à l\'étape SEME',
+  path: ['etape']
+})
+
+/**
+ * POST /api/cultures/[cultureId]/stage - Fait passer une culture à l'étape suivante
+ * de son cycle de vie ; refusé (409) si la transition ou sa date n'est pas permise.
+ * Au semis, la quantité semée est décomptée des sachets de la variété, en
+ * commençant par le lot source indiqué.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ cultureId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const body = await req.json()
+    const { etape, date, commentaire, quantitePlantee, sachetSourceId } = transitionSchema.parse(body)
+
+    const dataService = getDataService()
+
+    const existante = await dataService.culture.findById(params.cultureId)
+    const zone = existante && await dataService.zone.findById(existante.zoneId)
+    if (!existante || !zone) {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const typeAppareil = detectTypeAppareil(req.headers.get('user-agent'))
+    const resultat = await dataService.culture.updateEtapeCycle(existante.id, etape, {
+      dateEtape: date,
+      acteurId: session.user.id,
+      typeAppareil,
+      commentaire
+    }, { quantitePlantee, sachetSourceId })
+
+    if (resultat.statut === 'introuvable') {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    if (resultat.statut === 'sachet_introuvable') {
+      return NextResponse.json({ error: 'Lot de graines source non trouvé' }, { status: 422 })
+    }
+
+    if (resultat.statut === 'refusee') {
+      return NextResponse.json(
+        { error: resultat.refus.message, raison: resultat.refus.raison },
+        { status: 409 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/cultures/${existante.id}/stage`,
+      timestamp: new Date(),
+      typeEntite: 'InstanceCulture',
+      idEntite: existante.id,
+      typeAppareil,
+      metadata: { jardinId: zone.jardinId, etapeDepart: existante.etapeCycleVie, etapeArrivee: etape, quantitePlantee, sachetSourceId }
+    })
+
+    return NextResponse.json({ culture: resultat.culture }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors du changement d\'étape de la culture:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors du changement d\'étape de la culture' },
+      { status: 500 }
+    )
+  }
+}
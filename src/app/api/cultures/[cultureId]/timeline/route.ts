@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess } from '@/lib/security'
+import { Permission } from '@/types/auth'
+
+/**
+ * GET /api/cultures/[cultureId]/timeline - Chronologie des étapes d'une culture
+ * (date, auteur, appareil) et étapes accessibles depuis l'étape en cours
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ cultureId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const culture = await dataService.culture.findById(params.cultureId)
+    const zone = culture && await dataService.zone.findById(culture.zoneId)
+    if (!culture || !zone) {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const chronologie = await dataService.culture.getChronologie(culture.id)
+    if (!chronologie) {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    return NextResponse.json({ chronologie }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération de la chronologie de la culture:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération de la chronologie de la culture' },
+      { status: 500 }
+    )
+  }
+}
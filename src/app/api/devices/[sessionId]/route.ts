@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { SessionService } from '@/lib/services/session.service'
+
+/**
+ * DELETE /api/devices/[sessionId] - Révoque une session et ferme son WebSocket de synchro
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const revoked = await new SessionService().revoke(session.user.id, params.sessionId)
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session non trouvée' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/devices/${params.sessionId}`,
+      timestamp: new Date(),
+      typeActivite: TypeActivite.SUPPRESSION,
+      typeEntite: 'Session',
+      idEntite: params.sessionId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { courante: params.sessionId === session.user.sessionId }
+    })
+
+    return NextResponse.json({ message: 'Session révoquée' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la révocation de la session:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la révocation de la session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { SessionService } from '@/lib/services/session.service'
+import { syncService } from '@/lib/sync/multi-device-sync-service'
+import { DeviceConnection } from '@/types/sync'
+
+/**
+ * GET /api/devices - Sessions actives, devices de synchro et dernière activité
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const devices = await syncService.getUserDevices(session.user.id).catch(error => {
+      // La liste des sessions reste utile si Redis est indisponible
+      console.error('Erreur lors de la lecture des devices de synchro:', error)
+      return [] as DeviceConnection[]
+    })
+
+    const result = await new SessionService().listDevices(
+      session.user.id,
+      devices,
+      session.user.sessionId
+    )
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des appareils:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des appareils' },
+      { status: 500 }
+    )
+  }
+}
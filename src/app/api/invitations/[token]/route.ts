@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+
+/**
+ * POST /api/invitations/[token] - Accepte une invitation à rejoindre un jardin
+ * L'invitation doit avoir été envoyée à l'email du compte connecté.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id || !session.user.email) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const membre = await dataService.membreJardin.acceptInvitation(
+      params.token,
+      session.user.id,
+      session.user.email
+    )
+
+    if (!membre) {
+      return NextResponse.json(
+        { error: 'Invitation invalide, expirée ou destinée à un autre compte' },
+        { status: 404 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/invitations',
+      timestamp: new Date(),
+      typeEntite: 'MembreJardin',
+      idEntite: membre.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: membre.jardinId, role: membre.role }
+    })
+
+    return NextResponse.json(membre)
+  } catch (error) {
+    console.error('Erreur lors de l\'acceptation de l\'invitation:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'acceptation de l\'invitation' },
+      { status: 500 }
+    )
+  }
+}
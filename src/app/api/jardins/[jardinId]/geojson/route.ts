@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { featureCollectionImportSchema } from '@/lib/geojson'
+import { GeoJsonService } from '@/lib/services/geojson.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// repere=local : coordonnées en mètres du plan plutôt qu'en WGS84
+const geoJsonQuerySchema = z.object({
+  repere: z.enum(['wgs84', 'local']).default('wgs84'),
+  simulation: z.enum(['true', 'false']).default('false').transform(valeur => valeur === 'true')
+})
+
+/**
+ * GET /api/jardins/[jardinId]/geojson - Exporte les zones en FeatureCollection GeoJSON
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const { searchParams } = new URL(req.url)
+    const { repere } = geoJsonQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const collection = await new GeoJsonService().exportJardin(params.jardinId, repere)
+
+    if (!collection) {
+      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    }
+
+    if (collection === 'sans_localisation') {
+      return NextResponse.json(
+        { error: 'Localisation du jardin incomplète : exportez en repère local' },
+        { status: 422 }
+      )
+    }
+
+    return new NextResponse(JSON.stringify(collection), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/geo+json',
+        'Content-Disposition': `attachment; filename="jardin-${params.jardinId}.geojson"`
+      }
+    })
+  } catch (error) {
+    console.error('Erreur lors de l\'export GeoJSON:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'export GeoJSON' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/jardins/[jardinId]/geojson - Crée ou met à jour les zones depuis une FeatureCollection
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const { searchParams } = new URL(req.url)
+    const { repere, simulation } = geoJsonQuerySchema.parse(Object.fromEntries(searchParams))
+    const body = await req.json()
+
+    // Validation de l'enveloppe ; chaque feature est validée individuellement
+    const { features } = featureCollectionImportSchema.parse(body)
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const resultat = await new GeoJsonService().importZones(params.jardinId, features, { repere, simulation })
+
+    if (resultat.statut === 'jardin_introuvable') {
+      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    }
+
+    if (resultat.statut === 'sans_localisation') {
+      return NextResponse.json(
+        { error: 'Localisation du jardin incomplète : importez en repère local' },
+        { status: 422 }
+      )
+    }
+
+    if (resultat.statut === 'invalide') {
+      return NextResponse.json(
+        { error: 'Certaines zones ne peuvent pas être importées', erreurs: resultat.erreurs },
+        { status: 422 }
+      )
+    }
+
+    if (!simulation) {
+      await logActivity({
+        userId: session.user.id,
+        action: `POST /api/jardins/${params.jardinId}/geojson`,
+        timestamp: new Date(),
+        typeEntite: 'Jardin',
+        idEntite: params.jardinId,
+        typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+        metadata: {
+          jardinId: params.jardinId,
+          repere,
+          zonesCreees: resultat.creations.length,
+          zonesMisesAJour: resultat.misesAJour.length
+        }
+      })
+    }
+
+    return NextResponse.json(
+      { simulation, creations: resultat.creations, misesAJour: resultat.misesAJour },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Erreur lors de l\'import GeoJSON:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'import GeoJSON' },
+      { status: 500 }
+    )
+  }
+}
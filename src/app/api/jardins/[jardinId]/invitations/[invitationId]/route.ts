@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+
+/**
+ * DELETE /api/jardins/[jardinId]/invitations/[invitationId] - Révoque une invitation en attente
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string; invitationId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ADMIN
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const dataService = getDataService()
+    const revoked = await dataService.membreJardin.revokeInvitation(params.jardinId, params.invitationId)
+
+    // Invitation inconnue, d'un autre jardin ou déjà acceptée
+    if (!revoked) {
+      return NextResponse.json({ error: 'Invitation non trouvée' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/jardins/${params.jardinId}/invitations/${params.invitationId}`,
+      timestamp: new Date(),
+      typeEntite: 'InvitationJardin',
+      idEntite: params.invitationId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Erreur lors de la révocation de l\'invitation:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la révocation de l\'invitation' },
+      { status: 500 }
+    )
+  }
+}
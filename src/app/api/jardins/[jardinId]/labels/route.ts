@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getAppBaseUrl } from '@/lib/config/app-url'
+import { checkJardinAccess } from '@/lib/security'
+import { composerPlanches, plancheSvg, planchesPdf } from '@/lib/etiquettes'
+import { MODELES_ETIQUETTES } from '@/lib/formats-etiquettes'
+import { CultureLabelService } from '@/lib/services/culture-label.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// format=svg : une planche à la fois (page), le nombre de planches est en en-tête
+const labelsQuerySchema = z.object({
+  format: z.enum(['pdf', 'svg']).default('pdf'),
+  modele: z.enum(MODELES_ETIQUETTES).default('avery-l7160'),
+  zoneId: z.string().optional(),
+  cultureIds: z.string().optional().transform(valeur => valeur?.split(',').filter(Boolean)),
+  inclureTerminees: z.enum(['true', 'false']).default('false').transform(valeur => valeur === 'true'),
+  exemplaires: z.coerce.number().int().min(1).max(20).default(1),
+  decalage: z.coerce.number().int().min(0).default(0),
+  page: z.coerce.number().int().min(1).default(1)
+})
+
+/**
+ * GET /api/jardins/[jardinId]/labels - Planches d'étiquettes QR des cultures, en PDF ou SVG
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const { searchParams } = new URL(req.url)
+    const query = labelsQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    // Les QR imprimés ne pointent que vers l'URL configurée, jamais vers l'hôte de la requête
+    const baseUrl = getAppBaseUrl()
+    if (!baseUrl) {
+      console.error('NEXTAUTH_URL non configurée : liens d\'étiquettes impossibles')
+      return NextResponse.json({ error: 'Service indisponible' }, { status: 503 })
+    }
+
+    const etiquettes = await new CultureLabelService().labelsForJardin(params.jardinId, query, baseUrl)
+
+    if (!etiquettes) {
+      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    }
+
+    if (etiquettes.length === 0) {
+      return NextResponse.json({ error: 'Aucune culture à étiqueter' }, { status: 404 })
+    }
+
+    const planches = composerPlanches(query.modele, etiquettes, query)
+
+    if (query.format === 'pdf') {
+      return new NextResponse(new Uint8Array(planchesPdf(query.modele, planches)), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="etiquettes-${params.jardinId}.pdf"`
+        }
+      })
+    }
+
+    if (query.page > planches.length) {
+      return NextResponse.json(
+        { error: `Planche ${query.page} inexistante (${planches.length} planche(s))` },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(plancheSvg(query.modele, planches[query.page - 1]), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/svg+xml',
+        'Content-Disposition': `attachment; filename="etiquettes-${params.jardinId}-${query.page}.svg"`,
+        'X-Total-Pages': planches.length.toString()
+      }
+    })
+  } catch (error) {
+    console.error('Erreur lors de la génération des étiquettes:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la génération des étiquettes' },
+      { status: 500 }
+    )
+  }
+}
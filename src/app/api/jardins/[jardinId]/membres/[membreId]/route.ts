@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RoleJardin } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Schema de validation pour le changement de rôle
+const updateMembreSchema = z.object({
+  role: z.nativeEnum(RoleJardin)
+})
+
+/**
+ * PATCH /api/jardins/[jardinId]/membres/[membreId] - Change le rôle d'un membre
+ */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string; membreId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ADMIN
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const body = await req.json()
+    const validatedData = updateMembreSchema.parse(body)
+
+    const dataService = getDataService()
+    const membre = await dataService.membreJardin.findById(params.membreId)
+
+    if (!membre || membre.jardinId !== params.jardinId) {
+      return NextResponse.json({ error: 'Membre non trouvé' }, { status: 404 })
+    }
+
+    const resultat = await dataService.membreJardin.updateRole(
+      params.jardinId,
+      params.membreId,
+      validatedData.role
+    )
+
+    if (resultat.statut === 'introuvable') {
+      return NextResponse.json({ error: 'Membre non trouvé' }, { status: 404 })
+    }
+
+    // Un jardin doit toujours conserver au moins un propriétaire
+    if (resultat.statut === 'dernier_proprietaire') {
+      return NextResponse.json(
+        { error: 'Le jardin doit conserver au moins un propriétaire' },
+        { status: 409 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `PATCH /api/jardins/${params.jardinId}/membres/${params.membreId}`,
+      timestamp: new Date(),
+      typeEntite: 'MembreJardin',
+      idEntite: params.membreId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId, membreId: params.membreId, role: validatedData.role }
+    })
+
+    return NextResponse.json(resultat.membre)
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour du membre:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la mise à jour du membre' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/jardins/[jardinId]/membres/[membreId] - Retire un membre du jardin
+ * Un membre peut toujours quitter un jardin lui-même.
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string; membreId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+    const membre = await dataService.membreJardin.findById(params.membreId)
+
+    if (!membre || membre.jardinId !== params.jardinId) {
+      return NextResponse.json({ error: 'Membre non trouvé' }, { status: 404 })
+    }
+
+    if (membre.utilisateurId !== session.user.id) {
+      const accessError = await checkJardinAccess(
+        session.user.id,
+        session.user.typeProfil,
+        params.jardinId,
+        Permission.ADMIN
+      )
+
+      if (accessError) {
+        return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+      }
+    }
+
+    const resultat = await dataService.membreJardin.remove(params.jardinId, params.membreId)
+
+    if (resultat.statut === 'introuvable') {
+      return NextResponse.json({ error: 'Membre non trouvé' }, { status: 404 })
+    }
+
+    if (resultat.statut === 'dernier_proprietaire') {
+      return NextResponse.json(
+        { error: 'Le jardin doit conserver au moins un propriétaire' },
+        { status: 409 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/jardins/${params.jardinId}/membres/${params.membreId}`,
+      timestamp: new Date(),
+      typeEntite: 'MembreJardin',
+      idEntite: params.membreId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId, utilisateurRetire: membre.utilisateurId }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Erreur lors du retrait du membre:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors du retrait du membre' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { InvitationJardin, RoleJardin } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { getAppBaseUrl } from '@/lib/config/app-url'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { getMailService } from '@/lib/services/mail.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Schema de validation pour une invitation
+const createInvitationSchema = z.object({
+  email: z.string().email('Email invalide'),
+  role: z.nativeEnum(RoleJardin).default(RoleJardin.JARDINIER)
+})
+
+// Le hash du token n'est jamais exposé
+function toInvitationPublique(invitation: InvitationJardin) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    invitePar: invitation.invitePar,
+    expireA: invitation.expireA,
+    creeA: invitation.creeA
+  }
+}
+
+/**
+ * GET /api/jardins/[jardinId]/membres - Liste les membres et invitations en attente
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const dataService = getDataService()
+    const [membres, invitations] = await Promise.all([
+      dataService.membreJardin.findByJardinId(params.jardinId),
+      dataService.membreJardin.findPendingInvitations(params.jardinId)
+    ])
+
+    return NextResponse.json({ membres, invitations: invitations.map(toInvitationPublique) })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des membres:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des membres' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/jardins/[jardinId]/membres - Invite un utilisateur dans le jardin
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ADMIN
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const body = await req.json()
+    const validatedData = createInvitationSchema.parse(body)
+
+    const baseUrl = getAppBaseUrl()
+    if (!baseUrl) {
+      console.error('NEXTAUTH_URL non configurée : lien d\'invitation impossible')
+      return NextResponse.json({ error: 'Service indisponible' }, { status: 503 })
+    }
+
+    const dataService = getDataService()
+    const jardin = await dataService.jardin.findById(params.jardinId)
+    if (!jardin) {
+      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    }
+
+    const { invitation, token } = await dataService.membreJardin.createInvitation({
+      jardinId: params.jardinId,
+      email: validatedData.email,
+      role: validatedData.role,
+      invitePar: session.user.id
+    })
+
+    const lien = `${baseUrl}/invitations/${encodeURIComponent(token)}`
+
+    // Le lien reste renvoyé à l'administrateur : il peut le transmettre si l'email n'arrive pas
+    let emailEnvoye = true
+    try {
+      await getMailService().sendGardenInvitation(invitation.email, jardin.nom, lien, invitation.expireA)
+    } catch (error) {
+      console.error('Erreur lors de l\'envoi de l\'invitation par email:', error)
+      emailEnvoye = false
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/jardins/${params.jardinId}/membres`,
+      timestamp: new Date(),
+      typeEntite: 'InvitationJardin',
+      idEntite: invitation.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId, email: invitation.email, role: invitation.role }
+    })
+
+    return NextResponse.json({
+      invitation: toInvitationPublique(invitation),
+      token,
+      lien,
+      emailEnvoye
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la création de l\'invitation:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la création de l\'invitation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+
+/**
+ * POST /api/jardins/[jardinId]/restore - Restaure un jardin archivé
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    // Mêmes droits que pour l'archivage
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ADMIN
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const jardin = await dataService.jardin.restore(params.jardinId)
+    if (!jardin) {
+      return NextResponse.json({ error: 'Jardin non archivé' }, { status: 409 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/jardins/${params.jardinId}/restore`,
+      timestamp: new Date(),
+      typeEntite: 'Jardin',
+      idEntite: params.jardinId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId }
+    })
+
+    return NextResponse.json({ jardin }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la restauration du jardin:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la restauration du jardin' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { ArchiveService } from '@/lib/services/archive.service'
+import { Permission } from '@/types/auth'
 import { z } from 'zod'
 
 // Schema de validation pour mise à jour de jardin
@@ -43,12 +46,16 @@ export async function GET(
 
     const dataService = getDataService()
     
-    // Vérifier que le jardin appartient à l'utilisateur
-    const jardins = await dataService.jardin.findByUserId(session.user.id)
-    const jardinExists = jardins.some(j => j.id === params.jardinId)
+    // Vérifier que l'utilisateur est membre du jardin
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.LECTURE
+    )
     
-    if (!jardinExists) {
-      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
     }
 
     let jardin
@@ -93,12 +100,16 @@ export async function PATCH(
 
     const dataService = getDataService()
     
-    // Vérifier que le jardin appartient à l'utilisateur
-    const jardins = await dataService.jardin.findByUserId(session.user.id)
-    const jardinExists = jardins.some(j => j.id === params.jardinId)
+    // Vérifier que l'utilisateur peut modifier le jardin
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ECRITURE
+    )
     
-    if (!jardinExists) {
-      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
     }
 
     const jardin = await dataService.jardin.update({
@@ -106,6 +117,16 @@ export async function PATCH(
       ...validatedData
     })
 
+    await logActivity({
+      userId: session.user.id,
+      action: `PATCH /api/jardins/${params.jardinId}`,
+      timestamp: new Date(),
+      typeEntite: 'Jardin',
+      idEntite: params.jardinId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId, champs: Object.keys(validatedData) }
+    })
+
     return NextResponse.json({ jardin }, { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la mise à jour du jardin:', error)
@@ -125,7 +146,7 @@ export async function PATCH(
 }
 
 /**
- * DELETE /api/jardins/[jardinId] - Supprime un jardin
+ * DELETE /api/jardins/[jardinId] - Archive un jardin (restaurable jusqu'à la purge)
  */
 export async function DELETE(
   req: NextRequest,
@@ -140,21 +161,46 @@ export async function DELETE(
     const params = await context.params
     const dataService = getDataService()
     
-    // Vérifier que le jardin appartient à l'utilisateur
-    const jardins = await dataService.jardin.findByUserId(session.user.id)
-    const jardinExists = jardins.some(j => j.id === params.jardinId)
+    // Seuls les membres avec droit d'administration peuvent supprimer le jardin
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ADMIN
+    )
     
-    if (!jardinExists) {
-      return NextResponse.json({ error: 'Jardin non trouvé' }, { status: 404 })
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
     }
 
-    await dataService.jardin.delete(params.jardinId)
+    // Archivage : l'historique reste disponible jusqu'à la purge
+    const jardin = await dataService.jardin.archive(params.jardinId)
+    if (!jardin) {
+      return NextResponse.json({ error: 'Jardin déjà archivé' }, { status: 409 })
+    }
 
-    return NextResponse.json({ message: 'Jardin supprimé avec succès' }, { status: 200 })
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/jardins/${params.jardinId}`,
+      timestamp: new Date(),
+      typeEntite: 'Jardin',
+      idEntite: params.jardinId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: params.jardinId, archive: true }
+    })
+
+    return NextResponse.json(
+      {
+        message: 'Jardin archivé avec succès',
+        jardin,
+        purgePrevueA: ArchiveService.getPurgeDate(jardin.archiveA!)
+      },
+      { status: 200 }
+    )
   } catch (error) {
-    console.error('Erreur lors de la suppression du jardin:', error)
+    console.error('Erreur lors de l\'archivage du jardin:', error)
     return NextResponse.json(
-      { error: 'Erreur serveur lors de la suppression du jardin' },
+      { error: 'Erreur serveur lors de l\'archivage du jardin' },
       { status: 500 }
     )
   }
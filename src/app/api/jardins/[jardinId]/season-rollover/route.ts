@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { SeasonRolloverService } from '@/lib/services/season-rollover.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Les violations de rotation doivent être acceptées explicitement
+const rolloverSchema = z.object({
+  ignorerRotation: z.boolean().default(false)
+})
+
+/**
+ * GET /api/jardins/[jardinId]/season-rollover - Aperçu du passage à la saison suivante
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const apercu = await new SeasonRolloverService().previewRollover(params.jardinId)
+
+    return NextResponse.json({ apercu }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de l\'aperçu de la nouvelle saison:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'aperçu de la nouvelle saison' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/jardins/[jardinId]/season-rollover - Passe le jardin à la saison suivante
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ jardinId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const body = await req.json()
+
+    // Validation des données
+    const { ignorerRotation } = rolloverSchema.parse(body)
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      params.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const resultat = await new SeasonRolloverService().rollover(params.jardinId, session.user.id, { ignorerRotation })
+
+    if (resultat.statut === 'saison_existante') {
+      return NextResponse.json(
+        { error: 'La saison suivante existe déjà', planId: resultat.planId },
+        { status: 409 }
+      )
+    }
+
+    if (resultat.statut === 'rotation') {
+      return NextResponse.json(
+        { error: 'Rotation des cultures non respectée', violationsRotation: resultat.violationsRotation },
+        { status: 409 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/jardins/${params.jardinId}/season-rollover`,
+      timestamp: new Date(),
+      typeEntite: 'PlanPlantation',
+      idEntite: resultat.plan?.id ?? params.jardinId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: {
+        jardinId: params.jardinId,
+        anneeCible: resultat.apercu.anneeCible,
+        violationsRotationIgnorees: resultat.apercu.violationsRotation.length,
+        culturesArchivees: resultat.apercu.culturesAArchiver.length,
+        culturesFermees: resultat.apercu.culturesAFermer.length
+      }
+    })
+
+    return NextResponse.json(
+      {
+        plan: resultat.plan,
+        apercu: resultat.apercu,
+        vivacesNonReconduites: resultat.vivacesNonReconduites
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Erreur lors du passage à la nouvelle saison:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors du passage à la nouvelle saison' },
+      { status: 500 }
+    )
+  }
+}
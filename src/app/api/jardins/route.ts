@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { getDataService } from '@/lib/config/database'
+import { configAmenagementSchema } from '@/lib/layout-templates'
+import { LayoutTemplateService } from '@/lib/services/layout-template.service'
+import { ArchiveService } from '@/lib/services/archive.service'
 import { z } from 'zod'
 
 // Schema de validation pour création de jardin
@@ -22,18 +25,7 @@ const createJardinSchema = z.object({
   typeSol: z.enum(['ARGILE', 'SABLE', 'LIMON', 'LIMON_FIN', 'TOURBE', 'CALCAIRE']),
   phSol: z.number().min(0).max(14).optional(),
   sourceEau: z.enum(['ROBINET', 'PUITS', 'EAU_PLUIE', 'MIXTE']),
-  configAmenagement: z.object({
-    type: z.literal('structure'),
-    contenants: z.array(z.object({
-      id: z.string(),
-      longueur_m: z.number().positive(),
-      largeur_m: z.number().positive(),
-      position: z.object({
-        x: z.number(),
-        y: z.number()
-      })
-    }))
-  })
+  configAmenagement: configAmenagementSchema
 })
 
 /**
@@ -49,11 +41,19 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url)
     const withActivity = searchParams.get('withActivity') === 'true'
     const withStats = searchParams.get('withStats') === 'true'
+    const archives = searchParams.get('archives') === 'true'
 
     const dataService = getDataService()
 
     let jardins
-    if (withActivity) {
+    if (archives) {
+      // Jardins restaurables, avec leur date de purge
+      const jardinsArchives = await dataService.jardin.findArchivedByUserId(session.user.id)
+      jardins = jardinsArchives.map(jardin => ({
+        ...jardin,
+        purgePrevueA: jardin.archiveA ? ArchiveService.getPurgeDate(jardin.archiveA) : null
+      }))
+    } else if (withActivity) {
       jardins = await dataService.jardin.findByUserIdWithActivity(session.user.id)
     } else if (withStats) {
       const jardinsBasiques = await dataService.jardin.findByUserId(session.user.id)
@@ -89,10 +89,18 @@ export async function POST(req: NextRequest) {
     // Validation des données
     const validatedData = createJardinSchema.parse(body)
 
+    const layoutTemplateService = new LayoutTemplateService()
+    const zones = await layoutTemplateService.resolveZones(session.user.id, validatedData.configAmenagement)
+
+    if (!zones) {
+      return NextResponse.json({ error: 'Modèle d\'aménagement introuvable' }, { status: 404 })
+    }
+
     const dataService = getDataService()
     const jardin = await dataService.jardin.create({
       ...validatedData,
-      proprietaireId: session.user.id
+      proprietaireId: session.user.id,
+      zones
     })
 
     return NextResponse.json({ jardin }, { status: 201 })
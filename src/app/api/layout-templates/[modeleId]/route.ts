@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { LayoutTemplateService } from '@/lib/services/layout-template.service'
+
+/**
+ * DELETE /api/layout-templates/[modeleId] - Supprime un modèle personnel
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ modeleId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const { modeleId } = await context.params
+    const supprime = await new LayoutTemplateService().deleteTemplate(session.user.id, modeleId)
+
+    if (!supprime) {
+      return NextResponse.json({ error: 'Modèle d\'aménagement non trouvé' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/layout-templates/${modeleId}`,
+      timestamp: new Date(),
+      typeEntite: 'ModeleAmenagement',
+      idEntite: modeleId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent'))
+    })
+
+    return NextResponse.json({ message: 'Modèle supprimé' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la suppression du modèle d\'aménagement:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la suppression du modèle d\'aménagement' },
+      { status: 500 }
+    )
+  }
+}
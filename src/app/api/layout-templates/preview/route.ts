@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { reglagesZonesSchema } from '@/lib/layout-templates'
+import { LayoutTemplateService } from '@/lib/services/layout-template.service'
+import { z } from 'zod'
+
+const previewSchema = z.object({
+  modeleId: z.string().min(1, 'Modèle requis'),
+  parametres: z.record(z.string(), z.number()).default({}),
+  reglages: reglagesZonesSchema.default({})
+})
+
+/**
+ * POST /api/layout-templates/preview - Zones générées par un modèle, sans rien créer
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { modeleId, parametres, reglages } = previewSchema.parse(body)
+
+    const apercu = await new LayoutTemplateService().previewTemplate(
+      session.user.id,
+      modeleId,
+      parametres,
+      reglages
+    )
+
+    if (!apercu) {
+      return NextResponse.json({ error: 'Modèle d\'aménagement introuvable' }, { status: 404 })
+    }
+
+    return NextResponse.json({ apercu }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de l\'aperçu du modèle d\'aménagement:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'aperçu du modèle d\'aménagement' },
+      { status: 500 }
+    )
+  }
+}
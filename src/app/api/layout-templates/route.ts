@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { LayoutTemplateService } from '@/lib/services/layout-template.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Schema de validation pour enregistrer l'aménagement d'un jardin comme modèle
+const saveTemplateSchema = z.object({
+  jardinId: z.string().min(1, 'ID jardin requis'),
+  nom: z.string().min(1, 'Le nom est requis').max(100, 'Nom trop long'),
+  description: z.string().max(500, 'Description trop longue').optional()
+})
+
+/**
+ * GET /api/layout-templates - Modèles prédéfinis et personnels
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const modeles = await new LayoutTemplateService().listTemplates(session.user.id)
+
+    return NextResponse.json({ modeles }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des modèles d\'aménagement:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des modèles d\'aménagement' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/layout-templates - Enregistre l'aménagement d'un jardin comme modèle personnel
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const validatedData = saveTemplateSchema.parse(body)
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      validatedData.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const resultat = await new LayoutTemplateService().saveFromJardin(
+      session.user.id,
+      validatedData.jardinId,
+      { nom: validatedData.nom, description: validatedData.description }
+    )
+
+    if (!resultat) {
+      return NextResponse.json(
+        { error: 'Aucune zone avec un contour à enregistrer dans ce jardin' },
+        { status: 422 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/layout-templates',
+      timestamp: new Date(),
+      typeEntite: 'ModeleAmenagement',
+      idEntite: resultat.modele.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: validatedData.jardinId, zonesIgnorees: resultat.zonesIgnorees }
+    })
+
+    return NextResponse.json(resultat, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de l\'enregistrement du modèle d\'aménagement:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'enregistrement du modèle d\'aménagement' },
+      { status: 500 }
+    )
+  }
+}
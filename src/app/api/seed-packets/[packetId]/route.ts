@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { SeedInventoryService } from '@/lib/services/seed-inventory.service'
+import { z } from 'zod'
+
+// Schema de validation pour mise à jour d'un sachet (la variété ne change pas)
+const updateSachetSchema = z.object({
+  fournisseur: z.string().max(200, 'Fournisseur trop long').optional(),
+  numeroLot: z.string().max(100, 'Numéro de lot trop long').optional(),
+  dateAchat: z.coerce.date().refine(date => date.getTime() <= Date.now(), 'Date dans le futur').optional(),
+  anneeProduction: z.number().int().min(1950).max(new Date().getFullYear() + 1).optional(),
+  dateExpiration: z.coerce.date().optional(),
+  quantiteInitiale: z.number().int().min(1, 'Quantité positive requise').max(1_000_000).optional(),
+  quantiteRestante: z.number().int().min(0).optional(),
+  seuilAlerte: z.number().int().min(0).optional(),
+  notes: z.string().max(1000, 'Notes trop longues').optional()
+})
+
+/**
+ * PATCH /api/seed-packets/[packetId] - Met à jour un sachet (inventaire, dates)
+ */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ packetId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const { packetId } = await context.params
+    const body = await req.json()
+    const validatedData = updateSachetSchema.parse(body)
+
+    const resultat = await new SeedInventoryService().updateSachet(session.user.id, packetId, validatedData)
+
+    if (!resultat) {
+      return NextResponse.json({ error: 'Sachet non trouvé' }, { status: 404 })
+    }
+
+    if (resultat.statut === 'quantite_invalide') {
+      return NextResponse.json(
+        { error: 'Le reste ne peut dépasser la quantité initiale' },
+        { status: 400 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `PATCH /api/seed-packets/${packetId}`,
+      timestamp: new Date(),
+      typeEntite: 'SachetGraines',
+      idEntite: packetId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { champs: Object.keys(validatedData) }
+    })
+
+    return NextResponse.json({ sachet: resultat.sachet }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour du sachet de graines:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la mise à jour du sachet de graines' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/seed-packets/[packetId] - Retire un sachet du stock
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ packetId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const { packetId } = await context.params
+    const supprime = await new SeedInventoryService().deleteSachet(session.user.id, packetId)
+
+    if (!supprime) {
+      return NextResponse.json({ error: 'Sachet non trouvé' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/seed-packets/${packetId}`,
+      timestamp: new Date(),
+      typeEntite: 'SachetGraines',
+      idEntite: packetId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent'))
+    })
+
+    return NextResponse.json({ message: 'Sachet supprimé' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la suppression du sachet de graines:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la suppression du sachet de graines' },
+      { status: 500 }
+    )
+  }
+}
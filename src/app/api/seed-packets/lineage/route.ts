@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { SeedLineageService } from '@/lib/services/seed-lineage.service'
+import { z } from 'zod'
+
+const lineageSchema = z.object({
+  varietyId: z.string().min(1, 'ID variété requis')
+})
+
+/**
+ * GET /api/seed-packets/lineage?varietyId= - Arbre des lots de graines et des cultures
+ * d'une variété, avec le rendement et le goût génération après génération
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const { varietyId } = lineageSchema.parse(Object.fromEntries(searchParams))
+
+    const lignee = await new SeedLineageService().getLineage(session.user.id, varietyId)
+    if (!lignee) {
+      return NextResponse.json({ error: 'Variété non trouvée' }, { status: 404 })
+    }
+
+    return NextResponse.json({ lignee }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération de la lignée des graines:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération de la lignée des graines' },
+      { status: 500 }
+    )
+  }
+}
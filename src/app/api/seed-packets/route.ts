@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { SeedInventoryService } from '@/lib/services/seed-inventory.service'
+import { z } from 'zod'
+
+// Schema de validation pour un sachet de graines
+const createSachetSchema = z.object({
+  varieteBaseId: z.string().min(1, 'ID variété requis'),
+  fournisseur: z.string().max(200, 'Fournisseur trop long').optional(),
+  numeroLot: z.string().max(100, 'Numéro de lot trop long').optional(),
+  dateAchat: z.coerce.date().refine(date => date.getTime() <= Date.now(), 'Date dans le futur').optional(),
+  anneeProduction: z.number().int().min(1950).max(new Date().getFullYear() + 1).optional(),
+  dateExpiration: z.coerce.date().optional(),
+  quantiteInitiale: z.number().int().min(1, 'Quantité positive requise').max(1_000_000),
+  quantiteRestante: z.number().int().min(0).optional(),
+  seuilAlerte: z.number().int().min(0).optional(),
+  notes: z.string().max(1000, 'Notes trop longues').optional()
+}).refine(
+  sachet => sachet.quantiteRestante === undefined || sachet.quantiteRestante <= sachet.quantiteInitiale,
+  'Le reste ne peut dépasser la quantité initiale'
+)
+
+// Filtres de la liste des sachets
+const listSachetsSchema = z.object({
+  varietyId: z.string().optional(),
+  inclureEpuises: z.enum(['true', 'false']).optional()
+})
+
+/**
+ * GET /api/seed-packets - Sachets de graines de l'utilisateur avec leur viabilité
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const filtres = listSachetsSchema.parse(Object.fromEntries(searchParams))
+
+    const sachets = await new SeedInventoryService().listSachets(session.user.id, {
+      varieteBaseId: filtres.varietyId,
+      inclureEpuises: filtres.inclureEpuises === 'true'
+    })
+
+    return NextResponse.json({ sachets }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des sachets de graines:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des sachets de graines' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/seed-packets - Ajoute un sachet au stock
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const validatedData = createSachetSchema.parse(body)
+
+    const sachet = await new SeedInventoryService().createSachet(session.user.id, validatedData)
+    if (!sachet) {
+      return NextResponse.json({ error: 'Variété non trouvée' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/seed-packets',
+      timestamp: new Date(),
+      typeEntite: 'SachetGraines',
+      idEntite: sachet.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { varieteBaseId: validatedData.varieteBaseId }
+    })
+
+    return NextResponse.json({ sachet }, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de l\'ajout du sachet de graines:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'ajout du sachet de graines' },
+      { status: 500 }
+    )
+  }
+}
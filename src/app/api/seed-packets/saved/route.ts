@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { SeedLineageService } from '@/lib/services/seed-lineage.service'
+import { z } from 'zod'
+
+// Schema de validation pour des graines récoltées sur une culture
+const saveSeedsSchema = z.object({
+  cultureId: z.string().min(1, 'ID culture requis'),
+  quantiteInitiale: z.number().int().min(1, 'Quantité positive requise').max(1_000_000),
+  anneeProduction: z.number().int().min(1950).max(new Date().getFullYear() + 1).optional(),
+  numeroLot: z.string().max(100, 'Numéro de lot trop long').optional(),
+  seuilAlerte: z.number().int().min(0).optional(),
+  notes: z.string().max(1000, 'Notes trop longues').optional()
+})
+
+/**
+ * POST /api/seed-packets/saved - Ajoute au stock les graines sauvées d'une culture
+ * Le sachet créé est de la génération suivant celle du lot dont la culture est issue.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const { cultureId, ...validatedData } = saveSeedsSchema.parse(body)
+
+    const sachet = await new SeedLineageService().saveSeeds(session.user.id, cultureId, validatedData)
+    if (!sachet) {
+      return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/seed-packets/saved',
+      timestamp: new Date(),
+      typeEntite: 'SachetGraines',
+      idEntite: sachet.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { cultureId, generation: sachet.generation }
+    })
+
+    return NextResponse.json({ sachet }, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de l\'enregistrement des graines récoltées:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'enregistrement des graines récoltées' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { SeedInventoryService } from '@/lib/services/seed-inventory.service'
+
+/**
+ * GET /api/seed-packets/stock - Stock de graines par variété, avec alertes
+ * (stock bas, épuisé, sachets périmés ou de germination incertaine)
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const stock = await new SeedInventoryService().getStock(session.user.id)
+
+    return NextResponse.json({ stock }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération du stock de graines:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération du stock de graines' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,7 +6,7 @@ export async function GET(request: NextRequest) {
   try {
     const token = await getToken({ req: request });
     
-    if (!token?.sub) {
+    if (!token?.sub || token.deuxFacteursEnAttente) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
     
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+
+/**
+ * DELETE /api/tokens/[tokenId] - Révoque un token personnel
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const tokenApi = await dataService.tokenApi.revoke(session.user.id, params.tokenId)
+
+    if (!tokenApi) {
+      return NextResponse.json({ error: 'Token non trouvé' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/tokens/${params.tokenId}`,
+      timestamp: new Date(),
+      typeEntite: 'TokenApi',
+      idEntite: tokenApi.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { tokenId: tokenApi.id }
+    })
+
+    return NextResponse.json({ tokenApi }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la révocation du token:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la révocation du token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeRessource } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { z } from 'zod'
+
+const DUREE_VALIDITE_MAX_JOURS = 365
+
+// Schema de validation pour création de token personnel
+const createTokenSchema = z.object({
+  nom: z.string().min(1, 'Le nom est requis').max(100, 'Nom trop long'),
+  scopes: z.array(z.nativeEnum(TypeRessource)).min(1, 'Au moins un scope requis'),
+  expireDansJours: z.number().int().min(1).max(DUREE_VALIDITE_MAX_JOURS).default(90)
+})
+
+/**
+ * GET /api/tokens - Liste les tokens personnels de l'utilisateur
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const dataService = getDataService()
+    const tokens = await dataService.tokenApi.findByUserId(session.user.id)
+
+    return NextResponse.json({ tokens }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des tokens:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des tokens' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/tokens - Crée un token personnel
+ * La gestion des tokens exige une session : un token ne peut pas en créer d'autres.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const validatedData = createTokenSchema.parse(body)
+
+    const dataService = getDataService()
+    const { tokenApi, token } = await dataService.tokenApi.createToken({
+      utilisateurId: session.user.id,
+      nom: validatedData.nom,
+      scopes: Array.from(new Set(validatedData.scopes)),
+      expireA: new Date(Date.now() + validatedData.expireDansJours * 24 * 60 * 60 * 1000)
+    })
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/tokens',
+      timestamp: new Date(),
+      typeEntite: 'TokenApi',
+      idEntite: tokenApi.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { tokenId: tokenApi.id, scopes: tokenApi.scopes, expireA: tokenApi.expireA }
+    })
+
+    // Le token en clair n'est retourné qu'à la création
+    return NextResponse.json({ tokenApi, token }, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de la création du token:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la création du token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { CompanionPlantingService } from '@/lib/services/companion-planting.service'
+
+/**
+ * GET /api/varieties/[id]/companions - Plantes compagnes et incompatibles,
+ * résolues vers les variétés du catalogue ou une famille
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { id: varietyId } = await params
+    const liens = await new CompanionPlantingService().getCompanions(varietyId)
+
+    if (!liens) {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété non trouvée'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: liens
+    })
+
+  } catch (error) {
+    console.error('Erreur API GET /varieties/[id]/companions:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur lors de la récupération des associations'
+    }, { status: 500 })
+  }
+}
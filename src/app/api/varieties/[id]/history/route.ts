@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { holdsAdminPermission } from '@/lib/security'
+import { VarietyContributionService } from '@/lib/services/variety-contribution.service'
+
+/**
+ * GET /api/varieties/[id]/history - Attribution (auteur, relecteur) et historique des versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { id: varietyId } = await params
+    const estRelecteur = await holdsAdminPermission(session.user.id, session.user.typeProfil)
+    const historique = await new VarietyContributionService().getHistory(varietyId, session.user.id, estRelecteur)
+
+    if (!historique) {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété non trouvée'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: historique
+    })
+
+  } catch (error) {
+    console.error('Erreur API GET /varieties/[id]/history:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur lors de la récupération de l\'historique'
+    }, { status: 500 })
+  }
+}
@@ -4,6 +4,7 @@ import { auth } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { CacheService } from '@/lib/cache/cache.service'
 import { VarietyManagementService } from '@/lib/services/variety-management.service'
+import { catalogueVisible } from '@/lib/repositories/variety.repository'
 import { z } from 'zod'
 
 const prisma = new PrismaClient()
@@ -80,9 +81,9 @@ export async function POST(
     // Validation
     const validatedData = personalizeSchema.parse(body)
 
-    // Vérifier que la variété base existe
-    const baseVariety = await prisma.varieteCulture.findUnique({
-      where: { id: varietyId }
+    // Vérifier que la variété base existe et est visible (publiée ou contribution de l'utilisateur)
+    const baseVariety = await prisma.varieteCulture.findFirst({
+      where: { AND: [{ id: varietyId }, catalogueVisible(session.user.id)] }
     })
 
     if (!baseVariety) {
@@ -169,8 +170,8 @@ export async function GET(
 
     if (!userVariety) {
       // Retourner variété de base avec personnalisation vide
-      const baseVariety = await prisma.varieteCulture.findUnique({
-        where: { id: varietyId }
+      const baseVariety = await prisma.varieteCulture.findFirst({
+        where: { AND: [{ id: varietyId }, catalogueVisible(session.user.id)] }
       })
 
       if (!baseVariety) {
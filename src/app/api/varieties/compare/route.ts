@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  VARIETES_COMPARABLES_MAX,
+  VARIETES_COMPARABLES_MIN,
+  VarietyComparisonService
+} from '@/lib/services/variety-comparison.service'
+import { z } from 'zod'
+
+const compareSchema = z.object({
+  ids: z.string()
+    .transform(valeur => valeur.split(',').map(id => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string())
+      .min(VARIETES_COMPARABLES_MIN)
+      .max(VARIETES_COMPARABLES_MAX)
+      .refine(ids => new Set(ids).size === ids.length, 'Variétés en double'))
+})
+
+/**
+ * GET /api/varieties/compare?ids=a,b,c - Comparaison côte à côte de 2 à 5 variétés
+ * Données de base alignées, performance personnelle et usage communautaire,
+ * avec pour chaque critère les variétés qui offrent la meilleure valeur.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { ids } = compareSchema.parse({ ids: searchParams.get('ids') ?? '' })
+
+    const resultat = await new VarietyComparisonService().compare(session.user.id, ids)
+
+    if (resultat.statut === 'introuvables') {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété non trouvée',
+        details: { ids: resultat.ids }
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: resultat.comparaison
+    })
+
+  } catch (error) {
+    console.error('Erreur API GET /varieties/compare:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Paramètres invalides',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { varieteCatalogueSchema } from '@/lib/catalogue-varietes'
+import { VarietyContributionService } from '@/lib/services/variety-contribution.service'
+import { z } from 'zod'
+
+/**
+ * PUT /api/varieties/contributions/[id] - Remplacer le contenu d'un brouillon ou d'une contribution refusée
+ * Crée une nouvelle version ; une contribution refusée repasse en brouillon.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { id: varietyId } = await params
+    const body = await request.json()
+    const donnees = varieteCatalogueSchema.parse(body)
+
+    const resultat = await new VarietyContributionService().updateDraft(session.user.id, varietyId, donnees)
+
+    if (resultat.statut === 'introuvable') {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété non trouvée'
+      }, { status: 404 })
+    }
+
+    if (resultat.statut === 'non_modifiable') {
+      return NextResponse.json({
+        success: false,
+        error: 'Contribution en cours de relecture ou déjà publiée',
+        statutModeration: resultat.statutModeration
+      }, { status: 409 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `PUT /api/varieties/contributions/${varietyId}`,
+      timestamp: new Date(),
+      typeEntite: 'VarieteCulture',
+      idEntite: varietyId,
+      typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+      metadata: { version: resultat.variete.version },
+      typeActivite: TypeActivite.MISE_A_JOUR
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: resultat.variete
+    })
+
+  } catch (error) {
+    console.error('Erreur API PUT /varieties/contributions/[id]:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Données invalides',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/varieties/contributions/[id] - Supprimer un brouillon ou une contribution refusée
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { id: varietyId } = await params
+    const resultat = await new VarietyContributionService().deleteDraft(session.user.id, varietyId)
+
+    if (resultat.statut === 'introuvable') {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété non trouvée'
+      }, { status: 404 })
+    }
+
+    if (resultat.statut === 'non_modifiable') {
+      return NextResponse.json({
+        success: false,
+        error: 'Contribution en cours de relecture ou déjà publiée',
+        statutModeration: resultat.statutModeration
+      }, { status: 409 })
+    }
+
+    if (resultat.statut === 'utilisee') {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété utilisée par une culture ou une personnalisation'
+      }, { status: 409 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/varieties/contributions/${varietyId}`,
+      timestamp: new Date(),
+      typeEntite: 'VarieteCulture',
+      idEntite: varietyId,
+      typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+      typeActivite: TypeActivite.SUPPRESSION
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Contribution supprimée'
+    })
+
+  } catch (error) {
+    console.error('Erreur API DELETE /varieties/contributions/[id]:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { VarietyContributionService } from '@/lib/services/variety-contribution.service'
+
+/**
+ * POST /api/varieties/contributions/[id]/submit - Soumettre une contribution à la relecture
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { id: varietyId } = await params
+    const resultat = await new VarietyContributionService().submit(session.user.id, varietyId)
+
+    if (resultat.statut === 'introuvable') {
+      return NextResponse.json({
+        success: false,
+        error: 'Variété non trouvée'
+      }, { status: 404 })
+    }
+
+    if (resultat.statut === 'non_modifiable') {
+      return NextResponse.json({
+        success: false,
+        error: 'Contribution déjà soumise ou publiée',
+        statutModeration: resultat.statutModeration
+      }, { status: 409 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/varieties/contributions/${varietyId}/submit`,
+      timestamp: new Date(),
+      typeEntite: 'VarieteCulture',
+      idEntite: varietyId,
+      typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+      metadata: { version: resultat.variete.version },
+      typeActivite: TypeActivite.MISE_A_JOUR
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: resultat.variete,
+      message: 'Contribution soumise à la relecture'
+    })
+
+  } catch (error) {
+    console.error('Erreur API POST /varieties/contributions/[id]/submit:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
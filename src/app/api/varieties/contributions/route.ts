@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite, TypeProfil } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { varieteCatalogueSchema } from '@/lib/catalogue-varietes'
+import { VarietyContributionService } from '@/lib/services/variety-contribution.service'
+import { z } from 'zod'
+
+/**
+ * GET /api/varieties/contributions - Variétés proposées par l'utilisateur, tous statuts confondus
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const contributions = await new VarietyContributionService().listContributions(session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: contributions
+    })
+
+  } catch (error) {
+    console.error('Erreur API GET /varieties/contributions:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/varieties/contributions - Proposer une variété (brouillon privé)
+ * Elle ne rejoint le catalogue partagé qu'après soumission et approbation.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    if (session.user.typeProfil === TypeProfil.READER) {
+      return NextResponse.json({
+        success: false,
+        error: 'Permissions insuffisantes'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const donnees = varieteCatalogueSchema.parse(body)
+
+    const variete = await new VarietyContributionService().createDraft(session.user.id, donnees)
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/varieties/contributions',
+      timestamp: new Date(),
+      typeEntite: 'VarieteCulture',
+      idEntite: variete.id,
+      typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+      metadata: { nomCommun: variete.nomCommun },
+      typeActivite: TypeActivite.CREATION
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: variete,
+      message: 'Brouillon de variété créé'
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Erreur API POST /varieties/contributions:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Données invalides',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
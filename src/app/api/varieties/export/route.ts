@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { catalogueVersCsv } from '@/lib/catalogue-varietes'
+import { VarietyExchangeService } from '@/lib/services/variety-exchange.service'
+import { z } from 'zod'
+
+const exportSchema = z.object({
+  format: z.enum(['csv', 'json']).default('json'),
+  perso: z.enum(['true', 'false']).default('false').transform(valeur => valeur === 'true')
+})
+
+/**
+ * GET /api/varieties/export - Export du catalogue de variétés
+ * ?format=csv|json, ?perso=true pour ne garder que les variétés créées par l'utilisateur.
+ * Le fichier produit est réimportable tel quel via POST /api/varieties/import.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { format, perso } = exportSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const varietes = await new VarietyExchangeService().exportCatalogue({
+      creeParId: perso ? session.user.id : undefined
+    })
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'GET /api/varieties/export',
+      timestamp: new Date(),
+      typeActivite: TypeActivite.EXPORT,
+      typeEntite: 'VarieteCulture',
+      typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+      metadata: { format, perso, lignes: varietes.length }
+    })
+
+    const date = new Date().toISOString().slice(0, 10)
+
+    if (format === 'csv') {
+      return new NextResponse(catalogueVersCsv(varietes), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="catalogue-varietes-${date}.csv"`
+        }
+      })
+    }
+
+    return new NextResponse(JSON.stringify({ version: 1, exporteA: new Date().toISOString(), varietes }, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="catalogue-varietes-${date}.json"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Erreur API GET /varieties/export:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Paramètres invalides',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient, TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { CacheService } from '@/lib/cache/cache.service'
+import { detectTypeAppareil, logActivity } from '@/lib/security'
+import { csvVersLignes, LIGNES_IMPORT_MAX } from '@/lib/catalogue-varietes'
+import { VarietyExchangeService } from '@/lib/services/variety-exchange.service'
+import { z } from 'zod'
+
+const prisma = new PrismaClient()
+const cache = new CacheService({
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  keyPrefix: 'bas-malin:varieties:'
+})
+
+const importSchema = z.object({
+  format: z.enum(['csv', 'json']).default('json'),
+  simulation: z.enum(['true', 'false']).default('false').transform(valeur => valeur === 'true')
+})
+
+/**
+ * POST /api/varieties/import - Import d'un catalogue de variétés (EXPERT uniquement)
+ * Corps : fichier CSV (?format=csv) ou JSON, tableau ou export { varietes }.
+ * ?simulation=true retourne le rapport (créations, mises à jour, lignes ignorées) sans rien écrire.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id }
+    })
+
+    if (user?.typeProfil !== 'EXPERT') {
+      return NextResponse.json({
+        success: false,
+        error: 'Permissions insuffisantes - profil EXPERT requis'
+      }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { format, simulation } = importSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    let lignes: unknown[]
+    if (format === 'csv') {
+      const resultat = csvVersLignes(await request.text())
+      if ('colonnesManquantes' in resultat) {
+        return NextResponse.json({
+          success: false,
+          error: `Colonnes obligatoires manquantes : ${resultat.colonnesManquantes.join(', ')}`
+        }, { status: 400 })
+      }
+      lignes = resultat.lignes
+    } else {
+      const body = await request.json().catch(() => null)
+      const contenu = Array.isArray(body) ? body : (body as { varietes?: unknown } | null)?.varietes
+      if (!Array.isArray(contenu)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Format JSON attendu : tableau de variétés ou objet { varietes }'
+        }, { status: 400 })
+      }
+      lignes = contenu
+    }
+
+    if (lignes.length > LIGNES_IMPORT_MAX) {
+      return NextResponse.json({
+        success: false,
+        error: `Fichier trop volumineux (${LIGNES_IMPORT_MAX} variétés maximum)`
+      }, { status: 413 })
+    }
+
+    const resultat = await new VarietyExchangeService().importCatalogue(session.user.id, lignes, { simulation })
+
+    if (resultat.statut === 'invalide') {
+      return NextResponse.json({
+        success: false,
+        error: 'Lignes invalides, aucune variété importée',
+        erreurs: resultat.erreurs
+      }, { status: 422 })
+    }
+
+    if (!simulation) {
+      await cache.invalidatePattern('*searchVarieties*')
+
+      await logActivity({
+        userId: session.user.id,
+        action: 'POST /api/varieties/import',
+        timestamp: new Date(),
+        typeEntite: 'VarieteCulture',
+        typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+        metadata: {
+          format,
+          creations: resultat.creations.length,
+          misesAJour: resultat.misesAJour.length,
+          ignorees: resultat.ignorees.length
+        },
+        typeActivite: TypeActivite.CREATION
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { simulation, ...resultat }
+    })
+
+  } catch (error) {
+    console.error('Erreur API POST /varieties/import:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Paramètres invalides',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TypeActivite } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { CacheService } from '@/lib/cache/cache.service'
+import { detectTypeAppareil, holdsAdminPermission, isTwoFactorEnrolmentRequired, logActivity } from '@/lib/security'
+import { VarietyContributionService } from '@/lib/services/variety-contribution.service'
+import { z } from 'zod'
+
+const cache = new CacheService({
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  keyPrefix: 'bas-malin:varieties:'
+})
+
+// Un refus doit être motivé pour que l'auteur puisse corriger sa contribution
+const reviewSchema = z.object({
+  decision: z.enum(['approuver', 'rejeter']),
+  commentaire: z.string().trim().min(1).max(2000).optional()
+}).refine(data => data.decision === 'approuver' || data.commentaire, {
+  message: 'Commentaire obligatoire pour un refus',
+  path: ['commentaire']
+})
+
+/**
+ * POST /api/varieties/review/[id] - Publier ou refuser une contribution soumise
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    if (!(await holdsAdminPermission(session.user.id, session.user.typeProfil))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Permissions insuffisantes - relecteur requis'
+      }, { status: 403 })
+    }
+
+    if (await isTwoFactorEnrolmentRequired(session.user.id, session.user.typeProfil)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Double authentification requise pour cette action'
+      }, { status: 403 })
+    }
+
+    const { id: varietyId } = await params
+    const body = await request.json()
+    const { decision, commentaire } = reviewSchema.parse(body)
+
+    const resultat = await new VarietyContributionService().review(session.user.id, varietyId, {
+      approuver: decision === 'approuver',
+      commentaire
+    })
+
+    switch (resultat.statut) {
+      case 'introuvable':
+        return NextResponse.json({
+          success: false,
+          error: 'Variété non trouvée'
+        }, { status: 404 })
+      case 'non_soumise':
+        return NextResponse.json({
+          success: false,
+          error: 'Cette variété n\'est pas en attente de relecture',
+          statutModeration: resultat.statutModeration
+        }, { status: 409 })
+      case 'auto_moderation':
+        return NextResponse.json({
+          success: false,
+          error: 'Impossible de relire sa propre contribution'
+        }, { status: 403 })
+      case 'doublon':
+        return NextResponse.json({
+          success: false,
+          error: 'Une variété du catalogue porte déjà ces noms',
+          varieteId: resultat.varieteId
+        }, { status: 409 })
+    }
+
+    // Une variété publiée apparaît désormais dans les recherches
+    if (decision === 'approuver') {
+      await cache.invalidatePattern('*searchVarieties*')
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/varieties/review/${varietyId}`,
+      timestamp: new Date(),
+      typeEntite: 'VarieteCulture',
+      idEntite: varietyId,
+      typeAppareil: detectTypeAppareil(request.headers.get('user-agent')),
+      metadata: { decision, auteurId: resultat.variete.creeParId },
+      typeActivite: TypeActivite.MISE_A_JOUR
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: resultat.variete,
+      message: decision === 'approuver' ? 'Variété publiée dans le catalogue' : 'Contribution refusée'
+    })
+
+  } catch (error) {
+    console.error('Erreur API POST /varieties/review/[id]:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Données invalides',
+        details: error.issues
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
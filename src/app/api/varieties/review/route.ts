@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { holdsAdminPermission, isTwoFactorEnrolmentRequired } from '@/lib/security'
+import { VarietyContributionService } from '@/lib/services/variety-contribution.service'
+
+/**
+ * GET /api/varieties/review - File de relecture des contributions soumises
+ * Réservé aux détenteurs de la permission ADMIN (profil EXPERT ou permission accordée)
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentification requise'
+      }, { status: 401 })
+    }
+
+    if (!(await holdsAdminPermission(session.user.id, session.user.typeProfil))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Permissions insuffisantes - relecteur requis'
+      }, { status: 403 })
+    }
+
+    if (await isTwoFactorEnrolmentRequired(session.user.id, session.user.typeProfil)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Double authentification requise pour cette action'
+      }, { status: 403 })
+    }
+
+    const file = await new VarietyContributionService().getReviewQueue()
+
+    return NextResponse.json({
+      success: true,
+      data: file
+    })
+
+  } catch (error) {
+    console.error('Erreur API GET /varieties/review:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Erreur interne du serveur'
+    }, { status: 500 })
+  }
+}
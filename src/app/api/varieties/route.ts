@@ -4,6 +4,7 @@ import { auth } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
 import { CacheService } from '@/lib/cache/cache.service'
 import { VarietyManagementService } from '@/lib/services/variety-management.service'
+import { varieteCatalogueSchema } from '@/lib/catalogue-varietes'
 import { z } from 'zod'
 
 const prisma = new PrismaClient()
@@ -85,50 +86,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Schéma validation pour POST create variety
-const createVarietySchema = z.object({
-  nomScientifique: z.string().optional(),
-  nomCommun: z.string().min(1).max(200),
-  famille: z.string().max(100).optional(),
-  categorie: z.enum(['LEGUME', 'FRUIT', 'HERBE_AROMATIQUE', 'FLEUR', 'ARBRE', 'VIGNE']),
-  infosCulture: z.object({
-    profondeurPlantationCm: z.number(),
-    espacementCm: z.number(),
-    expositionSoleil: z.enum(['PLEIN_SOLEIL', 'MI_OMBRE', 'OMBRE']),
-    joursGermination: z.number(),
-    joursRecolte: z.number(),
-    dureeRecolte: z.number().optional(),
-    temperatureMinSemis: z.number(),
-    temperatureOptimaleCroissance: z.array(z.number()).length(2),
-    besoinsEau: z.enum(['FAIBLE', 'MOYEN', 'ELEVE']),
-    typesolPrefere: z.array(z.string()),
-    phOptimal: z.array(z.number()).length(2),
-    plantesCompagnes: z.array(z.string()),
-    plantesIncompatibles: z.array(z.string()),
-    niveauDifficulte: z.number().min(1).max(5),
-    conseilsCulture: z.array(z.string()),
-    problemesCourants: z.array(z.string()),
-    rendementMoyenKgM2: z.number().optional(),
-    hauteurMoyenneCm: z.number().optional(),
-    resistanceFroid: z.boolean().optional(),
-    resistanceMaladies: z.array(z.string()).optional()
-  }),
-  calendrierDefaut: z.object({
-    moisSemis: z.array(z.number().min(1).max(12)),
-    moisPlantation: z.array(z.number().min(1).max(12)),
-    moisRecolte: z.array(z.number().min(1).max(12))
-  }),
-  photos: z.array(z.object({
-    url: z.string().url(),
-    legende: z.string().optional(),
-    type: z.string().optional()
-  })).optional(),
-  liens: z.array(z.object({
-    url: z.string().url(),
-    titre: z.string(),
-    type: z.string().optional()
-  })).optional()
-})
+// Schéma validation pour POST create variety (partagé avec l'import de catalogue)
+const createVarietySchema = varieteCatalogueSchema
 
 /**
  * POST /api/varieties - Créer une variété personnalisée
@@ -160,14 +119,26 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createVarietySchema.parse(body)
 
-    // Créer la variété personnalisée
-    const newVariety = await prisma.varieteCulture.create({
-      data: {
-        ...validatedData,
-        sourceDonnees: 'MANUEL',
-        estPersonnalise: true,
-        creeParId: session.user.id
-      }
+    // Créer la variété personnalisée, publiée d'emblée (sans passer par la relecture)
+    const newVariety = await prisma.$transaction(async (tx) => {
+      const variete = await tx.varieteCulture.create({
+        data: {
+          ...validatedData,
+          sourceDonnees: 'MANUEL',
+          estPersonnalise: true,
+          creeParId: session.user.id
+        }
+      })
+      await tx.historiqueVarieteCulture.create({
+        data: {
+          varieteId: variete.id,
+          auteurId: session.user.id,
+          action: 'CREATION',
+          version: variete.version,
+          donnees: validatedData
+        }
+      })
+      return variete
     })
 
     // Invalider cache recherche
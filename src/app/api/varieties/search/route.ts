@@ -67,6 +67,10 @@ const advancedSearchSchema = z.object({
 /**
  * POST /api/varieties/search - Recherche avancée avec filtres complexes
  * Interface principale pour recherche intelligente F2.1
+ *
+ * La requête textuelle ignore accents et fautes de frappe ; chaque variété trouvée
+ * porte ses passages surlignés (_search) et des suggestions sont proposées
+ * quand la requête ne correspond presque à rien.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -207,6 +211,7 @@ export async function POST(request: NextRequest) {
         varieties: paginatedVarieties,
         filters: result.filters,
         recommendations: result.recommendations,
+        suggestions: result.suggestions ?? [],
         stats: searchStats
       },
       meta: {
@@ -5,6 +5,8 @@ import { createServer } from 'http';
 import { SyncMessage, DeviceConnection } from '@/types/sync';
 import { syncService } from '@/lib/sync/multi-device-sync-service';
 import { Redis } from 'ioredis';
+import { publicRateLimit, withRateLimitHeaders } from '@/lib/middleware';
+import { SessionService, sessionRevocationChannel } from '@/lib/services/session.service';
 
 // Configuration Redis pour pub/sub
 const redis = new Redis({
@@ -66,11 +68,21 @@ function setupWebSocketHandlers(wss: WebSocketServer) {
         req: { headers: { authorization: `Bearer ${token}` } } as any 
       });
 
-      if (!decodedToken || decodedToken.sub !== userId) {
+      if (!decodedToken || decodedToken.sub !== userId || decodedToken.deuxFacteursEnAttente) {
         ws.close(1008, 'Invalid or expired token');
         return;
       }
 
+      // Une session révoquée depuis "mes appareils" ne peut plus se reconnecter
+      const session = decodedToken.sessionToken
+        ? await new SessionService().validateSession(decodedToken.sessionToken)
+        : null;
+
+      if (decodedToken.sessionToken && !session) {
+        ws.close(1008, 'Session revoked');
+        return;
+      }
+
       // Enregistrer la connexion device
       const deviceConnection: DeviceConnection = {
         id: deviceId,
@@ -80,7 +92,8 @@ function setupWebSocketHandlers(wss: WebSocketServer) {
         lastSeen: Date.now(),
         isOnline: true,
         pendingSync: 0,
-        socketId: generateSocketId()
+        socketId: generateSocketId(),
+        sessionId: session?.id
       };
 
       await syncService.registerDevice(deviceConnection);
@@ -90,9 +103,17 @@ function setupWebSocketHandlers(wss: WebSocketServer) {
 
       // S'abonner aux messages de sync pour cet utilisateur
       const subscriber = redis.duplicate();
-      subscriber.subscribe(`user:${userId}:sync`);
+      subscriber.subscribe(`user:${userId}:sync`, sessionRevocationChannel(userId));
       
       subscriber.on('message', (channel, message) => {
+        if (channel === sessionRevocationChannel(userId)) {
+          const { sessionId } = JSON.parse(message) as { sessionId: string };
+          if (session && sessionId === session.id) {
+            ws.close(4001, 'Session revoked');
+          }
+          return;
+        }
+
         if (ws.readyState === WebSocket.OPEN) {
           const syncMessage: SyncMessage = JSON.parse(message);
           // Ne pas renvoyer le message à l'expéditeur
@@ -266,8 +287,14 @@ export async function GET() {
   });
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimitHeaders(async function POST(request: NextRequest) {
   try {
+    // Fallback HTTP de la synchro : 429 + Retry-After pour que les clients temporisent
+    const rateLimited = await publicRateLimit(request);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
     const { action, deviceId, userId } = await request.json();
     
     switch (action) {
@@ -299,4 +326,4 @@ export async function POST(request: NextRequest) {
     console.error('WebSocket API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess } from '@/lib/security'
+import { CompanionPlantingService } from '@/lib/services/companion-planting.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Variété envisagée sur une période, ou cultures présentes à une date
+const neighboursQuerySchema = z.object({
+  varietyId: z.string().min(1).optional(),
+  date: z.coerce.date().optional(),
+  debut: z.coerce.date().optional(),
+  fin: z.coerce.date().optional()
+}).refine(
+  query => !query.debut || !query.fin || query.debut < query.fin,
+  'La fin doit suivre le début'
+)
+
+/**
+ * GET /api/zones/[zoneId]/neighbours - Zones voisines et compagnonnage.
+ * Avec varietyId : évalue la variété placée dans la zone entre debut et fin ;
+ * sinon évalue chaque culture présente dans la zone à la date (aujourd'hui par défaut).
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const { searchParams } = new URL(req.url)
+    const query = neighboursQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const service = new CompanionPlantingService()
+    const zonesVoisines = await service.findAdjacentZones(zone.id)
+
+    if (query.varietyId) {
+      const evaluation = await service.evaluatePlacement({
+        varietyId: query.varietyId,
+        zoneId: zone.id,
+        debut: query.debut ?? new Date(),
+        fin: query.fin ?? null
+      })
+
+      if (!evaluation) {
+        return NextResponse.json({ error: 'Variété non trouvée' }, { status: 404 })
+      }
+
+      return NextResponse.json({ zonesVoisines, evaluation }, { status: 200 })
+    }
+
+    const occupation = await dataService.zone.getOccupation(zone.id, query.date)
+    const cultures = await Promise.all((occupation?.cultures ?? []).map(async culture => ({
+      instanceCultureId: culture.instanceCultureId,
+      nom: culture.nom,
+      evaluation: await service.evaluateCulture(culture.instanceCultureId)
+    })))
+
+    return NextResponse.json({ zonesVoisines, cultures }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de l\'évaluation du voisinage de la zone:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'évaluation du voisinage de la zone' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+const releaseQuerySchema = z.object({
+  date: z.coerce.date().optional()
+})
+
+/**
+ * DELETE /api/zones/[zoneId]/occupation/[instanceCultureId] - Libère la place d'une culture
+ * à partir d'une date (maintenant par défaut)
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string; instanceCultureId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const { searchParams } = new URL(req.url)
+    const { date } = releaseQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const culture = await dataService.zone.releaseCulture(zone.id, params.instanceCultureId, date)
+    if (!culture) {
+      return NextResponse.json({ error: 'Culture non trouvée dans cette zone' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/zones/${zone.id}/occupation/${culture.id}`,
+      timestamp: new Date(),
+      typeEntite: 'InstanceCulture',
+      idEntite: culture.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId, zoneId: zone.id, dateFinOccupation: culture.dateFinOccupation }
+    })
+
+    return NextResponse.json({ culture }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la libération de la zone:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la libération de la zone' },
+      { status: 500 }
+    )
+  }
+}
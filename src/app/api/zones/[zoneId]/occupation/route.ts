@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { CompanionPlantingService } from '@/lib/services/companion-planting.service'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Instant précis, ou période pour la frise
+const occupationQuerySchema = z.object({
+  date: z.coerce.date().optional(),
+  debut: z.coerce.date().optional(),
+  fin: z.coerce.date().optional()
+}).refine(
+  query => (query.debut === undefined) === (query.fin === undefined),
+  'Début et fin doivent être fournis ensemble'
+).refine(
+  query => !query.debut || !query.fin || query.debut < query.fin,
+  'La fin doit suivre le début'
+)
+
+// Schema de validation pour placer une culture (part de la zone ou surface en m²)
+const assignCultureSchema = z.object({
+  instanceCultureId: z.string().min(1, 'ID culture requis'),
+  partSurface: z.number().positive().max(1, 'Part entre 0 et 1').optional(),
+  surfaceM2: z.number().positive().optional(),
+  debut: z.coerce.date(),
+  fin: z.coerce.date().nullable().optional()
+}).refine(
+  donnees => (donnees.partSurface === undefined) !== (donnees.surfaceM2 === undefined),
+  'Indiquer soit une part de la zone, soit une surface'
+).refine(
+  donnees => !donnees.fin || donnees.debut < donnees.fin,
+  'La fin doit suivre le début'
+)
+
+/**
+ * GET /api/zones/[zoneId]/occupation - Cultures présentes à une date (aujourd'hui par défaut)
+ * ou frise des occupations entre debut et fin
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const { searchParams } = new URL(req.url)
+    const query = occupationQuerySchema.parse(Object.fromEntries(searchParams))
+
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    if (query.debut && query.fin) {
+      const frise = await dataService.zone.getTimeline(zone.id, query.debut, query.fin)
+      return NextResponse.json({ frise }, { status: 200 })
+    }
+
+    const occupation = await dataService.zone.getOccupation(zone.id, query.date)
+    return NextResponse.json({ occupation }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération de l\'occupation de la zone:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération de l\'occupation de la zone' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/zones/[zoneId]/occupation - Place une culture dans la zone pour une période
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const body = await req.json()
+
+    // Validation des données
+    const validatedData = assignCultureSchema.parse(body)
+
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone || !zone.estActive) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    // La culture ne peut changer de zone qu'au sein du même jardin
+    const culture = await dataService.culture.findById(validatedData.instanceCultureId)
+    const zoneCulture = culture && await dataService.zone.findById(culture.zoneId)
+    if (!culture || zoneCulture?.jardinId !== zone.jardinId) {
+      return NextResponse.json({ error: 'Culture non trouvée dans ce jardin' }, { status: 404 })
+    }
+
+    const surfaceZoneM2 = (zone.geometrie as { surfaceM2?: number } | null)?.surfaceM2 ?? 0
+    const partSurface = validatedData.partSurface ?? (surfaceZoneM2 > 0 ? validatedData.surfaceM2! / surfaceZoneM2 : Infinity)
+    if (partSurface > 1) {
+      return NextResponse.json({ error: 'Surface supérieure à celle de la zone' }, { status: 400 })
+    }
+
+    const resultat = await dataService.zone.assignCulture(zone.id, culture.id, {
+      partSurface,
+      debut: validatedData.debut,
+      fin: validatedData.fin ?? null
+    })
+
+    if (resultat.statut === 'zone_introuvable') {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    if (resultat.statut === 'surreservation') {
+      return NextResponse.json(
+        {
+          error: 'Place insuffisante dans la zone sur cette période',
+          partDisponible: resultat.partDisponible,
+          surfaceDisponibleM2: Math.round(resultat.partDisponible * surfaceZoneM2 * 100) / 100,
+          conflits: resultat.conflits
+        },
+        { status: 409 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/zones/${zone.id}/occupation`,
+      timestamp: new Date(),
+      typeEntite: 'InstanceCulture',
+      idEntite: culture.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId, zoneId: zone.id, partSurface }
+    })
+
+    // Le voisinage n'empêche pas le placement : les incompatibilités sont signalées
+    const voisinage = await new CompanionPlantingService().evaluateCulture(culture.id)
+
+    return NextResponse.json(
+      {
+        culture: resultat.culture,
+        voisinage: voisinage && {
+          score: voisinage.score,
+          incompatibles: voisinage.incompatibles,
+          compagnes: voisinage.compagnes
+        },
+        avertissements: voisinage?.avertissements ?? []
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Erreur lors du placement de la culture:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors du placement de la culture' },
+      { status: 500 }
+    )
+  }
+}
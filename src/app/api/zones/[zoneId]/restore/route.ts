@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+
+/**
+ * POST /api/zones/[zoneId]/restore - Restaure une zone archivée
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    // Un membre du jardin apprend qu'il est archivé avant le refus d'écriture qui en découle
+    const lectureError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (lectureError) {
+      return NextResponse.json({ error: lectureError.error }, { status: lectureError.status })
+    }
+
+    const jardin = await dataService.jardin.findById(zone.jardinId)
+    if (jardin?.archiveA) {
+      return NextResponse.json({ error: 'Restaurez d\'abord le jardin' }, { status: 409 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const resultat = await dataService.zone.restore(zone.id)
+
+    if (!resultat) {
+      return NextResponse.json({ error: 'Zone non archivée' }, { status: 409 })
+    }
+
+    // Jardin archivé entre-temps
+    if (resultat.statut === 'jardin_archive') {
+      return NextResponse.json({ error: 'Restaurez d\'abord le jardin' }, { status: 409 })
+    }
+
+    if (resultat.statut === 'chevauchement') {
+      return NextResponse.json(
+        { error: 'Chevauchement avec une zone existante', zones: resultat.zones },
+        { status: 409 }
+      )
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/zones/${zone.id}/restore`,
+      timestamp: new Date(),
+      typeEntite: 'Zone',
+      idEntite: zone.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId }
+    })
+
+    return NextResponse.json({ zone: resultat.zone }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la restauration de la zone:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la restauration de la zone' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { geometrieZoneSchema } from '@/lib/geometry'
+import { ArchiveService } from '@/lib/services/archive.service'
+import { z } from 'zod'
+
+// Schema de validation pour mise à jour de zone (le jardin ne change pas)
+const updateZoneSchema = z.object({
+  nom: z.string().min(1, 'Le nom est requis').max(100, 'Nom trop long').optional(),
+  typeZone: z.enum(['BAC', 'PARCELLE', 'SERRE', 'ZONE_LIBRE', 'ARBRE', 'VIGNE']).optional(),
+  geometrie: geometrieZoneSchema.optional(),
+  expositionSoleil: z.enum(['PLEIN_SOLEIL', 'MI_OMBRE', 'OMBRE']).optional(),
+  accesEau: z.enum(['FACILE', 'MOYEN', 'DIFFICILE']).optional(),
+  qualiteSol: z.number().min(1).max(5, 'Qualité sol entre 1 et 5').optional()
+})
+
+/**
+ * GET /api/zones/[zoneId] - Récupère une zone avec ses cultures
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findByIdWithCultures(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    return NextResponse.json({ zone }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération de la zone:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération de la zone' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/zones/[zoneId] - Met à jour une zone (dont son contour)
+ */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const body = await req.json()
+
+    // Validation des données
+    const validatedData = updateZoneSchema.parse(body)
+
+    const dataService = getDataService()
+
+    const existante = await dataService.zone.findById(params.zoneId)
+    if (!existante || !existante.estActive) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    // Vérifier que l'utilisateur peut modifier le jardin
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      existante.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    // Un nouveau contour ne doit pas empiéter sur une autre zone du jardin
+    const resultat = await dataService.zone.update({
+      id: existante.id,
+      jardinId: existante.jardinId,
+      ...validatedData
+    })
+
+    if (resultat.statut === 'chevauchement') {
+      return NextResponse.json(
+        { error: 'Chevauchement avec une zone existante', zones: resultat.zones },
+        { status: 409 }
+      )
+    }
+
+    const { zone } = resultat
+
+    await logActivity({
+      userId: session.user.id,
+      action: `PATCH /api/zones/${zone.id}`,
+      timestamp: new Date(),
+      typeEntite: 'Zone',
+      idEntite: zone.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId, champs: Object.keys(validatedData) }
+    })
+
+    return NextResponse.json({ zone }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour de la zone:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la mise à jour de la zone' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/zones/[zoneId] - Archive une zone
+ * Ses cultures sont libérées ; l'historique reste disponible jusqu'à la purge
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const existante = await dataService.zone.findById(params.zoneId)
+    if (!existante) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      existante.jardinId,
+      Permission.SUPPRESSION
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const zone = await dataService.zone.deactivate(existante.id)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone déjà archivée' }, { status: 409 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/zones/${zone.id}`,
+      timestamp: new Date(),
+      typeEntite: 'Zone',
+      idEntite: zone.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId }
+    })
+
+    return NextResponse.json(
+      {
+        message: 'Zone archivée avec succès',
+        zone,
+        purgePrevueA: ArchiveService.getPurgeDate(zone.archiveA!)
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Erreur lors de l\'archivage de la zone:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'archivage de la zone' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+
+/**
+ * DELETE /api/zones/[zoneId]/soil-analyses/[analyseId] - Supprime une analyse saisie par erreur
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string; analyseId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const supprimee = await dataService.analyseSol.delete(zone.id, params.analyseId)
+    if (!supprimee) {
+      return NextResponse.json({ error: 'Analyse non trouvée' }, { status: 404 })
+    }
+
+    await logActivity({
+      userId: session.user.id,
+      action: `DELETE /api/zones/${zone.id}/soil-analyses/${params.analyseId}`,
+      timestamp: new Date(),
+      typeEntite: 'AnalyseSol',
+      idEntite: params.analyseId,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId, zoneId: zone.id }
+    })
+
+    return NextResponse.json({ message: 'Analyse supprimée' }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la suppression de l\'analyse de sol:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la suppression de l\'analyse de sol' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { z } from 'zod'
+
+// Schema de validation pour une analyse de sol (au moins une mesure)
+const createAnalyseSolSchema = z.object({
+  dateAnalyse: z.coerce.date().refine(date => date.getTime() <= Date.now(), 'Date dans le futur'),
+  source: z.enum(['LABORATOIRE', 'KIT', 'SONDE']),
+  nomSource: z.string().max(100, 'Nom trop long').optional(),
+  ph: z.number().min(0).max(14, 'pH entre 0 et 14').optional(),
+  azoteMgKg: z.number().min(0).max(10000).optional(),
+  phosphoreMgKg: z.number().min(0).max(10000).optional(),
+  potassiumMgKg: z.number().min(0).max(10000).optional(),
+  matiereOrganiquePct: z.number().min(0).max(100, 'Pourcentage entre 0 et 100').optional(),
+  texture: z.enum(['ARGILE', 'SABLE', 'LIMON', 'LIMON_FIN', 'TOURBE', 'CALCAIRE']).optional(),
+  notes: z.string().max(1000, 'Notes trop longues').optional()
+}).refine(
+  analyse => [analyse.ph, analyse.azoteMgKg, analyse.phosphoreMgKg, analyse.potassiumMgKg, analyse.matiereOrganiquePct, analyse.texture]
+    .some(valeur => valeur !== undefined),
+  'Au moins une mesure est requise'
+)
+
+/**
+ * GET /api/zones/[zoneId]/soil-analyses - Historique des analyses et tendances
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.LECTURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const [analyses, tendances] = await Promise.all([
+      dataService.analyseSol.findByZoneId(zone.id),
+      dataService.analyseSol.getTrends(zone.id)
+    ])
+
+    return NextResponse.json({ analyses, tendances }, { status: 200 })
+  } catch (error) {
+    console.error('Erreur lors de la récupération des analyses de sol:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la récupération des analyses de sol' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/zones/[zoneId]/soil-analyses - Enregistre une analyse de sol
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ zoneId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Non autorisé' }, { status: 401 })
+    }
+
+    const params = await context.params
+    const body = await req.json()
+
+    // Validation des données
+    const validatedData = createAnalyseSolSchema.parse(body)
+
+    const dataService = getDataService()
+
+    const zone = await dataService.zone.findById(params.zoneId)
+    if (!zone || !zone.estActive) {
+      return NextResponse.json({ error: 'Zone non trouvée' }, { status: 404 })
+    }
+
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      zone.jardinId,
+      Permission.ECRITURE
+    )
+
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    const analyse = await dataService.analyseSol.create({
+      ...validatedData,
+      zoneId: zone.id,
+      utilisateurId: session.user.id
+    })
+
+    await logActivity({
+      userId: session.user.id,
+      action: `POST /api/zones/${zone.id}/soil-analyses`,
+      timestamp: new Date(),
+      typeEntite: 'AnalyseSol',
+      idEntite: analyse.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: zone.jardinId, zoneId: zone.id, source: analyse.source }
+    })
+
+    return NextResponse.json({ analyse }, { status: 201 })
+  } catch (error) {
+    console.error('Erreur lors de l\'enregistrement de l\'analyse de sol:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Données invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de l\'enregistrement de l\'analyse de sol' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { getDataService } from '@/lib/config/database'
+import { checkJardinAccess, detectTypeAppareil, logActivity } from '@/lib/security'
+import { Permission } from '@/types/auth'
+import { geometrieZoneSchema } from '@/lib/geometry'
+import { ArchiveService } from '@/lib/services/archive.service'
 import { z } from 'zod'
 
 // Schema de validation pour création de zone
@@ -8,16 +12,22 @@ const createZoneSchema = z.object({
   nom: z.string().min(1, 'Le nom est requis').max(100, 'Nom trop long'),
   jardinId: z.string().min(1, 'ID jardin requis'),
   typeZone: z.enum(['BAC', 'PARCELLE', 'SERRE', 'ZONE_LIBRE', 'ARBRE', 'VIGNE']),
-  geometrie: z.object({
-    type: z.string(),
-    coordonnees: z.array(z.number()).or(z.array(z.array(z.number()))),
-    surfaceM2: z.number().positive('Surface doit être positive')
-  }),
+  geometrie: geometrieZoneSchema, // La surface est calculée à partir du contour
   expositionSoleil: z.enum(['PLEIN_SOLEIL', 'MI_OMBRE', 'OMBRE']),
   accesEau: z.enum(['FACILE', 'MOYEN', 'DIFFICILE']),
   qualiteSol: z.number().min(1).max(5, 'Qualité sol entre 1 et 5')
 })
 
+// Période et surface recherchées avec disponible=true
+const disponibiliteSchema = z.object({
+  debut: z.coerce.date().optional(),
+  fin: z.coerce.date().optional(),
+  surfaceM2: z.coerce.number().positive().optional()
+}).refine(
+  criteres => !criteres.debut || !criteres.fin || criteres.debut < criteres.fin,
+  'La fin doit suivre le début'
+)
+
 /**
  * GET /api/zones - Récupère les zones selon les filtres
  */
@@ -32,6 +42,7 @@ export async function GET(req: NextRequest) {
     const jardinId = searchParams.get('jardinId')
     const disponibleSeulement = searchParams.get('disponible') === 'true'
     const withCultures = searchParams.get('withCultures') === 'true'
+    const archivees = searchParams.get('archivees') === 'true'
 
     if (!jardinId) {
       return NextResponse.json({ error: 'ID jardin requis' }, { status: 400 })
@@ -39,17 +50,33 @@ export async function GET(req: NextRequest) {
 
     const dataService = getDataService()
     
-    // Vérifier que le jardin appartient à l'utilisateur
-    const jardins = await dataService.jardin.findByUserId(session.user.id)
-    const jardinExists = jardins.some(j => j.id === jardinId)
+    // Vérifier que l'utilisateur est membre du jardin
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      jardinId,
+      Permission.LECTURE
+    )
     
-    if (!jardinExists) {
-      return NextResponse.json({ error: 'Jardin non autorisé' }, { status: 403 })
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
     }
 
     let zones
-    if (disponibleSeulement) {
-      zones = await dataService.zone.findAvailableZones(jardinId)
+    if (archivees) {
+      // Zones restaurables, avec leur date de purge
+      const zonesArchivees = await dataService.zone.findArchivedByJardinId(jardinId)
+      zones = zonesArchivees.map(zone => ({
+        ...zone,
+        purgePrevueA: zone.archiveA ? ArchiveService.getPurgeDate(zone.archiveA) : null
+      }))
+    } else if (disponibleSeulement) {
+      const criteres = disponibiliteSchema.parse({
+        debut: searchParams.get('debut') ?? undefined,
+        fin: searchParams.get('fin') ?? undefined,
+        surfaceM2: searchParams.get('surfaceM2') ?? undefined
+      })
+      zones = await dataService.zone.findAvailableZones(jardinId, criteres)
     } else if (withCultures) {
       const zonesBasiques = await dataService.zone.findByJardinId(jardinId)
       zones = await Promise.all(
@@ -62,6 +89,14 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ zones }, { status: 200 })
   } catch (error) {
     console.error('Erreur lors de la récupération des zones:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Paramètres invalides', details: error.issues },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Erreur serveur lors de la récupération des zones' },
       { status: 500 }
@@ -86,15 +121,39 @@ export async function POST(req: NextRequest) {
 
     const dataService = getDataService()
     
-    // Vérifier que le jardin appartient à l'utilisateur
-    const jardins = await dataService.jardin.findByUserId(session.user.id)
-    const jardinExists = jardins.some(j => j.id === validatedData.jardinId)
+    // Vérifier que l'utilisateur peut modifier le jardin
+    const accessError = await checkJardinAccess(
+      session.user.id,
+      session.user.typeProfil,
+      validatedData.jardinId,
+      Permission.ECRITURE
+    )
     
-    if (!jardinExists) {
-      return NextResponse.json({ error: 'Jardin non autorisé' }, { status: 403 })
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status })
+    }
+
+    // Refuser une zone qui empiète sur une zone existante du jardin
+    const resultat = await dataService.zone.create(validatedData)
+
+    if (resultat.statut === 'chevauchement') {
+      return NextResponse.json(
+        { error: 'Chevauchement avec une zone existante', zones: resultat.zones },
+        { status: 409 }
+      )
     }
 
-    const zone = await dataService.zone.create(validatedData)
+    const { zone } = resultat
+
+    await logActivity({
+      userId: session.user.id,
+      action: 'POST /api/zones',
+      timestamp: new Date(),
+      typeEntite: 'Zone',
+      idEntite: zone.id,
+      typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
+      metadata: { jardinId: validatedData.jardinId, nom: zone.nom }
+    })
 
     return NextResponse.json({ zone }, { status: 201 })
   } catch (error) {
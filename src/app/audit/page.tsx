@@ -0,0 +1,31 @@
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { AuditLogExplorer } from "@/components/audit/audit-log-explorer"
+
+export default async function AuditPage() {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  if (session.user.typeProfil !== "EXPERT") {
+    redirect("/dashboard")
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <h1 className="text-2xl font-bold">Journal d&apos;audit</h1>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto py-8 px-4">
+        <AuditLogExplorer />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { PasswordResetRequestForm } from "@/components/auth/password-reset-request-form"
+import { AuthCard } from "@/components/auth/auth-card"
+
+export default function ForgotPasswordPage() {
+  return (
+    <AuthCard description="Mot de passe oublié">
+      <PasswordResetRequestForm />
+    </AuthCard>
+  )
+}
@@ -0,0 +1,16 @@
+import { PasswordResetForm } from "@/components/auth/password-reset-form"
+import { AuthCard } from "@/components/auth/auth-card"
+
+export default async function ResetPasswordPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>
+}) {
+  const { token } = await searchParams
+
+  return (
+    <AuthCard description="Choisissez un nouveau mot de passe">
+      <PasswordResetForm token={token ?? ''} />
+    </AuthCard>
+  )
+}
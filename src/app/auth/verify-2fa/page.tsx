@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation"
+import { auth } from "@/lib/auth"
+import { AuthCard } from "@/components/auth/auth-card"
+import { TwoFactorVerification } from "@/components/auth/two-factor-verification"
+
+export default async function VerifyTwoFactorPage() {
+  const session = await auth()
+
+  // Page réservée aux connexions OAuth en attente du second facteur
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+  if (!session.user.deuxFacteursEnAttente) {
+    redirect("/dashboard")
+  }
+
+  return (
+    <AuthCard description="Double authentification">
+      <TwoFactorVerification />
+    </AuthCard>
+  )
+}
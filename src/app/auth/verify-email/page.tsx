@@ -0,0 +1,16 @@
+import { EmailVerification } from "@/components/auth/email-verification"
+import { AuthCard } from "@/components/auth/auth-card"
+
+export default async function VerifyEmailPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>
+}) {
+  const { token } = await searchParams
+
+  return (
+    <AuthCard description="Vérification de votre adresse email">
+      <EmailVerification token={token ?? ''} />
+    </AuthCard>
+  )
+}
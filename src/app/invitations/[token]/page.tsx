@@ -0,0 +1,24 @@
+import { redirect } from "next/navigation"
+import { auth } from "@/lib/auth"
+import { AuthCard } from "@/components/auth/auth-card"
+import { InvitationAcceptance } from "@/components/auth/invitation-acceptance"
+
+export default async function InvitationPage({
+  params
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  const session = await auth()
+
+  // L'invitation est liée à l'email du compte : connexion d'abord, retour ici ensuite
+  if (!session?.user?.id) {
+    redirect(`/auth/signin?callbackUrl=${encodeURIComponent(`/invitations/${token}`)}`)
+  }
+
+  return (
+    <AuthCard description="Invitation à rejoindre un jardin">
+      <InvitationAcceptance token={token} email={session.user.email ?? ''} />
+    </AuthCard>
+  )
+}
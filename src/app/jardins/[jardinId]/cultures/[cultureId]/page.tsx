@@ -0,0 +1,39 @@
+import Link from "next/link"
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { CultureQuickActions } from "@/components/cultures/culture-quick-actions"
+
+export default async function CulturePage({
+  params
+}: {
+  params: Promise<{ jardinId: string; cultureId: string }>
+}) {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  const { jardinId, cultureId } = await params
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-2xl font-bold">Culture</h1>
+            <Link href={`/jardins/${jardinId}/plan`} className="text-sm text-muted-foreground hover:underline">
+              Plan du jardin
+            </Link>
+          </div>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-lg py-6 px-4">
+        <CultureQuickActions cultureId={cultureId} />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { GardenPlan } from "@/components/zones/garden-plan"
+
+export default async function PlanJardinPage({
+  params
+}: {
+  params: Promise<{ jardinId: string }>
+}) {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  const { jardinId } = await params
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <h1 className="text-2xl font-bold">Plan du jardin</h1>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto py-8 px-4">
+        <GardenPlan jardinId={jardinId} />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import Link from "next/link"
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { SoilAnalyses } from "@/components/zones/soil-analyses"
+
+export default async function AnalysesSolPage({
+  params
+}: {
+  params: Promise<{ jardinId: string; zoneId: string }>
+}) {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  const { jardinId, zoneId } = await params
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-4">
+            <h1 className="text-2xl font-bold">Analyses de sol</h1>
+            <Link href={`/jardins/${jardinId}/plan`} className="text-sm text-muted-foreground hover:underline">
+              Retour au plan
+            </Link>
+          </div>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-5xl py-8 px-4">
+        <SoilAnalyses zoneId={zoneId} />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { LayoutTemplateGallery } from "@/components/zones/layout-template-gallery"
+
+export default async function ModelesAmenagementPage() {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <h1 className="text-2xl font-bold">Modèles d&apos;aménagement</h1>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto py-8 px-4">
+        <LayoutTemplateGallery />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { ActiveDevices } from "@/components/auth/active-devices"
+
+export default async function AppareilsPage() {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <h1 className="text-2xl font-bold">Mes appareils</h1>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-2xl py-8 px-4">
+        <ActiveDevices />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { auth } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { UserMenu } from "@/components/auth/user-menu"
+import { TwoFactorSetup } from "@/components/auth/two-factor-setup"
+
+export default async function SecuritePage() {
+  const session = await auth()
+
+  if (!session?.user) {
+    redirect("/auth/signin")
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="container mx-auto flex h-16 items-center justify-between px-4">
+          <h1 className="text-2xl font-bold">Sécurité du compte</h1>
+          <UserMenu />
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-2xl py-8 px-4">
+        <TwoFactorSetup />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { checkJardinAccess } from '@/lib/security'
+import { CultureLabelService } from '@/lib/services/culture-label.service'
+import { Permission } from '@/types/auth'
+
+/**
+ * GET /q/[code] - Lien court des étiquettes QR : ouvre la fiche de la culture du code lot,
+ * après connexion si nécessaire
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ code: string }> }
+) {
+  try {
+    const params = await context.params
+    const session = await auth()
+
+    if (!session?.user?.id) {
+      const connexion = new URL('/auth/signin', req.nextUrl.origin)
+      connexion.searchParams.set('callbackUrl', req.nextUrl.pathname)
+      return NextResponse.redirect(connexion)
+    }
+
+    const candidates = await new CultureLabelService().findByCode(params.code)
+
+    for (const candidate of candidates) {
+      const accessError = await checkJardinAccess(
+        session.user.id,
+        session.user.typeProfil,
+        candidate.jardinId,
+        Permission.LECTURE
+      )
+
+      if (!accessError) {
+        return NextResponse.redirect(
+          new URL(`/jardins/${candidate.jardinId}/cultures/${candidate.cultureId}`, req.nextUrl.origin)
+        )
+      }
+    }
+
+    // Code inconnu ou culture d'un jardin non partagé : indiscernables
+    return NextResponse.json({ error: 'Culture non trouvée' }, { status: 404 })
+  } catch (error) {
+    console.error('Erreur lors de la résolution du code lot:', error)
+    return NextResponse.json(
+      { error: 'Erreur serveur lors de la résolution du code lot' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Download, ChevronLeft, ChevronRight, Monitor, Smartphone, Tv } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface Activite {
+  id: string;
+  typeActivite: string;
+  typeEntite: string | null;
+  idEntite: string | null;
+  typeAppareil: 'MOBILE' | 'DESKTOP' | 'TV' | null;
+  metadonneesActivite: Record<string, unknown> | null;
+  creeA: string;
+  utilisateur: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    typeProfil: string;
+  };
+}
+
+interface Filtres {
+  jardinId: string;
+  utilisateurId: string;
+  typeActivite: string;
+  typeEntite: string;
+  typeAppareil: string;
+  depuis: string;
+  jusqua: string;
+}
+
+const FILTRES_VIDES: Filtres = {
+  jardinId: '',
+  utilisateurId: '',
+  typeActivite: '',
+  typeEntite: '',
+  typeAppareil: '',
+  depuis: '',
+  jusqua: ''
+};
+
+const TYPES_ACTIVITE = [
+  'CONNEXION', 'DECONNEXION', 'CREATION', 'LECTURE', 'MISE_A_JOUR',
+  'SUPPRESSION', 'EXPORT', 'SYNC', 'SCAN_PHOTO', 'RECONNAISSANCE_IA'
+];
+
+const ICONES_APPAREIL = {
+  MOBILE: Smartphone,
+  DESKTOP: Monitor,
+  TV: Tv
+};
+
+const LIMIT = 50;
+
+const selectClassName = 'h-10 rounded-md border border-input bg-background px-3 text-sm';
+
+function buildQuery(filtres: Filtres, extra: Record<string, string>): string {
+  const params = new URLSearchParams(extra);
+  Object.entries(filtres).forEach(([key, value]) => {
+    if (!value) return;
+    // La date de fin est inclusive : jusqu'à la fin de la journée
+    params.set(key, key === 'jusqua' ? `${value}T23:59:59.999` : value);
+  });
+  return params.toString();
+}
+
+export function AuditLogExplorer() {
+  const [filtres, setFiltres] = useState<Filtres>(FILTRES_VIDES);
+  const [page, setPage] = useState(1);
+  const [activites, setActivites] = useState<Activite[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivites = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/audit?${buildQuery(filtres, { page: String(page), limit: String(LIMIT) })}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du chargement du journal');
+      }
+
+      setActivites(data.activites);
+      setTotal(data.pagination.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, [filtres, page]);
+
+  useEffect(() => {
+    fetchActivites();
+  }, [fetchActivites]);
+
+  const updateFiltre = (key: keyof Filtres, value: string) => {
+    setFiltres(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / LIMIT));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Filtres</CardTitle>
+          <CardDescription>
+            Retrouvez qui a modifié quoi dans un jardin, et depuis quel appareil
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <Input
+              placeholder="ID du jardin"
+              value={filtres.jardinId}
+              onChange={(e) => updateFiltre('jardinId', e.target.value)}
+            />
+            <Input
+              placeholder="ID utilisateur"
+              value={filtres.utilisateurId}
+              onChange={(e) => updateFiltre('utilisateurId', e.target.value)}
+            />
+            <Input
+              placeholder="Type d'entité (Jardin, Zone…)"
+              value={filtres.typeEntite}
+              onChange={(e) => updateFiltre('typeEntite', e.target.value)}
+            />
+            <select
+              className={selectClassName}
+              value={filtres.typeActivite}
+              onChange={(e) => updateFiltre('typeActivite', e.target.value)}
+            >
+              <option value="">Toutes les activités</option>
+              {TYPES_ACTIVITE.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <select
+              className={selectClassName}
+              value={filtres.typeAppareil}
+              onChange={(e) => updateFiltre('typeAppareil', e.target.value)}
+            >
+              <option value="">Tous les appareils</option>
+              <option value="MOBILE">Mobile</option>
+              <option value="DESKTOP">Ordinateur</option>
+              <option value="TV">TV</option>
+            </select>
+            <Input
+              type="date"
+              value={filtres.depuis}
+              onChange={(e) => updateFiltre('depuis', e.target.value)}
+            />
+            <Input
+              type="date"
+              value={filtres.jusqua}
+              onChange={(e) => updateFiltre('jusqua', e.target.value)}
+            />
+            <Button variant="outline" asChild>
+              <a href={`/api/audit?${buildQuery(filtres, { format: 'csv' })}`}>
+                <Download className="w-4 h-4 mr-2" />
+                Exporter en CSV
+              </a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Activités</CardTitle>
+          <CardDescription>{total} entrée{total > 1 ? 's' : ''}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <p className="text-sm text-red-600 mb-4">{error}</p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Utilisateur</th>
+                  <th className="py-2 pr-4">Activité</th>
+                  <th className="py-2 pr-4">Entité</th>
+                  <th className="py-2 pr-4">Action</th>
+                  <th className="py-2">Appareil</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activites.map(activite => {
+                  const Icon = activite.typeAppareil ? ICONES_APPAREIL[activite.typeAppareil] : null;
+
+                  return (
+                    <tr key={activite.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {format(new Date(activite.creeA), 'dd/MM/yyyy HH:mm', { locale: fr })}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {activite.utilisateur.name || activite.utilisateur.email}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant="outline">{activite.typeActivite}</Badge>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {activite.typeEntite ?? '—'}
+                        {activite.idEntite && (
+                          <span className="block text-xs text-muted-foreground">{activite.idEntite}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {String(activite.metadonneesActivite?.action ?? '')}
+                      </td>
+                      <td className="py-2">
+                        {Icon ? <Icon className="w-4 h-4 text-muted-foreground" /> : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {!loading && activites.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">Aucune activité trouvée</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1 || loading}
+              onClick={() => setPage(p => p - 1)}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages || loading}
+              onClick={() => setPage(p => p + 1)}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
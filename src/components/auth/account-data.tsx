@@ -0,0 +1,223 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Download, Loader2, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ExportDonnees {
+  id: string;
+  statut: 'EN_ATTENTE' | 'EN_COURS' | 'TERMINE' | 'ECHEC';
+  tailleOctets: number | null;
+  erreur: string | null;
+  expireA: string | null;
+  creeA: string;
+}
+
+interface StatutSuppression {
+  suppressionPrevueA: string | null;
+  delaiJours: number;
+  motDePasseRequis: boolean;
+}
+
+const LIBELLES_STATUT: Record<ExportDonnees['statut'], string> = {
+  EN_ATTENTE: 'En attente',
+  EN_COURS: 'En préparation',
+  TERMINE: 'Prêt',
+  ECHEC: 'Échec'
+};
+
+function formatDate(date: string) {
+  return format(new Date(date), 'd MMMM yyyy à HH:mm', { locale: fr });
+}
+
+export function AccountData() {
+  const [exports, setExports] = useState<ExportDonnees[]>([]);
+  const [suppression, setSuppression] = useState<StatutSuppression | null>(null);
+  const [confirmation, setConfirmation] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDonnees = useCallback(async () => {
+    const [exportsResponse, suppressionResponse] = await Promise.all([
+      fetch('/api/account/export'),
+      fetch('/api/account/deletion')
+    ]);
+
+    if (exportsResponse.ok) {
+      setExports((await exportsResponse.json()).exports);
+    }
+    if (suppressionResponse.ok) {
+      setSuppression(await suppressionResponse.json());
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDonnees();
+  }, [fetchDonnees]);
+
+  // Rafraîchit tant qu'une archive est en préparation
+  const exportEnCours = exports.some(demande => demande.statut === 'EN_ATTENTE' || demande.statut === 'EN_COURS');
+  useEffect(() => {
+    if (!exportEnCours) return;
+    const interval = setInterval(fetchDonnees, 5000);
+    return () => clearInterval(interval);
+  }, [exportEnCours, fetchDonnees]);
+
+  const callApi = async (url: string, method: 'POST' | 'DELETE', body?: object) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error ?? 'Une erreur est survenue');
+        return false;
+      }
+      await fetchDonnees();
+      return true;
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeletion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await callApi('/api/account/deletion', 'POST', { confirmation, password: password || undefined })) {
+      setConfirmation('');
+      setPassword('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exporter mes données</CardTitle>
+          <CardDescription>
+            Archive ZIP contenant vos jardins, cultures, récoltes, interventions, journal d&apos;activité
+            (JSON et CSV) ainsi que vos photos. Elle reste téléchargeable 7 jours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button
+            onClick={() => callApi('/api/account/export', 'POST')}
+            disabled={isLoading || exportEnCours}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {exportEnCours && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Préparer une archive
+          </Button>
+
+          {exports.map(demande => (
+            <div key={demande.id} className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{formatDate(demande.creeA)}</p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant={demande.statut === 'ECHEC' ? 'destructive' : 'outline'}>
+                    {LIBELLES_STATUT[demande.statut]}
+                  </Badge>
+                  {demande.tailleOctets !== null && `${(demande.tailleOctets / 1024 / 1024).toFixed(1)} Mo`}
+                  {demande.expireA && ` · expire le ${formatDate(demande.expireA)}`}
+                </div>
+              </div>
+              {demande.statut === 'TERMINE' && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/account/export/${demande.id}`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Télécharger
+                  </a>
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {suppression && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="text-red-700">Supprimer mon compte</CardTitle>
+            <CardDescription>
+              La suppression intervient {suppression.delaiJours} jours après la demande. Vos données
+              personnelles sont alors effacées ; vos saisies dans les jardins partagés restent, anonymisées.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {suppression.suppressionPrevueA ? (
+              <div className="space-y-4">
+                <Alert variant="destructive">
+                  <span className="text-sm">
+                    Suppression prévue le {formatDate(suppression.suppressionPrevueA)}.
+                  </span>
+                </Alert>
+                <Button
+                  variant="outline"
+                  disabled={isLoading}
+                  onClick={() => callApi('/api/account/deletion', 'DELETE')}
+                >
+                  Annuler la suppression
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleDeletion} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="confirmation">Saisissez SUPPRIMER pour confirmer</Label>
+                  <Input
+                    id="confirmation"
+                    value={confirmation}
+                    onChange={e => setConfirmation(e.target.value)}
+                    required
+                  />
+                </div>
+                {suppression.motDePasseRequis && (
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Mot de passe</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={e => setPassword(e.target.value)}
+                      autoComplete="current-password"
+                      required
+                    />
+                  </div>
+                )}
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={isLoading || confirmation !== 'SUPPRIMER'}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Planifier la suppression
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { signOut } from 'next-auth/react';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Loader2, Monitor, RefreshCw, Smartphone, Tv, Wifi } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface ConnexionSync {
+  id: string;
+  type: 'mobile' | 'desktop' | 'tv';
+  name: string;
+  lastSeen: number;
+  isOnline: boolean;
+}
+
+interface Appareil {
+  id: string;
+  nom: string;
+  typeAppareil: 'MOBILE' | 'DESKTOP' | 'TV' | null;
+  adresseIp: string | null;
+  creeA: string;
+  derniereActiviteA: string;
+  courante: boolean;
+  connexionsSync: ConnexionSync[];
+}
+
+const ICONES_APPAREIL = {
+  MOBILE: Smartphone,
+  DESKTOP: Monitor,
+  TV: Tv
+};
+
+function depuis(date: string | number) {
+  return formatDistanceToNow(new Date(date), { addSuffix: true, locale: fr });
+}
+
+export function ActiveDevices() {
+  const [appareils, setAppareils] = useState<Appareil[] | null>(null);
+  const [connexionsSansSession, setConnexionsSansSession] = useState<ConnexionSync[]>([]);
+  const [revocationEnCours, setRevocationEnCours] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAppareils = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/devices');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Impossible de charger les appareils');
+        return;
+      }
+      setAppareils(data.appareils);
+      setConnexionsSansSession(data.connexionsSansSession);
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAppareils();
+  }, [fetchAppareils]);
+
+  const handleRevoke = async (appareil: Appareil) => {
+    setRevocationEnCours(appareil.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/${appareil.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error ?? 'Impossible de révoquer cette session');
+        return;
+      }
+
+      if (appareil.courante) {
+        await signOut({ callbackUrl: '/auth/signin' });
+        return;
+      }
+      await fetchAppareils();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setRevocationEnCours(null);
+    }
+  };
+
+  if (!appareils && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Révoquer un appareil le déconnecte et interrompt sa synchronisation.
+        </p>
+        <Button variant="outline" size="sm" onClick={fetchAppareils}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Actualiser
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+
+      {appareils?.map(appareil => {
+        const Icone = appareil.typeAppareil ? ICONES_APPAREIL[appareil.typeAppareil] : Monitor;
+
+        return (
+          <Card key={appareil.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Icone className="h-5 w-5" />
+                {appareil.nom}
+                {appareil.courante && <Badge variant="secondary">Cet appareil</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Actif {depuis(appareil.derniereActiviteA)} · connecté {depuis(appareil.creeA)}
+                {appareil.adresseIp && ` · ${appareil.adresseIp}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex flex-wrap gap-2">
+                {appareil.connexionsSync.length === 0 ? (
+                  <span className="text-sm text-muted-foreground">Aucune synchronisation en cours</span>
+                ) : (
+                  appareil.connexionsSync.map(connexion => (
+                    <Badge key={connexion.id} variant="outline" className="gap-1">
+                      <Wifi className="h-3 w-3" />
+                      Synchro {connexion.isOnline ? 'en ligne' : `vue ${depuis(connexion.lastSeen)}`}
+                    </Badge>
+                  ))
+                )}
+              </div>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={revocationEnCours === appareil.id}
+                onClick={() => handleRevoke(appareil)}
+              >
+                {revocationEnCours === appareil.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {appareil.courante ? 'Se déconnecter' : 'Révoquer'}
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {connexionsSansSession.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Autres appareils synchronisés</CardTitle>
+            <CardDescription>
+              Connexions ouvertes avant la mise en place du suivi des sessions.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {connexionsSansSession.map(connexion => (
+              <p key={connexion.id} className="text-sm">
+                {connexion.name} — vu {depuis(connexion.lastSeen)}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+
+interface EmailVerificationProps {
+  token: string;
+}
+
+type Statut = 'verification' | 'verifie' | 'erreur';
+
+export function EmailVerification({ token }: EmailVerificationProps) {
+  const [statut, setStatut] = useState<Statut>(token ? 'verification' : 'erreur');
+
+  const soumis = useRef(false);
+
+  useEffect(() => {
+    // Le token est à usage unique : on ne le soumet qu'une fois (y compris en StrictMode)
+    if (!token || soumis.current) return;
+    soumis.current = true;
+
+    fetch('/api/auth/verify-email/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(response => setStatut(response.ok ? 'verifie' : 'erreur'))
+      .catch(() => setStatut('erreur'));
+  }, [token]);
+
+  return (
+    <div className="space-y-4 text-center">
+      {statut === 'verification' && (
+        <p className="flex items-center justify-center gap-2 text-sm text-green-800">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Vérification en cours...
+        </p>
+      )}
+
+      {statut === 'verifie' && (
+        <p className="flex items-center justify-center gap-2 text-sm text-green-800">
+          <CheckCircle2 className="h-4 w-4" />
+          Votre adresse email est vérifiée.
+        </p>
+      )}
+
+      {statut === 'erreur' && (
+        <p className="flex items-center justify-center gap-2 text-sm text-red-700">
+          <XCircle className="h-4 w-4" />
+          Lien de vérification invalide ou expiré.
+        </p>
+      )}
+
+      <Link href="/dashboard" className="text-sm text-green-700 hover:underline">
+        Aller au tableau de bord
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface InvitationAcceptanceProps {
+  token: string;
+  email: string;
+}
+
+type Statut = 'attente' | 'envoi' | 'acceptee' | 'erreur';
+
+export function InvitationAcceptance({ token, email }: InvitationAcceptanceProps) {
+  const [statut, setStatut] = useState<Statut>('attente');
+  const [jardinId, setJardinId] = useState<string | null>(null);
+  const [erreur, setErreur] = useState<string | null>(null);
+
+  // Acceptation explicite : ouvrir le lien ne suffit pas à rejoindre le jardin
+  const accepter = async () => {
+    setStatut('envoi');
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErreur(data.error ?? 'Invitation invalide ou expirée');
+        setStatut('erreur');
+        return;
+      }
+
+      setJardinId(data.jardinId);
+      setStatut('acceptee');
+    } catch {
+      setErreur('Impossible de joindre le serveur');
+      setStatut('erreur');
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-center">
+      {(statut === 'attente' || statut === 'envoi') && (
+        <>
+          <p className="text-sm text-green-800">
+            Vous avez été invité à rejoindre un jardin partagé avec le compte {email}.
+          </p>
+          <Button onClick={accepter} disabled={statut === 'envoi'} className="w-full">
+            {statut === 'envoi' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Rejoindre le jardin
+          </Button>
+        </>
+      )}
+
+      {statut === 'acceptee' && (
+        <p className="flex items-center justify-center gap-2 text-sm text-green-800">
+          <CheckCircle2 className="h-4 w-4" />
+          Vous avez rejoint le jardin.
+        </p>
+      )}
+
+      {statut === 'erreur' && (
+        <p className="flex items-center justify-center gap-2 text-sm text-red-700">
+          <XCircle className="h-4 w-4" />
+          {erreur}
+        </p>
+      )}
+
+      <Link
+        href={jardinId ? `/jardins/${jardinId}/plan` : '/dashboard'}
+        className="text-sm text-green-700 hover:underline"
+      >
+        {jardinId ? 'Ouvrir le jardin' : 'Aller au tableau de bord'}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+
+interface PasswordResetFormProps {
+  token: string;
+}
+
+export function PasswordResetForm({ token }: PasswordResetFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmation) {
+      setError('Les mots de passe ne correspondent pas');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Erreur lors de la réinitialisation');
+      }
+
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur lors de la réinitialisation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-red-700">Lien de réinitialisation incomplet.</p>
+        <Link href="/auth/forgot-password" className="text-sm text-green-700 hover:underline">
+          Demander un nouveau lien
+        </Link>
+      </div>
+    );
+  }
+
+  if (done) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-green-800">Votre mot de passe a été mis à jour.</p>
+        <Link href="/auth/signin" className="text-sm text-green-700 hover:underline">
+          Se connecter
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="password">Nouveau mot de passe</Label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          minLength={8}
+          autoComplete="new-password"
+          className="h-12 text-base"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmation">Confirmation</Label>
+        <Input
+          id="confirmation"
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          required
+          minLength={8}
+          autoComplete="new-password"
+          className="h-12 text-base"
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full h-12 text-base bg-green-600 hover:bg-green-700"
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Enregistrement...
+          </>
+        ) : (
+          'Enregistrer le mot de passe'
+        )}
+      </Button>
+    </form>
+  );
+}
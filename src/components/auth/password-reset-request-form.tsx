@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+
+export function PasswordResetRequestForm() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Erreur lors de la demande');
+      }
+
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur lors de la demande');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-green-800">
+          Si un compte existe pour <strong>{email}</strong>, vous allez recevoir un lien
+          pour choisir un nouveau mot de passe.
+        </p>
+        <Link href="/auth/signin" className="text-sm text-green-700 hover:underline">
+          Retour à la connexion
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">Email du compte</Label>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          placeholder="votre@email.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          autoComplete="username"
+          className="h-12 text-base"
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full h-12 text-base bg-green-600 hover:bg-green-700"
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Envoi...
+          </>
+        ) : (
+          'Recevoir un lien de réinitialisation'
+        )}
+      </Button>
+
+      <div className="text-center">
+        <Link href="/auth/signin" className="text-sm text-green-700 hover:underline">
+          Retour à la connexion
+        </Link>
+      </div>
+    </form>
+  );
+}
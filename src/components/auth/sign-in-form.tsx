@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { signIn } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,13 +14,17 @@ import { SignInButton } from './sign-in-button';
 interface SignInFormData {
   email: string;
   password: string;
+  code: string;
 }
 
 export function SignInForm() {
   const [formData, setFormData] = useState<SignInFormData>({
     email: '',
-    password: ''
+    password: '',
+    code: ''
   });
+  // Étape second facteur, affichée quand le compte a la 2FA active
+  const [totpRequired, setTotpRequired] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -34,14 +39,21 @@ export function SignInForm() {
       const result = await signIn('credentials', {
         email: formData.email,
         password: formData.password,
+        ...(totpRequired && { code: formData.code }),
         redirect: false
       });
 
-      if (result?.error) {
+      if (result?.code === 'totp_required') {
+        setTotpRequired(true);
+      } else if (result?.code === 'totp_invalid') {
+        setError('Code de vérification invalide');
+      } else if (result?.error) {
         setError('Email ou mot de passe incorrect');
       } else {
-        // Redirection basée sur le profil sera gérée par le middleware
-        router.push('/dashboard');
+        // Retour à la page demandée (scan d'étiquette...), chemins internes uniquement ;
+        // sinon la redirection basée sur le profil sera gérée par le middleware
+        const callbackUrl = new URLSearchParams(window.location.search).get('callbackUrl');
+        router.push(callbackUrl && /^\/(?![/\\])/.test(callbackUrl) ? callbackUrl : '/dashboard');
         router.refresh();
       }
     } catch {
@@ -97,8 +109,34 @@ export function SignInForm() {
               {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
             </button>
           </div>
+          <div className="text-right">
+            <Link href="/auth/forgot-password" className="text-sm text-green-700 hover:underline">
+              Mot de passe oublié ?
+            </Link>
+          </div>
         </div>
 
+        {totpRequired && (
+          <div className="space-y-2">
+            <Label htmlFor="code">Code de vérification</Label>
+            <Input
+              id="code"
+              name="code"
+              type="text"
+              placeholder="123456"
+              value={formData.code}
+              onChange={handleChange}
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              className="h-12 text-base tracking-widest"
+            />
+            <p className="text-sm text-muted-foreground">
+              Saisissez le code de votre application d&apos;authentification ou un code de secours.
+            </p>
+          </div>
+        )}
+
         {error && (
           <Alert variant="destructive">
             <span className="text-sm">{error}</span>
@@ -0,0 +1,245 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface StatutDeuxFacteurs {
+  active: boolean;
+  codesRestants: number;
+  obligatoire: boolean;
+}
+
+interface Enrolement {
+  qrCodeSvg: string;
+  secret: string;
+}
+
+export function TwoFactorSetup() {
+  const { data: session, update } = useSession();
+  const [statut, setStatut] = useState<StatutDeuxFacteurs | null>(null);
+  const [enrolement, setEnrolement] = useState<Enrolement | null>(null);
+  // Codes de secours en clair : uniquement affichés juste après leur génération
+  const [codesRecuperation, setCodesRecuperation] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatut = useCallback(async () => {
+    const response = await fetch('/api/auth/2fa');
+    if (response.ok) {
+      setStatut(await response.json());
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatut();
+  }, [fetchStatut]);
+
+  const callApi = async (url: string, method: 'POST' | 'DELETE', body?: object) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Une erreur est survenue');
+        return null;
+      }
+      return data;
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const data = await callApi('/api/auth/2fa/setup', 'POST');
+    if (data) {
+      setEnrolement(data);
+      setCode('');
+    }
+  };
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await callApi('/api/auth/2fa/activate', 'POST', { code });
+    if (data) {
+      setEnrolement(null);
+      setCodesRecuperation(data.codesRecuperation);
+      setCode('');
+      // Lève l'obligation d'enrôlement portée par le token de session
+      await update();
+      await fetchStatut();
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await callApi('/api/auth/2fa/recovery-codes', 'POST', { code });
+    if (data) {
+      setCodesRecuperation(data.codesRecuperation);
+      setCode('');
+      await fetchStatut();
+    }
+  };
+
+  const handleDisable = async () => {
+    const data = await callApi('/api/auth/2fa', 'DELETE', { code });
+    if (data) {
+      setCodesRecuperation(null);
+      setCode('');
+      await fetchStatut();
+    }
+  };
+
+  if (!statut) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {statut.active ? (
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+          ) : (
+            <ShieldAlert className="h-5 w-5 text-amber-600" />
+          )}
+          Double authentification
+          <Badge variant={statut.active ? 'secondary' : 'outline'}>
+            {statut.active ? 'Active' : 'Inactive'}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Un code à usage unique généré par votre application d&apos;authentification
+          est demandé à chaque connexion par email.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {session?.user?.deuxFacteursRequis && !statut.active && (
+          <Alert variant="destructive">
+            <span className="text-sm">
+              Votre compte dispose de droits d&apos;administration : activez la double
+              authentification pour continuer à les utiliser.
+            </span>
+          </Alert>
+        )}
+
+        {codesRecuperation && (
+          <div className="space-y-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+            <p className="text-sm font-medium text-amber-900">
+              Conservez ces codes de secours en lieu sûr. Ils ne seront plus affichés
+              et chacun ne peut servir qu&apos;une fois.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {codesRecuperation.map(codeRecuperation => (
+                <li key={codeRecuperation}>{codeRecuperation}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!statut.active && !enrolement && (
+          <Button onClick={handleStart} disabled={isLoading} className="bg-green-600 hover:bg-green-700">
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Activer la double authentification
+          </Button>
+        )}
+
+        {enrolement && (
+          <form onSubmit={handleActivate} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scannez ce QR code avec votre application (Aegis, Google Authenticator…)
+              ou saisissez la clé manuellement.
+            </p>
+            <div
+              className="mx-auto w-48 bg-white p-2"
+              // SVG généré côté serveur par la librairie qrcode
+              dangerouslySetInnerHTML={{ __html: enrolement.qrCodeSvg }}
+            />
+            <p className="break-all text-center font-mono text-sm">{enrolement.secret}</p>
+            <div className="space-y-2">
+              <Label htmlFor="code-activation">Code à 6 chiffres</Label>
+              <Input
+                id="code-activation"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                required
+                className="h-12 text-base tracking-widest"
+              />
+            </div>
+            <Button type="submit" disabled={isLoading} className="w-full h-12 bg-green-600 hover:bg-green-700">
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Valider et activer
+            </Button>
+          </form>
+        )}
+
+        {statut.active && (
+          <form onSubmit={handleRegenerate} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {statut.codesRestants} code(s) de secours restant(s).
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="code-gestion">Code de votre application</Label>
+              <Input
+                id="code-gestion"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                required
+                className="h-12 text-base tracking-widest"
+              />
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button type="submit" variant="outline" disabled={isLoading}>
+                Régénérer les codes de secours
+              </Button>
+              {!statut.obligatoire && (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  disabled={isLoading || !code}
+                  onClick={handleDisable}
+                >
+                  Désactiver
+                </Button>
+              )}
+            </div>
+          </form>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <span className="text-sm">{error}</span>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { signOut, useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+
+export function TwoFactorVerification() {
+  const { update } = useSession();
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  // Le code est vérifié par le callback jwt : la session ne porte une identité qu'une fois validé
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const session = await update({ code });
+
+      if (!session?.user?.id) {
+        setError('Code de vérification invalide');
+        setCode('');
+      } else {
+        router.push('/dashboard');
+        router.refresh();
+      }
+    } catch {
+      setError('Erreur de connexion. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="code">Code de vérification</Label>
+        <Input
+          id="code"
+          name="code"
+          type="text"
+          placeholder="123456"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          required
+          autoFocus
+          autoComplete="one-time-code"
+          className="h-12 text-base tracking-widest"
+        />
+        <p className="text-sm text-muted-foreground">
+          Saisissez le code de votre application d&apos;authentification ou un code de secours.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full h-12 text-base bg-green-600 hover:bg-green-700"
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Vérification...
+          </>
+        ) : (
+          'Valider'
+        )}
+      </Button>
+
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full"
+        onClick={() => signOut({ callbackUrl: '/auth/signin' })}
+      >
+        Annuler et se déconnecter
+      </Button>
+    </form>
+  );
+}
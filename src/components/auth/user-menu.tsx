@@ -12,7 +12,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { LogOut, User, Settings, Eye, Wrench, Crown } from "lucide-react"
+import Link from "next/link"
+import { LogOut, User, Settings, Eye, Wrench, Crown, ShieldCheck, MonitorSmartphone, Database } from "lucide-react"
 import { Permission } from "@/types/auth"
 
 const profilIcons = {
@@ -98,6 +99,24 @@ export function UserMenu() {
             Mon profil
           </Button>
         </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/profil/securite" className="w-full justify-start h-auto p-2">
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Sécurité
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/profil/appareils" className="w-full justify-start h-auto p-2">
+            <MonitorSmartphone className="mr-2 h-4 w-4" />
+            Mes appareils
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/profil/donnees" className="w-full justify-start h-auto p-2">
+            <Database className="mr-2 h-4 w-4" />
+            Mes données
+          </Link>
+        </DropdownMenuItem>
         
         {user.permissions.includes(Permission.ADMIN) && (
           <DropdownMenuItem asChild>
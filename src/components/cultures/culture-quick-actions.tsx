@@ -0,0 +1,272 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Loader2, NotebookPen, Scale, Wrench } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type Action = 'recolte' | 'intervention' | 'note';
+
+interface Culture {
+  id: string;
+  nom: string;
+  codeLot: string | null;
+  etapeCycleVie: string;
+  dateSemisPrevue: string | null;
+  dateSemisReelle: string | null;
+  notes: string | null;
+  variete: { nomPersonnalise: string | null; varieteBase: { nomCommun: string } };
+  zone: { id: string; nom: string };
+  interventions: Array<{
+    id: string;
+    dateReelle: string;
+    notes: string | null;
+    typesIntervention: Array<{ typeIntervention: { nom: string } }>;
+  }>;
+  recoltes: Array<{ id: string; dateRecolte: string; poidsTotalKg: string | number }>;
+}
+
+const CATEGORIES = {
+  ARROSAGE: 'Arrosage',
+  FERTILISATION: 'Fertilisation',
+  TRAITEMENT: 'Traitement',
+  TAILLE: 'Taille',
+  DESHERBAGE: 'Désherbage',
+  RECOLTE: 'Récolte',
+  MAINTENANCE: 'Entretien',
+  OBSERVATION: 'Observation'
+};
+
+const ACTIONS: Array<{ action: Action; libelle: string; icone: typeof Scale }> = [
+  { action: 'recolte', libelle: 'Récolte', icone: Scale },
+  { action: 'intervention', libelle: 'Intervention', icone: Wrench },
+  { action: 'note', libelle: 'Note', icone: NotebookPen }
+];
+
+const MESSAGES: Record<Action, string> = {
+  recolte: 'Récolte enregistrée',
+  intervention: 'Intervention enregistrée',
+  note: 'Note ajoutée'
+};
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const FORMULAIRE_VIDE = {
+  poidsTotalKg: '',
+  categorie: 'ARROSAGE',
+  notes: ''
+};
+
+function formatDate(date: string) {
+  return format(new Date(date), 'd MMM yyyy', { locale: fr });
+}
+
+/**
+ * Fiche culture ouverte au scan d'une étiquette : saisie rapide d'une récolte,
+ * d'une intervention ou d'une note, pensée pour le téléphone au jardin
+ */
+export function CultureQuickActions({ cultureId }: { cultureId: string }) {
+  const [culture, setCulture] = useState<Culture | null>(null);
+  const [action, setAction] = useState<Action | null>(null);
+  const [formulaire, setFormulaire] = useState(FORMULAIRE_VIDE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchCulture = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cultures/${cultureId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Impossible de charger la culture');
+        return;
+      }
+      setCulture(data.culture);
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  }, [cultureId]);
+
+  useEffect(() => {
+    fetchCulture();
+  }, [fetchCulture]);
+
+  const champ = (cle: keyof typeof FORMULAIRE_VIDE) => ({
+    id: cle,
+    value: formulaire[cle],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      setFormulaire({ ...formulaire, [cle]: e.target.value })
+  });
+
+  const choisir = (choix: Action) => {
+    setAction(action === choix ? null : choix);
+    setFormulaire(FORMULAIRE_VIDE);
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const notes = formulaire.notes || undefined;
+    const saisie = {
+      recolte: { action, poidsTotalKg: Number(formulaire.poidsTotalKg), notes },
+      intervention: { action, categorie: formulaire.categorie, notes },
+      note: { action, texte: formulaire.notes }
+    }[action];
+
+    try {
+      const response = await fetch(`/api/cultures/${cultureId}/quick-actions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(saisie)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message ?? data.error ?? 'Une erreur est survenue');
+        return;
+      }
+
+      setMessage(MESSAGES[action]);
+      setAction(null);
+      setFormulaire(FORMULAIRE_VIDE);
+      await fetchCulture();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!culture && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!culture) {
+    return (
+      <Alert variant="destructive">
+        <span className="text-sm">{error}</span>
+      </Alert>
+    );
+  }
+
+  const dateSemis = culture.dateSemisReelle ?? culture.dateSemisPrevue;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardDescription>{culture.variete.nomPersonnalise ?? culture.variete.varieteBase.nomCommun}</CardDescription>
+          <CardTitle className="flex flex-wrap items-center gap-2 text-xl">
+            {culture.nom}
+            <Badge variant="outline">{culture.etapeCycleVie}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm text-muted-foreground">
+          <p>
+            {culture.zone.nom}
+            {dateSemis && ` · ${culture.dateSemisReelle ? 'semé le' : 'semis prévu le'} ${formatDate(dateSemis)}`}
+          </p>
+          {culture.codeLot && <p className="font-mono text-xs">{culture.codeLot}</p>}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-3 gap-2">
+        {ACTIONS.map(({ action: choix, libelle, icone: Icone }) => (
+          <Button
+            key={choix}
+            variant={action === choix ? 'default' : 'outline'}
+            className="h-16 flex-col gap-1"
+            onClick={() => choisir(choix)}
+          >
+            <Icone className="h-5 w-5" />
+            {libelle}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      {action && (
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {action === 'recolte' && (
+                <div className="space-y-1">
+                  <Label htmlFor="poidsTotalKg">Poids (kg)</Label>
+                  <Input type="number" inputMode="decimal" step="any" min={0} required autoFocus {...champ('poidsTotalKg')} />
+                </div>
+              )}
+              {action === 'intervention' && (
+                <div className="space-y-1">
+                  <Label htmlFor="categorie">Type</Label>
+                  <select className={selectClassName} {...champ('categorie')}>
+                    {Object.entries(CATEGORIES).map(([valeur, libelle]) => (
+                      <option key={valeur} value={valeur}>{libelle}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="notes">{action === 'note' ? 'Note' : 'Notes'}</Label>
+                <Textarea rows={3} required={action === 'note'} autoFocus={action === 'note'} {...champ('notes')} />
+              </div>
+              <Button type="submit" disabled={isLoading} className="w-full bg-green-600 hover:bg-green-700">
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Enregistrer
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Dernières saisies</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {culture.recoltes.length === 0 && culture.interventions.length === 0 && (
+            <p className="text-muted-foreground">Aucune récolte ni intervention enregistrée.</p>
+          )}
+          {culture.recoltes.map(recolte => (
+            <p key={recolte.id}>
+              <span className="text-muted-foreground">{formatDate(recolte.dateRecolte)}</span> · Récolte de {Number(recolte.poidsTotalKg)} kg
+            </p>
+          ))}
+          {culture.interventions.map(intervention => (
+            <p key={intervention.id}>
+              <span className="text-muted-foreground">{formatDate(intervention.dateReelle)}</span> ·{' '}
+              {intervention.typesIntervention.map(({ typeIntervention }) => typeIntervention.nom).join(', ') || 'Intervention'}
+              {intervention.notes && ` — ${intervention.notes}`}
+            </p>
+          ))}
+          {culture.notes && (
+            <p className="whitespace-pre-line border-t pt-2 text-muted-foreground">{culture.notes}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
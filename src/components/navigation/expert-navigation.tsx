@@ -6,7 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { 
   Home, Leaf, Plus, TrendingUp, Settings, User, Crown, 
   BarChart3, Calendar, Wrench, Cpu, Zap, Database,
-  ChevronDown, ChevronRight
+  ChevronDown, ChevronRight, ScrollText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState } from 'react';
@@ -93,6 +93,12 @@ const navigationSections = [
         label: 'Administration',
         description: 'Gestion des utilisateurs et données'
       },
+      {
+        href: '/audit',
+        icon: ScrollText,
+        label: 'Journal d\'audit',
+        description: 'Qui a modifié quoi, et depuis quel appareil'
+      },
       {
         href: '/settings',
         icon: Settings,
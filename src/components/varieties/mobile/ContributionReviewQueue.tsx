@@ -0,0 +1,106 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Check, ClipboardList, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { useReviewQueue } from '@/hooks/use-varieties'
+
+export interface ContributionReviewQueueProps {
+  className?: string
+}
+
+/**
+ * File de relecture des variétés proposées par les utilisateurs :
+ * publication dans le catalogue partagé ou refus motivé
+ */
+export const ContributionReviewQueue: React.FC<ContributionReviewQueueProps> = ({
+  className = ''
+}) => {
+  const { queue, loading, error, review } = useReviewQueue()
+  const [commentaires, setCommentaires] = useState<Record<string, string>>({})
+  const [enCours, setEnCours] = useState<string | null>(null)
+  const [erreurs, setErreurs] = useState<Record<string, string>>({})
+
+  const handleReview = async (varietyId: string, decision: 'approuver' | 'rejeter') => {
+    setEnCours(varietyId)
+    setErreurs(prev => ({ ...prev, [varietyId]: '' }))
+
+    try {
+      await review(varietyId, decision, commentaires[varietyId]?.trim() || undefined)
+    } catch (err) {
+      setErreurs(prev => ({ ...prev, [varietyId]: err instanceof Error ? err.message : 'Erreur inconnue' }))
+    } finally {
+      setEnCours(null)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center">
+          <ClipboardList className="h-4 w-4 mr-2 text-green-600" />
+          Contributions à relire
+          {queue.length > 0 && <Badge variant="secondary" className="ml-2">{queue.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {!loading && !error && queue.length === 0 && (
+          <p className="text-sm text-gray-500">Aucune contribution en attente</p>
+        )}
+
+        {queue.map(variety => (
+          <div key={variety.id} className="space-y-2 border-b pb-4 last:border-b-0 last:pb-0">
+            <div>
+              <div className="font-medium">
+                {variety.nomCommun}
+                {variety.nomScientifique && <span className="italic text-gray-500"> {variety.nomScientifique}</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {[variety.famille, variety.categorie, `v${variety.version}`].filter(Boolean).join(' · ')}
+                {variety.creePar?.name && ` · proposée par ${variety.creePar.name}`}
+                {' · '}{new Date(variety.soumisA).toLocaleDateString('fr')}
+              </div>
+            </div>
+
+            <Textarea
+              placeholder="Commentaire pour l'auteur (obligatoire en cas de refus)"
+              value={commentaires[variety.id] ?? ''}
+              onChange={(e) => setCommentaires(prev => ({ ...prev, [variety.id]: e.target.value }))}
+              rows={2}
+              className="resize-none text-sm"
+            />
+            {erreurs[variety.id] && <p className="text-xs text-red-700">{erreurs[variety.id]}</p>}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleReview(variety.id, 'approuver')}
+                disabled={enCours === variety.id}
+                className="flex-1 bg-green-600 hover:bg-green-700"
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Publier
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleReview(variety.id, 'rejeter')}
+                disabled={enCours === variety.id || !commentaires[variety.id]?.trim()}
+                className="flex-1"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Refuser
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default ContributionReviewQueue
@@ -8,10 +8,11 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { useFavoriteVarieties, useVarietyStats } from '@/hooks/use-varieties'
+import { useFavoriteVarieties, useSeedStock, useVarietyStats } from '@/hooks/use-varieties'
 import { VarietyCard } from './VarietyCard'
 import { VarietyList } from './VarietyList'
 import { VarietyPersonalizationModal } from './VarietyPersonalizationModal'
+import { SeedStockAlerts } from './SeedStockAlerts'
 
 export interface FavoriteVarietiesPageProps {
   onVarietySelect?: (variety: any) => void
@@ -34,6 +35,7 @@ export const FavoriteVarietiesPage: React.FC<FavoriteVarietiesPageProps> = ({
   
   const { favorites, loading, error, toggleFavorite } = useFavoriteVarieties()
   const { stats } = useVarietyStats()
+  const { stockByVariety, alerts: seedAlerts } = useSeedStock()
 
   // Filtrer favoris selon recherche
   const filteredFavorites = favorites.filter(variety => 
@@ -128,6 +130,9 @@ export const FavoriteVarietiesPage: React.FC<FavoriteVarietiesPageProps> = ({
 
       {/* Contenu principal */}
       <div className="p-4 space-y-6">
+        {/* Graines à racheter ou à semer en priorité */}
+        <SeedStockAlerts alerts={seedAlerts} />
+
         {/* Variété star si disponible */}
         {favoriteStats.topPerformer && (
           <Card className="bg-gradient-to-r from-green-50 to-emerald-50 border-green-200">
@@ -285,6 +290,7 @@ export const FavoriteVarietiesPage: React.FC<FavoriteVarietiesPageProps> = ({
                     >
                       <VarietyCard
                         variety={variety}
+                        seedStock={stockByVariety.get(variety.id)}
                         compact={true}
                         onSelect={() => setSelectedVariety(variety)}
                         onToggleFavorite={(isFavorite) => handleToggleFavorite(variety.id, isFavorite)}
@@ -296,6 +302,7 @@ export const FavoriteVarietiesPage: React.FC<FavoriteVarietiesPageProps> = ({
               ) : (
                 <VarietyList
                   varieties={filteredFavorites}
+                  seedStockByVariety={stockByVariety}
                   onSelect={(variety) => setSelectedVariety(variety)}
                   getCategoryIcon={getCategoryIcon}
                 />
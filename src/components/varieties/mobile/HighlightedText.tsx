@@ -0,0 +1,35 @@
+'use client'
+
+import React from 'react'
+import { VarietyWithUserData } from '@/hooks/use-varieties'
+
+export interface HighlightedTextProps {
+  variety: VarietyWithUserData
+  champ: 'nomCommun' | 'nomScientifique' | 'famille' | 'conseilsCulture'
+  text: string
+}
+
+/**
+ * Texte d'une variété avec les passages trouvés par la recherche surlignés
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ variety, champ, text }) => {
+  const surlignage = variety._search?.surlignages.find(s => s.champ === champ && s.texte === text)
+  if (!surlignage) return <>{text}</>
+
+  const morceaux: React.ReactNode[] = []
+  let curseur = 0
+  surlignage.plages.forEach(([debut, fin], index) => {
+    if (debut > curseur) morceaux.push(text.slice(curseur, debut))
+    morceaux.push(
+      <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(debut, fin)}
+      </mark>
+    )
+    curseur = fin
+  })
+  if (curseur < text.length) morceaux.push(text.slice(curseur))
+
+  return <>{morceaux}</>
+}
+
+export default HighlightedText
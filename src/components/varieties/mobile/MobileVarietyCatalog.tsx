@@ -8,7 +8,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent } from '@/components/ui/card'
-import { useVarietySearch, usePersonalizedRecommendations, VarietyFilters } from '@/hooks/use-varieties'
+import { useVarietySearch, usePersonalizedRecommendations, useSeedStock, SeedStock, VarietyFilters } from '@/hooks/use-varieties'
 import { VarietyCard } from './VarietyCard'
 import { VarietyList } from './VarietyList'
 import { QuickFilters } from './QuickFilters'
@@ -40,18 +40,20 @@ export const MobileVarietyCatalog: React.FC<MobileVarietyCatalogProps> = ({
 }) => {
   // État local
   const [searchQuery, setSearchQuery] = useState(initialFilters.query || '')
+  const [saisie, setSaisie] = useState(initialFilters.query || '')
   const [filters, setFilters] = useState<VarietyFilters>(initialFilters)
   const [view, setView] = useState<'grid' | 'list'>('grid')
   const [showFilters, setShowFilters] = useState(false)
 
   // Hooks pour les données
-  const { varieties, loading, error, totalCount, hasMore } = useVarietySearch({
+  const { varieties, loading, error, totalCount, suggestions, hasMore } = useVarietySearch({
     ...filters,
     query: searchQuery.length >= 2 ? searchQuery : undefined,
     includeAI: true
   })
 
   const { recommendations } = usePersonalizedRecommendations('seasonal')
+  const { stockByVariety } = useSeedStock()
 
   // Recherche avec debounce
   const debouncedSearch = useCallback(
@@ -62,9 +64,16 @@ export const MobileVarietyCatalog: React.FC<MobileVarietyCatalogProps> = ({
   )
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSaisie(e.target.value)
     debouncedSearch(e.target.value)
   }
 
+  // « Vouliez-vous dire » : relance directement la recherche corrigée
+  const handleSuggestion = (suggestion: string) => {
+    setSaisie(suggestion)
+    setSearchQuery(suggestion)
+  }
+
   const handleFilterChange = (newFilters: Partial<VarietyFilters>) => {
     setFilters(prev => ({ ...prev, ...newFilters }))
   }
@@ -97,6 +106,7 @@ export const MobileVarietyCatalog: React.FC<MobileVarietyCatalogProps> = ({
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
               <Input
                 placeholder="Rechercher une variété..."
+                value={saisie}
                 onChange={handleSearchChange}
                 className="pl-10 h-12 text-base"
               />
@@ -156,6 +166,23 @@ export const MobileVarietyCatalog: React.FC<MobileVarietyCatalogProps> = ({
               )}
             </div>
           )}
+
+          {/* Suggestions de correction */}
+          {!loading && searchQuery && suggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>Vouliez-vous dire</span>
+              {suggestions.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => handleSuggestion(suggestion)}
+                  className="font-medium text-green-700 underline-offset-2 hover:underline"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -234,12 +261,14 @@ export const MobileVarietyCatalog: React.FC<MobileVarietyCatalogProps> = ({
                 {view === 'grid' ? (
                   <VarietyGrid 
                     varieties={varieties} 
+                    seedStockByVariety={stockByVariety}
                     onSelect={handleVarietySelect}
                     getCategoryIcon={getCategoryIcon}
                   />
                 ) : (
                   <VarietyList 
                     varieties={varieties}
+                    seedStockByVariety={stockByVariety}
                     onSelect={handleVarietySelect}
                     getCategoryIcon={getCategoryIcon}
                   />
@@ -291,9 +320,10 @@ export const MobileVarietyCatalog: React.FC<MobileVarietyCatalogProps> = ({
  */
 const VarietyGrid: React.FC<{
   varieties: any[]
+  seedStockByVariety: Map<string, SeedStock>
   onSelect: (variety: any) => void
   getCategoryIcon: (category: string) => string
-}> = ({ varieties, onSelect, getCategoryIcon }) => (
+}> = ({ varieties, seedStockByVariety, onSelect, getCategoryIcon }) => (
   <div className="grid grid-cols-2 gap-4">
     {varieties.map((variety, index) => (
       <motion.div
@@ -304,6 +334,7 @@ const VarietyGrid: React.FC<{
       >
         <VarietyCard 
           variety={variety}
+          seedStock={seedStockByVariety.get(variety.id)}
           compact={true}
           onSelect={() => onSelect(variety)}
           getCategoryIcon={getCategoryIcon}
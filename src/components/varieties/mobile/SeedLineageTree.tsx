@@ -0,0 +1,131 @@
+'use client'
+
+import React from 'react'
+import { GitBranch, Package, Sprout, TrendingDown, TrendingUp } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { SeedCultureNode, SeedLotNode, useSeedLineage } from '@/hooks/use-varieties'
+
+export interface SeedLineageTreeProps {
+  varietyId: string
+  className?: string
+}
+
+const formatNombre = (valeur: number) => valeur.toLocaleString('fr', { maximumFractionDigits: 2 })
+
+const Evolution: React.FC<{ libelle: string; ecart: number | null; unite?: string }> = ({ libelle, ecart, unite = '' }) => {
+  if (ecart === null) return null
+  const Icone = ecart >= 0 ? TrendingUp : TrendingDown
+
+  return (
+    <Badge variant="outline" className={ecart >= 0 ? 'text-green-700' : 'text-orange-700'}>
+      <Icone className="h-3 w-3 mr-1" />
+      {libelle} {ecart >= 0 ? '+' : ''}{formatNombre(ecart)}{unite}
+    </Badge>
+  )
+}
+
+const NoeudLot: React.FC<{ lot: SeedLotNode }> = ({ lot }) => (
+  <li>
+    <div className="flex items-center gap-1 text-gray-700">
+      <Package className="h-3 w-3 text-amber-600" />
+      <span className="font-medium">G{lot.generation}</span>
+      <span className="text-gray-500">
+        {[
+          lot.anneeProduction,
+          lot.fournisseur ?? lot.numeroLot,
+          `${lot.quantiteRestante}/${lot.quantiteInitiale} graines`
+        ].filter(Boolean).join(' · ')}
+      </span>
+    </div>
+    {lot.cultures.length > 0 && (
+      <ul className="ml-2 mt-1 space-y-1 border-l pl-3">
+        {lot.cultures.map(culture => <NoeudCulture key={culture.id} culture={culture} />)}
+      </ul>
+    )}
+  </li>
+)
+
+const NoeudCulture: React.FC<{ culture: SeedCultureNode }> = ({ culture }) => (
+  <li>
+    <div className="flex items-center gap-1">
+      <Sprout className="h-3 w-3 text-green-600" />
+      <span>{culture.nom}</span>
+      <span className="text-gray-500">
+        {[
+          culture.anneeSaison,
+          culture.poidsTotalKg > 0 && `${formatNombre(culture.poidsTotalKg)} kg`,
+          culture.rendementKgM2 !== null && `${formatNombre(culture.rendementKgM2)} kg/m²`,
+          culture.goutMoyen !== null && `goût ${formatNombre(culture.goutMoyen)}/5`
+        ].filter(Boolean).join(' · ')}
+      </span>
+    </div>
+    {culture.lots.length > 0 && (
+      <ul className="ml-2 mt-1 space-y-1 border-l pl-3">
+        {culture.lots.map(lot => <NoeudLot key={lot.id} lot={lot} />)}
+      </ul>
+    )}
+  </li>
+)
+
+/**
+ * Lignée des graines d'une variété : lots sauvés et cultures qui en sont issues,
+ * avec le bilan par génération pour juger de la sélection
+ */
+export const SeedLineageTree: React.FC<SeedLineageTreeProps> = ({
+  varietyId,
+  className = ''
+}) => {
+  const { lineage } = useSeedLineage(varietyId)
+
+  // Pas encore de graines sauvées : l'arbre n'apprendrait rien
+  if (!lineage || !lineage.generations.some(generation => generation.generation > 0)) return null
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center">
+          <GitBranch className="h-4 w-4 mr-2 text-green-600" />
+          Lignée des graines
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex flex-wrap gap-1">
+          <Evolution libelle="Rendement" ecart={lineage.evolution.rendementKgM2} unite=" kg/m²" />
+          <Evolution libelle="Goût" ecart={lineage.evolution.gout} />
+          <Evolution libelle="Qualité" ecart={lineage.evolution.qualite} />
+        </div>
+
+        <table className="w-full text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-normal">Génération</th>
+              <th className="text-right font-normal">Cultures</th>
+              <th className="text-right font-normal">kg/m²</th>
+              <th className="text-right font-normal">Goût</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lineage.generations.map(generation => (
+              <tr key={generation.generation}>
+                <td>G{generation.generation} <span className="text-gray-500">{generation.annees.join(', ')}</span></td>
+                <td className="text-right">{generation.cultures}</td>
+                <td className="text-right">{generation.rendementMoyenKgM2 !== null ? formatNombre(generation.rendementMoyenKgM2) : '—'}</td>
+                <td className="text-right">{generation.goutMoyen !== null ? `${formatNombre(generation.goutMoyen)}/5` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <ul className="space-y-1 text-xs">
+          {lineage.racines.map(noeud => noeud.type === 'lot'
+            ? <NoeudLot key={noeud.id} lot={noeud} />
+            : <NoeudCulture key={noeud.id} culture={noeud} />
+          )}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SeedLineageTree
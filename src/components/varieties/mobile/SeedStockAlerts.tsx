@@ -0,0 +1,50 @@
+'use client'
+
+import React from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { SeedStock } from '@/hooks/use-varieties'
+
+export interface SeedStockAlertsProps {
+  alerts: SeedStock[]
+  limit?: number
+  className?: string
+}
+
+/**
+ * Encart des variétés dont le stock de graines demande attention
+ * (épuisé, bas, sachets périmés ou de germination incertaine)
+ */
+export const SeedStockAlerts: React.FC<SeedStockAlertsProps> = ({
+  alerts,
+  limit = 5,
+  className = ''
+}) => {
+  if (alerts.length === 0) return null
+
+  return (
+    <Card className={`border-orange-200 bg-orange-50 ${className}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center text-orange-800">
+          <AlertTriangle className="h-4 w-4 mr-2" />
+          Stock de graines
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {alerts.slice(0, limit).map(stock => (
+          <div key={stock.varieteId} className="text-sm">
+            <span className="font-medium text-orange-900">{stock.nom}</span>
+            <span className="text-orange-700"> — {[...new Set(stock.alertes.map(alerte => alerte.message))].join(', ')}</span>
+          </div>
+        ))}
+        {alerts.length > limit && (
+          <p className="text-xs text-orange-700">
+            Et {alerts.length - limit} autre{alerts.length - limit > 1 ? 's' : ''} variété{alerts.length - limit > 1 ? 's' : ''}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SeedStockAlerts
@@ -0,0 +1,33 @@
+'use client'
+
+import React from 'react'
+import { Package } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { SeedStock } from '@/hooks/use-varieties'
+
+export interface SeedStockBadgeProps {
+  stock?: SeedStock
+  className?: string
+}
+
+/**
+ * Graines en stock pour une variété, en orange dès qu'une alerte la concerne
+ */
+export const SeedStockBadge: React.FC<SeedStockBadgeProps> = ({ stock, className = '' }) => {
+  if (!stock) return null
+
+  const enAlerte = stock.alertes.length > 0
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${enAlerte ? 'border-orange-300 text-orange-700 bg-orange-50' : 'text-gray-600'} ${className}`}
+      title={enAlerte ? stock.alertes.map(alerte => alerte.message).join('\n') : undefined}
+    >
+      <Package className="h-3 w-3 mr-1" />
+      {stock.quantiteRestante > 0 ? `${stock.quantiteRestante} graine${stock.quantiteRestante > 1 ? 's' : ''}` : 'Épuisé'}
+    </Badge>
+  )
+}
+
+export default SeedStockBadge
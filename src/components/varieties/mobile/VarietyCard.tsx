@@ -7,10 +7,13 @@ import { motion } from 'framer-motion'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { VarietyWithUserData, PerformancePersonnelle } from '@/hooks/use-varieties'
+import { VarietyWithUserData, PerformancePersonnelle, SeedStock } from '@/hooks/use-varieties'
+import { HighlightedText } from './HighlightedText'
+import { SeedStockBadge } from './SeedStockBadge'
 
 export interface VarietyCardProps {
   variety: VarietyWithUserData
+  seedStock?: SeedStock
   compact?: boolean
   onSelect?: () => void
   onToggleFavorite?: (isFavorite: boolean) => void
@@ -24,6 +27,7 @@ export interface VarietyCardProps {
  */
 export const VarietyCard: React.FC<VarietyCardProps> = ({
   variety,
+  seedStock,
   compact = false,
   onSelect,
   onToggleFavorite,
@@ -138,12 +142,14 @@ export const VarietyCard: React.FC<VarietyCardProps> = ({
           <div className="p-3 space-y-2">
             <div className="space-y-1">
               <h3 className="font-medium text-gray-900 truncate">
-                {userSpecific?.personalizedName || variety.nomCommun}
+                {userSpecific?.personalizedName || (
+                  <HighlightedText variety={variety} champ="nomCommun" text={variety.nomCommun} />
+                )}
               </h3>
               
               {variety.famille && (
                 <p className="text-sm text-gray-500 truncate">
-                  {variety.famille}
+                  <HighlightedText variety={variety} champ="famille" text={variety.famille} />
                 </p>
               )}
             </div>
@@ -161,9 +167,19 @@ export const VarietyCard: React.FC<VarietyCardProps> = ({
                     <span>{Math.round(performance.tauxReussite * 100)}% réussite</span>
                   </div>
                 </div>
+                {/* Mesures issues des récoltes réelles */}
+                {(performance.rendementMoyenKgM2 > 0 || performance.joursAvantPremiereRecolte !== undefined || performance.tauxGermination !== undefined) && (
+                  <div className="flex flex-wrap gap-x-3 text-xs text-green-700">
+                    {performance.rendementMoyenKgM2 > 0 && <span>{performance.rendementMoyenKgM2.toFixed(1)} kg/m²</span>}
+                    {performance.joursAvantPremiereRecolte !== undefined && <span>1re récolte à {performance.joursAvantPremiereRecolte}j</span>}
+                    {performance.tauxGermination !== undefined && <span>{Math.round(performance.tauxGermination * 100)}% germination</span>}
+                    {performance.qualiteMoyenne !== undefined && <span>Qualité {performance.qualiteMoyenne.toFixed(1)}/5</span>}
+                  </div>
+                )}
                 {performance.meilleureRecolte && (
                   <div className="text-xs text-green-700">
                     Meilleur: {performance.meilleureRecolte.poids.toFixed(1)}kg en {performance.meilleureRecolte.annee}
+                    {performance.saisons && performance.saisons.length > 1 && ` · ${performance.saisons.length} saisons`}
                   </div>
                 )}
               </div>
@@ -188,7 +204,9 @@ export const VarietyCard: React.FC<VarietyCardProps> = ({
                 )}
               </div>
 
-              {(variety._count?.varietesUtilisateur ?? 0) > 0 && (
+              {seedStock ? (
+                <SeedStockBadge stock={seedStock} />
+              ) : (variety._count?.varietesUtilisateur ?? 0) > 0 && (
                 <Badge variant="outline" className="text-xs">
                   {variety._count?.varietesUtilisateur} jardinier{(variety._count?.varietesUtilisateur ?? 0) > 1 ? 's' : ''}
                 </Badge>
@@ -0,0 +1,169 @@
+'use client'
+
+import React from 'react'
+import { Trophy, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ComparisonValue, useVarietyComparison, VarietyComparisonRow } from '@/hooks/use-varieties'
+
+export interface VarietyComparisonTableProps {
+  varietyIds: string[]
+  onRemove?: (varietyId: string) => void
+  className?: string
+}
+
+const LIBELLES_SECTION: Record<VarietyComparisonRow['section'], string> = {
+  culture: 'Culture',
+  calendrier: 'Calendrier',
+  performance: 'Mes résultats',
+  communaute: 'Communauté'
+}
+
+const LIBELLES_VALEUR: Record<string, string> = {
+  PLEIN_SOLEIL: 'Plein soleil',
+  MI_OMBRE: 'Mi-ombre',
+  OMBRE: 'Ombre',
+  FAIBLE: 'Faibles',
+  MOYEN: 'Moyens',
+  ELEVE: 'Élevés'
+}
+
+const MOIS = ['janv', 'févr', 'mars', 'avr', 'mai', 'juin', 'juil', 'août', 'sept', 'oct', 'nov', 'déc']
+
+const formatValeur = (valeur: ComparisonValue, unite?: string): string => {
+  if (valeur === null) return '—'
+  if (typeof valeur === 'boolean') return valeur ? 'Oui' : 'Non'
+  if (Array.isArray(valeur)) return valeur.length > 0 ? valeur.map(mois => MOIS[mois - 1]).join(', ') : '—'
+  if (typeof valeur === 'string') return LIBELLES_VALEUR[valeur] ?? valeur
+  return unite ? `${valeur.toLocaleString('fr')} ${unite}` : valeur.toLocaleString('fr')
+}
+
+/**
+ * Comparaison côte à côte de 2 à 5 variétés : une ligne par critère, la meilleure
+ * valeur mise en avant. Le tableau défile horizontalement sur mobile, les libellés restent visibles.
+ */
+export const VarietyComparisonTable: React.FC<VarietyComparisonTableProps> = ({
+  varietyIds,
+  onRemove,
+  className = ''
+}) => {
+  const { comparison, loading, error } = useVarietyComparison(varietyIds)
+
+  if (varietyIds.length < 2) {
+    return (
+      <Card className={className}>
+        <CardContent className="py-6 text-center text-sm text-gray-500">
+          Sélectionnez au moins deux variétés à comparer
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const sections = comparison
+    ? (Object.keys(LIBELLES_SECTION) as VarietyComparisonRow['section'][])
+        .map(section => ({ section, lignes: comparison.lignes.filter(ligne => ligne.section === section) }))
+        .filter(groupe => groupe.lignes.length > 0)
+    : []
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center">
+          <Trophy className="h-4 w-4 mr-2 text-green-600" />
+          Comparaison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-0 pb-4">
+        {error && <p className="px-6 text-sm text-red-700">{error}</p>}
+        {loading && !comparison && <p className="px-6 text-sm text-gray-500">Chargement…</p>}
+
+        {comparison && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 z-10 bg-white min-w-[7rem]" />
+                  {comparison.varietes.map(variety => (
+                    <th key={variety.id} className="min-w-[6.5rem] px-2 pb-2 text-left align-top font-medium">
+                      <div className="flex items-start justify-between gap-1">
+                        <span>
+                          {variety.personnelle?.nomPersonnalise || variety.nomCommun}
+                          {variety.nomScientifique && (
+                            <span className="block text-xs font-normal italic text-gray-500">{variety.nomScientifique}</span>
+                          )}
+                        </span>
+                        {onRemove && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRemove(variety.id)}
+                            className="h-6 w-6 p-0 text-gray-400"
+                            aria-label={`Retirer ${variety.nomCommun} de la comparaison`}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sections.map(({ section, lignes }) => (
+                  <React.Fragment key={section}>
+                    <tr>
+                      <td
+                        colSpan={comparison.varietes.length + 1}
+                        className="sticky left-0 bg-gray-50 px-4 py-1 text-xs font-semibold uppercase text-gray-500"
+                      >
+                        {LIBELLES_SECTION[section]}
+                      </td>
+                    </tr>
+                    {lignes.map(ligne => (
+                      <tr key={ligne.cle} className="border-b last:border-b-0">
+                        <th scope="row" className="sticky left-0 z-10 bg-white px-4 py-2 text-left font-normal text-gray-600">
+                          {ligne.libelle}
+                        </th>
+                        {ligne.valeurs.map((valeur, index) => {
+                          const estMeilleure = ligne.meilleurs.includes(index)
+                          return (
+                            <td
+                              key={comparison.varietes[index].id}
+                              className={`px-2 py-2 ${estMeilleure ? 'bg-green-50 font-semibold text-green-800' : ''}`}
+                            >
+                              {formatValeur(valeur, ligne.unite)}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Historique personnel saison par saison */}
+        {comparison?.varietes.some(variety => variety.personnelle?.performance?.historique.length) && (
+          <div className="mt-4 space-y-1 px-4 text-xs text-gray-600">
+            {comparison.varietes.map(variety => {
+              const historique = variety.personnelle?.performance?.historique ?? []
+              if (historique.length === 0) return null
+
+              return (
+                <p key={variety.id}>
+                  <span className="font-medium">{variety.personnelle?.nomPersonnalise || variety.nomCommun}</span>
+                  {' : '}
+                  {historique.map(saison => `${saison.annee} ${saison.poidsTotalKg.toLocaleString('fr')} kg`).join(' · ')}
+                </p>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default VarietyComparisonTable
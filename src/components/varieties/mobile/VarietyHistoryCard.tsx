@@ -0,0 +1,77 @@
+'use client'
+
+import React from 'react'
+import { History } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { useVarietyHistory, VarietyHistory } from '@/hooks/use-varieties'
+
+export interface VarietyHistoryCardProps {
+  varietyId: string
+  className?: string
+}
+
+const LIBELLES_ACTION: Record<VarietyHistory['historique'][number]['action'], string> = {
+  CREATION: 'Proposée',
+  MODIFICATION: 'Modifiée',
+  SOUMISSION: 'Soumise à relecture',
+  APPROBATION: 'Publiée',
+  REJET: 'Refusée'
+}
+
+const LIBELLES_STATUT: Record<VarietyHistory['statutModeration'], string> = {
+  BROUILLON: 'Brouillon',
+  SOUMISE: 'En relecture',
+  APPROUVEE: 'Publiée',
+  REJETEE: 'Refusée'
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('fr', { day: 'numeric', month: 'short', year: 'numeric' })
+
+/**
+ * Attribution d'une variété du catalogue (auteur, relecteur) et historique de ses versions
+ */
+export const VarietyHistoryCard: React.FC<VarietyHistoryCardProps> = ({
+  varietyId,
+  className = ''
+}) => {
+  const { history } = useVarietyHistory(varietyId)
+
+  // Variétés d'origine, sans auteur ni historique : rien à afficher
+  if (!history || (!history.creePar && history.historique.length === 0)) return null
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center">
+            <History className="h-4 w-4 mr-2 text-gray-600" />
+            Historique
+          </span>
+          <Badge variant="secondary">v{history.version} · {LIBELLES_STATUT[history.statutModeration]}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <p className="text-gray-600">
+          {history.creePar?.name ? `Proposée par ${history.creePar.name}` : 'Auteur inconnu'}
+          {history.moderateur?.name && history.modereA && history.statutModeration === 'APPROUVEE' &&
+            ` · publiée par ${history.moderateur.name} le ${formatDate(history.modereA)}`}
+        </p>
+        <ul className="space-y-1">
+          {history.historique.map(entree => (
+            <li key={entree.id} className="flex justify-between gap-2">
+              <span>
+                {LIBELLES_ACTION[entree.action]} (v{entree.version})
+                {entree.auteur?.name && <span className="text-gray-500"> par {entree.auteur.name}</span>}
+                {entree.commentaire && <span className="block text-xs text-gray-500">« {entree.commentaire} »</span>}
+              </span>
+              <span className="text-gray-500 whitespace-nowrap">{formatDate(entree.creeA)}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default VarietyHistoryCard
@@ -7,10 +7,13 @@ import { motion } from 'framer-motion'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar'
-import { VarietyWithUserData, PerformancePersonnelle } from '@/hooks/use-varieties'
+import { VarietyWithUserData, PerformancePersonnelle, SeedStock } from '@/hooks/use-varieties'
+import { HighlightedText } from './HighlightedText'
+import { SeedStockBadge } from './SeedStockBadge'
 
 export interface VarietyListProps {
   varieties: VarietyWithUserData[]
+  seedStockByVariety?: Map<string, SeedStock>
   onSelect?: (variety: VarietyWithUserData) => void
   getCategoryIcon?: (category: string) => string
   className?: string
@@ -22,6 +25,7 @@ export interface VarietyListProps {
  */
 export const VarietyList: React.FC<VarietyListProps> = ({
   varieties,
+  seedStockByVariety,
   onSelect,
   getCategoryIcon = () => '🌱',
   className = ''
@@ -32,6 +36,7 @@ export const VarietyList: React.FC<VarietyListProps> = ({
         <VarietyListItem
           key={variety.id}
           variety={variety}
+          seedStock={seedStockByVariety?.get(variety.id)}
           onSelect={() => onSelect?.(variety)}
           getCategoryIcon={getCategoryIcon}
           index={index}
@@ -46,6 +51,7 @@ export const VarietyList: React.FC<VarietyListProps> = ({
  */
 interface VarietyListItemProps {
   variety: VarietyWithUserData
+  seedStock?: SeedStock
   onSelect?: () => void
   getCategoryIcon: (category: string) => string
   index: number
@@ -53,6 +59,7 @@ interface VarietyListItemProps {
 
 const VarietyListItem: React.FC<VarietyListItemProps> = ({
   variety,
+  seedStock,
   onSelect,
   getCategoryIcon,
   index
@@ -61,6 +68,8 @@ const VarietyListItem: React.FC<VarietyListItemProps> = ({
   const performance = userSpecific?.performance as PerformancePersonnelle
   const infosCulture = variety.infosCulture as any
   const aiInsights = variety._aiInsights
+  // Conseil de culture qui a fait remonter la variété dans la recherche
+  const conseilTrouve = variety._search?.surlignages.find(s => s.champ === 'conseilsCulture')
 
   // Badge de difficulté
   const getDifficultyColor = (level: number) => {
@@ -106,16 +115,23 @@ const VarietyListItem: React.FC<VarietyListItemProps> = ({
               <div className="flex items-start justify-between">
                 <div className="flex-1 min-w-0">
                   <h3 className="font-semibold text-gray-900 truncate">
-                    {userSpecific?.personalizedName || variety.nomCommun}
+                    {userSpecific?.personalizedName || (
+                      <HighlightedText variety={variety} champ="nomCommun" text={variety.nomCommun} />
+                    )}
                   </h3>
                   {variety.nomScientifique && (
                     <p className="text-sm text-gray-500 italic truncate">
-                      {variety.nomScientifique}
+                      <HighlightedText variety={variety} champ="nomScientifique" text={variety.nomScientifique} />
                     </p>
                   )}
                   {variety.famille && (
                     <p className="text-xs text-gray-400">
-                      {variety.famille}
+                      <HighlightedText variety={variety} champ="famille" text={variety.famille} />
+                    </p>
+                  )}
+                  {conseilTrouve && (
+                    <p className="text-xs text-gray-500 truncate">
+                      <HighlightedText variety={variety} champ="conseilsCulture" text={conseilTrouve.texte} />
                     </p>
                   )}
                 </div>
@@ -145,6 +161,8 @@ const VarietyListItem: React.FC<VarietyListItemProps> = ({
                   </Badge>
                 )}
 
+                <SeedStockBadge stock={seedStock} />
+
                 {aiInsights && aiInsights.compatibilityScore > 0.7 && (
                   <Badge className="bg-blue-500 text-white text-xs">
                     🤖 {Math.round(aiInsights.compatibilityScore * 100)}%
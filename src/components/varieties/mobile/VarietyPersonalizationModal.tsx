@@ -11,6 +11,8 @@ import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { useVarietyPersonalization, VarietyWithUserData } from '@/hooks/use-varieties'
 import { useSession } from 'next-auth/react'
+import { VarietyHistoryCard } from './VarietyHistoryCard'
+import { SeedLineageTree } from './SeedLineageTree'
 
 export interface VarietyPersonalizationModalProps {
   variety: VarietyWithUserData
@@ -279,6 +281,12 @@ export const VarietyPersonalizationModal: React.FC<VarietyPersonalizationModalPr
               </Card>
             )}
 
+            {/* Attribution et versions de la fiche */}
+            <VarietyHistoryCard varietyId={variety.id} />
+
+            {/* Graines sauvées génération après génération */}
+            <SeedLineageTree varietyId={variety.id} />
+
             {/* Photos (placeholder pour future implémentation) */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-700">
@@ -15,6 +15,27 @@ export type { VarietyCardProps } from './VarietyCard'
 export { VarietyList } from './VarietyList'
 export type { VarietyListProps } from './VarietyList'
 
+export { HighlightedText } from './HighlightedText'
+export type { HighlightedTextProps } from './HighlightedText'
+
+export { SeedStockBadge } from './SeedStockBadge'
+export type { SeedStockBadgeProps } from './SeedStockBadge'
+
+export { SeedStockAlerts } from './SeedStockAlerts'
+export type { SeedStockAlertsProps } from './SeedStockAlerts'
+
+export { SeedLineageTree } from './SeedLineageTree'
+export type { SeedLineageTreeProps } from './SeedLineageTree'
+
+export { VarietyHistoryCard } from './VarietyHistoryCard'
+export type { VarietyHistoryCardProps } from './VarietyHistoryCard'
+
+export { VarietyComparisonTable } from './VarietyComparisonTable'
+export type { VarietyComparisonTableProps } from './VarietyComparisonTable'
+
+export { ContributionReviewQueue } from './ContributionReviewQueue'
+export type { ContributionReviewQueueProps } from './ContributionReviewQueue'
+
 export { RecommendationCard } from './RecommendationCard'
 export type { RecommendationCardProps } from './RecommendationCard'
 
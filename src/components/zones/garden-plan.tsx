@@ -0,0 +1,527 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Archive, ArchiveRestore, CalendarPlus, FlaskConical, LayoutTemplate, Loader2, Plus } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { boundingBox, GeometrieZoneInput, geometrieZoneSchema, readZonePolygon } from '@/lib/geometry';
+import { ZoneGeometryEditor, ZonePlan } from './zone-geometry-editor';
+import { GeoJsonExchange } from './geojson-exchange';
+import { LabelSheetExport } from './label-sheet-export';
+import { ZoneOccupationTimeline } from './zone-occupation-timeline';
+
+interface Zone {
+  id: string;
+  nom: string;
+  typeZone: string;
+  geometrie: unknown;
+  expositionSoleil: string;
+  accesEau: string;
+  qualiteSol: number;
+}
+
+interface ZoneArchivee {
+  id: string;
+  nom: string;
+  purgePrevueA: string | null;
+}
+
+interface Formulaire {
+  nom: string;
+  typeZone: string;
+  expositionSoleil: string;
+  accesEau: string;
+  qualiteSol: number;
+}
+
+const TYPES_ZONE = {
+  BAC: 'Bac',
+  PARCELLE: 'Parcelle',
+  SERRE: 'Serre',
+  ZONE_LIBRE: 'Zone libre',
+  ARBRE: 'Arbre',
+  VIGNE: 'Vigne'
+};
+
+const EXPOSITIONS = {
+  PLEIN_SOLEIL: 'Plein soleil',
+  MI_OMBRE: 'Mi-ombre',
+  OMBRE: 'Ombre'
+};
+
+const ACCES_EAU = {
+  FACILE: 'Facile',
+  MOYEN: 'Moyen',
+  DIFFICILE: 'Difficile'
+};
+
+const FORMULAIRE_VIDE: Formulaire = {
+  nom: '',
+  typeZone: 'BAC',
+  expositionSoleil: 'PLEIN_SOLEIL',
+  accesEau: 'FACILE',
+  qualiteSol: 3
+};
+
+// Marge autour des zones existantes pour pouvoir en tracer de nouvelles
+const MARGE_PLAN_M = 3;
+const TAILLE_PLAN_MIN_M = 10;
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+function geometrieEditable(geometrie: unknown): GeometrieZoneInput | null {
+  const resultat = geometrieZoneSchema.safeParse(geometrie);
+  return resultat.success ? resultat.data : null;
+}
+
+export function GardenPlan({ jardinId }: { jardinId: string }) {
+  const [zones, setZones] = useState<Zone[] | null>(null);
+  const [zonesArchivees, setZonesArchivees] = useState<ZoneArchivee[]>([]);
+  const [selection, setSelection] = useState<string | 'nouvelle' | null>(null);
+  const [formulaire, setFormulaire] = useState<Formulaire>(FORMULAIRE_VIDE);
+  const [geometrie, setGeometrie] = useState<GeometrieZoneInput | null>(null);
+  const [geometrieModifiee, setGeometrieModifiee] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nomModele, setNomModele] = useState('');
+  const [messageModele, setMessageModele] = useState<string | null>(null);
+
+  const fetchZones = useCallback(async () => {
+    try {
+      const [response, responseArchivees] = await Promise.all([
+        fetch(`/api/zones?jardinId=${encodeURIComponent(jardinId)}`),
+        fetch(`/api/zones?jardinId=${encodeURIComponent(jardinId)}&archivees=true`)
+      ]);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Impossible de charger les zones');
+        return;
+      }
+      setZones(data.zones);
+      if (responseArchivees.ok) {
+        setZonesArchivees((await responseArchivees.json()).zones);
+      }
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  }, [jardinId]);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  const zonesPlan = useMemo<ZonePlan[]>(() => {
+    return (zones ?? []).flatMap(zone => {
+      const coordonnees = readZonePolygon(zone.geometrie);
+      return coordonnees ? [{ id: zone.id, nom: zone.nom, coordonnees }] : [];
+    });
+  }, [zones]);
+
+  const [largeurPlanM, longueurPlanM] = useMemo(() => {
+    const points = zonesPlan.flatMap(zone => zone.coordonnees);
+    if (points.length === 0) return [TAILLE_PLAN_MIN_M, TAILLE_PLAN_MIN_M];
+
+    const [, , maxX, maxY] = boundingBox(points);
+    return [
+      Math.max(TAILLE_PLAN_MIN_M, Math.ceil(maxX + MARGE_PLAN_M)),
+      Math.max(TAILLE_PLAN_MIN_M, Math.ceil(maxY + MARGE_PLAN_M))
+    ];
+  }, [zonesPlan]);
+
+  const selectionner = (zone: Zone | null) => {
+    setError(null);
+    setGeometrieModifiee(false);
+
+    if (!zone) {
+      setSelection('nouvelle');
+      setFormulaire(FORMULAIRE_VIDE);
+      setGeometrie(null);
+      return;
+    }
+
+    setSelection(zone.id);
+    setFormulaire({
+      nom: zone.nom,
+      typeZone: zone.typeZone,
+      expositionSoleil: zone.expositionSoleil,
+      accesEau: zone.accesEau,
+      qualiteSol: zone.qualiteSol
+    });
+    setGeometrie(geometrieEditable(zone.geometrie));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!geometrie) {
+      setError('Tracez le contour de la zone sur le plan');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const creation = selection === 'nouvelle';
+    try {
+      const response = await fetch(creation ? '/api/zones' : `/api/zones/${selection}`, {
+        method: creation ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formulaire,
+          ...(creation && { jardinId }),
+          ...((creation || geometrieModifiee) && { geometrie })
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(
+          response.status === 409
+            ? `${data.error} : ${data.zones.map((zone: { nom: string }) => zone.nom).join(', ')}`
+            : data.error ?? 'Une erreur est survenue'
+        );
+        return;
+      }
+
+      setSelection(null);
+      await fetchZones();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!selection || selection === 'nouvelle') return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/zones/${selection}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Une erreur est survenue');
+        return;
+      }
+
+      setSelection(null);
+      await fetchZones();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (zoneId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/zones/${zoneId}/restore`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(
+          data.zones
+            ? `${data.error} : ${data.zones.map((zone: { nom: string }) => zone.nom).join(', ')}`
+            : data.error ?? 'Une erreur est survenue'
+        );
+        return;
+      }
+
+      await fetchZones();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setMessageModele(null);
+
+    try {
+      const response = await fetch('/api/layout-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jardinId, nom: nomModele })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Une erreur est survenue');
+        return;
+      }
+
+      setNomModele('');
+      setMessageModele(
+        data.zonesIgnorees > 0
+          ? `Modèle enregistré (${data.zonesIgnorees} zone(s) sans contour ignorée(s))`
+          : 'Modèle enregistré'
+      );
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!zones && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_20rem]">
+      <Card>
+        <CardHeader>
+          <CardTitle>Plan du jardin</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {selection ? (
+            <ZoneGeometryEditor
+              key={selection}
+              value={geometrie}
+              onChange={nouvelleGeometrie => {
+                setGeometrie(nouvelleGeometrie);
+                setGeometrieModifiee(true);
+              }}
+              zonesExistantes={zonesPlan.filter(zone => zone.id !== selection)}
+              largeurPlanM={largeurPlanM}
+              longueurPlanM={longueurPlanM}
+            />
+          ) : (
+            <svg
+              viewBox={`-0.5 -0.5 ${largeurPlanM + 1} ${longueurPlanM + 1}`}
+              className="w-full rounded-lg border bg-muted/30"
+            >
+              {zonesPlan.map(zonePlan => {
+                const zone = zones?.find(candidate => candidate.id === zonePlan.id);
+                const [x, y] = zonePlan.coordonnees[0];
+                return (
+                  <g key={zonePlan.id} className="cursor-pointer" onClick={() => zone && selectionner(zone)}>
+                    <polygon
+                      points={zonePlan.coordonnees.map(point => point.join(',')).join(' ')}
+                      className="fill-green-200 stroke-green-700 hover:fill-green-300"
+                      strokeWidth={0.04}
+                    />
+                    <text x={x + 0.1} y={y + 0.35} fontSize={0.3} className="fill-green-900">
+                      {zonePlan.nom}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <span className="text-sm">{error}</span>
+          </Alert>
+        )}
+
+        {selection ? (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {selection === 'nouvelle' ? 'Nouvelle zone' : 'Modifier la zone'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="nom">Nom</Label>
+                    <Input
+                      id="nom"
+                      value={formulaire.nom}
+                      onChange={e => setFormulaire({ ...formulaire, nom: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="typeZone">Type</Label>
+                    <select
+                      id="typeZone"
+                      className={selectClassName}
+                      value={formulaire.typeZone}
+                      onChange={e => setFormulaire({ ...formulaire, typeZone: e.target.value })}
+                    >
+                      {Object.entries(TYPES_ZONE).map(([valeur, libelle]) => (
+                        <option key={valeur} value={valeur}>{libelle}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="expositionSoleil">Exposition</Label>
+                    <select
+                      id="expositionSoleil"
+                      className={selectClassName}
+                      value={formulaire.expositionSoleil}
+                      onChange={e => setFormulaire({ ...formulaire, expositionSoleil: e.target.value })}
+                    >
+                      {Object.entries(EXPOSITIONS).map(([valeur, libelle]) => (
+                        <option key={valeur} value={valeur}>{libelle}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="accesEau">Accès à l&apos;eau</Label>
+                    <select
+                      id="accesEau"
+                      className={selectClassName}
+                      value={formulaire.accesEau}
+                      onChange={e => setFormulaire({ ...formulaire, accesEau: e.target.value })}
+                    >
+                      {Object.entries(ACCES_EAU).map(([valeur, libelle]) => (
+                        <option key={valeur} value={valeur}>{libelle}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="qualiteSol">Qualité du sol (1 à 5)</Label>
+                    <Input
+                      id="qualiteSol"
+                      type="number"
+                      min={1}
+                      max={5}
+                      value={formulaire.qualiteSol}
+                      onChange={e => setFormulaire({ ...formulaire, qualiteSol: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" disabled={isLoading} className="bg-green-600 hover:bg-green-700">
+                      {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Enregistrer
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setSelection(null)}>
+                      Annuler
+                    </Button>
+                    {selection !== 'nouvelle' && (
+                      <Button type="button" variant="outline" onClick={handleArchive} disabled={isLoading} className="ml-auto">
+                        <Archive className="mr-2 h-4 w-4" />
+                        Archiver
+                      </Button>
+                    )}
+                  </div>
+                  {selection !== 'nouvelle' && (
+                    <Link
+                      href={`/jardins/${jardinId}/zones/${selection}/sol`}
+                      className="flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+                    >
+                      <FlaskConical className="h-4 w-4" />
+                      Analyses de sol
+                    </Link>
+                  )}
+                </form>
+              </CardContent>
+            </Card>
+            {selection !== 'nouvelle' && <ZoneOccupationTimeline zoneId={selection} />}
+          </>
+        ) : (
+          <>
+            <Button onClick={() => selectionner(null)} className="w-full bg-green-600 hover:bg-green-700">
+              <Plus className="mr-2 h-4 w-4" />
+              Ajouter une zone
+            </Button>
+            <Card>
+              <CardContent className="space-y-1 pt-6">
+                {zones?.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Aucune zone pour l&apos;instant.</p>
+                )}
+                {zones?.map(zone => (
+                  <button
+                    key={zone.id}
+                    type="button"
+                    onClick={() => selectionner(zone)}
+                    className="flex w-full items-center justify-between rounded-md px-2 py-1 text-left text-sm hover:bg-muted"
+                  >
+                    <span>{zone.nom}</span>
+                    <span className="text-muted-foreground">
+                      {(zone.geometrie as { surfaceM2?: number } | null)?.surfaceM2?.toFixed(2) ?? '—'} m²
+                    </span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+            {zonesArchivees.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Zones archivées</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {zonesArchivees.map(zone => (
+                    <div key={zone.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span>
+                        {zone.nom}
+                        {zone.purgePrevueA && (
+                          <span className="block text-xs text-muted-foreground">
+                            Supprimée le {new Date(zone.purgePrevueA).toLocaleDateString('fr')}
+                          </span>
+                        )}
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => handleRestore(zone.id)} disabled={isLoading}>
+                        <ArchiveRestore className="mr-2 h-4 w-4" />
+                        Restaurer
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Réutiliser cet aménagement</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSaveTemplate} className="space-y-3">
+                  <Input
+                    placeholder="Nom du modèle"
+                    value={nomModele}
+                    onChange={e => setNomModele(e.target.value)}
+                    required
+                  />
+                  <Button type="submit" variant="outline" disabled={isLoading || zonesPlan.length === 0} className="w-full">
+                    Enregistrer comme modèle
+                  </Button>
+                  {messageModele && <p className="text-sm text-green-700">{messageModele}</p>}
+                  <Link
+                    href="/jardins/modeles"
+                    className="flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+                  >
+                    <LayoutTemplate className="h-4 w-4" />
+                    Voir les modèles d&apos;aménagement
+                  </Link>
+                  <Link
+                    href={`/jardins/${jardinId}/saison`}
+                    className="flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+                  >
+                    <CalendarPlus className="h-4 w-4" />
+                    Préparer la saison suivante
+                  </Link>
+                </form>
+              </CardContent>
+            </Card>
+            <GeoJsonExchange jardinId={jardinId} onImported={fetchZones} />
+            <LabelSheetExport jardinId={jardinId} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+interface ZoneImportee {
+  index: number;
+  id?: string;
+  nom: string;
+  surfaceM2: number;
+}
+
+interface Simulation {
+  collection: unknown;
+  creations: ZoneImportee[];
+  misesAJour: ZoneImportee[];
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+/**
+ * Export des zones vers un SIG et import de polygones, avec simulation préalable
+ */
+export function GeoJsonExchange({ jardinId, onImported }: { jardinId: string; onImported: () => void }) {
+  const [repere, setRepere] = useState<'wgs84' | 'local'>('wgs84');
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const envoyer = async (collection: unknown, simuler: boolean) => {
+    const response = await fetch(`/api/jardins/${jardinId}/geojson?repere=${repere}&simulation=${simuler}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(collection)
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      const details = data.erreurs?.map((erreur: { index: number; nom?: string; message: string }) =>
+        `#${erreur.index + 1}${erreur.nom ? ` ${erreur.nom}` : ''} : ${erreur.message}`
+      );
+      setError(details ? `${data.error} — ${details.join(' ; ')}` : data.error ?? 'Import impossible');
+      return null;
+    }
+    return data;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fichier = e.target.files?.[0];
+    e.target.value = '';
+    if (!fichier) return;
+
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+    setSimulation(null);
+    try {
+      const collection = JSON.parse(await fichier.text());
+      const data = await envoyer(collection, true);
+      if (data) {
+        setSimulation({ collection, creations: data.creations, misesAJour: data.misesAJour });
+      }
+    } catch {
+      setError('Fichier GeoJSON illisible');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!simulation) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await envoyer(simulation.collection, false);
+      if (data) {
+        setMessage(`${data.creations.length} zone(s) créée(s), ${data.misesAJour.length} mise(s) à jour`);
+        setSimulation(null);
+        onImported();
+      }
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Échanger avec un SIG</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="repere">Coordonnées</Label>
+          <select
+            id="repere"
+            className={selectClassName}
+            value={repere}
+            onChange={e => setRepere(e.target.value as 'wgs84' | 'local')}
+          >
+            <option value="wgs84">Géographiques (WGS84, depuis la localisation du jardin)</option>
+            <option value="local">Mètres du plan (repère local)</option>
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/jardins/${jardinId}/geojson?repere=${repere}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Exporter
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Importer
+              <input
+                type="file"
+                accept=".geojson,.json,application/geo+json"
+                className="hidden"
+                disabled={isLoading}
+                onChange={handleFile}
+              />
+            </label>
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <span className="text-sm">{error}</span>
+          </Alert>
+        )}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+
+        {simulation && (
+          <div className="space-y-2 text-sm">
+            {simulation.creations.length > 0 && (
+              <p>
+                À créer : {simulation.creations.map(zone => `${zone.nom} (${zone.surfaceM2} m²)`).join(', ')}
+              </p>
+            )}
+            {simulation.misesAJour.length > 0 && (
+              <p>
+                À mettre à jour : {simulation.misesAJour.map(zone => `${zone.nom} (${zone.surfaceM2} m²)`).join(', ')}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleConfirm} disabled={isLoading} className="bg-green-600 hover:bg-green-700">
+                Confirmer l&apos;import
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setSimulation(null)}>
+                Annuler
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
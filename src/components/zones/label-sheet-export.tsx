@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FORMATS_ETIQUETTES, ModeleEtiquettes } from '@/lib/formats-etiquettes';
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+/**
+ * Impression des étiquettes QR des cultures actives, sur planches du commerce
+ */
+export function LabelSheetExport({ jardinId }: { jardinId: string }) {
+  const [modele, setModele] = useState<ModeleEtiquettes>('avery-l7160');
+  const [exemplaires, setExemplaires] = useState('1');
+  const [decalage, setDecalage] = useState('0');
+
+  const parametres = new URLSearchParams({ modele, exemplaires, decalage });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Étiquettes QR des cultures</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="modele">Planche</Label>
+          <select
+            id="modele"
+            className={selectClassName}
+            value={modele}
+            onChange={e => setModele(e.target.value as ModeleEtiquettes)}
+          >
+            {Object.entries(FORMATS_ETIQUETTES).map(([valeur, format]) => (
+              <option key={valeur} value={valeur}>{format.libelle}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="exemplaires">Par culture</Label>
+            <Input id="exemplaires" type="number" min={1} max={20} value={exemplaires} onChange={e => setExemplaires(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="decalage">Cases déjà utilisées</Label>
+            <Input id="decalage" type="number" min={0} value={decalage} onChange={e => setDecalage(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/jardins/${jardinId}/labels?${parametres}&format=pdf`} download>
+              <Printer className="mr-2 h-4 w-4" />
+              PDF
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/jardins/${jardinId}/labels?${parametres}&format=svg`} download>
+              SVG (1re planche)
+            </a>
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Imprimez à 100 %, sans mise à l&apos;échelle.</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Point } from '@/lib/geometry';
+import type { ParametreModele } from '@/lib/layout-templates';
+
+interface ModeleAmenagement {
+  id: string;
+  nom: string;
+  description: string | null;
+  personnel: boolean;
+  parametres: ParametreModele[];
+  nombreZones?: number;
+}
+
+interface Apercu {
+  zones: Array<{ nom: string; typeZone: string; coordonnees: Point[]; surfaceM2: number }>;
+  surfaceCultivableM2: number;
+  emprise: { largeurM: number; longueurM: number };
+  chevauchements: Array<[string, string]>;
+}
+
+const COULEURS_ZONE: Record<string, string> = {
+  BAC: 'fill-amber-200 stroke-amber-700',
+  PARCELLE: 'fill-lime-200 stroke-lime-700',
+  SERRE: 'fill-sky-100 stroke-sky-600',
+  ZONE_LIBRE: 'fill-green-200 stroke-green-700',
+  ARBRE: 'fill-emerald-300 stroke-emerald-800',
+  VIGNE: 'fill-purple-200 stroke-purple-700'
+};
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+function valeursParDefaut(modele: ModeleAmenagement): Record<string, number> {
+  return Object.fromEntries(modele.parametres.map(parametre => [parametre.cle, parametre.defaut]));
+}
+
+export function LayoutTemplateGallery() {
+  const [modeles, setModeles] = useState<ModeleAmenagement[] | null>(null);
+  const [selection, setSelection] = useState<ModeleAmenagement | null>(null);
+  const [parametres, setParametres] = useState<Record<string, number>>({});
+  const [expositionSoleil, setExpositionSoleil] = useState('');
+  const [accesEau, setAccesEau] = useState('');
+  const [apercu, setApercu] = useState<Apercu | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchModeles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/layout-templates');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Impossible de charger les modèles');
+        return;
+      }
+      setModeles(data.modeles);
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchModeles();
+  }, [fetchModeles]);
+
+  // Aperçu recalculé côté serveur à chaque changement de paramètre
+  useEffect(() => {
+    if (!selection) return;
+
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/layout-templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            modeleId: selection.id,
+            parametres,
+            reglages: {
+              expositionSoleil: expositionSoleil || undefined,
+              accesEau: accesEau || undefined
+            }
+          })
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.details?.[0]?.message ?? data.error ?? 'Aperçu impossible');
+          return;
+        }
+        setApercu(data.apercu);
+      } catch {
+        setError('Erreur réseau. Veuillez réessayer.');
+      } finally {
+        setIsLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [selection, parametres, expositionSoleil, accesEau]);
+
+  const selectionner = (modele: ModeleAmenagement) => {
+    setSelection(modele);
+    setParametres(valeursParDefaut(modele));
+    setApercu(null);
+  };
+
+  const handleDelete = async (modele: ModeleAmenagement) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/layout-templates/${modele.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error ?? 'Suppression impossible');
+        return;
+      }
+      if (selection?.id === modele.id) {
+        setSelection(null);
+        setApercu(null);
+      }
+      await fetchModeles();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  };
+
+  if (!modeles && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[20rem_1fr]">
+      <div className="space-y-3">
+        {modeles?.map(modele => (
+          <Card
+            key={modele.id}
+            className={`cursor-pointer ${selection?.id === modele.id ? 'border-green-600' : ''}`}
+            onClick={() => selectionner(modele)}
+          >
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                {modele.nom}
+                {modele.personnel && <Badge variant="secondary">Personnel</Badge>}
+              </CardTitle>
+              <CardDescription>
+                {modele.description ?? `${modele.nombreZones} zones`}
+              </CardDescription>
+            </CardHeader>
+            {modele.personnel && (
+              <CardContent className="pt-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={e => {
+                    e.stopPropagation();
+                    handleDelete(modele);
+                  }}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Supprimer
+                </Button>
+              </CardContent>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <span className="text-sm">{error}</span>
+          </Alert>
+        )}
+
+        {selection ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {selection.nom}
+                {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </CardTitle>
+              {apercu && (
+                <CardDescription>
+                  {apercu.zones.length} zones · {apercu.surfaceCultivableM2.toFixed(2)} m² cultivables ·
+                  emprise {apercu.emprise.largeurM.toFixed(1)} × {apercu.emprise.longueurM.toFixed(1)} m
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                {selection.parametres.map(parametre => (
+                  <div key={parametre.cle} className="space-y-1">
+                    <Label htmlFor={parametre.cle}>
+                      {parametre.libelle}{parametre.unite && ` (${parametre.unite})`}
+                    </Label>
+                    <Input
+                      id={parametre.cle}
+                      type="number"
+                      min={parametre.min}
+                      max={parametre.max}
+                      step={parametre.pas}
+                      value={parametres[parametre.cle] ?? parametre.defaut}
+                      onChange={e => setParametres({ ...parametres, [parametre.cle]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label htmlFor="expositionSoleil">Exposition de toutes les zones</Label>
+                  <select
+                    id="expositionSoleil"
+                    className={selectClassName}
+                    value={expositionSoleil}
+                    onChange={e => setExpositionSoleil(e.target.value)}
+                  >
+                    <option value="">Selon le modèle</option>
+                    <option value="PLEIN_SOLEIL">Plein soleil</option>
+                    <option value="MI_OMBRE">Mi-ombre</option>
+                    <option value="OMBRE">Ombre</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="accesEau">Accès à l&apos;eau de toutes les zones</Label>
+                  <select
+                    id="accesEau"
+                    className={selectClassName}
+                    value={accesEau}
+                    onChange={e => setAccesEau(e.target.value)}
+                  >
+                    <option value="">Selon le modèle</option>
+                    <option value="FACILE">Facile</option>
+                    <option value="MOYEN">Moyen</option>
+                    <option value="DIFFICILE">Difficile</option>
+                  </select>
+                </div>
+              </div>
+
+              {apercu && (
+                <svg
+                  viewBox={`-0.5 -0.5 ${Math.max(apercu.emprise.largeurM, 1) + 1} ${Math.max(apercu.emprise.longueurM, 1) + 1}`}
+                  className="max-h-[28rem] w-full rounded-lg border bg-muted/30"
+                >
+                  {apercu.zones.map((zone, index) => (
+                    <polygon
+                      key={index}
+                      points={zone.coordonnees.map(point => point.join(',')).join(' ')}
+                      className={COULEURS_ZONE[zone.typeZone] ?? COULEURS_ZONE.ZONE_LIBRE}
+                      strokeWidth={0.03}
+                    >
+                      <title>{`${zone.nom} — ${zone.surfaceM2} m²`}</title>
+                    </polygon>
+                  ))}
+                </svg>
+              )}
+
+              {apercu && apercu.chevauchements.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Zones qui se chevauchent : {apercu.chevauchements.map(paire => paire.join(' / ')).join(', ')}
+                </p>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                À la création d&apos;un jardin, indiquez ce modèle et ces paramètres dans la configuration
+                d&apos;aménagement : les zones ci-dessus seront créées automatiquement.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Choisissez un modèle pour le paramétrer et prévisualiser ses zones.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
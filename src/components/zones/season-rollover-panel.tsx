@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CalendarPlus, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { ApercuNouvelleSaison } from '@/lib/services/season-rollover.service';
+
+// Les dates arrivent sérialisées en JSON
+type Apercu = Omit<ApercuNouvelleSaison, 'culturesPlanifiees'> & {
+  culturesPlanifiees: Array<Omit<ApercuNouvelleSaison['culturesPlanifiees'][number], 'dateSemisPrevue'> & { dateSemisPrevue: string }>;
+};
+
+export function SeasonRolloverPanel({ jardinId }: { jardinId: string }) {
+  const [apercu, setApercu] = useState<Apercu | null>(null);
+  const [ignorerRotation, setIgnorerRotation] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchApercu = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/jardins/${jardinId}/season-rollover`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Impossible de préparer la nouvelle saison');
+        return;
+      }
+      setApercu(data.apercu);
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  }, [jardinId]);
+
+  useEffect(() => {
+    fetchApercu();
+  }, [fetchApercu]);
+
+  const handleRollover = async () => {
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/jardins/${jardinId}/season-rollover`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ignorerRotation })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Une erreur est survenue');
+        return;
+      }
+
+      setMessage(
+        data.vivacesNonReconduites.length > 0
+          ? `Saison ${data.apercu.anneeCible} créée (${data.vivacesNonReconduites.length} vivace(s) non reconduite(s), faute de place)`
+          : `Saison ${data.apercu.anneeCible} créée`
+      );
+      setIgnorerRotation(false);
+      await fetchApercu();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!apercu && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+      {message && (
+        <Alert>
+          <span className="text-sm">{message}</span>
+        </Alert>
+      )}
+
+      {apercu && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Saison {apercu.anneeCible}</CardTitle>
+              <CardDescription>
+                {apercu.planSource
+                  ? `Le plan « ${apercu.planSource.nom} » sera copié en brouillon, dates décalées d'un an.`
+                  : 'Aucun plan de plantation à reconduire : seules les cultures seront traitées.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 text-sm sm:grid-cols-2">
+              <div>
+                <p className="font-medium">Zones reconduites ({apercu.zones.length})</p>
+                <p className="text-muted-foreground">{apercu.zones.map(zone => zone.nom).join(', ') || '—'}</p>
+              </div>
+              <div>
+                <p className="font-medium">Vivaces reconduites ({apercu.vivaces.length})</p>
+                <p className="text-muted-foreground">{apercu.vivaces.map(culture => culture.nom).join(', ') || '—'}</p>
+              </div>
+              <div>
+                <p className="font-medium">Cultures à archiver ({apercu.culturesAArchiver.length})</p>
+                <p className="text-muted-foreground">
+                  {apercu.culturesAArchiver.map(culture => culture.nom).join(', ') || '—'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Cultures en cours à clôturer ({apercu.culturesAFermer.length})</p>
+                <p className="text-muted-foreground">
+                  {apercu.culturesAFermer.map(culture => culture.nom).join(', ') || '—'}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {apercu.culturesPlanifiees.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Cultures planifiées</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {apercu.culturesPlanifiees.map((culture, index) => {
+                  const violation = apercu.violationsRotation.find(
+                    v => v.zoneId === culture.zoneId && v.varietyId === culture.varietyId
+                  );
+                  return (
+                    <div key={index} className="flex items-center justify-between gap-2">
+                      <span>
+                        {culture.nomVariete} · {culture.nomZone}
+                        {violation && (
+                          <Badge variant="destructive" className="ml-2">
+                            {violation.famille} en {violation.anneeConflit}
+                          </Badge>
+                        )}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {format(new Date(culture.dateSemisPrevue), 'd MMM yyyy', { locale: fr })}
+                      </span>
+                    </div>
+                  );
+                })}
+                {apercu.culturesIgnorees.length > 0 && (
+                  <p className="pt-2 text-muted-foreground">
+                    Non reconduites (zone désactivée) :{' '}
+                    {apercu.culturesIgnorees.map(culture => `${culture.nomVariete} · ${culture.nomZone}`).join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {apercu.violationsRotation.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <div className="space-y-2 text-sm">
+                <p>
+                  {apercu.violationsRotation.length} culture(s) reviendraient trop tôt sur une zone déjà occupée
+                  par la même famille. Modifiez le plan après sa création ou acceptez ces écarts.
+                </p>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={ignorerRotation}
+                    onChange={e => setIgnorerRotation(e.target.checked)}
+                  />
+                  Créer la saison malgré tout
+                </label>
+              </div>
+            </Alert>
+          )}
+
+          {apercu.avertissementsVoisinage.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <div className="space-y-1 text-sm">
+                <p>Associations défavorables dans le plan reconduit :</p>
+                <ul className="list-disc pl-5">
+                  {apercu.avertissementsVoisinage.map((avertissement, index) => (
+                    <li key={index}>{avertissement}</li>
+                  ))}
+                </ul>
+              </div>
+            </Alert>
+          )}
+
+          <Button
+            onClick={handleRollover}
+            disabled={isLoading || (apercu.violationsRotation.length > 0 && !ignorerRotation)}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarPlus className="mr-2 h-4 w-4" />}
+            Passer à la saison {apercu.anneeCible}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Loader2, Trash2, TrendingDown, TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type Indicateur = 'ph' | 'azoteMgKg' | 'phosphoreMgKg' | 'potassiumMgKg' | 'matiereOrganiquePct';
+
+interface AnalyseSol {
+  id: string;
+  dateAnalyse: string;
+  source: 'LABORATOIRE' | 'KIT' | 'SONDE';
+  nomSource: string | null;
+  ph: number | null;
+  azoteMgKg: number | null;
+  phosphoreMgKg: number | null;
+  potassiumMgKg: number | null;
+  matiereOrganiquePct: number | null;
+  texture: string | null;
+  notes: string | null;
+}
+
+interface Tendance {
+  valeurs: Array<{ date: string; valeur: number }>;
+  derniere: number | null;
+  evolution: number | null;
+  penteAnnuelle: number | null;
+}
+
+const INDICATEURS: Array<{ cle: Indicateur; libelle: string; unite: string }> = [
+  { cle: 'ph', libelle: 'pH', unite: '' },
+  { cle: 'azoteMgKg', libelle: 'Azote (N)', unite: 'mg/kg' },
+  { cle: 'phosphoreMgKg', libelle: 'Phosphore (P₂O₅)', unite: 'mg/kg' },
+  { cle: 'potassiumMgKg', libelle: 'Potassium (K₂O)', unite: 'mg/kg' },
+  { cle: 'matiereOrganiquePct', libelle: 'Matière organique', unite: '%' }
+];
+
+const SOURCES = {
+  LABORATOIRE: 'Laboratoire',
+  KIT: 'Kit',
+  SONDE: 'Sonde'
+};
+
+const TEXTURES = {
+  ARGILE: 'Argile',
+  SABLE: 'Sable',
+  LIMON: 'Limon',
+  LIMON_FIN: 'Limon fin',
+  TOURBE: 'Tourbe',
+  CALCAIRE: 'Calcaire'
+};
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const FORMULAIRE_VIDE = {
+  dateAnalyse: format(new Date(), 'yyyy-MM-dd'),
+  source: 'KIT',
+  nomSource: '',
+  ph: '',
+  azoteMgKg: '',
+  phosphoreMgKg: '',
+  potassiumMgKg: '',
+  matiereOrganiquePct: '',
+  texture: '',
+  notes: ''
+};
+
+function formatDate(date: string) {
+  return format(new Date(date), 'd MMM yyyy', { locale: fr });
+}
+
+/**
+ * Courbe d'un indicateur dans le temps (SVG, sans bibliothèque de graphiques)
+ */
+function TrendChart({ tendance, unite }: { tendance: Tendance; unite: string }) {
+  const largeur = 240;
+  const hauteur = 80;
+  const marge = 6;
+  const points = tendance.valeurs;
+
+  if (points.length === 0) {
+    return <p className="py-6 text-center text-xs text-muted-foreground">Aucune mesure</p>;
+  }
+
+  const temps = points.map(point => new Date(point.date).getTime());
+  const valeurs = points.map(point => point.valeur);
+  const [minT, maxT] = [Math.min(...temps), Math.max(...temps)];
+  const [minV, maxV] = [Math.min(...valeurs), Math.max(...valeurs)];
+
+  const x = (t: number) => maxT === minT ? largeur / 2 : marge + ((t - minT) / (maxT - minT)) * (largeur - 2 * marge);
+  const y = (v: number) => maxV === minV ? hauteur / 2 : hauteur - marge - ((v - minV) / (maxV - minV)) * (hauteur - 2 * marge);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${largeur} ${hauteur}`} className="h-20 w-full">
+        <polyline
+          points={points.map((point, i) => `${x(temps[i])},${y(point.valeur)}`).join(' ')}
+          fill="none"
+          className="stroke-green-600"
+          strokeWidth={2}
+        />
+        {points.map((point, i) => (
+          <circle key={i} cx={x(temps[i])} cy={y(point.valeur)} r={3} className="fill-green-700">
+            <title>{`${formatDate(point.date)} : ${point.valeur} ${unite}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDate(points[0].date)}</span>
+        {points.length > 1 && <span>{formatDate(points[points.length - 1].date)}</span>}
+      </div>
+    </div>
+  );
+}
+
+export function SoilAnalyses({ zoneId }: { zoneId: string }) {
+  const [analyses, setAnalyses] = useState<AnalyseSol[] | null>(null);
+  const [tendances, setTendances] = useState<Record<Indicateur, Tendance> | null>(null);
+  const [formulaire, setFormulaire] = useState(FORMULAIRE_VIDE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalyses = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/zones/${zoneId}/soil-analyses`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? 'Impossible de charger les analyses');
+        return;
+      }
+      setAnalyses(data.analyses);
+      setTendances(data.tendances);
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  }, [zoneId]);
+
+  useEffect(() => {
+    fetchAnalyses();
+  }, [fetchAnalyses]);
+
+  const champ = (cle: keyof typeof FORMULAIRE_VIDE) => ({
+    id: cle,
+    value: formulaire[cle],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      setFormulaire({ ...formulaire, [cle]: e.target.value })
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    const nombre = (valeur: string) => valeur === '' ? undefined : Number(valeur);
+
+    try {
+      const response = await fetch(`/api/zones/${zoneId}/soil-analyses`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dateAnalyse: formulaire.dateAnalyse,
+          source: formulaire.source,
+          nomSource: formulaire.nomSource || undefined,
+          ph: nombre(formulaire.ph),
+          azoteMgKg: nombre(formulaire.azoteMgKg),
+          phosphoreMgKg: nombre(formulaire.phosphoreMgKg),
+          potassiumMgKg: nombre(formulaire.potassiumMgKg),
+          matiereOrganiquePct: nombre(formulaire.matiereOrganiquePct),
+          texture: formulaire.texture || undefined,
+          notes: formulaire.notes || undefined
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message ?? data.error ?? 'Une erreur est survenue');
+        return;
+      }
+
+      setFormulaire(FORMULAIRE_VIDE);
+      await fetchAnalyses();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (analyseId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/zones/${zoneId}/soil-analyses/${analyseId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error ?? 'Suppression impossible');
+        return;
+      }
+      await fetchAnalyses();
+    } catch {
+      setError('Erreur réseau. Veuillez réessayer.');
+    }
+  };
+
+  if (!analyses && !error) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <span className="text-sm">{error}</span>
+        </Alert>
+      )}
+
+      {tendances && (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {INDICATEURS.map(({ cle, libelle, unite }) => {
+            const tendance = tendances[cle];
+            return (
+              <Card key={cle}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{libelle}</CardDescription>
+                  <CardTitle className="flex items-center gap-2 text-xl">
+                    {tendance.derniere ?? '—'} {tendance.derniere !== null && unite}
+                    {tendance.evolution !== null && tendance.evolution !== 0 && (
+                      <span className={`flex items-center text-sm ${tendance.evolution > 0 ? 'text-green-700' : 'text-orange-700'}`}>
+                        {tendance.evolution > 0 ? <TrendingUp className="mr-1 h-4 w-4" /> : <TrendingDown className="mr-1 h-4 w-4" />}
+                        {tendance.evolution > 0 && '+'}{tendance.evolution}
+                      </span>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TrendChart tendance={tendance} unite={unite} />
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Nouvelle analyse</CardTitle>
+          <CardDescription>Renseignez les mesures disponibles ; les autres peuvent rester vides.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="dateAnalyse">Date</Label>
+              <Input type="date" required {...champ('dateAnalyse')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="source">Source</Label>
+              <select className={selectClassName} {...champ('source')}>
+                {Object.entries(SOURCES).map(([valeur, libelle]) => (
+                  <option key={valeur} value={valeur}>{libelle}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="nomSource">Laboratoire ou kit</Label>
+              <Input {...champ('nomSource')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="texture">Texture</Label>
+              <select className={selectClassName} {...champ('texture')}>
+                <option value="">Non mesurée</option>
+                {Object.entries(TEXTURES).map(([valeur, libelle]) => (
+                  <option key={valeur} value={valeur}>{libelle}</option>
+                ))}
+              </select>
+            </div>
+            {INDICATEURS.map(({ cle, libelle, unite }) => (
+              <div key={cle} className="space-y-1">
+                <Label htmlFor={cle}>{libelle}{unite && ` (${unite})`}</Label>
+                <Input type="number" step="any" min={0} {...champ(cle)} />
+              </div>
+            ))}
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea {...champ('notes')} />
+            </div>
+            <div className="sm:col-span-2">
+              <Button type="submit" disabled={isLoading} className="bg-green-600 hover:bg-green-700">
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Enregistrer l&apos;analyse
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historique</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {analyses?.length === 0 && (
+            <p className="text-sm text-muted-foreground">Aucune analyse enregistrée pour cette zone.</p>
+          )}
+          {analyses?.slice().reverse().map(analyse => (
+            <div key={analyse.id} className="flex items-start justify-between rounded-lg border p-3">
+              <div className="space-y-1 text-sm">
+                <p className="flex items-center gap-2 font-medium">
+                  {formatDate(analyse.dateAnalyse)}
+                  <Badge variant="outline">{SOURCES[analyse.source]}</Badge>
+                  {analyse.nomSource && <span className="text-muted-foreground">{analyse.nomSource}</span>}
+                </p>
+                <p className="text-muted-foreground">
+                  {INDICATEURS
+                    .filter(({ cle }) => analyse[cle] !== null)
+                    .map(({ cle, libelle, unite }) => `${libelle} ${analyse[cle]}${unite && ` ${unite}`}`)
+                    .join(' · ')}
+                  {analyse.texture && ` · ${TEXTURES[analyse.texture as keyof typeof TEXTURES] ?? analyse.texture}`}
+                </p>
+                {analyse.notes && <p className="text-xs">{analyse.notes}</p>}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(analyse.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Square, Pentagon, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  GeometrieZoneInput,
+  geometrieZoneSchema,
+  Point,
+  polygonArea,
+  polygonsOverlap,
+  rectangleToPolygon
+} from '@/lib/geometry';
+
+export interface ZonePlan {
+  id: string;
+  nom: string;
+  coordonnees: Point[];
+}
+
+interface ZoneGeometryEditorProps {
+  value: GeometrieZoneInput | null;
+  onChange: (geometrie: GeometrieZoneInput | null) => void;
+  zonesExistantes: ZonePlan[];
+  largeurPlanM: number;
+  longueurPlanM: number;
+  pasGrilleM?: number;
+}
+
+type Mode = 'rectangle' | 'polygone';
+
+function aligner(valeur: number, pas: number): number {
+  return Math.round(valeur / pas) * pas;
+}
+
+function contourDe(geometrie: GeometrieZoneInput | null): Point[] {
+  if (!geometrie) return [];
+  if (geometrie.type === 'rectangle') {
+    return rectangleToPolygon(geometrie.origine, geometrie.largeurM, geometrie.longueurM, geometrie.rotationDeg);
+  }
+  return geometrie.coordonnees;
+}
+
+function versPoints(points: Point[]): string {
+  return points.map(([x, y]) => `${x},${y}`).join(' ');
+}
+
+/**
+ * Éditeur SVG du contour d'une zone, en mètres sur le plan du jardin.
+ * Rectangle : glisser. Polygone : cliquer les sommets, double-cliquer ou revenir au premier pour fermer.
+ */
+export function ZoneGeometryEditor({
+  value,
+  onChange,
+  zonesExistantes,
+  largeurPlanM,
+  longueurPlanM,
+  pasGrilleM = 0.25
+}: ZoneGeometryEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [mode, setMode] = useState<Mode>(value?.type ?? 'rectangle');
+  const [departRectangle, setDepartRectangle] = useState<Point | null>(null);
+  const [sommets, setSommets] = useState<Point[]>([]);
+  const [curseur, setCurseur] = useState<Point | null>(null);
+
+  const toPlan = (event: React.PointerEvent | React.MouseEvent): Point | null => {
+    const svg = svgRef.current;
+    const matrice = svg?.getScreenCTM();
+    if (!svg || !matrice) return null;
+
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrice.inverse());
+    return [
+      Math.min(Math.max(aligner(point.x, pasGrilleM), 0), largeurPlanM),
+      Math.min(Math.max(aligner(point.y, pasGrilleM), 0), longueurPlanM)
+    ];
+  };
+
+  const rectangleEntre = (a: Point, b: Point): GeometrieZoneInput | null => {
+    const largeurM = Math.abs(b[0] - a[0]);
+    const longueurM = Math.abs(b[1] - a[1]);
+    if (largeurM === 0 || longueurM === 0) return null;
+
+    return {
+      type: 'rectangle',
+      origine: [Math.min(a[0], b[0]), Math.min(a[1], b[1])],
+      largeurM,
+      longueurM
+    };
+  };
+
+  const fermerPolygone = (points: Point[]) => {
+    setSommets([]);
+    if (points.length >= 3) {
+      onChange({ type: 'polygone', coordonnees: points });
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toPlan(event);
+    if (!point) return;
+
+    if (mode === 'rectangle') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDepartRectangle(point);
+      return;
+    }
+
+    if (sommets.length === 0) {
+      onChange(null);
+    }
+    const premier = sommets[0];
+    if (premier && sommets.length >= 3 && premier[0] === point[0] && premier[1] === point[1]) {
+      fermerPolygone(sommets);
+      return;
+    }
+    const dernier = sommets[sommets.length - 1];
+    if (!dernier || dernier[0] !== point[0] || dernier[1] !== point[1]) {
+      setSommets([...sommets, point]);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    setCurseur(toPlan(event));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (mode !== 'rectangle' || !departRectangle) return;
+    const point = toPlan(event);
+    setDepartRectangle(null);
+    if (point) {
+      onChange(rectangleEntre(departRectangle, point));
+    }
+  };
+
+  const changerMode = (nouveauMode: Mode) => {
+    setMode(nouveauMode);
+    setSommets([]);
+    setDepartRectangle(null);
+  };
+
+  // Aperçu : tracé en cours, sinon géométrie courante
+  const apercu = useMemo(() => {
+    if (mode === 'rectangle' && departRectangle && curseur) {
+      return rectangleEntre(departRectangle, curseur);
+    }
+    return value;
+  }, [mode, departRectangle, curseur, value]);
+
+  const contour = contourDe(apercu);
+  const validation = apercu ? geometrieZoneSchema.safeParse(apercu) : null;
+  const surfaceM2 = validation?.success ? polygonArea(contour) : null;
+  const chevauchements = validation?.success
+    ? zonesExistantes.filter(zone => polygonsOverlap(zone.coordonnees, contour))
+    : [];
+  const enErreur = (validation && !validation.success) || chevauchements.length > 0;
+
+  const lignesGrille = [];
+  for (let x = 0; x <= largeurPlanM; x++) {
+    lignesGrille.push(<line key={`x${x}`} x1={x} y1={0} x2={x} y2={longueurPlanM} />);
+  }
+  for (let y = 0; y <= longueurPlanM; y++) {
+    lignesGrille.push(<line key={`y${y}`} x1={0} y1={y} x2={largeurPlanM} y2={y} />);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'rectangle' ? 'default' : 'outline'}
+          onClick={() => changerMode('rectangle')}
+        >
+          <Square className="mr-2 h-4 w-4" />
+          Rectangle
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'polygone' ? 'default' : 'outline'}
+          onClick={() => changerMode('polygone')}
+        >
+          <Pentagon className="mr-2 h-4 w-4" />
+          Polygone
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            setSommets([]);
+            onChange(null);
+          }}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Effacer
+        </Button>
+        <span className="ml-auto text-sm text-muted-foreground">
+          {surfaceM2 !== null ? `${surfaceM2.toFixed(2)} m²` : 'Aucun contour'}
+        </span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`-0.5 -0.5 ${largeurPlanM + 1} ${longueurPlanM + 1}`}
+        className="w-full touch-none select-none rounded-lg border bg-muted/30"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setCurseur(null)}
+        onDoubleClick={() => mode === 'polygone' && fermerPolygone(sommets)}
+      >
+        <g stroke="currentColor" strokeOpacity={0.1} strokeWidth={0.02}>
+          {lignesGrille}
+        </g>
+
+        {zonesExistantes.map(zone => {
+          const enConflit = chevauchements.some(conflit => conflit.id === zone.id);
+          const [x, y] = zone.coordonnees[0];
+          return (
+            <g key={zone.id}>
+              <polygon
+                points={versPoints(zone.coordonnees)}
+                className={enConflit ? 'fill-red-200 stroke-red-500' : 'fill-stone-200 stroke-stone-500'}
+                strokeWidth={0.04}
+              />
+              <text x={x + 0.1} y={y + 0.35} fontSize={0.3} className="fill-stone-700">
+                {zone.nom}
+              </text>
+            </g>
+          );
+        })}
+
+        {contour.length >= 3 && (
+          <polygon
+            points={versPoints(contour)}
+            className={enErreur ? 'fill-red-500/30 stroke-red-600' : 'fill-green-500/30 stroke-green-700'}
+            strokeWidth={0.05}
+          />
+        )}
+
+        {sommets.length > 0 && (
+          <g className="fill-green-700 stroke-green-700">
+            <polyline
+              points={versPoints(curseur ? [...sommets, curseur] : sommets)}
+              fill="none"
+              strokeWidth={0.05}
+              strokeDasharray="0.15 0.1"
+            />
+            {sommets.map(([x, y], index) => (
+              <circle key={index} cx={x} cy={y} r={index === 0 ? 0.15 : 0.08} />
+            ))}
+          </g>
+        )}
+      </svg>
+
+      <p className="text-xs text-muted-foreground">
+        {mode === 'rectangle'
+          ? 'Glissez pour tracer le rectangle.'
+          : 'Cliquez pour placer les sommets, double-cliquez ou revenez au premier point pour fermer.'}
+        {` Grille de 1 m, aimantation à ${pasGrilleM * 100} cm.`}
+      </p>
+
+      {validation && !validation.success && (
+        <p className="text-sm text-red-600">{validation.error.issues[0]?.message}</p>
+      )}
+      {chevauchements.length > 0 && (
+        <p className="text-sm text-red-600">
+          Chevauche : {chevauchements.map(zone => zone.nom).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+
+interface OccupationCulture {
+  instanceCultureId: string;
+  nom: string;
+  nomVariete: string;
+  partSurface: number;
+  surfaceM2: number;
+  debut: string;
+  fin: string | null;
+}
+
+interface Frise {
+  occupations: OccupationCulture[];
+  pic: number;
+}
+
+const HAUTEUR_LIGNE = 28;
+const LARGEUR = 600;
+const MOIS = Array.from({ length: 12 }, (_, mois) => mois);
+
+/**
+ * Frise annuelle des cultures qui se partagent une zone
+ */
+export function ZoneOccupationTimeline({ zoneId }: { zoneId: string }) {
+  const [annee, setAnnee] = useState(() => new Date().getFullYear());
+  const [frise, setFrise] = useState<Frise | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchFrise = async () => {
+      setFrise(null);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/zones/${zoneId}/occupation?debut=${annee}-01-01&fin=${annee + 1}-01-01`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error ?? 'Impossible de charger l\'occupation');
+          return;
+        }
+        setFrise(data.frise);
+      } catch {
+        setError('Erreur réseau. Veuillez réessayer.');
+      }
+    };
+
+    fetchFrise();
+  }, [zoneId, annee]);
+
+  const debutAnnee = new Date(annee, 0, 1).getTime();
+  const dureeAnnee = new Date(annee + 1, 0, 1).getTime() - debutAnnee;
+  const abscisse = (date: Date) =>
+    Math.min(Math.max((date.getTime() - debutAnnee) / dureeAnnee, 0), 1) * LARGEUR;
+  const aujourdhui = new Date();
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          Occupation
+          <span className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setAnnee(annee - 1)} aria-label="Année précédente">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-normal">{annee}</span>
+            <Button variant="ghost" size="sm" onClick={() => setAnnee(annee + 1)} aria-label="Année suivante">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && (
+          <Alert variant="destructive">
+            <span className="text-sm">{error}</span>
+          </Alert>
+        )}
+
+        {!frise && !error && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {frise && frise.occupations.length === 0 && (
+          <p className="text-sm text-muted-foreground">Aucune culture dans cette zone en {annee}.</p>
+        )}
+
+        {frise && frise.occupations.length > 0 && (
+          <>
+            <svg
+              viewBox={`0 0 ${LARGEUR} ${(frise.occupations.length + 1) * HAUTEUR_LIGNE}`}
+              className="w-full"
+            >
+              {MOIS.map(mois => (
+                <text
+                  key={mois}
+                  x={abscisse(new Date(annee, mois, 15))}
+                  y={14}
+                  textAnchor="middle"
+                  className="fill-muted-foreground text-[10px]"
+                >
+                  {format(new Date(annee, mois, 1), 'MMM', { locale: fr })}
+                </text>
+              ))}
+              {frise.occupations.map((occupation, index) => {
+                const x = abscisse(new Date(occupation.debut));
+                const fin = occupation.fin ? abscisse(new Date(occupation.fin)) : LARGEUR;
+                const y = (index + 1) * HAUTEUR_LIGNE;
+                return (
+                  <g key={occupation.instanceCultureId}>
+                    <rect
+                      x={x}
+                      y={y + 2}
+                      width={Math.max(fin - x, 2)}
+                      height={HAUTEUR_LIGNE - 6}
+                      rx={3}
+                      className="fill-green-200 stroke-green-700"
+                      fillOpacity={0.4 + 0.6 * occupation.partSurface}
+                    >
+                      <title>{`${occupation.nom} (${occupation.nomVariete}) — ${Math.round(occupation.partSurface * 100)} % · ${occupation.surfaceM2} m²`}</title>
+                    </rect>
+                    <text x={x + 4} y={y + HAUTEUR_LIGNE / 2 + 3} className="fill-foreground text-[11px]">
+                      {occupation.nom} · {Math.round(occupation.partSurface * 100)} %
+                    </text>
+                  </g>
+                );
+              })}
+              {aujourdhui.getFullYear() === annee && (
+                <line
+                  x1={abscisse(aujourdhui)}
+                  x2={abscisse(aujourdhui)}
+                  y1={HAUTEUR_LIGNE}
+                  y2={(frise.occupations.length + 1) * HAUTEUR_LIGNE}
+                  className="stroke-red-500"
+                  strokeDasharray="3 3"
+                />
+              )}
+            </svg>
+            <p className={`text-xs ${frise.pic > 1 ? 'text-red-600' : 'text-muted-foreground'}`}>
+              Occupation maximale : {Math.round(frise.pic * 100)} % de la zone
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,6 +24,14 @@ export interface VarietyWithUserData {
     recommendationReasons: string[]
     difficultyFit: number
   }
+  _search?: {
+    score: number
+    surlignages: Array<{
+      champ: 'nomCommun' | 'nomScientifique' | 'famille' | 'conseilsCulture'
+      texte: string
+      plages: Array<[number, number]>
+    }>
+  }
 }
 
 export interface PerformancePersonnelle {
@@ -31,6 +39,10 @@ export interface PerformancePersonnelle {
   tauxReussite: number
   rendementMoyenKg: number
   rendementMoyenKgM2: number
+  joursAvantPremiereRecolte?: number
+  tauxGermination?: number
+  qualiteMoyenne?: number
+  saisons?: number[]
   meilleureRecolte?: {
     annee: number
     poids: number
@@ -42,6 +54,8 @@ export interface PerformancePersonnelle {
     poidsTotalKg: number
     qualiteMoyenne: number
   }>
+  derniereMiseAJour?: string
+  calculPar?: 'MANUEL' | 'AUTO'
 }
 
 export interface VarietyFilters {
@@ -73,6 +87,7 @@ export const useVarietySearch = (filters: VarietyFilters = {}) => {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [totalCount, setTotalCount] = useState(0)
+  const [suggestions, setSuggestions] = useState<string[]>([])
 
   // Mémoriser la clé de cache pour éviter les re-fetchs inutiles
   const cacheKey = useMemo(() => JSON.stringify(filters), [filters])
@@ -106,6 +121,7 @@ export const useVarietySearch = (filters: VarietyFilters = {}) => {
       if (result.success) {
         setVarieties(result.data.varieties)
         setTotalCount(result.data.totalCount)
+        setSuggestions(result.data.suggestions ?? [])
       } else {
         throw new Error(result.error || 'Erreur lors de la recherche')
       }
@@ -113,6 +129,7 @@ export const useVarietySearch = (filters: VarietyFilters = {}) => {
       console.error('Erreur useVarietySearch:', err)
       setError(err instanceof Error ? err.message : 'Erreur inconnue')
       setVarieties([])
+      setSuggestions([])
     } finally {
       setLoading(false)
     }
@@ -128,6 +145,7 @@ export const useVarietySearch = (filters: VarietyFilters = {}) => {
     loading,
     error,
     totalCount,
+    suggestions,
     refetch: searchVarieties,
     hasMore: varieties.length < totalCount
   }
@@ -258,6 +276,153 @@ export const useFavoriteVarieties = () => {
   }
 }
 
+export interface SeedStock {
+  varieteId: string
+  varieteBaseId: string
+  nom: string
+  quantiteRestante: number
+  nombreSachets: number
+  alertes: Array<{
+    type: 'epuise' | 'stock_bas' | 'perime' | 'expire_bientot' | 'viabilite_faible'
+    sachetId?: string
+    message: string
+  }>
+}
+
+/**
+ * Hook pour le stock de graines et ses alertes
+ */
+export const useSeedStock = () => {
+  const { data: session } = useSession()
+  const [stock, setStock] = useState<SeedStock[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStock = useCallback(async () => {
+    if (!session?.user || loading) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/seed-packets/stock')
+
+      if (!response.ok) {
+        throw new Error(`Erreur ${response.status}`)
+      }
+
+      const result = await response.json()
+      setStock(result.stock)
+    } catch (err) {
+      console.error('Erreur stock graines:', err)
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setLoading(false)
+    }
+  }, [session?.user, loading])
+
+  useEffect(() => {
+    fetchStock()
+  }, [fetchStock])
+
+  // Accès par variété du catalogue, pour les cartes
+  const stockByVariety = useMemo(
+    () => new Map(stock.map(entry => [entry.varieteBaseId, entry])),
+    [stock]
+  )
+
+  return {
+    stock,
+    stockByVariety,
+    alerts: stock.filter(entry => entry.alertes.length > 0),
+    loading,
+    error,
+    refetch: fetchStock
+  }
+}
+
+export interface SeedLotNode {
+  type: 'lot'
+  id: string
+  generation: number
+  numeroLot: string | null
+  fournisseur: string | null
+  anneeProduction: number | null
+  quantiteInitiale: number
+  quantiteRestante: number
+  cultures: SeedCultureNode[]
+}
+
+export interface SeedCultureNode {
+  type: 'culture'
+  id: string
+  generation: number
+  nom: string
+  codeLot: string | null
+  anneeSaison: number
+  poidsTotalKg: number
+  rendementKgM2: number | null
+  qualiteMoyenne: number | null
+  goutMoyen: number | null
+  lots: SeedLotNode[]
+}
+
+export interface SeedLineage {
+  varieteId: string
+  varieteBaseId: string
+  nom: string
+  racines: Array<SeedLotNode | SeedCultureNode>
+  generations: Array<{
+    generation: number
+    cultures: number
+    annees: number[]
+    poidsMoyenKg: number
+    rendementMoyenKgM2: number | null
+    qualiteMoyenne: number | null
+    goutMoyen: number | null
+  }>
+  evolution: { rendementKgM2: number | null; qualite: number | null; gout: number | null }
+}
+
+/**
+ * Hook pour la lignée des graines d'une variété (lots sauvés et cultures issues)
+ */
+export const useSeedLineage = (varietyId?: string) => {
+  const { data: session } = useSession()
+  const [lineage, setLineage] = useState<SeedLineage | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLineage = useCallback(async () => {
+    if (!varietyId || !session?.user || loading) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/seed-packets/lineage?varietyId=${varietyId}`)
+
+      if (!response.ok) {
+        throw new Error(`Erreur ${response.status}`)
+      }
+
+      const result = await response.json()
+      setLineage(result.lignee)
+    } catch (err) {
+      console.error('Erreur lignée graines:', err)
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setLoading(false)
+    }
+  }, [varietyId, session?.user, loading])
+
+  useEffect(() => {
+    fetchLineage()
+  }, [fetchLineage])
+
+  return { lineage, loading, error, refetch: fetchLineage }
+}
+
 /**
  * Hook pour les statistiques variétés
  */
@@ -373,4 +538,203 @@ export const useVarietyPersonalization = (varietyId?: string) => {
     refetch: fetchPersonalization,
     updatePersonalization
   }
-}
\ No newline at end of file
+}
+export type StatutModeration = 'BROUILLON' | 'SOUMISE' | 'APPROUVEE' | 'REJETEE'
+
+export interface VarietyHistory {
+  varieteId: string
+  nomCommun: string
+  statutModeration: StatutModeration
+  version: number
+  creePar: { id: string; name: string | null } | null
+  moderateur: { id: string; name: string | null } | null
+  modereA: string | null
+  historique: Array<{
+    id: string
+    action: 'CREATION' | 'MODIFICATION' | 'SOUMISSION' | 'APPROBATION' | 'REJET'
+    version: number
+    commentaire: string | null
+    creeA: string
+    auteur: { id: string; name: string | null } | null
+  }>
+}
+
+/**
+ * Hook pour l'attribution et l'historique des versions d'une variété
+ */
+export const useVarietyHistory = (varietyId?: string) => {
+  const { data: session } = useSession()
+  const [history, setHistory] = useState<VarietyHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    if (!varietyId || !session?.user || loading) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/varieties/${varietyId}/history`)
+
+      if (!response.ok) {
+        throw new Error(`Erreur ${response.status}`)
+      }
+
+      const result = await response.json()
+      setHistory(result.data)
+    } catch (err) {
+      console.error('Erreur historique variété:', err)
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setLoading(false)
+    }
+  }, [varietyId, session?.user, loading])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  return { history, loading, error, refetch: fetchHistory }
+}
+
+export interface SubmittedVariety {
+  id: string
+  nomCommun: string
+  nomScientifique: string | null
+  famille: string | null
+  categorie: string
+  version: number
+  soumisA: string
+  creePar: { id: string; name: string | null } | null
+}
+
+/**
+ * Hook pour la file de relecture des contributions (relecteurs uniquement)
+ */
+export const useReviewQueue = () => {
+  const { data: session } = useSession()
+  const [queue, setQueue] = useState<SubmittedVariety[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchQueue = useCallback(async () => {
+    if (!session?.user || loading) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/varieties/review')
+
+      if (!response.ok) {
+        throw new Error(`Erreur ${response.status}`)
+      }
+
+      const result = await response.json()
+      setQueue(result.data)
+    } catch (err) {
+      console.error('Erreur file de relecture:', err)
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setLoading(false)
+    }
+  }, [session?.user, loading])
+
+  const review = useCallback(async (varietyId: string, decision: 'approuver' | 'rejeter', commentaire?: string) => {
+    const response = await fetch(`/api/varieties/review/${varietyId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, commentaire })
+    })
+    const result = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error ?? `Erreur ${response.status}`)
+    }
+
+    setQueue(prev => prev.filter(variety => variety.id !== varietyId))
+    return result.data
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  return { queue, loading, error, refetch: fetchQueue, review }
+}
+
+export type ComparisonValue = number | string | boolean | number[] | null
+
+export interface VarietyComparisonRow {
+  cle: string
+  section: 'culture' | 'calendrier' | 'performance' | 'communaute'
+  libelle: string
+  unite?: string
+  valeurs: ComparisonValue[]
+  meilleurs: number[]
+}
+
+export interface ComparedVariety {
+  id: string
+  nomCommun: string
+  nomScientifique: string | null
+  famille: string | null
+  categorie: string
+  infosCulture: Record<string, unknown>
+  calendrierDefaut: { moisSemis: number[]; moisPlantation: number[]; moisRecolte: number[] }
+  personnelle: {
+    varieteUtilisateurId: string
+    nomPersonnalise: string | null
+    estFavorite: boolean
+    noteGlobale: number | null
+    performance: PerformancePersonnelle | null
+  } | null
+  communaute: { utilisateurs: number; favoris: number; noteMoyenne: number | null }
+}
+
+export interface VarietyComparison {
+  varietes: ComparedVariety[]
+  lignes: VarietyComparisonRow[]
+}
+
+/**
+ * Hook pour comparer 2 à 5 variétés côte à côte
+ */
+export const useVarietyComparison = (varietyIds: string[]) => {
+  const { data: session } = useSession()
+  const [comparison, setComparison] = useState<VarietyComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const idsKey = varietyIds.join(',')
+
+  const fetchComparison = useCallback(async () => {
+    if (varietyIds.length < 2 || !session?.user || loading) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/varieties/compare?ids=${encodeURIComponent(idsKey)}`)
+
+      if (!response.ok) {
+        throw new Error(`Erreur ${response.status}`)
+      }
+
+      const result = await response.json()
+      setComparison(result.data)
+    } catch (err) {
+      console.error('Erreur comparaison variétés:', err)
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setLoading(false)
+    }
+  }, [idsKey, session?.user, loading])
+
+  useEffect(() => {
+    fetchComparison()
+  }, [fetchComparison])
+
+  return { comparison, loading, error, refetch: fetchComparison }
+}
@@ -0,0 +1,49 @@
+import type { NextAuthConfig } from "next-auth"
+import { DEFAULT_PERMISSIONS } from "@/types/auth"
+
+// Durée de vie des sessions, reprise par le registre des sessions
+export const SESSION_MAX_AGE_SECONDES = 7 * 24 * 60 * 60
+
+/**
+ * Configuration NextAuth compatible Edge (middleware) : lecture du JWT seulement.
+ * Les providers, l'adapter Prisma et la vérification des sessions en base sont
+ * ajoutés dans auth.ts, chargé uniquement côté Node.
+ */
+export const authConfig = {
+  providers: [],
+  callbacks: {
+    session({ session, token }) {
+      if (token?.deuxFacteursEnAttente) {
+        // Connexion OAuth sans second facteur : aucune identité tant que le code n'est pas saisi
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (session as any).user = { deuxFacteursEnAttente: true };
+      } else if (token) {
+        // Session avec JWT (Credentials)
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (session as any).user = {
+          id: token.sub!,
+          email: token.email!,
+          name: token.name,
+          image: token.picture,
+          typeProfil: token.typeProfil!,
+          prenom: token.prenom,
+          nom: token.nom,
+          permissions: token.permissions || DEFAULT_PERMISSIONS[token.typeProfil!],
+          deuxFacteursRequis: token.deuxFacteursRequis ?? false,
+          sessionId: token.sessionId
+        };
+      }
+
+      return session;
+    }
+  },
+  pages: {
+    signIn: "/auth/signin",
+    signOut: "/auth/signout",
+    error: "/auth/error",
+  },
+  session: {
+    strategy: "jwt", // JWT pour Credentials, database pour OAuth
+    maxAge: SESSION_MAX_AGE_SECONDES, // 7 jours
+  },
+} satisfies NextAuthConfig
@@ -1,22 +1,49 @@
-import NextAuth from "next-auth"
+import NextAuth, { CredentialsSignin } from "next-auth"
 import { PrismaAdapter } from "@auth/prisma-adapter"
 import GitHub from "next-auth/providers/github"
 import Google from "next-auth/providers/google"
 import CredentialsProvider from "next-auth/providers/credentials"
 import { prisma } from "@/lib/db"
-import { verifyPassword, getUserPermissions } from "@/lib/security"
-import { DEFAULT_PERMISSIONS } from "@/types/auth"
+import { verifyPassword, getUserPermissions, isTwoFactorEnrolmentRequired } from "@/lib/security"
+import { TwoFactorService } from "@/lib/services/two-factor.service"
+import { SessionService } from "@/lib/services/session.service"
+import { authConfig as edgeAuthConfig } from "@/lib/auth.config"
+import { headers } from "next/headers"
 import type { NextAuthConfig } from "next-auth"
 import { TypeProfil } from "@prisma/client"
 
+// Codes renvoyés au formulaire de connexion (result.code côté client)
+class TwoFactorRequiredError extends CredentialsSignin {
+  code = "totp_required"
+}
+
+class TwoFactorInvalidError extends CredentialsSignin {
+  code = "totp_invalid"
+}
+
+// Appareil à l'origine de la connexion, pour le registre des sessions
+async function getConnexionContext(): Promise<{ userAgent: string | null; adresseIp: string | null }> {
+  try {
+    const requestHeaders = await headers();
+    return {
+      userAgent: requestHeaders.get("user-agent"),
+      adresseIp: requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || requestHeaders.get("x-real-ip")
+    };
+  } catch {
+    return { userAgent: null, adresseIp: null };
+  }
+}
+
 export const authConfig: NextAuthConfig = {
+  ...edgeAuthConfig,
   adapter: PrismaAdapter(prisma),
   providers: [
     CredentialsProvider({
       name: "credentials",
       credentials: {
         email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
+        password: { label: "Password", type: "password" },
+        code: { label: "Code 2FA", type: "text" }
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
@@ -40,6 +67,20 @@ export const authConfig: NextAuthConfig = {
           return null;
         }
 
+        // Second facteur : code TOTP ou code de secours
+        if (user.totpActiveA) {
+          const code = credentials.code as string | undefined;
+
+          if (!code) {
+            throw new TwoFactorRequiredError();
+          }
+
+          const methode = await new TwoFactorService().verifyLogin(user.id, code);
+          if (!methode) {
+            throw new TwoFactorInvalidError();
+          }
+        }
+
         // Mise à jour dernière connexion
         await prisma.user.update({
           where: { id: user.id },
@@ -66,20 +107,11 @@ export const authConfig: NextAuthConfig = {
     }),
   ],
   callbacks: {
-    async session({ session, user, token }) {
+    async session(params) {
+      const { session, user, token } = params;
+
       if (token) {
-        // Session avec JWT (Credentials)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (session as any).user = {
-          id: token.sub!,
-          email: token.email!,
-          name: token.name,
-          image: token.picture,
-          typeProfil: token.typeProfil!,
-          prenom: token.prenom,
-          nom: token.nom,
-          permissions: token.permissions || DEFAULT_PERMISSIONS[token.typeProfil!]
-        };
+        return edgeAuthConfig.callbacks.session(params);
       } else if (user) {
         // Session avec database (OAuth)
         const dbUser = await prisma.user.findUnique({
@@ -104,7 +136,7 @@ export const authConfig: NextAuthConfig = {
       
       return session;
     },
-    async jwt({ token, user }) {
+    async jwt({ token, user, account, trigger, session: donnees }) {
       if (user) {
         token.typeProfil = user.typeProfil;
         token.prenom = user.prenom || undefined;
@@ -114,19 +146,52 @@ export const authConfig: NextAuthConfig = {
             user.id, 
             user.typeProfil
           );
+          token.deuxFacteursRequis = await isTwoFactorEnrolmentRequired(user.id, user.typeProfil);
+
+          // Les providers OAuth ne passent pas par authorize : le second facteur est
+          // demandé après coup, sur /auth/verify-2fa, avant tout accès au compte
+          if (account?.provider !== "credentials") {
+            const dbUser = await prisma.user.findUnique({
+              where: { id: user.id },
+              select: { totpActiveA: true }
+            });
+            token.deuxFacteursEnAttente = !!dbUser?.totpActiveA;
+          }
+
+          const session = await new SessionService().createSession(user.id, await getConnexionContext());
+          token.sessionId = session.id;
+          token.sessionToken = session.sessionToken;
         }
+        return token;
+      }
+
+      // Session révoquée depuis la page "mes appareils" (ou expirée), vérifiée en cache court
+      if (token.sessionToken && !(await new SessionService().isSessionValid(token.sessionToken))) {
+        return null;
+      }
+
+      if (trigger === "update" && token.sub && token.deuxFacteursEnAttente) {
+        // Le client transmet le code via update({ code }) ; les échecs sont comptés par verifyLogin
+        const code = (donnees as { code?: unknown } | undefined)?.code;
+        if (typeof code === "string" && await new TwoFactorService().verifyLogin(token.sub, code)) {
+          token.deuxFacteursEnAttente = false;
+        }
+        return token;
+      }
+
+      if (trigger === "update" && token.sub && token.deuxFacteursRequis) {
+        // Après activation de la 2FA, le client rafraîchit la session via update()
+        token.deuxFacteursRequis = await isTwoFactorEnrolmentRequired(token.sub, token.typeProfil);
       }
       return token;
     }
   },
-  pages: {
-    signIn: "/auth/signin",
-    signOut: "/auth/signout",
-    error: "/auth/error",
-  },
-  session: {
-    strategy: "jwt", // JWT pour Credentials, database pour OAuth
-    maxAge: 7 * 24 * 60 * 60, // 7 jours
+  events: {
+    async signOut(message) {
+      if ("token" in message && message.token?.sessionToken) {
+        await new SessionService().endSession(message.token.sessionToken);
+      }
+    }
   },
 }
 
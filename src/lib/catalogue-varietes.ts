@@ -0,0 +1,203 @@
+/**
+ * Échange du catalogue de variétés (CSV / JSON)
+ *
+ * Le JSON reprend tel quel les structures InfosCulture et calendrierDefaut.
+ * Le CSV les aplatit en une colonne par champ : listes séparées par « | »,
+ * intervalles [min, max] notés « min|max », booléens « true » / « false ».
+ */
+
+import { z } from 'zod'
+import { CsvValue, parseCsv, stripFormulaPrefix, toCsv } from './csv'
+import { normaliser } from './recherche-texte'
+
+export const infosCultureSchema = z.object({
+  profondeurPlantationCm: z.number(),
+  espacementCm: z.number(),
+  expositionSoleil: z.enum(['PLEIN_SOLEIL', 'MI_OMBRE', 'OMBRE']),
+  joursGermination: z.number(),
+  joursRecolte: z.number(),
+  dureeRecolte: z.number().optional(),
+  temperatureMinSemis: z.number(),
+  temperatureOptimaleCroissance: z.array(z.number()).length(2),
+  besoinsEau: z.enum(['FAIBLE', 'MOYEN', 'ELEVE']),
+  typesolPrefere: z.array(z.string()),
+  phOptimal: z.array(z.number()).length(2),
+  plantesCompagnes: z.array(z.string()),
+  plantesIncompatibles: z.array(z.string()),
+  niveauDifficulte: z.number().min(1).max(5),
+  conseilsCulture: z.array(z.string()),
+  problemesCourants: z.array(z.string()),
+  rendementMoyenKgM2: z.number().optional(),
+  hauteurMoyenneCm: z.number().optional(),
+  resistanceFroid: z.boolean().optional(),
+  resistanceMaladies: z.array(z.string()).optional()
+})
+
+export const calendrierDefautSchema = z.object({
+  moisSemis: z.array(z.number().min(1).max(12)),
+  moisPlantation: z.array(z.number().min(1).max(12)),
+  moisRecolte: z.array(z.number().min(1).max(12))
+})
+
+export const varieteCatalogueSchema = z.object({
+  nomScientifique: z.string().optional(),
+  nomCommun: z.string().min(1).max(200),
+  famille: z.string().max(100).optional(),
+  categorie: z.enum(['LEGUME', 'FRUIT', 'HERBE_AROMATIQUE', 'FLEUR', 'ARBRE', 'VIGNE']),
+  infosCulture: infosCultureSchema,
+  calendrierDefaut: calendrierDefautSchema,
+  photos: z.array(z.object({
+    url: z.string().url(),
+    legende: z.string().optional(),
+    type: z.string().optional()
+  })).optional(),
+  liens: z.array(z.object({
+    url: z.string().url(),
+    titre: z.string(),
+    type: z.string().optional()
+  })).optional()
+})
+
+export type VarieteCatalogue = z.infer<typeof varieteCatalogueSchema>
+
+export type FormatCatalogue = 'csv' | 'json'
+
+// Au-delà, le fichier est refusé : un catalogue régional compte quelques centaines de variétés
+export const LIGNES_IMPORT_MAX = 2000
+
+// Colonnes CSV : champ de la variété, de infosCulture ou de calendrierDefaut, et son type
+const COLONNES_VARIETE = ['nomCommun', 'nomScientifique', 'famille', 'categorie'] as const
+
+type TypeColonne = 'nombre' | 'texte' | 'liste' | 'nombres' | 'booleen'
+
+const COLONNES_INFOS: Array<[keyof VarieteCatalogue['infosCulture'], TypeColonne]> = [
+  ['profondeurPlantationCm', 'nombre'],
+  ['espacementCm', 'nombre'],
+  ['expositionSoleil', 'texte'],
+  ['joursGermination', 'nombre'],
+  ['joursRecolte', 'nombre'],
+  ['dureeRecolte', 'nombre'],
+  ['temperatureMinSemis', 'nombre'],
+  ['temperatureOptimaleCroissance', 'nombres'],
+  ['besoinsEau', 'texte'],
+  ['typesolPrefere', 'liste'],
+  ['phOptimal', 'nombres'],
+  ['plantesCompagnes', 'liste'],
+  ['plantesIncompatibles', 'liste'],
+  ['niveauDifficulte', 'nombre'],
+  ['conseilsCulture', 'liste'],
+  ['problemesCourants', 'liste'],
+  ['rendementMoyenKgM2', 'nombre'],
+  ['hauteurMoyenneCm', 'nombre'],
+  ['resistanceFroid', 'booleen'],
+  ['resistanceMaladies', 'liste']
+]
+
+const COLONNES_CALENDRIER = ['moisSemis', 'moisPlantation', 'moisRecolte'] as const
+
+export const COLONNES_CSV: string[] = [
+  ...COLONNES_VARIETE,
+  ...COLONNES_INFOS.map(([colonne]) => colonne),
+  ...COLONNES_CALENDRIER
+]
+
+const SEPARATEUR_LISTE = '|'
+
+/**
+ * Clé de dédoublonnage : noms scientifique et commun, sans casse, accents ni espaces superflus
+ */
+export function cleVariete(variete: { nomScientifique?: string | null; nomCommun: string }): string {
+  const nettoyer = (texte: string) => normaliser(texte).replace(/\s+/g, ' ').trim()
+  return `${nettoyer(variete.nomScientifique ?? '')}|${nettoyer(variete.nomCommun)}`
+}
+
+export function catalogueVersCsv(varietes: VarieteCatalogue[]): string {
+  return toCsv(COLONNES_CSV, varietes.map(variete => {
+    const infos = variete.infosCulture as Record<string, unknown>
+    return [
+      variete.nomCommun,
+      variete.nomScientifique,
+      variete.famille,
+      variete.categorie,
+      ...COLONNES_INFOS.map(([colonne]) => versCellule(infos[colonne])),
+      ...COLONNES_CALENDRIER.map(colonne => versCellule(variete.calendrierDefaut[colonne]))
+    ]
+  }))
+}
+
+/**
+ * Lignes d'un CSV remises à la forme JSON, sans validation : chaque ligne passe
+ * ensuite par varieteCatalogueSchema. Sans les colonnes obligatoires, retourne celles qui manquent.
+ */
+export function csvVersLignes(texte: string): { lignes: Array<Record<string, unknown>> } | { colonnesManquantes: string[] } {
+  const [entete = [], ...lignes] = parseCsv(texte)
+  const colonnes = entete.map(colonne => colonne.trim())
+
+  const obligatoires = ['nomCommun', 'categorie']
+  const colonnesManquantes = obligatoires.filter(colonne => !colonnes.includes(colonne))
+  if (colonnesManquantes.length > 0) return { colonnesManquantes }
+
+  return {
+    lignes: lignes.map(cellules => {
+      const valeur = (colonne: string) => {
+        const index = colonnes.indexOf(colonne)
+        const cellule = index === -1 ? '' : stripFormulaPrefix((cellules[index] ?? '').trim())
+        return cellule === '' ? undefined : cellule
+      }
+
+      const infosCulture = Object.fromEntries(COLONNES_INFOS.map(([colonne, type]) => {
+        const cellule = valeur(colonne)
+        // Une liste obligatoire absente est une liste vide ; les autres champs restent absents
+        if (cellule === undefined) {
+          const obligatoire = !infosCultureSchema.shape[colonne].safeParse(undefined).success
+          return [colonne, type === 'liste' && obligatoire ? [] : undefined]
+        }
+        return [colonne, depuisCellule(cellule, type)]
+      }))
+
+      const calendrierDefaut = Object.fromEntries(COLONNES_CALENDRIER.map(colonne => [
+        colonne,
+        valeur(colonne) === undefined ? [] : depuisCellule(valeur(colonne)!, 'nombres')
+      ]))
+
+      return {
+        nomCommun: valeur('nomCommun'),
+        nomScientifique: valeur('nomScientifique'),
+        famille: valeur('famille'),
+        categorie: valeur('categorie'),
+        infosCulture,
+        calendrierDefaut
+      }
+    })
+  }
+}
+
+function versCellule(valeur: unknown): CsvValue {
+  if (Array.isArray(valeur)) return valeur.join(SEPARATEUR_LISTE)
+  if (valeur === null || valeur === undefined) return null
+  return typeof valeur === 'object' ? JSON.stringify(valeur) : valeur as CsvValue
+}
+
+// Les valeurs non numériques sont laissées en texte : la validation les signalera
+function depuisCellule(cellule: string, type: TypeColonne): unknown {
+  const nombre = (texte: string) => {
+    const valeur = Number(texte.replace(',', '.'))
+    return texte !== '' && Number.isFinite(valeur) ? valeur : texte
+  }
+  const elements = () => cellule.split(SEPARATEUR_LISTE).map(element => element.trim()).filter(element => element !== '')
+
+  switch (type) {
+    case 'nombre':
+      return nombre(cellule)
+    case 'liste':
+      return elements()
+    case 'nombres':
+      return elements().map(nombre)
+    case 'booleen':
+      return ['true', 'oui', '1'].includes(cellule.toLowerCase())
+        ? true
+        : ['false', 'non', '0'].includes(cellule.toLowerCase()) ? false : cellule
+    default:
+      return cellule
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Compagnonnage : associations favorables et défavorables entre cultures voisines
+ *
+ * Les fiches variétés listent en texte libre leurs plantes compagnes et
+ * incompatibles (« tomate », « pomme de terre », « solanacées »...). Un nom
+ * désigne soit les variétés dont le nom commun contient ce mot, soit une
+ * famille botanique. La relation est symétrique : il suffit que l'une des deux
+ * fiches mentionne l'autre, et une incompatibilité l'emporte sur une association.
+ */
+
+import { normaliser } from './recherche-texte'
+
+export type RelationVoisinage = 'compagne' | 'incompatible' | 'neutre'
+
+export interface VarietePourCompagnonnage {
+  id: string
+  nomCommun: string
+  famille: string | null
+  infosCulture: unknown
+}
+
+export interface CibleCompagnonnage {
+  nom: string // Tel que saisi dans la fiche
+  varieteIds: string[]
+  famille: string | null // Famille désignée, le cas échéant
+}
+
+export interface LiensCompagnonnage {
+  compagnes: CibleCompagnonnage[]
+  incompatibles: CibleCompagnonnage[]
+  nonResolus: string[] // Ni variété du catalogue ni famille connue
+}
+
+export interface RelationEntreVarietes {
+  relation: RelationVoisinage
+  raison: string | null // Nom de la fiche qui fonde la relation
+}
+
+export interface VoisinEvalue<T> {
+  voisin: T
+  relation: RelationVoisinage
+  raison: string | null
+}
+
+export interface EvaluationVoisinage<T> {
+  score: number | null // 0 (que des incompatibilités) à 1 (que des compagnes), null sans voisin
+  compagnes: Array<VoisinEvalue<T>>
+  incompatibles: Array<VoisinEvalue<T>>
+  neutres: number
+}
+
+// Noms français usuels des familles, ramenés au nom latin stocké dans les fiches
+const SYNONYMES_FAMILLES: Record<string, string> = {
+  cruciferes: 'brassicaceae',
+  legumineuses: 'fabaceae',
+  ombelliferes: 'apiaceae',
+  composees: 'asteraceae',
+  alliacees: 'amaryllidaceae',
+  liliacees: 'amaryllidaceae',
+  chenopodiacees: 'amaranthaceae',
+  labiees: 'lamiaceae',
+  graminees: 'poaceae'
+}
+
+// Les cultures de la même zone se gênent plus que celles des zones voisines
+export const POIDS_MEME_ZONE = 1
+export const POIDS_ZONE_VOISINE = 0.5
+
+export function normaliserFamille(famille: string): string {
+  const nom = normaliser(famille).trim()
+  return SYNONYMES_FAMILLES[nom] ?? nom.replace(/acees$/, 'aceae')
+}
+
+export function lireAssociations(infosCulture: unknown): { compagnes: string[]; incompatibles: string[] } {
+  const infos = infosCulture as { plantesCompagnes?: unknown; plantesIncompatibles?: unknown } | null
+  const lire = (valeur: unknown) => Array.isArray(valeur)
+    ? valeur.filter((nom): nom is string => typeof nom === 'string' && nom.trim().length > 0)
+    : []
+
+  return { compagnes: lire(infos?.plantesCompagnes), incompatibles: lire(infos?.plantesIncompatibles) }
+}
+
+/**
+ * Vrai si le nom saisi désigne la variété : sa famille, ou un mot (ou groupe de mots)
+ * de son nom commun, au singulier comme au pluriel
+ */
+export function nomDesigne(nom: string, variete: Pick<VarietePourCompagnonnage, 'nomCommun' | 'famille'>): boolean {
+  if (variete.famille && normaliserFamille(nom) === normaliserFamille(variete.famille)) return true
+
+  const terme = normaliser(nom).trim().replace(/[sx]$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (terme.length < 2) return false
+
+  return new RegExp(`(^|[^a-z0-9])${terme}[sx]?($|[^a-z0-9])`).test(normaliser(variete.nomCommun))
+}
+
+/**
+ * Relation entre deux variétés, quelle que soit la fiche qui la mentionne
+ */
+export function relationEntre(a: VarietePourCompagnonnage, b: VarietePourCompagnonnage): RelationEntreVarietes {
+  if (a.id === b.id) return { relation: 'neutre', raison: null }
+
+  const associationsA = lireAssociations(a.infosCulture)
+  const associationsB = lireAssociations(b.infosCulture)
+
+  const incompatible = associationsA.incompatibles.find(nom => nomDesigne(nom, b))
+    ?? associationsB.incompatibles.find(nom => nomDesigne(nom, a))
+  if (incompatible) return { relation: 'incompatible', raison: incompatible }
+
+  const compagne = associationsA.compagnes.find(nom => nomDesigne(nom, b))
+    ?? associationsB.compagnes.find(nom => nomDesigne(nom, a))
+  if (compagne) return { relation: 'compagne', raison: compagne }
+
+  return { relation: 'neutre', raison: null }
+}
+
+/**
+ * Résout les noms d'une fiche vers les variétés du catalogue ou une famille
+ */
+export function resoudreLiens(
+  variete: VarietePourCompagnonnage,
+  catalogue: VarietePourCompagnonnage[]
+): LiensCompagnonnage {
+  const familles = new Set(catalogue.filter(autre => autre.famille).map(autre => normaliserFamille(autre.famille!)))
+  const nonResolus: string[] = []
+
+  const resoudre = (noms: string[]) => noms.flatMap(nom => {
+    const famille = familles.has(normaliserFamille(nom)) ? normaliserFamille(nom) : null
+    const varieteIds = catalogue
+      .filter(autre => autre.id !== variete.id && nomDesigne(nom, autre))
+      .map(autre => autre.id)
+
+    if (!famille && varieteIds.length === 0) {
+      nonResolus.push(nom)
+      return []
+    }
+    return [{ nom, varieteIds, famille }]
+  })
+
+  const { compagnes, incompatibles } = lireAssociations(variete.infosCulture)
+  return { compagnes: resoudre(compagnes), incompatibles: resoudre(incompatibles), nonResolus }
+}
+
+/**
+ * Graphe normalisé du catalogue : pour chaque variété, ses liens résolus
+ */
+export function construireGraphe(catalogue: VarietePourCompagnonnage[]): Map<string, LiensCompagnonnage> {
+  return new Map(catalogue.map(variete => [variete.id, resoudreLiens(variete, catalogue)]))
+}
+
+/**
+ * Évalue une culture face à ses voisines, pondérées selon leur proximité
+ */
+export function evaluerVoisinage<T>(
+  cible: VarietePourCompagnonnage,
+  voisins: Array<{ voisin: T; variete: VarietePourCompagnonnage; poids: number }>
+): EvaluationVoisinage<T> {
+  const evaluation: EvaluationVoisinage<T> = { score: null, compagnes: [], incompatibles: [], neutres: 0 }
+  let somme = 0
+  let poidsTotal = 0
+
+  for (const { voisin, variete, poids } of voisins) {
+    const { relation, raison } = relationEntre(cible, variete)
+    poidsTotal += poids
+
+    if (relation === 'compagne') {
+      evaluation.compagnes.push({ voisin, relation, raison })
+      somme += poids
+    } else if (relation === 'incompatible') {
+      evaluation.incompatibles.push({ voisin, relation, raison })
+      somme -= poids
+    } else {
+      evaluation.neutres++
+    }
+  }
+
+  if (poidsTotal > 0) {
+    evaluation.score = Math.round((0.5 + somme / poidsTotal / 2) * 100) / 100
+  }
+  return evaluation
+}
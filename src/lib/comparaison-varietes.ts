@@ -0,0 +1,127 @@
+/**
+ * Comparaison de variétés côte à côte
+ *
+ * Chaque critère donne une ligne alignée sur les variétés comparées et, quand le
+ * critère a un sens d'optimisation, les colonnes qui offrent la meilleure valeur.
+ */
+
+export type SectionComparaison = 'culture' | 'calendrier' | 'performance' | 'communaute'
+
+export type ValeurComparee = number | string | boolean | number[] | null
+
+export interface LigneComparaison {
+  cle: string
+  section: SectionComparaison
+  libelle: string
+  unite?: string
+  valeurs: ValeurComparee[] // Une par variété, dans l'ordre demandé
+  meilleurs: number[] // Index des variétés à mettre en avant ; vide si rien à départager
+}
+
+export interface VarietePourComparaison {
+  infosCulture: unknown
+  calendrierDefaut: unknown
+  performance: Record<string, unknown> | null // performancePersonnelle de l'utilisateur
+  communaute: { utilisateurs: number; favoris: number; noteMoyenne: number | null }
+}
+
+// Sens d'optimisation : plus grand, plus petit, ou sans objet (valeur descriptive)
+type Sens = 'max' | 'min' | null
+
+interface Critere {
+  cle: string
+  section: SectionComparaison
+  libelle: string
+  unite?: string
+  sens: Sens
+  lire: (variete: VarietePourComparaison) => ValeurComparee
+}
+
+// Besoins en eau : les plus sobres d'abord
+const RANG_BESOINS_EAU: Record<string, number> = { FAIBLE: 1, MOYEN: 2, ELEVE: 3 }
+
+const champ = (source: unknown, nom: string): unknown => (source as Record<string, unknown> | null)?.[nom]
+
+const nombre = (valeur: unknown): number | null =>
+  typeof valeur === 'number' && Number.isFinite(valeur) ? valeur : null
+
+const mois = (valeur: unknown): number[] | null =>
+  Array.isArray(valeur) ? valeur.filter((element): element is number => typeof element === 'number') : null
+
+const CRITERES: Critere[] = [
+  { cle: 'niveauDifficulte', section: 'culture', libelle: 'Difficulté', unite: '/5', sens: 'min', lire: v => nombre(champ(v.infosCulture, 'niveauDifficulte')) },
+  { cle: 'joursGermination', section: 'culture', libelle: 'Germination', unite: 'j', sens: 'min', lire: v => nombre(champ(v.infosCulture, 'joursGermination')) },
+  { cle: 'joursRecolte', section: 'culture', libelle: 'Jours avant récolte', unite: 'j', sens: 'min', lire: v => nombre(champ(v.infosCulture, 'joursRecolte')) },
+  { cle: 'dureeRecolte', section: 'culture', libelle: 'Durée de récolte', unite: 'j', sens: 'max', lire: v => nombre(champ(v.infosCulture, 'dureeRecolte')) },
+  { cle: 'rendementMoyenKgM2', section: 'culture', libelle: 'Rendement annoncé', unite: 'kg/m²', sens: 'max', lire: v => nombre(champ(v.infosCulture, 'rendementMoyenKgM2')) },
+  { cle: 'espacementCm', section: 'culture', libelle: 'Espacement', unite: 'cm', sens: null, lire: v => nombre(champ(v.infosCulture, 'espacementCm')) },
+  { cle: 'hauteurMoyenneCm', section: 'culture', libelle: 'Hauteur', unite: 'cm', sens: null, lire: v => nombre(champ(v.infosCulture, 'hauteurMoyenneCm')) },
+  { cle: 'expositionSoleil', section: 'culture', libelle: 'Exposition', sens: null, lire: v => (champ(v.infosCulture, 'expositionSoleil') as string) ?? null },
+  { cle: 'besoinsEau', section: 'culture', libelle: 'Besoins en eau', sens: 'min', lire: v => (champ(v.infosCulture, 'besoinsEau') as string) ?? null },
+  { cle: 'temperatureMinSemis', section: 'culture', libelle: 'T° min. de semis', unite: '°C', sens: 'min', lire: v => nombre(champ(v.infosCulture, 'temperatureMinSemis')) },
+  { cle: 'resistanceFroid', section: 'culture', libelle: 'Résiste au froid', sens: 'max', lire: v => (champ(v.infosCulture, 'resistanceFroid') as boolean) ?? null },
+
+  { cle: 'moisSemis', section: 'calendrier', libelle: 'Semis', sens: null, lire: v => mois(champ(v.calendrierDefaut, 'moisSemis')) },
+  { cle: 'moisPlantation', section: 'calendrier', libelle: 'Plantation', sens: null, lire: v => mois(champ(v.calendrierDefaut, 'moisPlantation')) },
+  { cle: 'moisRecolte', section: 'calendrier', libelle: 'Récolte', sens: null, lire: v => mois(champ(v.calendrierDefaut, 'moisRecolte')) },
+
+  { cle: 'nombreCultivations', section: 'performance', libelle: 'Cultures menées', sens: 'max', lire: v => nombre(champ(v.performance, 'nombreCultivations')) },
+  { cle: 'tauxReussite', section: 'performance', libelle: 'Réussite', unite: '%', sens: 'max', lire: v => pourcentage(champ(v.performance, 'tauxReussite')) },
+  { cle: 'rendementPersonnelKgM2', section: 'performance', libelle: 'Mon rendement', unite: 'kg/m²', sens: 'max', lire: v => nombre(champ(v.performance, 'rendementMoyenKgM2')) },
+  { cle: 'joursAvantPremiereRecolte', section: 'performance', libelle: 'Ma 1re récolte', unite: 'j', sens: 'min', lire: v => nombre(champ(v.performance, 'joursAvantPremiereRecolte')) },
+  { cle: 'tauxGermination', section: 'performance', libelle: 'Ma germination', unite: '%', sens: 'max', lire: v => pourcentage(champ(v.performance, 'tauxGermination')) },
+  { cle: 'qualiteMoyenne', section: 'performance', libelle: 'Qualité', unite: '/5', sens: 'max', lire: v => nombre(champ(v.performance, 'qualiteMoyenne')) },
+  { cle: 'meilleureRecolte', section: 'performance', libelle: 'Meilleure récolte', unite: 'kg', sens: 'max', lire: v => nombre(champ(champ(v.performance, 'meilleureRecolte'), 'poids')) },
+
+  { cle: 'utilisateurs', section: 'communaute', libelle: 'Jardiniers', sens: 'max', lire: v => v.communaute.utilisateurs },
+  { cle: 'favoris', section: 'communaute', libelle: 'En favori', sens: 'max', lire: v => v.communaute.favoris },
+  { cle: 'noteMoyenne', section: 'communaute', libelle: 'Note moyenne', unite: '/5', sens: 'max', lire: v => v.communaute.noteMoyenne }
+]
+
+function pourcentage(valeur: unknown): number | null {
+  const taux = nombre(valeur)
+  return taux !== null ? Math.round(taux * 100) : null
+}
+
+function valeurOrdonnable(cle: string, valeur: ValeurComparee): number | null {
+  if (typeof valeur === 'number') return valeur
+  if (typeof valeur === 'boolean') return valeur ? 1 : 0
+  if (cle === 'besoinsEau' && typeof valeur === 'string') return RANG_BESOINS_EAU[valeur] ?? null
+  return null
+}
+
+/**
+ * Index des meilleures valeurs ; rien n'est mis en avant si moins de deux variétés
+ * sont renseignées ou si toutes sont à égalité
+ */
+function meilleursIndex(cle: string, valeurs: ValeurComparee[], sens: Sens): number[] {
+  if (!sens) return []
+
+  const ordonnables = valeurs
+    .map((valeur, index) => ({ index, rang: valeurOrdonnable(cle, valeur) }))
+    .filter((entree): entree is { index: number; rang: number } => entree.rang !== null)
+  if (ordonnables.length < 2) return []
+
+  const rangs = ordonnables.map(entree => entree.rang)
+  const meilleur = sens === 'max' ? Math.max(...rangs) : Math.min(...rangs)
+  if (rangs.every(rang => rang === meilleur)) return []
+
+  return ordonnables.filter(entree => entree.rang === meilleur).map(entree => entree.index)
+}
+
+export function comparerVarietes(varietes: VarietePourComparaison[]): LigneComparaison[] {
+  return CRITERES.flatMap(critere => {
+    const valeurs = varietes.map(critere.lire)
+    // Une ligne vide pour toutes les variétés n'apporte rien
+    if (valeurs.every(valeur => valeur === null)) return []
+
+    return [{
+      cle: critere.cle,
+      section: critere.section,
+      libelle: critere.libelle,
+      unite: critere.unite,
+      valeurs,
+      meilleurs: meilleursIndex(critere.cle, valeurs, critere.sens)
+    }]
+  })
+}
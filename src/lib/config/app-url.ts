@@ -0,0 +1,13 @@
+/**
+ * URL publique de l'application, pour les liens qui quittent la requête
+ * (emails de réinitialisation et de vérification, QR codes imprimés).
+ *
+ * Jamais déduite de l'en-tête Host, que le client contrôle : sans NEXTAUTH_URL
+ * valide, retourne null et l'appelant refuse de générer le lien.
+ */
+export function getAppBaseUrl(): string | null {
+  const url = process.env.NEXTAUTH_URL
+  if (!url || !URL.canParse(url)) return null
+
+  return url.replace(/\/+$/, '')
+}
@@ -0,0 +1,58 @@
+import { TypeProfil } from '@prisma/client'
+
+// Groupes de routes partageant un même quota
+export type GroupeRoute = 'auth' | 'sync' | 'collecte' | 'export' | 'api'
+
+export interface QuotaRateLimit {
+  limite: number // Requêtes autorisées sur la fenêtre glissante
+  fenetreSecondes: number
+}
+
+// Association préfixe d'URL → groupe (premier préfixe correspondant, 'api' par défaut)
+export const GROUPES_ROUTES: Array<{ prefixe: string; groupe: GroupeRoute }> = [
+  { prefixe: '/api/auth', groupe: 'auth' },
+  { prefixe: '/api/invitations', groupe: 'auth' },
+  { prefixe: '/api/ws/sync', groupe: 'sync' },
+  { prefixe: '/api/sync', groupe: 'sync' },
+  { prefixe: '/api/collection', groupe: 'collecte' },
+  { prefixe: '/api/audit', groupe: 'export' },
+  { prefixe: '/api/account/export', groupe: 'export' }
+]
+
+// Quotas des utilisateurs authentifiés, par profil
+export const QUOTAS_PROFIL: Record<TypeProfil, Record<GroupeRoute, QuotaRateLimit>> = {
+  EXPERT: {
+    auth: { limite: 20, fenetreSecondes: 60 },
+    sync: { limite: 600, fenetreSecondes: 60 },
+    collecte: { limite: 300, fenetreSecondes: 60 },
+    export: { limite: 30, fenetreSecondes: 60 },
+    api: { limite: 300, fenetreSecondes: 60 }
+  },
+  OCCASIONNEL: {
+    auth: { limite: 20, fenetreSecondes: 60 },
+    sync: { limite: 300, fenetreSecondes: 60 },
+    collecte: { limite: 120, fenetreSecondes: 60 },
+    export: { limite: 10, fenetreSecondes: 60 },
+    api: { limite: 100, fenetreSecondes: 60 }
+  },
+  READER: {
+    auth: { limite: 20, fenetreSecondes: 60 },
+    sync: { limite: 120, fenetreSecondes: 60 },
+    collecte: { limite: 60, fenetreSecondes: 60 },
+    export: { limite: 10, fenetreSecondes: 60 },
+    api: { limite: 100, fenetreSecondes: 60 }
+  }
+}
+
+// Quotas des appels anonymes, par adresse IP
+export const QUOTAS_PUBLIC: Record<GroupeRoute, QuotaRateLimit> = {
+  auth: { limite: 10, fenetreSecondes: 60 },
+  sync: { limite: 200, fenetreSecondes: 60 },
+  collecte: { limite: 200, fenetreSecondes: 60 },
+  export: { limite: 5, fenetreSecondes: 60 },
+  api: { limite: 200, fenetreSecondes: 60 }
+}
+
+export function getGroupeRoute(pathname: string): GroupeRoute {
+  return GROUPES_ROUTES.find(({ prefixe }) => pathname.startsWith(prefixe))?.groupe ?? 'api'
+}
@@ -0,0 +1,94 @@
+/**
+ * Utilitaires CSV (séparateur virgule, RFC 4180)
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined
+
+// Début de cellule qu'un tableur interprète comme une formule
+const DEBUT_FORMULE = /^[=+\-@\t\r]/
+
+/**
+ * Échappe une valeur : guillemets doublés, champ entre guillemets si nécessaire.
+ * Un texte commençant par = + - @ (ou tabulation, retour chariot) est préfixé
+ * d'une apostrophe pour qu'un tableur ne l'interprète pas comme une formule.
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'string' && DEBUT_FORMULE.test(value) ? `'${value}` : String(value)
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+
+  return text
+}
+
+/**
+ * Retire l'apostrophe ajoutée par escapeCsvValue devant un texte pris pour une formule,
+ * pour qu'un export relu à l'import redonne la valeur d'origine
+ */
+export function stripFormulaPrefix(value: string): string {
+  return value.startsWith("'") && DEBUT_FORMULE.test(value.slice(1)) ? value.slice(1) : value
+}
+
+/**
+ * Construit un document CSV à partir d'un en-tête et de lignes
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+}
+
+/**
+ * Découpe un document CSV en lignes de champs (guillemets, retours à la ligne
+ * dans les champs, fins de ligne CRLF ou LF). Les lignes vides sont ignorées.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  // Marque d'ordre d'octets des exports tableur
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(value => value !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  if (row.some(value => value !== '')) rows.push(row)
+
+  return rows
+}
@@ -0,0 +1,140 @@
+/**
+ * Cycle de vie d'une culture : transitions autorisées entre étapes et conditions
+ *
+ * Le cycle avance sans retour en arrière ; les étapes intermédiaires facultatives
+ * (germination, repiquage, floraison...) peuvent être sautées. Une culture peut
+ * être terminée à tout moment (récolte finie, abandon, gel...).
+ */
+
+import { EtapeCycleVie, InstanceCulture, TypeAppareil } from '@prisma/client'
+
+export const TRANSITIONS_CYCLE: Record<EtapeCycleVie, EtapeCycleVie[]> = {
+  // Vers CROISSANCE / REPIQUE : plants achetés ou vivace reconduite, sans semis
+  [EtapeCycleVie.PLANIFIE]: [EtapeCycleVie.SEME, EtapeCycleVie.REPIQUE, EtapeCycleVie.CROISSANCE, EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.SEME]: [EtapeCycleVie.GERME, EtapeCycleVie.REPIQUE, EtapeCycleVie.CROISSANCE, EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.GERME]: [EtapeCycleVie.REPIQUE, EtapeCycleVie.CROISSANCE, EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.REPIQUE]: [EtapeCycleVie.CROISSANCE, EtapeCycleVie.FLORAISON, EtapeCycleVie.TERMINE],
+  // Légumes feuilles et racines : récoltés sans floraison
+  [EtapeCycleVie.CROISSANCE]: [EtapeCycleVie.FLORAISON, EtapeCycleVie.FRUCTIFICATION, EtapeCycleVie.RECOLTE, EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.FLORAISON]: [EtapeCycleVie.FRUCTIFICATION, EtapeCycleVie.RECOLTE, EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.FRUCTIFICATION]: [EtapeCycleVie.RECOLTE, EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.RECOLTE]: [EtapeCycleVie.TERMINE],
+  [EtapeCycleVie.TERMINE]: []
+}
+
+export interface EtatCycleCulture {
+  etapeCycleVie: EtapeCycleVie
+  nombreRecoltes: number
+  derniereTransitionA: Date | null // Date de l'étape en cours, si elle est connue
+}
+
+export interface RefusTransition {
+  raison: 'transition_interdite' | 'aucune_recolte' | 'date_future' | 'date_anterieure'
+  message: string
+}
+
+export interface EntreeChronologie {
+  etapeDepart: EtapeCycleVie | null
+  etapeArrivee: EtapeCycleVie
+  dateEtape: Date
+  acteur: { id: string; name: string | null } | null
+  typeAppareil: TypeAppareil | null
+  commentaire: string | null
+  deduite: boolean // Reconstituée depuis les dates de la culture (antérieure à l'historique)
+}
+
+/**
+ * Raison pour laquelle la transition est refusée, ou null si elle est permise
+ */
+export function verifierTransition(
+  etat: EtatCycleCulture,
+  vers: EtapeCycleVie,
+  dateEtape: Date,
+  maintenant: Date = new Date()
+): RefusTransition | null {
+  if (!TRANSITIONS_CYCLE[etat.etapeCycleVie].includes(vers)) {
+    return {
+      raison: 'transition_interdite',
+      message: `Passage de ${etat.etapeCycleVie} à ${vers} non autorisé`
+    }
+  }
+
+  if (dateEtape > maintenant) {
+    return { raison: 'date_future', message: 'Une étape ne peut être datée dans le futur' }
+  }
+
+  if (etat.derniereTransitionA && dateEtape < etat.derniereTransitionA) {
+    return { raison: 'date_anterieure', message: `L'étape ne peut précéder l'étape ${etat.etapeCycleVie}` }
+  }
+
+  if (vers === EtapeCycleVie.RECOLTE && etat.nombreRecoltes === 0) {
+    return { raison: 'aucune_recolte', message: 'Enregistrez une première récolte avant de passer en RECOLTE' }
+  }
+
+  return null
+}
+
+/**
+ * Étapes accessibles depuis l'étape en cours, avec le refus éventuel à la date donnée
+ */
+export function etapesSuivantes(
+  etat: EtatCycleCulture,
+  maintenant: Date = new Date()
+): Array<{ etape: EtapeCycleVie; refus: RefusTransition | null }> {
+  return TRANSITIONS_CYCLE[etat.etapeCycleVie].map(etape => ({
+    etape,
+    refus: verifierTransition(etat, etape, maintenant, maintenant)
+  }))
+}
+
+/**
+ * Champs de la culture renseignés par l'arrivée dans une étape
+ */
+export function donneesEtape(
+  vers: EtapeCycleVie,
+  dateEtape: Date
+): Partial<Pick<InstanceCulture, 'dateSemisReelle' | 'dateRepiquageReelle' | 'datePremiereRecolte' | 'dateFinCycle' | 'estActive'>> {
+  switch (vers) {
+    case EtapeCycleVie.SEME:
+      return { dateSemisReelle: dateEtape }
+    case EtapeCycleVie.REPIQUE:
+      return { dateRepiquageReelle: dateEtape }
+    case EtapeCycleVie.RECOLTE:
+      return { datePremiereRecolte: dateEtape }
+    case EtapeCycleVie.TERMINE:
+      return { dateFinCycle: dateEtape, estActive: false }
+    default:
+      return {}
+  }
+}
+
+/**
+ * Chronologie reconstituée depuis les dates d'une culture sans historique de transitions
+ */
+export function chronologieDeduite(
+  culture: Pick<InstanceCulture, 'creeA' | 'etapeCycleVie' | 'dateSemisReelle' | 'dateRepiquageReelle' | 'datePremiereRecolte' | 'dateFinCycle'>
+): EntreeChronologie[] {
+  const jalons: Array<[EtapeCycleVie, Date | null]> = [
+    [EtapeCycleVie.PLANIFIE, culture.creeA],
+    [EtapeCycleVie.SEME, culture.dateSemisReelle],
+    [EtapeCycleVie.REPIQUE, culture.dateRepiquageReelle],
+    [EtapeCycleVie.RECOLTE, culture.datePremiereRecolte],
+    [EtapeCycleVie.TERMINE, culture.dateFinCycle]
+  ]
+  const connus = jalons.filter((jalon): jalon is [EtapeCycleVie, Date] => jalon[1] !== null)
+
+  // L'étape en cours n'a pas toujours de date propre (GERME, CROISSANCE...)
+  if (!connus.some(([etape]) => etape === culture.etapeCycleVie)) {
+    connus.push([culture.etapeCycleVie, connus[connus.length - 1][1]])
+  }
+
+  return connus.map(([etape, date], index) => ({
+    etapeDepart: index > 0 ? connus[index - 1][0] : null,
+    etapeArrivee: etape,
+    dateEtape: date,
+    acteur: null,
+    typeAppareil: null,
+    commentaire: null,
+    deduite: true
+  }))
+}
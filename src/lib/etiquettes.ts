@@ -0,0 +1,182 @@
+/**
+ * Planches d'étiquettes à QR code pour les cultures (rangs, bacs, plaques de semis)
+ *
+ * Chaque étiquette porte le QR du code lot (lien de scan /q/<code>), la variété,
+ * la culture et la date de semis. Les formats reprennent les planches du commerce ;
+ * un décalage permet de reprendre une planche déjà entamée.
+ */
+
+import QRCode from 'qrcode'
+import { construirePdf, PagePdf } from './pdf'
+import { FORMATS_ETIQUETTES, FormatEtiquettes, ModeleEtiquettes } from './formats-etiquettes'
+
+export interface EtiquetteCulture {
+  code: string // codeLot
+  lien: string // URL encodée dans le QR
+  variete: string
+  culture: string
+  dateSemis: Date | null
+  semisPrevu: boolean // Date prévue, pas encore réalisée
+}
+
+export interface OptionsPlanche {
+  exemplaires?: number // Étiquettes par culture (plusieurs plaques ou rangs)
+  decalage?: number // Cases déjà utilisées en tête de la première planche
+}
+
+// Éléments à dessiner, en mm depuis le coin haut gauche de la planche
+export interface ElementsPlanche {
+  modules: Array<{ x: number; y: number; largeur: number; hauteur: number }>
+  textes: Array<{ x: number; y: number; taille: number; texte: string; police: 'normale' | 'grasse' }>
+}
+
+const MARGE_INTERIEURE_MM = 2
+// Marge blanche autour du QR exigée par les lecteurs, en modules
+const ZONE_CALME = 4
+const POINT_MM = 25.4 / 72
+// Largeur moyenne d'un caractère Helvetica, en fraction du corps
+const CHASSE_MOYENNE = 0.55
+
+/**
+ * Modules noirs d'un QR code, regroupés par segments horizontaux
+ */
+function segmentsQr(texte: string): { taille: number; segments: Array<[number, number, number]> } {
+  const { modules } = QRCode.create(texte, { errorCorrectionLevel: 'M' })
+  const segments: Array<[number, number, number]> = [] // Ligne, colonne de départ, longueur
+
+  for (let ligne = 0; ligne < modules.size; ligne++) {
+    let debut = -1
+    for (let colonne = 0; colonne <= modules.size; colonne++) {
+      const noir = colonne < modules.size && modules.get(ligne, colonne)
+      if (noir && debut < 0) debut = colonne
+      if (!noir && debut >= 0) {
+        segments.push([ligne, debut, colonne - debut])
+        debut = -1
+      }
+    }
+  }
+
+  return { taille: modules.size, segments }
+}
+
+function tronquer(texte: string, largeurMm: number, tailleTexte: number): string {
+  const maximum = Math.floor(largeurMm / (tailleTexte * POINT_MM * CHASSE_MOYENNE))
+  return texte.length <= maximum ? texte : `${texte.slice(0, Math.max(1, maximum - 1))}…`
+}
+
+function elementsEtiquette(etiquette: EtiquetteCulture, format: FormatEtiquettes, x: number, y: number): ElementsPlanche {
+  const [largeur, hauteur] = format.etiquetteMm
+  const cote = Math.min(hauteur, largeur * 0.45) - 2 * MARGE_INTERIEURE_MM // QR et sa zone calme
+  const { taille, segments } = segmentsQr(etiquette.lien)
+  const pas = cote / (taille + 2 * ZONE_CALME)
+
+  const xQr = x + MARGE_INTERIEURE_MM
+  const yQr = y + (hauteur - cote) / 2
+  const modules = segments.map(([ligne, colonne, longueur]) => ({
+    x: xQr + (ZONE_CALME + colonne) * pas,
+    y: yQr + (ZONE_CALME + ligne) * pas,
+    largeur: longueur * pas,
+    hauteur: pas
+  }))
+
+  // Texte à droite du QR, corps proportionné à la hauteur de l'étiquette
+  const xTexte = xQr + cote + MARGE_INTERIEURE_MM
+  const largeurTexte = x + largeur - MARGE_INTERIEURE_MM - xTexte
+  const corps = Math.max(5, Math.min(10, hauteur / 4))
+  const interligne = corps * POINT_MM * 1.3
+  const date = etiquette.dateSemis
+    ? `${etiquette.semisPrevu ? 'Semis prévu' : 'Semé le'} ${etiquette.dateSemis.toLocaleDateString('fr-FR')}`
+    : null
+
+  const lignes: Array<{ texte: string; taille: number; police: 'normale' | 'grasse' }> = [
+    { texte: etiquette.variete, taille: corps, police: 'grasse' },
+    { texte: etiquette.culture, taille: corps * 0.85, police: 'normale' },
+    ...(date ? [{ texte: date, taille: corps * 0.85, police: 'normale' as const }] : []),
+    { texte: etiquette.code, taille: corps * 0.7, police: 'normale' }
+  ]
+
+  // Lignes de base successives ; celles qui dépassent du bas de l'étiquette sont omises
+  const premiereLigne = y + MARGE_INTERIEURE_MM + corps * POINT_MM
+  const textes = lignes
+    .map((ligne, index) => ({
+      x: xTexte,
+      y: premiereLigne + index * interligne,
+      taille: ligne.taille,
+      texte: tronquer(ligne.texte, largeurTexte, ligne.taille),
+      police: ligne.police
+    }))
+    .filter(texte => texte.y <= y + hauteur - MARGE_INTERIEURE_MM)
+
+  return { modules, textes }
+}
+
+/**
+ * Répartit les étiquettes sur des planches ; chaque planche liste ses éléments à dessiner
+ */
+export function composerPlanches(
+  modele: ModeleEtiquettes,
+  etiquettes: EtiquetteCulture[],
+  options: OptionsPlanche = {}
+): ElementsPlanche[] {
+  const format: FormatEtiquettes = FORMATS_ETIQUETTES[modele]
+  const parPlanche = format.colonnes * format.lignes
+  const decalage = Math.min(Math.max(options.decalage ?? 0, 0), parPlanche - 1)
+  const copies = etiquettes.flatMap(etiquette => Array.from({ length: options.exemplaires ?? 1 }, () => etiquette))
+
+  const planches: ElementsPlanche[] = []
+  copies.forEach((etiquette, index) => {
+    const caseGlobale = index + decalage
+    const numeroPlanche = Math.floor(caseGlobale / parPlanche)
+    const caseLocale = caseGlobale % parPlanche
+    const x = format.margesMm[0] + (caseLocale % format.colonnes) * format.pasMm[0]
+    const y = format.margesMm[1] + Math.floor(caseLocale / format.colonnes) * format.pasMm[1]
+
+    planches[numeroPlanche] ??= { modules: [], textes: [] }
+    const elements = elementsEtiquette(etiquette, format, x, y)
+    planches[numeroPlanche].modules.push(...elements.modules)
+    planches[numeroPlanche].textes.push(...elements.textes)
+  })
+
+  return planches
+}
+
+const echapperXml = (texte: string) =>
+  texte.replace(/[<>&"]/g, caractere => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[caractere]!)
+
+/**
+ * Une planche en SVG, aux dimensions réelles du papier (à imprimer à 100 %)
+ */
+export function plancheSvg(modele: ModeleEtiquettes, planche: ElementsPlanche): string {
+  const [largeur, hauteur] = FORMATS_ETIQUETTES[modele].pageMm
+  const arrondi = (valeur: number) => Math.round(valeur * 1000) / 1000
+  const chemin = planche.modules
+    .map(module => `M${arrondi(module.x)} ${arrondi(module.y)}h${arrondi(module.largeur)}v${arrondi(module.hauteur)}h${arrondi(-module.largeur)}z`)
+    .join('')
+  const textes = planche.textes.map(texte =>
+    `<text x="${arrondi(texte.x)}" y="${arrondi(texte.y)}" font-size="${arrondi(texte.taille * POINT_MM)}"` +
+    `${texte.police === 'grasse' ? ' font-weight="bold"' : ''}>${echapperXml(texte.texte)}</text>`
+  )
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${largeur}mm" height="${hauteur}mm" viewBox="0 0 ${largeur} ${hauteur}">`,
+    `<path d="${chemin}" fill="#000"/>`,
+    `<g font-family="Helvetica, Arial, sans-serif" fill="#000">`,
+    ...textes,
+    '</g>',
+    '</svg>'
+  ].join('\n')
+}
+
+/**
+ * Toutes les planches dans un PDF, une page par planche
+ */
+export function planchesPdf(modele: ModeleEtiquettes, planches: ElementsPlanche[]): Buffer {
+  const [largeurMm, hauteurMm] = FORMATS_ETIQUETTES[modele].pageMm
+  const pages: PagePdf[] = planches.map(planche => ({
+    largeurMm,
+    hauteurMm,
+    rectangles: planche.modules,
+    textes: planche.textes
+  }))
+  return construirePdf(pages)
+}
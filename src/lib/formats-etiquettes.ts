@@ -0,0 +1,42 @@
+/**
+ * Formats de planches d'étiquettes du commerce (dimensions en mm)
+ *
+ * Séparés du rendu (etiquettes) pour être proposés côté client sans charger le générateur.
+ */
+
+export interface FormatEtiquettes {
+  libelle: string
+  pageMm: [number, number] // Largeur, hauteur
+  colonnes: number
+  lignes: number
+  etiquetteMm: [number, number]
+  margesMm: [number, number] // Gauche, haut
+  pasMm: [number, number] // D'une étiquette à la suivante, horizontalement et verticalement
+}
+
+export const FORMATS_ETIQUETTES = {
+  'avery-l7160': {
+    libelle: 'A4 · 21 étiquettes 63,5 × 38,1 mm (Avery L7160)',
+    pageMm: [210, 297], colonnes: 3, lignes: 7, etiquetteMm: [63.5, 38.1], margesMm: [7.25, 15.15], pasMm: [66.04, 38.1]
+  },
+  'avery-l7163': {
+    libelle: 'A4 · 14 étiquettes 99,1 × 38,1 mm (Avery L7163)',
+    pageMm: [210, 297], colonnes: 2, lignes: 7, etiquetteMm: [99.1, 38.1], margesMm: [4.65, 15.15], pasMm: [101.6, 38.1]
+  },
+  'avery-l7651': {
+    libelle: 'A4 · 65 étiquettes 38,1 × 21,2 mm (Avery L7651)',
+    pageMm: [210, 297], colonnes: 5, lignes: 13, etiquetteMm: [38.1, 21.2], margesMm: [4.75, 10.7], pasMm: [40.64, 21.2]
+  },
+  'a4-3x8': {
+    libelle: 'A4 · 24 étiquettes 70 × 37 mm, sans marge',
+    pageMm: [210, 297], colonnes: 3, lignes: 8, etiquetteMm: [70, 37], margesMm: [0, 0.5], pasMm: [70, 37]
+  },
+  'letter-5160': {
+    libelle: 'US Letter · 30 étiquettes 66,7 × 25,4 mm (Avery 5160)',
+    pageMm: [215.9, 279.4], colonnes: 3, lignes: 10, etiquetteMm: [66.7, 25.4], margesMm: [4.76, 12.7], pasMm: [69.85, 25.4]
+  }
+} satisfies Record<string, FormatEtiquettes>
+
+export type ModeleEtiquettes = keyof typeof FORMATS_ETIQUETTES
+
+export const MODELES_ETIQUETTES = Object.keys(FORMATS_ETIQUETTES) as [ModeleEtiquettes, ...ModeleEtiquettes[]]
@@ -0,0 +1,139 @@
+/**
+ * Conversion GeoJSON (RFC 7946) des zones d'un jardin
+ *
+ * Le plan est en mètres dans le repère local du jardin (x vers l'est, y vers le sud).
+ * En WGS84, l'origine du plan est placée sur la localisation du jardin et les
+ * distances sont converties par projection équirectangulaire, largement assez
+ * précise à l'échelle d'un jardin. En repère local, les positions sont les
+ * coordonnées du plan (à associer à un SCR local dans le SIG).
+ */
+
+import { AccesEau, ExpositionSoleil, TypeZone } from '@prisma/client'
+import { z } from 'zod'
+import { Point } from './geometry'
+
+export type Position = [number, number]
+
+export type RepereGeoJson = 'wgs84' | 'local'
+
+export interface ReferenceGeographique {
+  latitude: number
+  longitude: number
+}
+
+export interface FeatureZone {
+  type: 'Feature'
+  id: string
+  geometry: { type: 'Polygon'; coordinates: Position[][] }
+  properties: Record<string, unknown>
+}
+
+export interface FeatureCollectionJardin {
+  type: 'FeatureCollection'
+  bbox?: [number, number, number, number]
+  jardin: Record<string, unknown> // Membre étranger : le jardin exporté
+  features: FeatureZone[]
+}
+
+// Mètres par degré de latitude (sphère de rayon moyen)
+const METRES_PAR_DEGRE = 111_320
+// ~1 mm dans les deux repères, pour que les allers-retours ne déplacent pas les zones
+const DECIMALES_WGS84 = 8
+const DECIMALES_LOCAL = 3
+
+const arrondir = (valeur: number, decimales: number) => Math.round(valeur * 10 ** decimales) / 10 ** decimales
+
+/**
+ * Localisation du jardin utilisable comme point de référence, ou null
+ */
+export function readReference(localisation: unknown): ReferenceGeographique | null {
+  const resultat = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180)
+  }).safeParse(localisation)
+  return resultat.success ? resultat.data : null
+}
+
+export function localToPosition(point: Point, reference: ReferenceGeographique | null): Position {
+  if (!reference) return [arrondir(point[0], DECIMALES_LOCAL), arrondir(point[1], DECIMALES_LOCAL)]
+
+  const metresParDegreLongitude = METRES_PAR_DEGRE * Math.cos(reference.latitude * Math.PI / 180)
+  return [
+    arrondir(reference.longitude + point[0] / metresParDegreLongitude, DECIMALES_WGS84),
+    arrondir(reference.latitude - point[1] / METRES_PAR_DEGRE, DECIMALES_WGS84)
+  ]
+}
+
+export function positionToLocal(position: Position, reference: ReferenceGeographique | null): Point {
+  if (!reference) return [arrondir(position[0], DECIMALES_LOCAL), arrondir(position[1], DECIMALES_LOCAL)]
+
+  const metresParDegreLongitude = METRES_PAR_DEGRE * Math.cos(reference.latitude * Math.PI / 180)
+  return [
+    arrondir((position[0] - reference.longitude) * metresParDegreLongitude, DECIMALES_LOCAL),
+    arrondir((reference.latitude - position[1]) * METRES_PAR_DEGRE, DECIMALES_LOCAL)
+  ]
+}
+
+/**
+ * Anneau extérieur fermé et orienté dans le sens antihoraire (règle de la main droite)
+ */
+export function toRing(contour: Point[], reference: ReferenceGeographique | null): Position[] {
+  let anneau = contour.map(point => localToPosition(point, reference))
+
+  // En repère local, y est orienté vers le sud : l'orientation se lit dans le repère géographique
+  const aire = anneau.reduce((somme, [x1, y1], i) => {
+    const [x2, y2] = anneau[(i + 1) % anneau.length]
+    return somme + (x1 * y2 - x2 * y1)
+  }, 0)
+  const antihoraire = reference ? aire > 0 : aire < 0
+  if (!antihoraire) anneau = anneau.reverse()
+
+  return [...anneau, anneau[0]]
+}
+
+export function boundingBoxOf(positions: Position[]): [number, number, number, number] | undefined {
+  if (positions.length === 0) return undefined
+  const xs = positions.map(([x]) => x)
+  const ys = positions.map(([, y]) => y)
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+const positionSchema = z.tuple([z.number().finite(), z.number().finite()]).rest(z.number().finite())
+  .transform(([x, y]) => [x, y] as Position)
+
+const anneauSchema = z.array(positionSchema).min(4, 'Un anneau a au moins 4 positions')
+
+// Un MultiPolygon n'est accepté que s'il contient un seul polygone (export courant des SIG)
+const geometrieImportSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(anneauSchema).min(1) }),
+  z.object({
+    type: z.literal('MultiPolygon'),
+    coordinates: z.array(z.array(anneauSchema).min(1)).length(1, 'Un seul polygone par zone')
+  })
+]).transform(geometrie => geometrie.type === 'Polygon' ? geometrie.coordinates : geometrie.coordinates[0])
+  .refine(anneaux => anneaux.length === 1, 'Les zones trouées ne sont pas prises en charge')
+  .transform(anneaux => anneaux[0])
+
+/**
+ * Propriétés reconnues à l'import ; les autres (cultures, surface...) sont ignorées
+ */
+const proprietesImportSchema = z.object({
+  id: z.string().optional(),
+  nom: z.string().trim().min(1).max(100, 'Nom trop long').optional(),
+  typeZone: z.nativeEnum(TypeZone).optional(),
+  expositionSoleil: z.nativeEnum(ExpositionSoleil).optional(),
+  accesEau: z.nativeEnum(AccesEau).optional(),
+  qualiteSol: z.number().int().min(1).max(5, 'Qualité sol entre 1 et 5').optional()
+})
+
+export const featureImportSchema = z.object({
+  type: z.literal('Feature'),
+  id: z.union([z.string(), z.number()]).optional(),
+  geometry: geometrieImportSchema,
+  properties: proprietesImportSchema.nullable().transform(proprietes => proprietes ?? {})
+})
+
+export const featureCollectionImportSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(z.unknown()).min(1, 'Aucune zone à importer').max(500, 'Trop de zones (500 max)')
+})
@@ -0,0 +1,333 @@
+/**
+ * Géométrie des zones sur le plan du jardin
+ *
+ * Les coordonnées sont en mètres dans le repère local du jardin (x vers l'est,
+ * y vers le sud, origine au coin du plan), ce qui permet un calcul direct des
+ * surfaces. La surface est toujours calculée côté serveur, jamais saisie.
+ */
+
+import { z } from 'zod'
+
+export type Point = [number, number]
+
+// Tolérance numérique pour les tests d'alignement
+const EPSILON = 1e-9
+// Deux zones à moins d'un micromètre l'une de l'autre sont considérées comme accolées
+const TOLERANCE_CONTACT_M = 1e-6
+const COORDONNEE_MAX_M = 10000
+const SURFACE_MIN_M2 = 0.01
+
+const pointSchema = z.tuple([
+  z.number().finite().min(-COORDONNEE_MAX_M).max(COORDONNEE_MAX_M),
+  z.number().finite().min(-COORDONNEE_MAX_M).max(COORDONNEE_MAX_M)
+])
+
+const rectangleSchema = z.object({
+  type: z.literal('rectangle'),
+  origine: pointSchema, // Coin de référence du rectangle avant rotation
+  largeurM: z.number().positive('Largeur doit être positive').max(COORDONNEE_MAX_M),
+  longueurM: z.number().positive('Longueur doit être positive').max(COORDONNEE_MAX_M),
+  rotationDeg: z.number().min(-360).max(360).default(0)
+})
+
+const polygoneSchema = z.object({
+  type: z.literal('polygone'),
+  coordonnees: z.array(pointSchema)
+    .min(3, 'Un polygone a au moins 3 sommets')
+    .max(200, 'Polygone trop complexe (200 sommets max)')
+    .transform(fermerAnneau)
+    .refine(points => points.length >= 3, 'Un polygone a au moins 3 sommets distincts')
+    .refine(isSimplePolygon, 'Les côtés du polygone ne doivent pas se croiser')
+    .refine(points => polygonArea(points) >= SURFACE_MIN_M2, 'Surface trop petite')
+})
+
+/**
+ * Géométrie saisie (éditeur, API) : rectangle ou polygone, sans surface
+ */
+export const geometrieZoneSchema = z.discriminatedUnion('type', [rectangleSchema, polygoneSchema])
+
+export type GeometrieZoneInput = z.input<typeof geometrieZoneSchema>
+
+/**
+ * Géométrie stockée dans Zone.geometrie : la saisie normalisée, le contour
+ * en polygone (aussi pour les rectangles) et la surface calculée
+ */
+export type GeometrieZone = z.output<typeof geometrieZoneSchema> & {
+  coordonnees: Point[]
+  surfaceM2: number
+}
+
+/**
+ * Normalise une géométrie validée et calcule son contour et sa surface
+ */
+export function buildZoneGeometry(input: GeometrieZoneInput): GeometrieZone {
+  const geometrie = geometrieZoneSchema.parse(input)
+  const coordonnees = geometrie.type === 'rectangle'
+    ? rectangleToPolygon(geometrie.origine, geometrie.largeurM, geometrie.longueurM, geometrie.rotationDeg)
+    : geometrie.coordonnees
+
+  const contour = coordonnees.map(([x, y]) => [arrondir(x, 3), arrondir(y, 3)] as Point)
+
+  return {
+    ...geometrie,
+    coordonnees: contour,
+    surfaceM2: arrondir(polygonArea(contour), 2)
+  }
+}
+
+/**
+ * Contour d'une géométrie stockée, ou null pour les anciennes zones sans contour
+ * (ex. `{type: 'rectangle', coordonnees: [x, y]}` sans dimensions)
+ */
+export function readZonePolygon(geometrie: unknown): Point[] | null {
+  const coordonnees = (geometrie as { coordonnees?: unknown } | null)?.coordonnees
+  if (!Array.isArray(coordonnees) || coordonnees.length < 3) return null
+
+  const points = coordonnees.filter((point): point is Point =>
+    Array.isArray(point) && point.length === 2 && point.every(Number.isFinite)
+  )
+
+  return points.length >= 3 ? points : null
+}
+
+/**
+ * Surface d'une géométrie stockée : surfaceM2 calculée, à défaut celle du contour
+ */
+export function readZoneArea(geometrie: unknown): number | null {
+  const surface = (geometrie as { surfaceM2?: unknown } | null)?.surfaceM2
+  if (typeof surface === 'number' && surface > 0) return surface
+
+  const polygone = readZonePolygon(geometrie)
+  return polygone ? polygonArea(polygone) : null
+}
+
+export function rectangleToPolygon(origine: Point, largeurM: number, longueurM: number, rotationDeg = 0): Point[] {
+  const angle = (rotationDeg * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const [ox, oy] = origine
+
+  return ([[0, 0], [largeurM, 0], [largeurM, longueurM], [0, longueurM]] as Point[]).map(([dx, dy]) => [
+    ox + dx * cos - dy * sin,
+    oy + dx * sin + dy * cos
+  ])
+}
+
+/**
+ * Surface d'un polygone simple (formule du lacet)
+ */
+export function polygonArea(points: Point[]): number {
+  return Math.abs(signedArea(points))
+}
+
+/**
+ * Vrai si aucun côté ne croise un côté non adjacent
+ */
+export function isSimplePolygon(points: Point[]): boolean {
+  const n = points.length
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      // Côtés adjacents : partagent un sommet
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue
+      if (segmentsIntersect(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n], true)) {
+        return false
+      }
+    }
+  }
+  return true
+}
+
+/**
+ * Vrai si les intérieurs des deux polygones se chevauchent.
+ * Deux zones qui partagent seulement un côté ou un sommet (bacs accolés) ne se chevauchent pas.
+ */
+export function polygonsOverlap(a: Point[], b: Point[]): boolean {
+  if (!boundingBoxesOverlap(a, b)) return false
+
+  // Les polygones peuvent être concaves : on compare leurs triangulations deux à deux
+  const trianglesB = triangulate(b)
+  return triangulate(a).some(triangleA =>
+    trianglesB.some(triangleB => convexInteriorsOverlap(triangleA, triangleB))
+  )
+}
+
+/**
+ * Plus courte distance entre les contours de deux polygones, nulle s'ils se touchent.
+ * Les zones ne se chevauchent pas : une zone incluse dans une autre n'est pas prévue.
+ */
+export function polygonDistance(a: Point[], b: Point[]): number {
+  let minimum = Infinity
+
+  for (let i = 0; i < a.length; i++) {
+    const a1 = a[i]
+    const a2 = a[(i + 1) % a.length]
+    for (let j = 0; j < b.length; j++) {
+      const b1 = b[j]
+      const b2 = b[(j + 1) % b.length]
+      if (segmentsIntersect(a1, a2, b1, b2, true)) return 0
+
+      minimum = Math.min(
+        minimum,
+        pointSegmentDistance(a1, b1, b2),
+        pointSegmentDistance(a2, b1, b2),
+        pointSegmentDistance(b1, a1, a2),
+        pointSegmentDistance(b2, a1, a2)
+      )
+    }
+  }
+
+  return minimum
+}
+
+/**
+ * Triangulation d'un polygone simple par découpage d'oreilles
+ */
+export function triangulate(points: Point[]): Point[][] {
+  const sommets = signedArea(points) < 0 ? [...points].reverse() : [...points]
+  const indices = sommets.map((_, index) => index)
+  const triangles: Point[][] = []
+
+  while (indices.length > 3) {
+    const n = indices.length
+    const oreille = indices.findIndex((_, i) => {
+      const a = sommets[indices[(i - 1 + n) % n]]
+      const b = sommets[indices[i]]
+      const c = sommets[indices[(i + 1) % n]]
+      if (orientation(a, b, c) <= 0) return false
+
+      return !indices.some((k, j) =>
+        j !== i && j !== (i - 1 + n) % n && j !== (i + 1) % n && pointInTriangle(sommets[k], a, b, c)
+      )
+    })
+
+    if (oreille === -1) {
+      // Sommets alignés restants : on les retire, sinon le polygone n'est pas simple
+      const aligne = indices.findIndex((_, i) =>
+        orientation(sommets[indices[(i - 1 + n) % n]], sommets[indices[i]], sommets[indices[(i + 1) % n]]) === 0
+      )
+      if (aligne === -1) break
+      indices.splice(aligne, 1)
+      continue
+    }
+
+    triangles.push([
+      sommets[indices[(oreille - 1 + n) % n]],
+      sommets[indices[oreille]],
+      sommets[indices[(oreille + 1) % n]]
+    ])
+    indices.splice(oreille, 1)
+  }
+
+  if (indices.length === 3) {
+    triangles.push(indices.map(index => sommets[index]))
+  }
+
+  return triangles.filter(triangle => polygonArea(triangle) > EPSILON)
+}
+
+function signedArea(points: Point[]): number {
+  let somme = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % points.length]
+    somme += x1 * y2 - x2 * y1
+  }
+  return somme / 2
+}
+
+function pointInTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+  return orientation(a, b, p) >= 0 && orientation(b, c, p) >= 0 && orientation(c, a, p) >= 0
+}
+
+/**
+ * Théorème de l'axe séparateur : des projections qui se touchent seulement ne comptent pas
+ */
+function convexInteriorsOverlap(a: Point[], b: Point[]): boolean {
+  for (const polygone of [a, b]) {
+    for (let i = 0; i < polygone.length; i++) {
+      const [x1, y1] = polygone[i]
+      const [x2, y2] = polygone[(i + 1) % polygone.length]
+      const norme = Math.hypot(x2 - x1, y2 - y1)
+      if (norme < EPSILON) continue
+
+      const axe: Point = [-(y2 - y1) / norme, (x2 - x1) / norme]
+      const [minA, maxA] = projeter(a, axe)
+      const [minB, maxB] = projeter(b, axe)
+
+      if (maxA <= minB + TOLERANCE_CONTACT_M || maxB <= minA + TOLERANCE_CONTACT_M) return false
+    }
+  }
+  return true
+}
+
+function projeter(points: Point[], axe: Point): [number, number] {
+  const projections = points.map(([x, y]) => x * axe[0] + y * axe[1])
+  return [Math.min(...projections), Math.max(...projections)]
+}
+
+function orientation(a: Point, b: Point, c: Point): number {
+  const valeur = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])
+  return Math.abs(valeur) < EPSILON ? 0 : Math.sign(valeur)
+}
+
+function onSegment(p: Point, a: Point, b: Point): boolean {
+  return orientation(a, b, p) === 0 &&
+    Math.min(a[0], b[0]) - EPSILON <= p[0] && p[0] <= Math.max(a[0], b[0]) + EPSILON &&
+    Math.min(a[1], b[1]) - EPSILON <= p[1] && p[1] <= Math.max(a[1], b[1]) + EPSILON
+}
+
+/**
+ * Intersection de segments ; `inclureContacts` compte aussi les contacts et recouvrements colinéaires
+ */
+function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point, inclureContacts: boolean): boolean {
+  const o1 = orientation(p1, p2, q1)
+  const o2 = orientation(p1, p2, q2)
+  const o3 = orientation(q1, q2, p1)
+  const o4 = orientation(q1, q2, p2)
+
+  if (o1 * o2 < 0 && o3 * o4 < 0) return true
+  if (!inclureContacts) return false
+
+  return (o1 === 0 && onSegment(q1, p1, p2)) ||
+    (o2 === 0 && onSegment(q2, p1, p2)) ||
+    (o3 === 0 && onSegment(p1, q1, q2)) ||
+    (o4 === 0 && onSegment(p2, q1, q2))
+}
+
+function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+  const [dx, dy] = [b[0] - a[0], b[1] - a[1]]
+  const longueur2 = dx * dx + dy * dy
+  const t = longueur2 < EPSILON ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / longueur2))
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy))
+}
+
+function boundingBoxesOverlap(a: Point[], b: Point[]): boolean {
+  const [minAx, minAy, maxAx, maxAy] = boundingBox(a)
+  const [minBx, minBy, maxBx, maxBy] = boundingBox(b)
+  return minAx < maxBx && minBx < maxAx && minAy < maxBy && minBy < maxAy
+}
+
+export function boundingBox(points: Point[]): [number, number, number, number] {
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+// Retire le point de fermeture et les sommets consécutifs identiques
+function fermerAnneau(points: Point[]): Point[] {
+  const distincts = points.filter((point, index) => index === 0 || !memePoint(point, points[index - 1]))
+
+  while (distincts.length > 1 && memePoint(distincts[0], distincts[distincts.length - 1])) {
+    distincts.pop()
+  }
+  return distincts
+}
+
+function memePoint(a: Point, b: Point): boolean {
+  return Math.abs(a[0] - b[0]) < EPSILON && Math.abs(a[1] - b[1]) < EPSILON
+}
+
+function arrondir(valeur: number, decimales: number): number {
+  const facteur = 10 ** decimales
+  return Math.round(valeur * facteur) / facteur
+}
@@ -0,0 +1,81 @@
+/**
+ * File de tâches "compte" : exports de données et suppressions différées
+ *
+ * Les routes API se contentent d'ajouter des tâches ; le worker tourne dans un
+ * processus dédié (npm run worker) et planifie la maintenance quotidienne.
+ */
+
+import { Job, Queue, Worker } from 'bullmq'
+import { AccountDataService } from '../services/account-data.service'
+import { ArchiveService } from '../services/archive.service'
+
+const QUEUE_COMPTE = 'compte'
+// Chaque nuit à 3h : suppressions échues, exports expirés et jardins/zones archivés hors rétention
+const PLANIFICATION_MAINTENANCE = '0 3 * * *'
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+}
+
+let queue: Queue | null = null
+
+function getAccountQueue(): Queue {
+  if (!queue) {
+    queue = new Queue(QUEUE_COMPTE, { connection: redisConnection })
+  }
+  return queue
+}
+
+/**
+ * Planifie la construction de l'archive d'un export
+ */
+export async function enqueueDataExport(exportId: string): Promise<void> {
+  await getAccountQueue().add('export', { exportId }, {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 30000 },
+    removeOnComplete: true,
+    removeOnFail: 100
+  })
+}
+
+/**
+ * Démarre le worker et enregistre la maintenance planifiée
+ */
+export async function startAccountWorker(): Promise<Worker> {
+  const service = new AccountDataService()
+  const archiveService = new ArchiveService()
+
+  const worker = new Worker(QUEUE_COMPTE, async (job: Job) => {
+    switch (job.name) {
+      case 'export':
+        await service.buildExport(job.data.exportId)
+        break
+
+      case 'maintenance': {
+        const comptesSupprimes = await service.purgeDueDeletions()
+        const exportsPurges = await service.purgeExpiredExports()
+        const archivesPurgees = await archiveService.purgeExpiredArchives()
+        console.log(`Maintenance comptes : ${comptesSupprimes} compte(s) supprimé(s), ${exportsPurges} export(s) purgé(s)`)
+        console.log(`Maintenance archives : ${archivesPurgees.jardins} jardin(s) et ${archivesPurgees.zones} zone(s) purgé(s)`)
+        break
+      }
+
+      default:
+        console.warn(`Tâche inconnue dans la file ${QUEUE_COMPTE}: ${job.name}`)
+    }
+  }, { connection: redisConnection })
+
+  worker.on('failed', (job, err) => {
+    console.error(`Tâche ${job?.name} (${job?.id}) en échec:`, err)
+  })
+
+  await getAccountQueue().upsertJobScheduler(
+    'maintenance-comptes',
+    { pattern: PLANIFICATION_MAINTENANCE },
+    { name: 'maintenance' }
+  )
+
+  return worker
+}
@@ -0,0 +1,93 @@
+/**
+ * File de tâches "performance" : recalcul de la performance personnelle des variétés
+ *
+ * Les récoltes et clôtures de culture planifient un recalcul de la variété concernée,
+ * différé de quelques secondes : une série de récoltes saisies d'affilée n'en déclenche qu'un.
+ */
+
+import { Job, Queue, Worker } from 'bullmq'
+import { CacheService } from '../cache/cache.service'
+import { PerformanceAggregationService } from '../services/performance-aggregation.service'
+
+const QUEUE_PERFORMANCE = 'performance'
+const DELAI_RECALCUL_MS = 30000
+
+const redisConnection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+  password: process.env.REDIS_PASSWORD,
+}
+
+let queue: Queue | null = null
+
+function getPerformanceQueue(): Queue {
+  if (!queue) {
+    queue = new Queue(QUEUE_PERFORMANCE, { connection: redisConnection })
+  }
+  return queue
+}
+
+/**
+ * Planifie le recalcul d'une variété personnelle. Tant que le recalcul attend son délai,
+ * une nouvelle demande le remplace et repousse l'échéance ; une fois le calcul lancé
+ * (ou en échec), la demande suivante planifie un nouveau recalcul
+ */
+export async function enqueuePerformanceRecompute(varieteId: string): Promise<void> {
+  await getPerformanceQueue().add('variete', { varieteId }, {
+    deduplication: { id: `variete-${varieteId}`, ttl: DELAI_RECALCUL_MS, extend: true, replace: true },
+    delay: DELAI_RECALCUL_MS,
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 30000 },
+    removeOnComplete: true,
+    removeOnFail: true
+  })
+}
+
+/**
+ * Variante tolérante pour les écritures métier : une file indisponible ne doit pas
+ * faire échouer la saisie d'une récolte (le recalcul suivant rattrapera l'écart)
+ */
+export async function requestPerformanceRecompute(varieteId: string): Promise<void> {
+  try {
+    await enqueuePerformanceRecompute(varieteId)
+  } catch (error) {
+    console.error('Erreur lors de la planification du recalcul de performance:', error)
+  }
+}
+
+/**
+ * Démarre le worker de recalcul
+ */
+export async function startPerformanceWorker(): Promise<Worker> {
+  const service = new PerformanceAggregationService()
+  // Mêmes clés que les routes variétés : contexte utilisateur, recommandations, recherches et favoris
+  const cache = new CacheService({
+    host: redisConnection.host,
+    port: redisConnection.port,
+    password: redisConnection.password,
+    keyPrefix: 'bas-malin:varieties:'
+  })
+
+  const worker = new Worker(QUEUE_PERFORMANCE, async (job: Job) => {
+    switch (job.name) {
+      case 'variete': {
+        const resultat = await service.recomputeVariety(job.data.varieteId)
+        if (resultat) {
+          await cache.delete(`user_context:${resultat.utilisateurId}`)
+          await cache.delete(`recommendations:${resultat.utilisateurId}`)
+          await cache.invalidatePattern(`*userId:${resultat.utilisateurId}*`)
+        }
+        break
+      }
+
+      default:
+        console.warn(`Tâche inconnue dans la file ${QUEUE_PERFORMANCE}: ${job.name}`)
+    }
+  }, { connection: redisConnection })
+
+  worker.on('failed', (job, err) => {
+    console.error(`Tâche ${job?.name} (${job?.id}) en échec:`, err)
+  })
+
+  return worker
+}
@@ -0,0 +1,373 @@
+/**
+ * Modèles d'aménagement de jardin
+ *
+ * Chaque modèle prédéfini décrit ses paramètres (pour le formulaire) et génère
+ * les zones correspondantes sur le plan local du jardin, en mètres.
+ */
+
+import { z } from 'zod'
+import { AccesEau, ExpositionSoleil, TypeZone } from '@prisma/client'
+import { buildZoneGeometry, GeometrieZoneInput, geometrieZoneSchema, Point, polygonsOverlap } from './geometry'
+
+export const zoneModeleSchema = z.object({
+  nom: z.string().min(1).max(100),
+  typeZone: z.nativeEnum(TypeZone),
+  geometrie: geometrieZoneSchema,
+  expositionSoleil: z.nativeEnum(ExpositionSoleil),
+  accesEau: z.nativeEnum(AccesEau),
+  qualiteSol: z.number().int().min(1).max(5)
+})
+
+export type ZoneModele = z.input<typeof zoneModeleSchema>
+
+/**
+ * Réglages appliqués à toutes les zones générées, à la place des valeurs du modèle
+ */
+export const reglagesZonesSchema = z.object({
+  expositionSoleil: z.nativeEnum(ExpositionSoleil).optional(),
+  accesEau: z.nativeEnum(AccesEau).optional(),
+  qualiteSol: z.number().int().min(1).max(5).optional()
+})
+
+export type ReglagesZones = z.infer<typeof reglagesZonesSchema>
+
+export interface ParametreModele {
+  cle: string
+  libelle: string
+  unite?: string
+  defaut: number
+  min: number
+  max: number
+  pas: number
+}
+
+export interface ModeleAmenagementPredefini {
+  id: string
+  nom: string
+  description: string
+  parametres: ParametreModele[]
+  generer: (parametres: Record<string, number>) => ZoneModele[]
+}
+
+export interface ApercuAmenagement {
+  zones: Array<ZoneModele & { coordonnees: Point[]; surfaceM2: number }>
+  surfaceCultivableM2: number
+  emprise: { largeurM: number; longueurM: number }
+  chevauchements: Array<[string, string]>
+}
+
+// Valeurs communes aux zones générées quand le modèle n'en impose pas d'autres
+const ZONE_PAR_DEFAUT = {
+  expositionSoleil: ExpositionSoleil.PLEIN_SOLEIL,
+  accesEau: AccesEau.FACILE,
+  qualiteSol: 3
+}
+
+// Rectangle non tourné de coin (x, y), d'étendue `etendueX` vers l'est et `etendueY` vers le sud
+function rectangle(x: number, y: number, etendueX: number, etendueY: number): GeometrieZoneInput {
+  return { type: 'rectangle', origine: [x, y], largeurM: etendueX, longueurM: etendueY }
+}
+
+/**
+ * Bacs disposés en grille, séparés par des allées
+ */
+const bacsSureleves: ModeleAmenagementPredefini = {
+  id: 'bacs-sureleves',
+  nom: 'Bacs surélevés',
+  description: 'Bacs rectangulaires en grille, séparés par des allées.',
+  parametres: [
+    { cle: 'nombreBacs', libelle: 'Nombre de bacs', defaut: 4, min: 1, max: 40, pas: 1 },
+    { cle: 'parRangee', libelle: 'Bacs par rangée', defaut: 2, min: 1, max: 10, pas: 1 },
+    { cle: 'longueurM', libelle: 'Longueur', unite: 'm', defaut: 2, min: 0.5, max: 10, pas: 0.1 },
+    { cle: 'largeurM', libelle: 'Largeur', unite: 'm', defaut: 1.2, min: 0.3, max: 3, pas: 0.1 },
+    { cle: 'alleeM', libelle: 'Allée', unite: 'm', defaut: 0.6, min: 0.2, max: 3, pas: 0.1 }
+  ],
+  generer: ({ nombreBacs, parRangee, longueurM, largeurM, alleeM }) =>
+    Array.from({ length: nombreBacs }, (_, index) => ({
+      ...ZONE_PAR_DEFAUT,
+      nom: `Bac ${index + 1}`,
+      typeZone: TypeZone.BAC,
+      qualiteSol: 4,
+      geometrie: rectangle(
+        (index % parRangee) * (longueurM + alleeM),
+        Math.floor(index / parRangee) * (largeurM + alleeM),
+        longueurM,
+        largeurM
+      )
+    }))
+}
+
+/**
+ * Planches de culture en rangs parallèles
+ */
+const rangs: ModeleAmenagementPredefini = {
+  id: 'rangs',
+  nom: 'Potager en rangs',
+  description: 'Planches parallèles en pleine terre, séparées par des passe-pieds.',
+  parametres: [
+    { cle: 'nombreRangs', libelle: 'Nombre de rangs', defaut: 6, min: 1, max: 50, pas: 1 },
+    { cle: 'longueurM', libelle: 'Longueur des rangs', unite: 'm', defaut: 8, min: 1, max: 100, pas: 0.5 },
+    { cle: 'largeurM', libelle: 'Largeur des planches', unite: 'm', defaut: 0.8, min: 0.3, max: 2, pas: 0.1 },
+    { cle: 'passePiedM', libelle: 'Passe-pied', unite: 'm', defaut: 0.4, min: 0.2, max: 2, pas: 0.1 }
+  ],
+  generer: ({ nombreRangs, longueurM, largeurM, passePiedM }) =>
+    Array.from({ length: nombreRangs }, (_, index) => ({
+      ...ZONE_PAR_DEFAUT,
+      nom: `Rang ${index + 1}`,
+      typeZone: TypeZone.PARCELLE,
+      accesEau: AccesEau.MOYEN,
+      geometrie: rectangle(0, index * (largeurM + passePiedM), longueurM, largeurM)
+    }))
+}
+
+/**
+ * Contour d'un jardin en trou de serrure : disque percé d'un passage
+ * jusqu'au panier de compost central, ouvert vers le sud
+ */
+function contourTrouDeSerrure(centre: Point, rayonM: number, rayonCompostM: number, passageM: number): Point[] {
+  const segments = 32
+  const angleExterieur = Math.asin(passageM / 2 / rayonM)
+  const angleInterieur = Math.asin(passageM / 2 / rayonCompostM)
+  const point = (rayon: number, angle: number): Point => [
+    centre[0] + rayon * Math.sin(angle),
+    centre[1] + rayon * Math.cos(angle)
+  ]
+
+  const exterieur = Array.from({ length: segments + 1 }, (_, i) =>
+    point(rayonM, angleExterieur + (i / segments) * (2 * Math.PI - 2 * angleExterieur))
+  )
+  const interieur = Array.from({ length: segments / 2 + 1 }, (_, i) =>
+    point(rayonCompostM, 2 * Math.PI - angleInterieur - (i / (segments / 2)) * (2 * Math.PI - 2 * angleInterieur))
+  )
+
+  return [...exterieur, ...interieur]
+}
+
+const trouDeSerrure: ModeleAmenagementPredefini = {
+  id: 'trou-de-serrure',
+  nom: 'Trou de serrure',
+  description: 'Massifs circulaires avec compost central accessible par un passage.',
+  parametres: [
+    { cle: 'nombre', libelle: 'Nombre de massifs', defaut: 1, min: 1, max: 6, pas: 1 },
+    { cle: 'diametreM', libelle: 'Diamètre', unite: 'm', defaut: 2, min: 1.5, max: 4, pas: 0.1 },
+    { cle: 'diametreCompostM', libelle: 'Diamètre du compost', unite: 'm', defaut: 0.6, min: 0.4, max: 1, pas: 0.1 },
+    { cle: 'passageM', libelle: 'Largeur du passage', unite: 'm', defaut: 0.4, min: 0.3, max: 0.8, pas: 0.05 },
+    { cle: 'espacementM', libelle: 'Espacement', unite: 'm', defaut: 1, min: 0.3, max: 5, pas: 0.1 }
+  ],
+  generer: ({ nombre, diametreM, diametreCompostM, passageM, espacementM }) => {
+    const rayonM = diametreM / 2
+    // Le passage ne peut pas être plus large que le panier de compost
+    const passage = Math.min(passageM, diametreCompostM * 0.9)
+
+    return Array.from({ length: nombre }, (_, index) => ({
+      ...ZONE_PAR_DEFAUT,
+      nom: `Trou de serrure ${index + 1}`,
+      typeZone: TypeZone.ZONE_LIBRE,
+      qualiteSol: 5,
+      geometrie: {
+        type: 'polygone' as const,
+        coordonnees: contourTrouDeSerrure(
+          [rayonM + index * (diametreM + espacementM), rayonM],
+          rayonM,
+          diametreCompostM / 2,
+          passage
+        )
+      }
+    }))
+  }
+}
+
+/**
+ * Serre au nord, rangée de bacs devant
+ */
+const serreEtBacs: ModeleAmenagementPredefini = {
+  id: 'serre-et-bacs',
+  nom: 'Serre et bacs',
+  description: 'Une serre et une rangée de bacs extérieurs devant elle.',
+  parametres: [
+    { cle: 'longueurSerreM', libelle: 'Longueur de la serre', unite: 'm', defaut: 4, min: 1, max: 30, pas: 0.5 },
+    { cle: 'largeurSerreM', libelle: 'Largeur de la serre', unite: 'm', defaut: 2.5, min: 1, max: 12, pas: 0.5 },
+    { cle: 'nombreBacs', libelle: 'Nombre de bacs', defaut: 3, min: 0, max: 20, pas: 1 },
+    { cle: 'longueurBacM', libelle: 'Longueur des bacs', unite: 'm', defaut: 1.2, min: 0.5, max: 10, pas: 0.1 },
+    { cle: 'largeurBacM', libelle: 'Largeur des bacs', unite: 'm', defaut: 1, min: 0.3, max: 3, pas: 0.1 },
+    { cle: 'alleeM', libelle: 'Allée', unite: 'm', defaut: 0.8, min: 0.2, max: 3, pas: 0.1 }
+  ],
+  generer: ({ longueurSerreM, largeurSerreM, nombreBacs, longueurBacM, largeurBacM, alleeM }) => [
+    {
+      ...ZONE_PAR_DEFAUT,
+      nom: 'Serre',
+      typeZone: TypeZone.SERRE,
+      qualiteSol: 4,
+      geometrie: rectangle(0, 0, longueurSerreM, largeurSerreM)
+    },
+    ...Array.from({ length: nombreBacs }, (_, index) => ({
+      ...ZONE_PAR_DEFAUT,
+      nom: `Bac ${index + 1}`,
+      typeZone: TypeZone.BAC,
+      qualiteSol: 4,
+      geometrie: rectangle(index * (longueurBacM + alleeM), largeurSerreM + alleeM, longueurBacM, largeurBacM)
+    }))
+  ]
+}
+
+/**
+ * Arbres fruitiers en grille régulière
+ */
+const verger: ModeleAmenagementPredefini = {
+  id: 'verger',
+  nom: 'Verger',
+  description: 'Arbres fruitiers en grille, chaque arbre occupant un carré autour du tronc.',
+  parametres: [
+    { cle: 'rangees', libelle: 'Rangées', defaut: 3, min: 1, max: 20, pas: 1 },
+    { cle: 'arbresParRangee', libelle: 'Arbres par rangée', defaut: 4, min: 1, max: 20, pas: 1 },
+    { cle: 'espacementM', libelle: 'Espacement entre arbres', unite: 'm', defaut: 5, min: 1, max: 15, pas: 0.5 },
+    { cle: 'coteM', libelle: 'Emprise de chaque arbre', unite: 'm', defaut: 3, min: 0.5, max: 10, pas: 0.5 }
+  ],
+  generer: ({ rangees, arbresParRangee, espacementM, coteM }) => {
+    // L'emprise d'un arbre ne peut pas dépasser l'espacement
+    const cote = Math.min(coteM, espacementM)
+    const marge = (espacementM - cote) / 2
+
+    return Array.from({ length: rangees * arbresParRangee }, (_, index) => {
+      const rangee = Math.floor(index / arbresParRangee)
+      const colonne = index % arbresParRangee
+      return {
+        ...ZONE_PAR_DEFAUT,
+        nom: `Arbre ${String.fromCharCode(65 + (rangee % 26))}${colonne + 1}`,
+        typeZone: TypeZone.ARBRE,
+        accesEau: AccesEau.MOYEN,
+        geometrie: rectangle(colonne * espacementM + marge, rangee * espacementM + marge, cote, cote)
+      }
+    })
+  }
+}
+
+export const MODELES_PREDEFINIS: ModeleAmenagementPredefini[] = [
+  bacsSureleves,
+  rangs,
+  trouDeSerrure,
+  serreEtBacs,
+  verger
+]
+
+export function findModelePredefini(modeleId: string): ModeleAmenagementPredefini | undefined {
+  return MODELES_PREDEFINIS.find(modele => modele.id === modeleId)
+}
+
+/**
+ * Valide les paramètres d'un modèle prédéfini et complète les valeurs par défaut
+ */
+export function parseParametres(
+  modele: ModeleAmenagementPredefini,
+  parametres: Record<string, unknown> = {}
+): Record<string, number> {
+  const schema = z.object(Object.fromEntries(modele.parametres.map(parametre => {
+    let champ = z.coerce.number().min(parametre.min).max(parametre.max)
+    if (Number.isInteger(parametre.pas)) champ = champ.int()
+    return [parametre.cle, champ.default(parametre.defaut)]
+  })))
+
+  return schema.parse(parametres)
+}
+
+/**
+ * Zones de l'ancienne configuration « structure » : un bac par contenant
+ */
+export function zonesFromStructure(
+  contenants: Array<{ longueur_m: number; largeur_m: number; position: { x: number; y: number } }>
+): ZoneModele[] {
+  return contenants.map((contenant, index) => ({
+    nom: `Bac ${index + 1}`,
+    typeZone: TypeZone.BAC,
+    geometrie: rectangle(contenant.position.x, contenant.position.y, contenant.largeur_m, contenant.longueur_m),
+    expositionSoleil: ExpositionSoleil.PLEIN_SOLEIL,
+    accesEau: AccesEau.FACILE,
+    qualiteSol: 4
+  }))
+}
+
+export function applyReglages(zones: ZoneModele[], reglages: ReglagesZones = {}): ZoneModele[] {
+  return zones.map(zone => ({
+    ...zone,
+    expositionSoleil: reglages.expositionSoleil ?? zone.expositionSoleil,
+    accesEau: reglages.accesEau ?? zone.accesEau,
+    qualiteSol: reglages.qualiteSol ?? zone.qualiteSol
+  }))
+}
+
+/**
+ * Calcule contours et surfaces et signale les zones du modèle qui se chevauchent
+ */
+export function buildApercu(zones: ZoneModele[]): ApercuAmenagement {
+  const zonesCalculees = zones.map(zone => {
+    const { coordonnees, surfaceM2 } = buildZoneGeometry(zone.geometrie)
+    return { ...zone, coordonnees, surfaceM2 }
+  })
+
+  const chevauchements: Array<[string, string]> = []
+  zonesCalculees.forEach((zone, i) => {
+    zonesCalculees.slice(i + 1).forEach(autre => {
+      if (polygonsOverlap(zone.coordonnees, autre.coordonnees)) {
+        chevauchements.push([zone.nom, autre.nom])
+      }
+    })
+  })
+
+  const points = zonesCalculees.flatMap(zone => zone.coordonnees)
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+
+  return {
+    zones: zonesCalculees,
+    surfaceCultivableM2: Math.round(zonesCalculees.reduce((total, zone) => total + zone.surfaceM2, 0) * 100) / 100,
+    emprise: {
+      largeurM: points.length ? Math.max(...xs) - Math.min(0, ...xs) : 0,
+      longueurM: points.length ? Math.max(...ys) - Math.min(0, ...ys) : 0
+    },
+    chevauchements
+  }
+}
+
+/**
+ * Ramène un ensemble de géométries à l'origine du plan (coin nord-ouest en 0,0)
+ */
+export function translateToOrigin(geometries: GeometrieZoneInput[], contours: Point[][]): GeometrieZoneInput[] {
+  const points = contours.flat()
+  if (points.length === 0) return geometries
+
+  const dx = Math.min(...points.map(([x]) => x))
+  const dy = Math.min(...points.map(([, y]) => y))
+  const deplacer = ([x, y]: Point): Point => [x - dx, y - dy]
+
+  return geometries.map(geometrie => geometrie.type === 'rectangle'
+    ? { ...geometrie, origine: deplacer(geometrie.origine) }
+    : { ...geometrie, coordonnees: geometrie.coordonnees.map(deplacer) }
+  )
+}
+
+/**
+ * Configuration d'aménagement à la création d'un jardin : ancienne structure
+ * à contenants, ou modèle (prédéfini ou personnel) avec ses paramètres
+ */
+export const configAmenagementSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('structure'),
+    contenants: z.array(z.object({
+      id: z.string(),
+      longueur_m: z.number().positive(),
+      largeur_m: z.number().positive(),
+      position: z.object({
+        x: z.number(),
+        y: z.number()
+      })
+    }))
+  }),
+  z.object({
+    type: z.literal('modele'),
+    modeleId: z.string().min(1, 'Modèle requis'),
+    parametres: z.record(z.string(), z.number()).default({}),
+    reglages: reglagesZonesSchema.default({})
+  })
+])
+
+export type ConfigAmenagement = z.infer<typeof configAmenagementSchema>
@@ -0,0 +1,148 @@
+/**
+ * Lignée des graines d'une variété : lots de graines et cultures qui en sont issues
+ *
+ * Un lot acheté est de génération 0. Une culture appartient à la génération du lot
+ * semé ; les graines qu'on y récolte forment un lot de la génération suivante.
+ * Une culture sans lot connu (plants achetés, semis non décompté) démarre à 0.
+ */
+
+export interface LotPourLignee {
+  id: string
+  cultureOrigineId: string | null
+  generation: number
+  numeroLot: string | null
+  fournisseur: string | null
+  anneeProduction: number | null
+  quantiteInitiale: number
+  quantiteRestante: number
+}
+
+export interface CulturePourLignee {
+  id: string
+  lotParentId: string | null // Lot source, sinon celui dont la culture a prélevé le plus de graines
+  nom: string
+  codeLot: string | null
+  anneeSaison: number
+  poidsTotalKg: number
+  rendementKgM2: number | null
+  qualiteMoyenne: number | null
+  goutMoyen: number | null
+}
+
+export interface NoeudLot extends LotPourLignee {
+  type: 'lot'
+  cultures: NoeudCulture[]
+}
+
+export interface NoeudCulture extends CulturePourLignee {
+  type: 'culture'
+  generation: number
+  lots: NoeudLot[]
+}
+
+export interface ResumeGeneration {
+  generation: number
+  cultures: number
+  annees: number[]
+  poidsMoyenKg: number
+  rendementMoyenKgM2: number | null
+  qualiteMoyenne: number | null
+  goutMoyen: number | null
+}
+
+export interface Lignee {
+  racines: Array<NoeudLot | NoeudCulture> // Lots achetés et cultures d'origine inconnue
+  generations: ResumeGeneration[]
+  // Écart entre la dernière et la première génération renseignées : la sélection paie-t-elle ?
+  evolution: { rendementKgM2: number | null; qualite: number | null; gout: number | null }
+}
+
+const arrondir = (valeur: number, decimales = 2) => Math.round(valeur * 10 ** decimales) / 10 ** decimales
+
+const moyenne = (valeurs: Array<number | null>): number | null => {
+  const renseignees = valeurs.filter((valeur): valeur is number => valeur !== null)
+  return renseignees.length > 0
+    ? arrondir(renseignees.reduce((somme, valeur) => somme + valeur, 0) / renseignees.length)
+    : null
+}
+
+function ecart(generations: ResumeGeneration[], mesure: (resume: ResumeGeneration) => number | null): number | null {
+  const valeurs = generations.map(mesure).filter((valeur): valeur is number => valeur !== null)
+  return valeurs.length >= 2 ? arrondir(valeurs[valeurs.length - 1] - valeurs[0]) : null
+}
+
+export function construireLignee(lots: LotPourLignee[], cultures: CulturePourLignee[]): Lignee {
+  const lotsParId = new Map(lots.map(lot => [lot.id, lot]))
+  const culturesParId = new Map(cultures.map(culture => [culture.id, culture]))
+  // Un nœud n'apparaît qu'une fois, même si des liens incohérents forment une boucle
+  const visites = new Set<string>()
+
+  const noeudLot = (lot: LotPourLignee): NoeudLot => {
+    visites.add(lot.id)
+    return {
+      ...lot,
+      type: 'lot',
+      cultures: cultures
+        .filter(culture => culture.lotParentId === lot.id && !visites.has(culture.id))
+        .sort((a, b) => a.anneeSaison - b.anneeSaison)
+        .map(culture => noeudCulture(culture, lot.generation))
+    }
+  }
+
+  const noeudCulture = (culture: CulturePourLignee, generation: number): NoeudCulture => {
+    visites.add(culture.id)
+    return {
+      ...culture,
+      type: 'culture',
+      generation,
+      lots: lots
+        .filter(lot => lot.cultureOrigineId === culture.id && !visites.has(lot.id))
+        .map(noeudLot)
+    }
+  }
+
+  const racines: Array<NoeudLot | NoeudCulture> = [
+    ...lots
+      .filter(lot => !lot.cultureOrigineId || !culturesParId.has(lot.cultureOrigineId))
+      .sort((a, b) => a.generation - b.generation || (a.anneeProduction ?? 0) - (b.anneeProduction ?? 0))
+      .map(noeudLot),
+    ...cultures
+      .filter(culture => !culture.lotParentId || !lotsParId.has(culture.lotParentId))
+      .sort((a, b) => a.anneeSaison - b.anneeSaison)
+      .map(culture => noeudCulture(culture, 0))
+  ]
+
+  // Génération de chaque culture rattachée à l'arbre
+  const parGeneration = new Map<number, CulturePourLignee[]>()
+  const parcourir = (noeud: NoeudLot | NoeudCulture) => {
+    if (noeud.type === 'culture') {
+      parGeneration.set(noeud.generation, [...(parGeneration.get(noeud.generation) ?? []), noeud])
+      noeud.lots.forEach(parcourir)
+    } else {
+      noeud.cultures.forEach(parcourir)
+    }
+  }
+  racines.forEach(parcourir)
+
+  const generations = [...parGeneration.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([generation, culturesGeneration]) => ({
+      generation,
+      cultures: culturesGeneration.length,
+      annees: [...new Set(culturesGeneration.map(culture => culture.anneeSaison))].sort((a, b) => a - b),
+      poidsMoyenKg: moyenne(culturesGeneration.map(culture => culture.poidsTotalKg)) ?? 0,
+      rendementMoyenKgM2: moyenne(culturesGeneration.map(culture => culture.rendementKgM2)),
+      qualiteMoyenne: moyenne(culturesGeneration.map(culture => culture.qualiteMoyenne)),
+      goutMoyen: moyenne(culturesGeneration.map(culture => culture.goutMoyen))
+    }))
+
+  return {
+    racines,
+    generations,
+    evolution: {
+      rendementKgM2: ecart(generations, resume => resume.rendementMoyenKgM2),
+      qualite: ecart(generations, resume => resume.qualiteMoyenne),
+      gout: ecart(generations, resume => resume.goutMoyen)
+    }
+  }
+}
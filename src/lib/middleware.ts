@@ -1,31 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getToken } from 'next-auth/jwt';
-import { Permission } from '@/types/auth';
-import { checkPermission, logActivity, canAccessPage } from './security';
-import { TypeRessource } from '@prisma/client';
+import { Permission, RequestIdentity, API_TOKEN_PREFIX } from '@/types/auth';
+import { checkPermission, logActivity, canAccessPage, authenticateApiToken, detectTypeAppareil, isTwoFactorEnrolmentRequired } from './security';
+import { TypeProfil, TypeRessource } from '@prisma/client';
+import { getDataService } from './config/database';
+import { SessionService } from './services/session.service';
+import { getGroupeRoute, GroupeRoute, QUOTAS_PROFIL, QUOTAS_PUBLIC, QuotaRateLimit } from './config/rate-limit';
 
-// Rate limiting simple en mémoire (pour dev - Redis en prod)
-const rateLimit = new Map<string, { count: number; resetTime: number }>();
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Secondes avant la fin de la fenêtre courante
+}
 
-export async function protectedRoute(
+/**
+ * Résout l'identité de l'appelant : token personnel (Authorization: Bearer bm_pat_...)
+ * ou, à défaut, session NextAuth
+ */
+export async function getRequestIdentity(req: NextRequest): Promise<RequestIdentity | null> {
+  const authorization = req.headers.get('authorization');
+
+  if (authorization?.startsWith(`Bearer ${API_TOKEN_PREFIX}`)) {
+    return authenticateApiToken(authorization.slice('Bearer '.length).trim());
+  }
+
+  const token = await getToken({ req });
+  // Une connexion OAuth dont le second facteur reste à saisir n'authentifie pas encore
+  if (!token?.sub || token.deuxFacteursEnAttente) {
+    return null;
+  }
+
+  // Session révoquée depuis "mes appareils" ou expirée : le JWT seul ne suffit pas
+  if (token.sessionToken && !(await new SessionService().isSessionValid(token.sessionToken))) {
+    return null;
+  }
+
+  return {
+    userId: token.sub,
+    typeProfil: token.typeProfil
+  };
+}
+
+export type ProtectedRouteResult =
+  | { identity: RequestIdentity; response?: undefined }
+  | { response: NextResponse };
+
+/**
+ * Authentifie (session ou token personnel) et autorise une requête API.
+ * Retourne l'identité de l'appelant, ou la réponse d'erreur à renvoyer telle quelle.
+ */
+export async function authorizeRequest(
   req: NextRequest,
   requiredPermission?: Permission,
-  resource?: TypeRessource
-) {
+  resource?: TypeRessource,
+  jardinId?: string
+): Promise<ProtectedRouteResult> {
+  const response = (body: Record<string, unknown>, status: number) => ({ response: NextResponse.json(body, { status }) });
+
   try {
     // 1. Vérification de l'authentification
-    const token = await getToken({ req });
-    if (!token) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const identity = await getRequestIdentity(req);
+    if (!identity) {
+      return response({ error: "Unauthorized" }, 401);
     }
 
-    const userId = token.sub!;
-    const typeProfil = token.typeProfil!;
+    const { userId, typeProfil, apiToken } = identity;
 
-    // 2. Vérification d'accès à la page
+    // 2. Vérification d'accès : scopes pour un token personnel, pages pour une session
+    // (les routes /api relèvent des seules permissions)
     const pathname = req.nextUrl.pathname;
-    if (!canAccessPage(typeProfil, pathname)) {
-      return NextResponse.json({ error: "Forbidden - Page access denied" }, { status: 403 });
+    if (apiToken) {
+      if (!resource || !apiToken.scopes.includes(resource)) {
+        return response({
+          error: `Forbidden - API token scope ${resource ?? 'unknown'} required`
+        }, 403);
+      }
+    } else if (!pathname.startsWith('/api/') && !canAccessPage(typeProfil, pathname)) {
+      return response({ error: "Forbidden - Page access denied" }, 403);
     }
 
     // 3. Vérification des permissions spécifiques
@@ -34,24 +86,30 @@ export async function protectedRoute(
         userId,
         typeProfil,
         resource,
-        requiredPermission
+        requiredPermission,
+        jardinId
       );
       
       if (!hasPermission) {
-        return NextResponse.json({ 
-          error: `Forbidden - ${requiredPermission} permission required for ${resource}` 
-        }, { status: 403 });
+        return response({
+          error: `Forbidden - ${requiredPermission} permission required for ${resource}`
+        }, 403);
       }
     }
 
-    // 4. Rate limiting : 100 req/min par utilisateur
-    const rateLimitResult = await checkRateLimit(userId);
+    // 3b. Les actions ADMIN exigent une 2FA activée
+    if (requiredPermission === Permission.ADMIN && await isTwoFactorEnrolmentRequired(userId, typeProfil, jardinId)) {
+      return response({
+        error: "Forbidden - Two-factor enrolment required"
+      }, 403);
+    }
+
+    // 4. Rate limiting par profil et groupe de routes
+    const rateLimitResult = await checkRateLimit(userId, getGroupeRoute(req.nextUrl.pathname), typeProfil);
     if (!rateLimitResult.success) {
-      return NextResponse.json({ 
-        error: "Rate limit exceeded", 
-        resetTime: rateLimitResult.resetTime 
-      }, { status: 429 });
+      return { response: rateLimitExceeded(rateLimitResult) };
     }
+    rateLimitsRequetes.set(req, rateLimitResult);
 
     // 5. Log d'audit pour actions critiques
     if (req.method !== 'GET') {
@@ -59,51 +117,129 @@ export async function protectedRoute(
         userId,
         action: `${req.method} ${req.nextUrl.pathname}`,
         timestamp: new Date(),
+        typeEntite: resource,
+        typeAppareil: detectTypeAppareil(req.headers.get('user-agent')),
         metadata: {
           userAgent: req.headers.get('user-agent'),
           ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown',
           resource,
-          permission: requiredPermission
+          permission: requiredPermission,
+          jardinId,
+          apiTokenId: apiToken?.id
         }
       });
     }
 
-    return null; // Continue with the request
+    return { identity };
   } catch (error) {
     console.error('Middleware error:', error);
-    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    return response({ error: "Internal server error" }, 500);
   }
 }
 
-async function checkRateLimit(userId: string): Promise<{ 
-  success: boolean; 
-  resetTime?: number 
-}> {
+export async function protectedRoute(
+  req: NextRequest,
+  requiredPermission?: Permission,
+  resource?: TypeRessource,
+  jardinId?: string
+) {
+  const result = await authorizeRequest(req, requiredPermission, resource, jardinId);
+  return result.response ?? null; // null : continuer la requête
+}
+
+/**
+ * Fenêtre glissante approchée sur Redis : compteur de la fenêtre courante
+ * + compteur de la précédente pondéré par sa part encore couverte.
+ * Partagé entre instances et conservé entre déploiements.
+ */
+async function slidingWindowLimit(key: string, quota: QuotaRateLimit): Promise<RateLimitResult> {
+  const fenetreMs = quota.fenetreSecondes * 1000;
   const now = Date.now();
-  const windowMs = 60 * 1000; // 1 minute
-  const maxRequests = 100;
+  const fenetreCourante = Math.floor(now / fenetreMs);
+  const ecouleRatio = (now % fenetreMs) / fenetreMs;
+  const resetSeconds = Math.ceil((fenetreMs - (now % fenetreMs)) / 1000);
 
-  const userLimit = rateLimit.get(userId);
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    // Nouvelle fenêtre ou premier appel
-    rateLimit.set(userId, {
-      count: 1,
-      resetTime: now + windowMs
-    });
-    return { success: true };
-  }
+  try {
+    const cache = getDataService().cache;
+    const cleCourante = `ratelimit:${key}:${fenetreCourante}`;
+
+    const [compteCourant, comptePrecedent] = await Promise.all([
+      cache.increment(cleCourante),
+      cache.get<number>(`ratelimit:${key}:${fenetreCourante - 1}`)
+    ]);
+
+    // La clé doit survivre à la fenêtre suivante, qui la lit comme précédente
+    if (compteCourant === 1) {
+      await cache.expire(cleCourante, quota.fenetreSecondes * 2);
+    }
 
-  if (userLimit.count >= maxRequests) {
-    return { 
-      success: false, 
-      resetTime: userLimit.resetTime 
+    const estimation = Math.floor((comptePrecedent ?? 0) * (1 - ecouleRatio)) + compteCourant;
+
+    return {
+      success: estimation <= quota.limite,
+      limit: quota.limite,
+      remaining: Math.max(0, quota.limite - estimation),
+      resetSeconds
     };
+  } catch (error) {
+    // Redis indisponible : on laisse passer plutôt que de bloquer l'application
+    console.error('Rate limit error:', error);
+    return { success: true, limit: quota.limite, remaining: quota.limite, resetSeconds };
   }
+}
 
-  // Incrémenter le compteur
-  userLimit.count++;
-  return { success: true };
+/**
+ * Vérifie le quota d'un utilisateur (par profil) ou d'un appelant anonyme (par IP)
+ */
+export async function checkRateLimit(
+  identifier: string,
+  groupe: GroupeRoute,
+  typeProfil?: TypeProfil
+): Promise<RateLimitResult> {
+  const quota = typeProfil ? QUOTAS_PROFIL[typeProfil][groupe] : QUOTAS_PUBLIC[groupe];
+  const scope = typeProfil ? `user:${identifier}` : `ip:${identifier}`;
+
+  return slidingWindowLimit(`${groupe}:${scope}`, quota);
+}
+
+/**
+ * Ajoute les en-têtes RateLimit-* (draft IETF) à une réponse
+ */
+export function applyRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  response.headers.set('RateLimit-Limit', String(result.limit));
+  response.headers.set('RateLimit-Remaining', String(result.remaining));
+  response.headers.set('RateLimit-Reset', String(result.resetSeconds));
+  return response;
+}
+
+// Quota décompté pour chaque requête, repris par withRateLimitHeaders sur la réponse
+const rateLimitsRequetes = new WeakMap<Request, RateLimitResult>();
+
+/**
+ * Enveloppe un handler de route : toute réponse (pas seulement les 429) porte
+ * les en-têtes RateLimit-* du quota décompté pendant la requête
+ */
+export function withRateLimitHeaders<A extends unknown[], R extends Response>(
+  handler: (req: NextRequest, ...args: A) => Promise<R>
+) {
+  return async (req: NextRequest, ...args: A): Promise<R> => {
+    const response = await handler(req, ...args);
+    const result = rateLimitsRequetes.get(req);
+    return result ? applyRateLimitHeaders(response, result) : response;
+  };
+}
+
+/**
+ * Réponse 429 avec Retry-After pour que les clients (sync, collecteurs) temporisent
+ */
+export function rateLimitExceeded(result: RateLimitResult) {
+  const response = NextResponse.json({
+    error: "Rate limit exceeded",
+    retryAfter: result.resetSeconds
+  }, { status: 429 });
+
+  response.headers.set('Retry-After', String(result.resetSeconds));
+  return applyRateLimitHeaders(response, result);
 }
 
 // Helper pour créer un middleware protégé facilement
@@ -111,45 +247,20 @@ export function requirePermission(
   resource: TypeRessource, 
   permission: Permission
 ) {
-  return async (req: NextRequest) => {
-    return protectedRoute(req, permission, resource);
+  return async (req: NextRequest, jardinId?: string) => {
+    return protectedRoute(req, permission, resource, jardinId);
   };
 }
 
-// Middleware pour les routes publiques avec rate limiting light
+// Middleware pour les routes publiques avec rate limiting par IP
 export async function publicRateLimit(req: NextRequest) {
-  const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'anonymous';
-  const rateLimitResult = await checkRateLimitGeneric(ip, 200, 60 * 1000); // 200 req/min pour public
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'anonymous';
+  const rateLimitResult = await checkRateLimit(ip, getGroupeRoute(req.nextUrl.pathname));
   
   if (!rateLimitResult.success) {
-    return NextResponse.json({ 
-      error: "Too many requests" 
-    }, { status: 429 });
+    return rateLimitExceeded(rateLimitResult);
   }
+  rateLimitsRequetes.set(req, rateLimitResult);
   
   return null;
 }
-
-async function checkRateLimitGeneric(
-  key: string, 
-  maxRequests: number, 
-  windowMs: number
-): Promise<{ success: boolean }> {
-  const now = Date.now();
-  const limit = rateLimit.get(key);
-  
-  if (!limit || now > limit.resetTime) {
-    rateLimit.set(key, {
-      count: 1,
-      resetTime: now + windowMs
-    });
-    return { success: true };
-  }
-
-  if (limit.count >= maxRequests) {
-    return { success: false };
-  }
-
-  limit.count++;
-  return { success: true };
-}
\ No newline at end of file
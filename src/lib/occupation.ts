@@ -0,0 +1,127 @@
+/**
+ * Occupation des zones dans le temps
+ *
+ * Plusieurs cultures partagent une zone : chacune occupe une part de sa surface
+ * (entre 0 et 1) sur une période [début, fin[, une fin nulle signifiant
+ * « jusqu'à nouvel ordre ». La somme des parts ne doit jamais dépasser 1.
+ */
+
+import { Prisma } from '@prisma/client'
+
+export interface PeriodeOccupation {
+  debut: Date
+  fin: Date | null
+}
+
+export interface Occupation extends PeriodeOccupation {
+  partSurface: number
+}
+
+export interface ConflitOccupation extends Occupation {
+  instanceCultureId: string
+  nom: string
+}
+
+export type ResultatReservation<T> =
+  | { statut: 'reservee'; culture: T }
+  | { statut: 'surreservation'; partDisponible: number; conflits: ConflitOccupation[] }
+  | { statut: 'zone_introuvable' }
+
+// Tolérance sur la somme des parts (arrondis des fractions saisies)
+const TOLERANCE_PART = 1e-6
+
+const arrondir = (valeur: number) => Math.round(valeur * 1000) / 1000
+
+export function periodesChevauchent(a: PeriodeOccupation, b: PeriodeOccupation): boolean {
+  return (b.fin === null || a.debut < b.fin) && (a.fin === null || b.debut < a.fin)
+}
+
+/**
+ * Part maximale de la zone occupée simultanément pendant la période
+ */
+export function peakOccupation(occupations: Occupation[], periode: PeriodeOccupation): number {
+  const evenements: Array<{ date: number; delta: number }> = []
+
+  for (const occupation of occupations) {
+    if (!periodesChevauchent(occupation, periode)) continue
+
+    evenements.push({
+      date: Math.max(occupation.debut.getTime(), periode.debut.getTime()),
+      delta: occupation.partSurface
+    })
+    if (occupation.fin !== null) {
+      evenements.push({ date: occupation.fin.getTime(), delta: -occupation.partSurface })
+    }
+  }
+
+  // À date égale, les libérations passent avant les nouvelles occupations
+  evenements.sort((a, b) => a.date - b.date || a.delta - b.delta)
+
+  let courante = 0
+  let maximum = 0
+  for (const evenement of evenements) {
+    courante += evenement.delta
+    maximum = Math.max(maximum, courante)
+  }
+
+  return arrondir(maximum)
+}
+
+/**
+ * Part occupée à un instant donné
+ */
+export function occupationAt(occupations: Occupation[], date: Date): number {
+  return arrondir(
+    occupations
+      .filter(occupation => occupation.debut <= date && (occupation.fin === null || date < occupation.fin))
+      .reduce((total, occupation) => total + occupation.partSurface, 0)
+  )
+}
+
+export function fitsInZone(occupations: Occupation[], demande: Occupation): boolean {
+  return peakOccupation(occupations, demande) + demande.partSurface <= 1 + TOLERANCE_PART
+}
+
+/**
+ * Vérifie qu'une occupation tient dans la zone, à appeler dans une transaction :
+ * la ligne de la zone est verrouillée pour sérialiser les réservations concurrentes.
+ * Retourne null si la zone n'existe pas ou est désactivée.
+ */
+export async function checkZoneCapacity(
+  tx: Prisma.TransactionClient,
+  zoneId: string,
+  demande: Occupation,
+  excludeCultureId?: string
+): Promise<{ disponible: boolean; partDisponible: number; conflits: ConflitOccupation[] } | null> {
+  const verrou = await tx.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM "public"."zones" WHERE "id" = ${zoneId} AND "est_active" = true FOR UPDATE
+  `
+  if (verrou.length === 0) return null
+
+  const cultures = await tx.instanceCulture.findMany({
+    where: {
+      zoneId,
+      ...(excludeCultureId && { id: { not: excludeCultureId } }),
+      ...(demande.fin && { dateDebutOccupation: { lt: demande.fin } }),
+      OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: demande.debut } }]
+    },
+    select: { id: true, nom: true, partSurface: true, dateDebutOccupation: true, dateFinOccupation: true },
+    orderBy: { dateDebutOccupation: 'asc' }
+  })
+
+  const conflits: ConflitOccupation[] = cultures.map(culture => ({
+    instanceCultureId: culture.id,
+    nom: culture.nom,
+    partSurface: culture.partSurface,
+    debut: culture.dateDebutOccupation,
+    fin: culture.dateFinOccupation
+  }))
+
+  const partDisponible = arrondir(Math.max(0, 1 - peakOccupation(conflits, demande)))
+
+  return {
+    disponible: fitsInZone(conflits, demande),
+    partDisponible,
+    conflits
+  }
+}
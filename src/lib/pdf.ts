@@ -0,0 +1,99 @@
+/**
+ * Génération PDF minimale : pages vectorielles (rectangles pleins et texte)
+ *
+ * Suffisant pour des planches d'étiquettes : polices standard Helvetica et
+ * Helvetica-Bold en WinAnsiEncoding, sans image ni police embarquée.
+ * Les coordonnées sont en millimètres depuis le coin haut gauche de la page.
+ */
+
+const POINTS_PAR_MM = 72 / 25.4
+
+export type PolicePdf = 'normale' | 'grasse'
+
+export interface PagePdf {
+  largeurMm: number
+  hauteurMm: number
+  rectangles: Array<{ x: number; y: number; largeur: number; hauteur: number }>
+  textes: Array<{ x: number; y: number; taille: number; texte: string; police?: PolicePdf }> // y : ligne de base
+}
+
+// Caractères WinAnsi hors Latin-1 (plage 0x80-0x9F)
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '–': 0x96, '—': 0x97, 'Œ': 0x8c, 'œ': 0x9c
+}
+
+const nombre = (valeur: number) => (Math.round(valeur * 100) / 100).toString()
+
+/**
+ * Chaîne littérale PDF encodée en WinAnsi ; les caractères non représentables deviennent « ? »
+ */
+export function textePdf(texte: string): string {
+  const octets = [...texte].map(caractere => {
+    const code = caractere.codePointAt(0)!
+    if (WIN_ANSI[caractere]) return WIN_ANSI[caractere]
+    return code < 0x20 || (code >= 0x80 && code < 0xa0) || code > 0xff ? 0x3f : code
+  })
+  const echappe = String.fromCharCode(...octets).replace(/[\\()]/g, caractere => `\\${caractere}`)
+  return `(${echappe})`
+}
+
+function contenuPage(page: PagePdf): string {
+  const hauteur = page.hauteurMm * POINTS_PAR_MM
+  const y = (valeurMm: number) => hauteur - valeurMm * POINTS_PAR_MM
+  const pt = (valeurMm: number) => valeurMm * POINTS_PAR_MM
+
+  const rectangles = page.rectangles.map(rectangle =>
+    `${nombre(pt(rectangle.x))} ${nombre(y(rectangle.y + rectangle.hauteur))} ${nombre(pt(rectangle.largeur))} ${nombre(pt(rectangle.hauteur))} re`
+  )
+  const textes = page.textes.map(texte =>
+    `BT /${texte.police === 'grasse' ? 'F2' : 'F1'} ${nombre(texte.taille)} Tf ${nombre(pt(texte.x))} ${nombre(y(texte.y))} Td ${textePdf(texte.texte)} Tj ET`
+  )
+
+  return [
+    '0 g',
+    ...(rectangles.length > 0 ? [...rectangles, 'f'] : []),
+    ...textes
+  ].join('\n')
+}
+
+/**
+ * Assemble un document PDF 1.4 à partir de ses pages
+ */
+export function construirePdf(pages: PagePdf[]): Buffer {
+  const objets: string[] = []
+  const ajouter = (corps: string) => objets.push(corps) // Numéro d'objet = position + 1
+
+  const idPages = 2
+  const idsPages = pages.map((_, index) => 5 + index * 2)
+
+  ajouter(`<< /Type /Catalog /Pages ${idPages} 0 R >>`)
+  ajouter(`<< /Type /Pages /Kids [${idsPages.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+  ajouter('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  ajouter('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+  pages.forEach((page, index) => {
+    const contenu = contenuPage(page)
+    ajouter(
+      `<< /Type /Page /Parent ${idPages} 0 R` +
+      ` /MediaBox [0 0 ${nombre(page.largeurMm * POINTS_PAR_MM)} ${nombre(page.hauteurMm * POINTS_PAR_MM)}]` +
+      ` /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${idsPages[index] + 1} 0 R >>`
+    )
+    ajouter(`<< /Length ${contenu.length} >>\nstream\n${contenu}\nendstream`)
+  })
+
+  // Tout le document est en octets simples : la longueur des chaînes donne les positions
+  let document = '%PDF-1.4\n'
+  const positions = objets.map((corps, index) => {
+    const position = document.length
+    document += `${index + 1} 0 obj\n${corps}\nendobj\n`
+    return position
+  })
+
+  const xref = document.length
+  document += `xref\n0 ${objets.length + 1}\n0000000000 65535 f \n`
+  document += positions.map(position => `${position.toString().padStart(10, '0')} 00000 n \n`).join('')
+  document += `trailer\n<< /Size ${objets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Buffer.from(document, 'latin1')
+}
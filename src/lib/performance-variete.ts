@@ -0,0 +1,137 @@
+/**
+ * Performance personnelle d'une variété, calculée à partir des cultures et récoltes réelles
+ *
+ * Une culture compte dès qu'elle a été semée ou récoltée. Elle est évaluable une fois
+ * terminée ou dès sa première récolte : réussie si elle a produit, échouée sinon.
+ * Les notes saisies par l'utilisateur (problèmes, succès, conditions optimales)
+ * sont conservées d'un calcul à l'autre.
+ */
+
+import { EtapeCycleVie } from '@prisma/client'
+import type { PerformancePersonnelle } from './repositories/variety.repository'
+
+export interface RecoltePourPerformance {
+  dateRecolte: Date
+  poidsTotalKg: number
+  noteQualite: number | null // evaluationQualite.noteGenerale (1-5)
+}
+
+export interface CulturePourPerformance {
+  anneeSaison: number
+  etapeCycleVie: EtapeCycleVie
+  dateSemisReelle: Date | null
+  dateRepiquageReelle: Date | null
+  dateFinCycle: Date | null
+  quantitePlantee: number | null
+  quantiteGermee: number | null
+  surfaceM2: number | null // Part de la zone occupée par la culture
+  nomZone: string
+  recoltes: RecoltePourPerformance[]
+}
+
+const JOUR_MS = 24 * 60 * 60 * 1000
+
+const arrondir = (valeur: number, decimales = 2) => Math.round(valeur * 10 ** decimales) / 10 ** decimales
+
+const moyenne = (valeurs: number[]) =>
+  valeurs.length > 0 ? valeurs.reduce((somme, valeur) => somme + valeur, 0) / valeurs.length : undefined
+
+/**
+ * Note d'une évaluation de récolte (générale par défaut), si elle est renseignée et valide
+ */
+export function lireNoteQualite(
+  evaluationQualite: unknown,
+  critere: 'noteGenerale' | 'noteTaille' | 'noteGout' | 'noteApparence' = 'noteGenerale'
+): number | null {
+  const note = (evaluationQualite as Record<string, unknown> | null)?.[critere]
+  return typeof note === 'number' && note >= 1 && note <= 5 ? note : null
+}
+
+function estTerminee(culture: CulturePourPerformance, maintenant: Date): boolean {
+  return culture.etapeCycleVie === EtapeCycleVie.TERMINE
+    || (culture.dateFinCycle !== null && culture.dateFinCycle <= maintenant)
+}
+
+function poidsTotal(culture: CulturePourPerformance): number {
+  return culture.recoltes.reduce((total, recolte) => total + recolte.poidsTotalKg, 0)
+}
+
+function qualiteMoyenne(recoltes: RecoltePourPerformance[]): number | undefined {
+  return moyenne(recoltes.map(recolte => recolte.noteQualite).filter((note): note is number => note !== null))
+}
+
+export function calculerPerformance(
+  cultures: CulturePourPerformance[],
+  precedente?: Partial<PerformancePersonnelle> | null,
+  maintenant: Date = new Date()
+): PerformancePersonnelle {
+  // Une culture seulement planifiée n'a rien appris à personne
+  const cultivees = cultures.filter(culture =>
+    culture.etapeCycleVie !== EtapeCycleVie.PLANIFIE || culture.dateSemisReelle !== null || culture.recoltes.length > 0
+  )
+  const evaluables = cultivees.filter(culture => culture.recoltes.length > 0 || estTerminee(culture, maintenant))
+  const reussies = evaluables.filter(culture => poidsTotal(culture) > 0)
+
+  // Rendement rapporté à la surface réellement occupée
+  const avecSurface = evaluables.filter(culture => culture.surfaceM2 !== null && culture.surfaceM2 > 0)
+  const surfaceTotale = avecSurface.reduce((total, culture) => total + culture.surfaceM2!, 0)
+  const poidsSurSurface = avecSurface.reduce((total, culture) => total + poidsTotal(culture), 0)
+
+  // Délai entre le semis (ou la plantation) et la première récolte
+  const delais = reussies.flatMap(culture => {
+    const debut = culture.dateSemisReelle ?? culture.dateRepiquageReelle
+    if (!debut) return []
+    const premiere = Math.min(...culture.recoltes.map(recolte => recolte.dateRecolte.getTime()))
+    return premiere >= debut.getTime() ? [(premiere - debut.getTime()) / JOUR_MS] : []
+  })
+
+  const avecGermination = cultivees.filter(culture =>
+    (culture.quantitePlantee ?? 0) > 0 && culture.quantiteGermee !== null
+  )
+  const graines = avecGermination.reduce((total, culture) => total + culture.quantitePlantee!, 0)
+  const germees = avecGermination.reduce((total, culture) => total + culture.quantiteGermee!, 0)
+
+  const toutesRecoltes = cultivees.flatMap(culture => culture.recoltes)
+  const qualite = qualiteMoyenne(toutesRecoltes)
+
+  const meilleure = reussies.reduce<CulturePourPerformance | null>(
+    (meilleure, culture) => !meilleure || poidsTotal(culture) > poidsTotal(meilleure) ? culture : meilleure,
+    null
+  )
+
+  const saisons = [...new Set(cultivees.map(culture => culture.anneeSaison))].sort((a, b) => a - b)
+  const historique = saisons.map(annee => {
+    const culturesAnnee = cultivees.filter(culture => culture.anneeSaison === annee)
+    const precedentAnnee = precedente?.historique?.find(entree => entree.annee === annee)
+    return {
+      annee,
+      zoneCultivee: [...new Set(culturesAnnee.map(culture => culture.nomZone))].join(', '),
+      poidsTotalKg: arrondir(culturesAnnee.reduce((total, culture) => total + poidsTotal(culture), 0), 3),
+      qualiteMoyenne: arrondir(qualiteMoyenne(culturesAnnee.flatMap(culture => culture.recoltes)) ?? 0, 1),
+      problemes: precedentAnnee?.problemes ?? [],
+      succes: precedentAnnee?.succes ?? []
+    }
+  })
+
+  return {
+    nombreCultivations: cultivees.length,
+    tauxReussite: evaluables.length > 0 ? arrondir(reussies.length / evaluables.length) : 0,
+    rendementMoyenKg: arrondir(moyenne(evaluables.map(poidsTotal)) ?? 0, 3),
+    rendementMoyenKgM2: surfaceTotale > 0 ? arrondir(poidsSurSurface / surfaceTotale) : 0,
+    joursAvantPremiereRecolte: delais.length > 0 ? Math.round(moyenne(delais)!) : undefined,
+    tauxGermination: graines > 0 ? arrondir(Math.min(1, germees / graines)) : undefined,
+    qualiteMoyenne: qualite !== undefined ? arrondir(qualite, 1) : undefined,
+    saisons,
+    meilleureRecolte: meilleure ? {
+      annee: meilleure.anneeSaison,
+      poids: arrondir(poidsTotal(meilleure), 3),
+      notesQualite: arrondir(qualiteMoyenne(meilleure.recoltes) ?? 0, 1)
+    } : undefined,
+    meilleureDateSemis: precedente?.meilleureDateSemis,
+    meilleureDateRecolte: precedente?.meilleureDateRecolte,
+    conditionsOptimales: precedente?.conditionsOptimales,
+    historique,
+    derniereMiseAJour: maintenant.toISOString(),
+    calculPar: 'AUTO'
+  }
+}
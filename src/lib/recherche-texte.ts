@@ -0,0 +1,106 @@
+/**
+ * Recherche plein texte du catalogue, insensible aux accents
+ *
+ * La normalisation reproduit côté application celle de PostgreSQL
+ * (normaliser_recherche : minuscules, sans accents ni ligatures) pour construire
+ * les requêtes et retrouver les passages à surligner dans le texte d'origine.
+ */
+
+export type ChampRecherche = 'nomCommun' | 'nomScientifique' | 'famille' | 'conseilsCulture'
+
+export interface Surlignage {
+  champ: ChampRecherche
+  texte: string
+  plages: Array<[number, number]> // [début, fin[ dans texte
+}
+
+// Ligatures que unaccent développe (« œillet » se cherche en « oeillet »)
+const LIGATURES: Record<string, string> = { 'œ': 'oe', 'Œ': 'oe', 'æ': 'ae', 'Æ': 'ae', 'ß': 'ss' }
+
+// Au-delà, la requête est tronquée
+const TERMES_MAX = 8
+
+/**
+ * Texte normalisé et, pour chacun de ses caractères, la position d'origine
+ */
+export function normaliserAvecPositions(texte: string): { normalise: string; positions: number[] } {
+  let normalise = ''
+  const positions: number[] = []
+
+  for (let i = 0; i < texte.length; i++) {
+    const caractere = texte[i]
+    const remplacement = LIGATURES[caractere]
+      ?? caractere.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+
+    for (const c of remplacement) {
+      normalise += c
+      positions.push(i)
+    }
+  }
+
+  return { normalise, positions }
+}
+
+export function normaliser(texte: string): string {
+  return normaliserAvecPositions(texte).normalise
+}
+
+/**
+ * Mots significatifs de la requête, normalisés (les lettres isolées sont ignorées)
+ */
+export function termesRecherche(requete: string): string[] {
+  const termes = normaliser(requete)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(terme => terme.length >= 2)
+  return [...new Set(termes)].slice(0, TERMES_MAX)
+}
+
+/**
+ * Requête to_tsquery : tous les termes, chacun en préfixe pour la saisie en cours.
+ * Les termes ne contiennent que des lettres et des chiffres, sans opérateur.
+ */
+export function versTsquery(termes: string[]): string {
+  return termes.map(terme => `${terme}:*`).join(' & ')
+}
+
+/**
+ * Plages du texte où un mot commence par l'un des termes, ou null sans correspondance
+ */
+export function surligner(texte: string, champ: ChampRecherche, termes: string[]): Surlignage | null {
+  const { normalise, positions } = normaliserAvecPositions(texte)
+  const plages: Array<[number, number]> = []
+
+  for (const terme of termes) {
+    // Pluriel saisi sur un nom au singulier (« tomates » → « Tomate »)
+    const variantes = terme.length > 3 && terme.endsWith('s') ? [terme, terme.slice(0, -1)] : [terme]
+
+    for (const variante of variantes) {
+      let index = normalise.indexOf(variante)
+      let trouve = false
+      while (index !== -1) {
+        if (index === 0 || !/[\p{L}\p{N}]/u.test(normalise[index - 1])) {
+          plages.push([positions[index], positions[index + variante.length - 1] + 1])
+          trouve = true
+        }
+        index = normalise.indexOf(variante, index + 1)
+      }
+      if (trouve) break
+    }
+  }
+
+  if (plages.length === 0) return null
+
+  // Fusion des plages qui se recouvrent
+  plages.sort((a, b) => a[0] - b[0])
+  const fusionnees: Array<[number, number]> = [plages[0]]
+  for (const [debut, fin] of plages.slice(1)) {
+    const derniere = fusionnees[fusionnees.length - 1]
+    if (debut <= derniere[1]) {
+      derniere[1] = Math.max(derniere[1], fin)
+    } else {
+      fusionnees.push([debut, fin])
+    }
+  }
+
+  return { champ, texte, plages: fusionnees }
+}
@@ -0,0 +1,110 @@
+import { PrismaClient, ActiviteUtilisateur, Prisma, TypeActivite, TypeAppareil } from '@prisma/client'
+import { BaseRepository } from './base.repository'
+import { CacheService } from '../cache/cache.service'
+
+export interface AuditFilters {
+  utilisateurId?: string
+  typeActivite?: TypeActivite
+  typeEntite?: string
+  idEntite?: string
+  typeAppareil?: TypeAppareil
+  jardinId?: string
+  // Restreint aux activités de ces jardins (jardins administrés par l'appelant)
+  jardinIds?: string[]
+  depuis?: Date
+  jusqua?: Date
+}
+
+export interface ActiviteWithUser extends ActiviteUtilisateur {
+  utilisateur: {
+    id: string
+    name: string | null
+    email: string | null
+    typeProfil: string
+  }
+}
+
+const UTILISATEUR_SELECT = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+    typeProfil: true
+  }
+} as const
+
+// Plafond de lignes pour un export CSV
+const EXPORT_MAX_LIGNES = 10000
+
+export class ActiviteRepository extends BaseRepository<ActiviteUtilisateur> {
+  constructor(prisma: PrismaClient, cache: CacheService) {
+    super(prisma, cache, 'activiteUtilisateur')
+  }
+
+  /**
+   * Journal d'audit paginé (sans cache : doit refléter les dernières actions)
+   */
+  async findPaginated(
+    filters: AuditFilters,
+    page: number,
+    limit: number
+  ): Promise<{ activites: ActiviteWithUser[]; total: number }> {
+    const where = this.buildWhere(filters)
+
+    const [activites, total] = await Promise.all([
+      this.prisma.activiteUtilisateur.findMany({
+        where,
+        include: { utilisateur: UTILISATEUR_SELECT },
+        orderBy: { creeA: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.activiteUtilisateur.count({ where })
+    ])
+
+    return { activites, total }
+  }
+
+  /**
+   * Activités à exporter, limitées à EXPORT_MAX_LIGNES
+   */
+  async findForExport(filters: AuditFilters): Promise<ActiviteWithUser[]> {
+    return this.prisma.activiteUtilisateur.findMany({
+      where: this.buildWhere(filters),
+      include: { utilisateur: UTILISATEUR_SELECT },
+      orderBy: { creeA: 'desc' },
+      take: EXPORT_MAX_LIGNES
+    })
+  }
+
+  private buildWhere(filters: AuditFilters): Prisma.ActiviteUtilisateurWhereInput {
+    const where: Prisma.ActiviteUtilisateurWhereInput = {}
+
+    if (filters.utilisateurId) where.utilisateurId = filters.utilisateurId
+    if (filters.typeActivite) where.typeActivite = filters.typeActivite
+    if (filters.typeEntite) where.typeEntite = filters.typeEntite
+    if (filters.idEntite) where.idEntite = filters.idEntite
+    if (filters.typeAppareil) where.typeAppareil = filters.typeAppareil
+
+    // Le jardin concerné est enregistré dans les métadonnées par logActivity
+    if (filters.jardinId) {
+      where.metadonneesActivite = { path: ['jardinId'], equals: filters.jardinId }
+    }
+
+    // Les filtres JSON n'acceptent pas `in` : une égalité par jardin autorisé
+    if (filters.jardinIds) {
+      where.OR = filters.jardinIds.map(jardinId => ({
+        metadonneesActivite: { path: ['jardinId'], equals: jardinId }
+      }))
+    }
+
+    if (filters.depuis || filters.jusqua) {
+      where.creeA = {
+        ...(filters.depuis && { gte: filters.depuis }),
+        ...(filters.jusqua && { lte: filters.jusqua })
+      }
+    }
+
+    return where
+  }
+}
@@ -0,0 +1,132 @@
+import { PrismaClient, AnalyseSol, SourceAnalyseSol, TypeSol } from '@prisma/client'
+import { BaseRepository } from './base.repository'
+import { CacheService } from '../cache/cache.service'
+
+export interface CreateAnalyseSolInput {
+  zoneId: string
+  utilisateurId: string
+  dateAnalyse: Date
+  source: SourceAnalyseSol
+  nomSource?: string
+  ph?: number
+  azoteMgKg?: number
+  phosphoreMgKg?: number
+  potassiumMgKg?: number
+  matiereOrganiquePct?: number
+  texture?: TypeSol
+  notes?: string
+}
+
+// Indicateurs numériques suivis dans le temps
+export const INDICATEURS_SOL = ['ph', 'azoteMgKg', 'phosphoreMgKg', 'potassiumMgKg', 'matiereOrganiquePct'] as const
+
+export type IndicateurSol = typeof INDICATEURS_SOL[number]
+
+export interface TendanceIndicateur {
+  valeurs: Array<{ date: Date; valeur: number }>
+  derniere: number | null
+  evolution: number | null // Dernière valeur moins la précédente
+  penteAnnuelle: number | null // Régression linéaire, en unités par an
+}
+
+export class AnalyseSolRepository extends BaseRepository<AnalyseSol> {
+  constructor(prisma: PrismaClient, cache: CacheService) {
+    super(prisma, cache, 'analyseSol')
+  }
+
+  /**
+   * Historique des analyses d'une zone, de la plus ancienne à la plus récente
+   */
+  async findByZoneId(zoneId: string, ttlSeconds: number = 600): Promise<AnalyseSol[]> {
+    const cacheKey = this.getCacheKey('findByZoneId', { zoneId })
+
+    return this.getOrSetCache(
+      cacheKey,
+      async () => {
+        return await this.prisma.analyseSol.findMany({
+          where: { zoneId },
+          orderBy: { dateAnalyse: 'asc' }
+        })
+      },
+      ttlSeconds
+    )
+  }
+
+  /**
+   * Dernière analyse de chaque zone (les zones sans analyse sont absentes)
+   */
+  async findLatestByZoneIds(zoneIds: string[]): Promise<Map<string, AnalyseSol>> {
+    if (zoneIds.length === 0) return new Map()
+
+    const analyses = await this.prisma.analyseSol.findMany({
+      where: { zoneId: { in: zoneIds } },
+      orderBy: { dateAnalyse: 'desc' },
+      distinct: ['zoneId']
+    })
+
+    return new Map(analyses.map(analyse => [analyse.zoneId, analyse]))
+  }
+
+  /**
+   * Séries par indicateur pour les graphiques de tendance
+   */
+  async getTrends(zoneId: string): Promise<Record<IndicateurSol, TendanceIndicateur>> {
+    const analyses = await this.findByZoneId(zoneId)
+
+    return Object.fromEntries(INDICATEURS_SOL.map(indicateur => {
+      const valeurs = analyses
+        .filter(analyse => analyse[indicateur] !== null)
+        .map(analyse => ({ date: new Date(analyse.dateAnalyse), valeur: analyse[indicateur] as number }))
+
+      const n = valeurs.length
+      return [indicateur, {
+        valeurs,
+        derniere: n > 0 ? valeurs[n - 1].valeur : null,
+        evolution: n > 1 ? Math.round((valeurs[n - 1].valeur - valeurs[n - 2].valeur) * 100) / 100 : null,
+        penteAnnuelle: this.computeYearlySlope(valeurs)
+      }]
+    })) as Record<IndicateurSol, TendanceIndicateur>
+  }
+
+  async create(data: CreateAnalyseSolInput): Promise<AnalyseSol> {
+    const analyse = await this.prisma.analyseSol.create({ data })
+
+    await this.invalidateCache()
+
+    return analyse
+  }
+
+  /**
+   * Supprime une analyse de la zone donnée ; false si elle n'existe pas
+   */
+  async delete(zoneId: string, analyseId: string): Promise<boolean> {
+    const { count } = await this.prisma.analyseSol.deleteMany({
+      where: { id: analyseId, zoneId }
+    })
+
+    if (count > 0) {
+      await this.invalidateCache()
+    }
+
+    return count > 0
+  }
+
+  private computeYearlySlope(valeurs: Array<{ date: Date; valeur: number }>): number | null {
+    if (valeurs.length < 2) return null
+
+    const annee = 365.25 * 24 * 60 * 60 * 1000
+    const xs = valeurs.map(point => point.date.getTime() / annee)
+    const ys = valeurs.map(point => point.valeur)
+    const moyenneX = xs.reduce((a, b) => a + b, 0) / xs.length
+    const moyenneY = ys.reduce((a, b) => a + b, 0) / ys.length
+
+    let numerateur = 0
+    let denominateur = 0
+    xs.forEach((x, i) => {
+      numerateur += (x - moyenneX) * (ys[i] - moyenneY)
+      denominateur += (x - moyenneX) ** 2
+    })
+
+    return denominateur === 0 ? null : Math.round((numerateur / denominateur) * 100) / 100
+  }
+}
@@ -1,7 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { PrismaClient, InstanceCulture, EtapeCycleVie, VarieteCulture, VarieteCultureUtilisateur } from '@prisma/client'
+import { Prisma, PrismaClient, CategorieIntervention, InstanceCulture, Intervention, EtapeCycleVie, TypeAppareil, VarieteCulture, VarieteCultureUtilisateur } from '@prisma/client'
 import { BaseRepository } from './base.repository'
 import { CacheService } from '../cache/cache.service'
+import { checkZoneCapacity, ResultatReservation } from '../occupation'
+import { syncSeedWithdrawals } from '../stock-graines'
+import {
+  chronologieDeduite,
+  donneesEtape,
+  EntreeChronologie,
+  etapesSuivantes,
+  RefusTransition,
+  verifierTransition
+} from '../cycle-vie-culture'
+import { requestPerformanceRecompute } from '../jobs/performance.jobs'
 
 export interface CultureWithVariete extends InstanceCulture {
   variete: VarieteCultureUtilisateur & {
@@ -28,13 +39,22 @@ export interface CreateCultureInput {
   anneeSaison: number
   dateSemisPrevue?: Date
   quantitePlantee?: number
+  partSurface?: number // Part de la zone occupée, toute la zone par défaut
+  dateDebutOccupation?: Date // Par défaut : semis prévu, sinon maintenant
+  dateFinOccupation?: Date
   conditionsCulture?: Record<string, unknown>
   notes?: string
+  sachetSourceId?: string // Lot de graines semé, parent de la culture dans la lignée
+  prelevementGraines?: boolean // false : quantitePlantee n'est pas décomptée du stock (vivace reconduite)
+  remplaceCultureId?: string // Culture de la même zone dont la place est reprise : son occupation se termine au début de la nouvelle
 }
 
-export interface UpdateCultureInput extends Partial<CreateCultureInput> {
+// La zone et la période d'occupation se modifient via ZoneRepository.assignCulture,
+// l'étape du cycle de vie via updateEtapeCycle
+export interface UpdateCultureInput extends Partial<
+  Omit<CreateCultureInput, 'zoneId' | 'partSurface' | 'dateDebutOccupation' | 'dateFinOccupation' | 'prelevementGraines' | 'remplaceCultureId'>
+> {
   id: string
-  etapeCycleVie?: EtapeCycleVie
   dateSemisReelle?: Date
   dateRepiquagePrevue?: Date
   dateRepiquageReelle?: Date
@@ -48,6 +68,48 @@ export interface UpdateCultureInput extends Partial<CreateCultureInput> {
   estActive?: boolean
 }
 
+export interface TransitionContext {
+  dateEtape?: Date // Maintenant par défaut
+  acteurId?: string
+  typeAppareil?: TypeAppareil
+  commentaire?: string
+}
+
+// Saisie du semis accompagnant le passage à SEME : les graines sont décomptées du stock
+export interface DonneesSemis {
+  quantitePlantee?: number
+  sachetSourceId?: string // Lot semé, entamé en premier
+}
+
+// Lot de graines source inconnu, d'un autre utilisateur ou d'une autre variété
+type SachetIntrouvable = { statut: 'sachet_introuvable' }
+
+export type ResultatCreationCulture = ResultatReservation<InstanceCulture> | SachetIntrouvable
+
+export type ResultatMiseAJourCulture = { statut: 'modifiee'; culture: InstanceCulture } | SachetIntrouvable
+
+export type ResultatTransition =
+  | { statut: 'effectuee'; culture: InstanceCulture }
+  | { statut: 'introuvable' }
+  | { statut: 'refusee'; refus: RefusTransition }
+  | SachetIntrouvable
+
+// Saisie rapide depuis la fiche culture (scan d'étiquette)
+export interface QuickInterventionInput {
+  utilisateurId: string
+  categorie: CategorieIntervention
+  dateReelle?: Date // Maintenant par défaut
+  notes?: string
+}
+
+export interface ChronologieCulture {
+  cultureId: string
+  nom: string
+  etapeCycleVie: EtapeCycleVie
+  transitions: EntreeChronologie[]
+  etapesSuivantes: Array<{ etape: EtapeCycleVie; refus: RefusTransition | null }>
+}
+
 export class CultureRepository extends BaseRepository<InstanceCulture> {
   constructor(prisma: PrismaClient, cache: CacheService) {
     super(prisma, cache, 'instanceCulture')
@@ -279,98 +341,320 @@ export class CultureRepository extends BaseRepository<InstanceCulture> {
   }
 
   /**
-   * Crée une nouvelle culture
+   * Crée une nouvelle culture en réservant sa place dans la zone
    */
-  async create(data: CreateCultureInput): Promise<InstanceCulture> {
+  async create(input: CreateCultureInput): Promise<ResultatCreationCulture> {
+    const { prelevementGraines = true, remplaceCultureId, ...data } = input
     // Générer un code lot unique
     const codeLot = this.generateCodeLot(data.nom, data.anneeSaison)
+    const occupation = {
+      partSurface: data.partSurface ?? 1,
+      debut: data.dateDebutOccupation ?? data.dateSemisPrevue ?? new Date(),
+      fin: data.dateFinOccupation ?? null
+    }
     
-    const culture = await this.prisma.instanceCulture.create({
-      data: {
-        ...data,
-        codeLot
-      } as any
-    })
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatCreationCulture> => {
+      if (data.sachetSourceId && !await this.isSachetSourceValide(tx, data.sachetSourceId, data.utilisateurId, data.varieteId)) {
+        return { statut: 'sachet_introuvable' }
+      }
+
+      const capacite = await checkZoneCapacity(tx, data.zoneId, occupation, remplaceCultureId)
+      if (!capacite) return { statut: 'zone_introuvable' }
+      if (!capacite.disponible) {
+        return { statut: 'surreservation', partDisponible: capacite.partDisponible, conflits: capacite.conflits }
+      }
 
-    // Assigner la culture à la zone
-    await this.prisma.zone.update({
-      where: { id: data.zoneId },
-      data: { cultureActuelleId: culture.id }
+      // La place n'est libérée qu'une fois la nouvelle réservation acquise
+      if (remplaceCultureId) {
+        await tx.instanceCulture.updateMany({
+          where: {
+            id: remplaceCultureId,
+            zoneId: data.zoneId,
+            OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: occupation.debut } }]
+          },
+          data: { dateFinOccupation: occupation.debut }
+        })
+      }
+
+      const culture = await tx.instanceCulture.create({
+        data: {
+          ...data,
+          partSurface: occupation.partSurface,
+          dateDebutOccupation: occupation.debut,
+          dateFinOccupation: occupation.fin,
+          codeLot
+        } as any
+      })
+
+      await tx.transitionCycleCulture.create({
+        data: {
+          instanceCultureId: culture.id,
+          etapeArrivee: culture.etapeCycleVie,
+          dateEtape: culture.creeA,
+          acteurId: data.utilisateurId
+        }
+      })
+
+      // Graines semées décomptées des sachets de la variété
+      if (prelevementGraines && culture.quantitePlantee) {
+        await syncSeedWithdrawals(tx, culture.id)
+      }
+      return { statut: 'reservee', culture }
     })
 
-    // Invalider le cache
-    await this.invalidateCache()
-    await this.cache.delete(`zone:findByIdWithCultures:zoneId:${data.zoneId}`)
+    if (resultat.statut === 'reservee') {
+      // Invalider le cache
+      await this.invalidateCache()
+      await this.invalidateCache('zone:*')
+    }
     
-    return culture
+    return resultat
   }
 
   /**
    * Met à jour une culture
    */
-  async update(data: UpdateCultureInput): Promise<InstanceCulture> {
+  async update(data: UpdateCultureInput): Promise<ResultatMiseAJourCulture> {
     const { id, ...updateData } = data
     
-    const culture = await this.prisma.instanceCulture.update({
-      where: { id },
-      data: {
-        ...updateData,
-        // Auto-calculer le taux de survie si les données sont présentes
-        ...(updateData.quantiteGermee && updateData.quantitePlantee && {
-          tauxSurvie: updateData.quantiteGermee / updateData.quantitePlantee
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatMiseAJourCulture> => {
+      if (updateData.sachetSourceId) {
+        const existante = await tx.instanceCulture.findUniqueOrThrow({
+          where: { id },
+          select: { utilisateurId: true, varieteId: true }
         })
-      } as any
+        if (!await this.isSachetSourceValide(tx, updateData.sachetSourceId, existante.utilisateurId, existante.varieteId)) {
+          return { statut: 'sachet_introuvable' }
+        }
+      }
+
+      const miseAJour = await tx.instanceCulture.update({
+        where: { id },
+        data: {
+          ...updateData,
+          // Auto-calculer le taux de survie si les données sont présentes
+          ...(updateData.quantiteGermee && updateData.quantitePlantee && {
+            tauxSurvie: updateData.quantiteGermee / updateData.quantitePlantee
+          })
+        } as any
+      })
+
+      // Quantité semée corrigée : le stock de graines suit
+      if (updateData.quantitePlantee !== undefined) {
+        await syncSeedWithdrawals(tx, id)
+      }
+      return { statut: 'modifiee', culture: miseAJour }
     })
 
+    if (resultat.statut !== 'modifiee') return resultat
+
+    // Le taux de germination de la variété en dépend
+    if (updateData.quantitePlantee !== undefined || updateData.quantiteGermee !== undefined) {
+      await requestPerformanceRecompute(resultat.culture.varieteId)
+    }
+
     // Invalider le cache
     await this.invalidateCache()
     
-    return culture
+    return resultat
   }
 
   /**
-   * Change l'étape du cycle de vie
+   * Change l'étape du cycle de vie si la transition est permise (voir cycle-vie-culture)
+   * et l'inscrit dans la chronologie de la culture
    */
   async updateEtapeCycle(
     cultureId: string,
     nouvelleEtape: EtapeCycleVie,
-    dateEtape?: Date
-  ): Promise<InstanceCulture> {
-    const updateData: any = { etapeCycleVie: nouvelleEtape }
-    
-    // Définir automatiquement les dates selon l'étape
-    switch (nouvelleEtape) {
-      case EtapeCycleVie.SEME:
-        updateData.dateSemisReelle = dateEtape || new Date()
-        break
-      case EtapeCycleVie.REPIQUE:
-        updateData.dateRepiquageReelle = dateEtape || new Date()
-        break
-      case EtapeCycleVie.RECOLTE:
-        updateData.datePremiereRecolte = dateEtape || new Date()
-        break
-      case EtapeCycleVie.TERMINE:
-        updateData.dateFinCycle = dateEtape || new Date()
-        updateData.estActive = false
-        break
+    context: TransitionContext = {},
+    semis: DonneesSemis = {}
+  ): Promise<ResultatTransition> {
+    const dateEtape = context.dateEtape ?? new Date()
+
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatTransition> => {
+      // Verrou sur la culture : deux transitions concurrentes ne partent pas de la même étape
+      await tx.$queryRaw`
+        SELECT "id" FROM "public"."instances_culture" WHERE "id" = ${cultureId} FOR UPDATE
+      `
+
+      // La création n'est pas une étape : elle ne borne pas une étape saisie a posteriori
+      const existante = await tx.instanceCulture.findUnique({
+        where: { id: cultureId },
+        include: {
+          _count: { select: { recoltes: true } },
+          transitionsCycle: {
+            where: { etapeDepart: { not: null } },
+            orderBy: { dateEtape: 'desc' },
+            take: 1,
+            select: { dateEtape: true }
+          }
+        }
+      })
+      if (!existante) return { statut: 'introuvable' }
+
+      const refus = verifierTransition({
+        etapeCycleVie: existante.etapeCycleVie,
+        nombreRecoltes: existante._count.recoltes,
+        derniereTransitionA: existante.transitionsCycle[0]?.dateEtape ?? null
+      }, nouvelleEtape, dateEtape)
+      if (refus) return { statut: 'refusee', refus }
+
+      if (semis.sachetSourceId && !await this.isSachetSourceValide(tx, semis.sachetSourceId, existante.utilisateurId, existante.varieteId)) {
+        return { statut: 'sachet_introuvable' }
+      }
+
+      const culture = await tx.instanceCulture.update({
+        where: { id: cultureId },
+        data: {
+          etapeCycleVie: nouvelleEtape,
+          ...donneesEtape(nouvelleEtape, dateEtape),
+          ...(semis.quantitePlantee !== undefined && { quantitePlantee: semis.quantitePlantee }),
+          ...(semis.sachetSourceId && { sachetSourceId: semis.sachetSourceId })
+        }
+      })
+
+      if (semis.quantitePlantee !== undefined || semis.sachetSourceId) {
+        await syncSeedWithdrawals(tx, cultureId)
+      }
+
+      await tx.transitionCycleCulture.create({
+        data: {
+          instanceCultureId: cultureId,
+          etapeDepart: existante.etapeCycleVie,
+          etapeArrivee: nouvelleEtape,
+          dateEtape,
+          acteurId: context.acteurId,
+          typeAppareil: context.typeAppareil,
+          commentaire: context.commentaire
+        }
+      })
+
+      return { statut: 'effectuee', culture }
+    })
+
+    if (resultat.statut !== 'effectuee') return resultat
+
+    // Si terminé, libérer la place dans la zone
+    if (nouvelleEtape === EtapeCycleVie.TERMINE) {
+      await this.endOccupation(resultat.culture, dateEtape)
     }
 
-    const culture = await this.prisma.instanceCulture.update({
+    // Semis saisi, première récolte ou clôture : la performance de la variété change
+    if (semis.quantitePlantee !== undefined || nouvelleEtape === EtapeCycleVie.RECOLTE || nouvelleEtape === EtapeCycleVie.TERMINE) {
+      await requestPerformanceRecompute(resultat.culture.varieteId)
+    }
+
+    // Invalider le cache
+    await this.invalidateCache()
+    
+    return resultat
+  }
+
+  /**
+   * Chronologie des étapes d'une culture et étapes accessibles depuis l'étape en cours.
+   * Les cultures antérieures à l'historique des transitions ont une chronologie déduite de leurs dates.
+   */
+  async getChronologie(cultureId: string): Promise<ChronologieCulture | null> {
+    const culture = await this.prisma.instanceCulture.findUnique({
       where: { id: cultureId },
-      data: updateData
+      include: {
+        _count: { select: { recoltes: true } },
+        transitionsCycle: {
+          orderBy: [{ dateEtape: 'asc' }, { creeA: 'asc' }],
+          include: { acteur: { select: { id: true, name: true } } }
+        }
+      }
     })
+    if (!culture) return null
+
+    const enregistrees: EntreeChronologie[] = culture.transitionsCycle.map(transition => ({
+      etapeDepart: transition.etapeDepart,
+      etapeArrivee: transition.etapeArrivee,
+      dateEtape: transition.dateEtape,
+      acteur: transition.acteur,
+      typeAppareil: transition.typeAppareil,
+      commentaire: transition.commentaire,
+      deduite: false
+    }))
+
+    // Culture créée avant l'historique : le début du cycle est déduit de ses dates
+    const premiere = culture.transitionsCycle[0]
+    const anterieures = !premiere
+      ? chronologieDeduite(culture)
+      : premiere.etapeDepart
+        ? chronologieDeduite({ ...culture, etapeCycleVie: premiere.etapeDepart })
+            .filter(entree => entree.dateEtape < premiere.dateEtape)
+        : []
+    const transitions = [...anterieures, ...enregistrees]
 
-    // Si terminé, libérer la zone
-    if (nouvelleEtape === EtapeCycleVie.TERMINE) {
-      await this.prisma.zone.update({
-        where: { id: culture.zoneId },
-        data: { cultureActuelleId: null }
+    return {
+      cultureId: culture.id,
+      nom: culture.nom,
+      etapeCycleVie: culture.etapeCycleVie,
+      transitions,
+      etapesSuivantes: etapesSuivantes({
+        etapeCycleVie: culture.etapeCycleVie,
+        nombreRecoltes: culture._count.recoltes,
+        derniereTransitionA: culture.transitionsCycle.findLast(transition => transition.etapeDepart !== null)?.dateEtape ?? null
       })
     }
+  }
+
+  /**
+   * Enregistre une intervention sur la culture et sa zone, rattachée au type
+   * d'intervention de la catégorie (type système en priorité). Retourne null si la culture n'existe pas.
+   */
+  async addIntervention(cultureId: string, input: QuickInterventionInput): Promise<Intervention | null> {
+    const culture = await this.prisma.instanceCulture.findUnique({
+      where: { id: cultureId },
+      select: { id: true, zoneId: true }
+    })
+    if (!culture) return null
+
+    const typeIntervention = await this.prisma.typeIntervention.findFirst({
+      where: { categorie: input.categorie },
+      orderBy: [{ estSysteme: 'desc' }, { creeA: 'asc' }],
+      select: { id: true }
+    })
+
+    const intervention = await this.prisma.intervention.create({
+      data: {
+        utilisateurId: input.utilisateurId,
+        instanceCultureId: culture.id,
+        zoneId: culture.zoneId,
+        dateReelle: input.dateReelle ?? new Date(),
+        notes: input.notes,
+        ...(typeIntervention && {
+          typesIntervention: { create: { typeInterventionId: typeIntervention.id } }
+        })
+      }
+    })
 
     // Invalider le cache
     await this.invalidateCache()
-    
+
+    return intervention
+  }
+
+  /**
+   * Ajoute une ligne datée aux notes de la culture. Retourne null si la culture n'existe pas.
+   */
+  async appendNote(cultureId: string, texte: string, date: Date = new Date()): Promise<InstanceCulture | null> {
+    const existante = await this.prisma.instanceCulture.findUnique({
+      where: { id: cultureId },
+      select: { notes: true }
+    })
+    if (!existante) return null
+
+    const ligne = `[${date.toLocaleDateString('fr-FR')}] ${texte.trim()}`
+    const culture = await this.prisma.instanceCulture.update({
+      where: { id: cultureId },
+      data: { notes: existante.notes ? `${existante.notes}\n${ligne}` : ligne }
+    })
+
+    // Invalider le cache
+    await this.invalidateCache()
+
     return culture
   }
 
@@ -501,28 +785,80 @@ export class CultureRepository extends BaseRepository<InstanceCulture> {
     return `${nomCourt}${anneeSaison}${timestamp}`
   }
 
+  /**
+   * Le lot source doit appartenir à l'utilisateur et être de la même variété que la culture
+   */
+  private async isSachetSourceValide(
+    tx: Prisma.TransactionClient,
+    sachetId: string,
+    utilisateurId: string,
+    varieteId: string
+  ): Promise<boolean> {
+    const sachet = await tx.sachetGraines.findFirst({
+      where: { id: sachetId, utilisateurId, varieteId },
+      select: { id: true }
+    })
+    return sachet !== null
+  }
+
   /**
    * Archive une culture (soft delete)
    */
-  async archive(cultureId: string): Promise<InstanceCulture> {
-    const culture = await this.prisma.instanceCulture.update({
-      where: { id: cultureId },
-      data: { 
-        estActive: false,
-        etapeCycleVie: EtapeCycleVie.TERMINE,
-        dateFinCycle: new Date()
+  async archive(cultureId: string, context: Omit<TransitionContext, 'dateEtape'> = {}): Promise<InstanceCulture> {
+    const dateFinCycle = new Date()
+
+    const culture = await this.prisma.$transaction(async (tx) => {
+      const { etapeCycleVie } = await tx.instanceCulture.findUniqueOrThrow({
+        where: { id: cultureId },
+        select: { etapeCycleVie: true }
+      })
+
+      const archivee = await tx.instanceCulture.update({
+        where: { id: cultureId },
+        data: { 
+          estActive: false,
+          etapeCycleVie: EtapeCycleVie.TERMINE,
+          dateFinCycle
+        }
+      })
+
+      // Toute étape peut être close : seule la chronologie est à compléter
+      if (etapeCycleVie !== EtapeCycleVie.TERMINE) {
+        await tx.transitionCycleCulture.create({
+          data: {
+            instanceCultureId: cultureId,
+            etapeDepart: etapeCycleVie,
+            etapeArrivee: EtapeCycleVie.TERMINE,
+            dateEtape: dateFinCycle,
+            ...context
+          }
+        })
       }
+      return archivee
     })
 
-    // Libérer la zone
-    await this.prisma.zone.update({
-      where: { id: culture.zoneId },
-      data: { cultureActuelleId: null }
-    })
+    // Libérer la place dans la zone
+    await this.endOccupation(culture, culture.dateFinCycle!)
+
+    await requestPerformanceRecompute(culture.varieteId)
 
     // Invalider le cache
     await this.invalidateCache()
     
     return culture
   }
+
+  /**
+   * Termine l'occupation de la zone à la date donnée, sans jamais la prolonger
+   */
+  private async endOccupation(culture: InstanceCulture, date: Date): Promise<void> {
+    const fin = date < culture.dateDebutOccupation ? culture.dateDebutOccupation : date
+    if (culture.dateFinOccupation && culture.dateFinOccupation <= fin) return
+
+    await this.prisma.instanceCulture.update({
+      where: { id: culture.id },
+      data: { dateFinOccupation: fin }
+    })
+    await this.invalidateCache('zone:*')
+  }
 }
\ No newline at end of file
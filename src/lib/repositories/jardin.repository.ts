@@ -1,8 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { PrismaClient, Jardin, Zone, TypeZone } from '@prisma/client'
+import { PrismaClient, Jardin, Zone, RoleJardin } from '@prisma/client'
 import { BaseRepository } from './base.repository'
 import { CacheService } from '../cache/cache.service'
+import { buildZoneGeometry } from '../geometry'
+import { ConfigAmenagement, ZoneModele } from '../layout-templates'
 
 export interface JardinWithStats extends Jardin {
   _stats: {
@@ -32,15 +34,9 @@ export interface CreateJardinInput {
   typeSol: string
   phSol?: number
   sourceEau: string
-  configAmenagement: {
-    type: 'structure'
-    contenants: Array<{
-      id: string
-      longueur_m: number
-      largeur_m: number
-      position: { x: number; y: number }
-    }>
-  }
+  configAmenagement: ConfigAmenagement
+  // Zones initiales résolues à partir de configAmenagement
+  zones?: ZoneModele[]
 }
 
 export interface UpdateJardinInput extends Partial<CreateJardinInput> {
@@ -53,7 +49,7 @@ export class JardinRepository extends BaseRepository<Jardin> {
   }
 
   /**
-   * Trouve tous les jardins d'un utilisateur
+   * Trouve tous les jardins non archivés dont l'utilisateur est membre (quel que soit son rôle)
    */
   async findByUserId(userId: string, ttlSeconds: number = 300): Promise<Jardin[]> {
     const cacheKey = this.getCacheKey('findByUserId', { userId })
@@ -62,7 +58,7 @@ export class JardinRepository extends BaseRepository<Jardin> {
       cacheKey,
       async () => {
         return await this.prisma.jardin.findMany({
-          where: { proprietaireId: userId },
+          where: { membres: { some: { utilisateurId: userId } }, archiveA: null },
           orderBy: { creeA: 'desc' }
         })
       },
@@ -70,6 +66,24 @@ export class JardinRepository extends BaseRepository<Jardin> {
     )
   }
 
+  /**
+   * Jardins archivés de l'utilisateur, les plus récemment archivés d'abord
+   */
+  async findArchivedByUserId(userId: string, ttlSeconds: number = 300): Promise<Jardin[]> {
+    const cacheKey = this.getCacheKey('findArchivedByUserId', { userId })
+    
+    return this.getOrSetCache(
+      cacheKey,
+      async () => {
+        return await this.prisma.jardin.findMany({
+          where: { membres: { some: { utilisateurId: userId } }, archiveA: { not: null } },
+          orderBy: { archiveA: 'desc' }
+        })
+      },
+      ttlSeconds
+    )
+  }
+
   /**
    * Trouve un jardin avec ses statistiques
    */
@@ -136,26 +150,28 @@ export class JardinRepository extends BaseRepository<Jardin> {
         typeSol: data.typeSol as any,
         phSol: data.phSol,
         sourceEau: data.sourceEau as any,
-        configAmenagement: data.configAmenagement
+        configAmenagement: data.configAmenagement,
+        membres: {
+          create: {
+            utilisateurId: data.proprietaireId,
+            role: RoleJardin.PROPRIETAIRE
+          }
+        }
       }
     })
 
-    // Créer les zones par défaut basées sur la configuration Sacha
-    if (data.configAmenagement.type === 'structure') {
-      const zonesPromises = data.configAmenagement.contenants.map((contenant, index) => {
+    // Créer les zones initiales issues de la structure ou du modèle d'aménagement
+    if (data.zones?.length) {
+      const zonesPromises = data.zones.map(zone => {
         return this.prisma.zone.create({
           data: {
             jardinId: jardin.id,
-            nom: `Bac ${index + 1}`,
-            typeZone: TypeZone.BAC,
-            geometrie: {
-              type: 'rectangle',
-              coordonnees: [contenant.position.x, contenant.position.y],
-              surfaceM2: contenant.longueur_m * contenant.largeur_m
-            },
-            expositionSoleil: 'PLEIN_SOLEIL',
-            accesEau: 'FACILE',
-            qualiteSol: 4
+            nom: zone.nom,
+            typeZone: zone.typeZone,
+            geometrie: buildZoneGeometry(zone.geometrie),
+            expositionSoleil: zone.expositionSoleil,
+            accesEau: zone.accesEau,
+            qualiteSol: zone.qualiteSol
           }
         })
       })
@@ -188,26 +204,36 @@ export class JardinRepository extends BaseRepository<Jardin> {
   }
 
   /**
-   * Supprime un jardin (soft delete en gardant l'historique)
+   * Archive un jardin : masqué des listes, zones et historique conservés tels quels.
+   * Retourne null si le jardin n'existe pas ou est déjà archivé.
    */
-  async delete(jardinId: string): Promise<boolean> {
-    // Marquer comme inactif plutôt que supprimer
-    await this.prisma.jardin.update({
-      where: { id: jardinId },
-      data: {
-        zones: {
-          updateMany: {
-            where: { jardinId },
-            data: { estActive: false }
-          }
-        }
-      }
+  async archive(jardinId: string): Promise<Jardin | null> {
+    const { count } = await this.prisma.jardin.updateMany({
+      where: { id: jardinId, archiveA: null },
+      data: { archiveA: new Date() }
+    })
+    if (count === 0) return null
+
+    // Invalider le cache
+    await this.invalidateCache()
+    
+    return this.prisma.jardin.findUnique({ where: { id: jardinId } })
+  }
+
+  /**
+   * Restaure un jardin archivé ; null s'il n'est pas archivé
+   */
+  async restore(jardinId: string): Promise<Jardin | null> {
+    const { count } = await this.prisma.jardin.updateMany({
+      where: { id: jardinId, archiveA: { not: null } },
+      data: { archiveA: null }
     })
+    if (count === 0) return null
 
     // Invalider le cache
     await this.invalidateCache()
     
-    return true
+    return this.prisma.jardin.findUnique({ where: { id: jardinId } })
   }
 
   /**
@@ -223,7 +249,7 @@ export class JardinRepository extends BaseRepository<Jardin> {
       cacheKey,
       async () => {
         const jardins = await this.prisma.jardin.findMany({
-          where: { proprietaireId: userId },
+          where: { membres: { some: { utilisateurId: userId } }, archiveA: null },
           include: {
             zones: {
               include: {
@@ -314,7 +340,7 @@ export class JardinRepository extends BaseRepository<Jardin> {
         // Cette requête sera optimisée quand PostGIS sera ajouté
         const jardins = await this.prisma.$queryRaw`
           SELECT * FROM jardins j
-          WHERE (
+          WHERE j.archive_a IS NULL AND (
             6371 * acos(
               cos(radians(${latitude})) 
               * cos(radians(CAST(j.localisation->>'latitude' AS FLOAT))) 
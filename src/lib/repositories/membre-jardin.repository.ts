@@ -0,0 +1,276 @@
+import { Prisma, PrismaClient, MembreJardin, InvitationJardin, RoleJardin } from '@prisma/client'
+import { BaseRepository } from './base.repository'
+import { CacheService } from '../cache/cache.service'
+import { generateSecureToken, hashToken } from '../security'
+
+export interface MembreJardinWithUser extends MembreJardin {
+  utilisateur: {
+    id: string
+    name: string | null
+    prenom: string | null
+    nom: string | null
+    email: string | null
+    image: string | null
+  }
+}
+
+export interface CreateInvitationInput {
+  jardinId: string
+  email: string
+  role: RoleJardin
+  invitePar: string
+  dureeValiditeJours?: number
+}
+
+export type ResultatChangementMembre =
+  | { statut: 'effectue'; membre: MembreJardin }
+  | { statut: 'introuvable' }
+  | { statut: 'dernier_proprietaire' } // Le jardin doit toujours conserver au moins un propriétaire
+
+const DUREE_VALIDITE_INVITATION_JOURS = 7
+
+// Rang des rôles pour comparer deux rôles (plus petit = plus de droits)
+const ROLE_RANG: Record<RoleJardin, number> = {
+  PROPRIETAIRE: 0,
+  JARDINIER: 1,
+  OBSERVATEUR: 2
+}
+
+export class MembreJardinRepository extends BaseRepository<MembreJardin> {
+  constructor(prisma: PrismaClient, cache: CacheService) {
+    super(prisma, cache, 'membreJardin')
+  }
+
+  /**
+   * Liste les membres d'un jardin avec leur profil
+   */
+  async findByJardinId(jardinId: string, ttlSeconds: number = 300): Promise<MembreJardinWithUser[]> {
+    const cacheKey = this.getCacheKey('findByJardinId', { jardinId })
+
+    return this.getOrSetCache(
+      cacheKey,
+      async () => {
+        return await this.prisma.membreJardin.findMany({
+          where: { jardinId },
+          include: {
+            utilisateur: {
+              select: {
+                id: true,
+                name: true,
+                prenom: true,
+                nom: true,
+                email: true,
+                image: true
+              }
+            }
+          },
+          orderBy: [{ role: 'asc' }, { creeA: 'asc' }]
+        })
+      },
+      ttlSeconds
+    )
+  }
+
+  /**
+   * Rôle d'un utilisateur dans un jardin (sans cache : utilisé pour les contrôles d'accès)
+   */
+  async getRole(jardinId: string, userId: string): Promise<RoleJardin | null> {
+    const membre = await this.prisma.membreJardin.findUnique({
+      where: { jardinId_utilisateurId: { jardinId, utilisateurId: userId } },
+      select: { role: true }
+    })
+
+    return membre?.role ?? null
+  }
+
+  /**
+   * Compte les propriétaires d'un jardin (un jardin doit toujours en garder un)
+   */
+  async countProprietaires(jardinId: string): Promise<number> {
+    return this.prisma.membreJardin.count({
+      where: { jardinId, role: RoleJardin.PROPRIETAIRE }
+    })
+  }
+
+  /**
+   * Change le rôle d'un membre ; refusé s'il retire au jardin son dernier propriétaire
+   */
+  async updateRole(jardinId: string, membreId: string, role: RoleJardin): Promise<ResultatChangementMembre> {
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatChangementMembre> => {
+      const proprietaires = await this.lockProprietaires(tx, jardinId)
+      const membre = await tx.membreJardin.findFirst({
+        where: { id: membreId, jardinId }
+      })
+
+      if (!membre) return { statut: 'introuvable' }
+      if (membre.role === RoleJardin.PROPRIETAIRE && role !== RoleJardin.PROPRIETAIRE && proprietaires <= 1) {
+        return { statut: 'dernier_proprietaire' }
+      }
+
+      const updated = await tx.membreJardin.update({
+        where: { id: membreId },
+        data: { role }
+      })
+      return { statut: 'effectue', membre: updated }
+    })
+
+    if (resultat.statut === 'effectue') {
+      await this.invalidateMembership()
+    }
+
+    return resultat
+  }
+
+  /**
+   * Retire un membre du jardin ; refusé s'il en est le dernier propriétaire
+   */
+  async remove(jardinId: string, membreId: string): Promise<ResultatChangementMembre> {
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatChangementMembre> => {
+      const proprietaires = await this.lockProprietaires(tx, jardinId)
+      const membre = await tx.membreJardin.findFirst({
+        where: { id: membreId, jardinId }
+      })
+
+      if (!membre) return { statut: 'introuvable' }
+      if (membre.role === RoleJardin.PROPRIETAIRE && proprietaires <= 1) {
+        return { statut: 'dernier_proprietaire' }
+      }
+
+      await tx.membreJardin.delete({
+        where: { id: membreId }
+      })
+      return { statut: 'effectue', membre }
+    })
+
+    if (resultat.statut === 'effectue') {
+      await this.invalidateMembership()
+    }
+
+    return resultat
+  }
+
+  /**
+   * Verrouille les propriétaires du jardin et retourne leur nombre : deux retraits
+   * concurrents ne peuvent pas laisser le jardin sans propriétaire
+   */
+  private async lockProprietaires(tx: Prisma.TransactionClient, jardinId: string): Promise<number> {
+    const proprietaires = await tx.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "public"."membres_jardin"
+      WHERE "jardin_id" = ${jardinId} AND "role" = 'PROPRIETAIRE'
+      FOR UPDATE
+    `
+    return proprietaires.length
+  }
+
+  /**
+   * Crée une invitation et retourne le token en clair (seul le hash est stocké)
+   */
+  async createInvitation(data: CreateInvitationInput): Promise<{ invitation: InvitationJardin; token: string }> {
+    const token = generateSecureToken()
+    const dureeJours = data.dureeValiditeJours ?? DUREE_VALIDITE_INVITATION_JOURS
+
+    const invitation = await this.prisma.invitationJardin.create({
+      data: {
+        jardinId: data.jardinId,
+        email: data.email.toLowerCase(),
+        role: data.role,
+        tokenHash: hashToken(token),
+        invitePar: data.invitePar,
+        expireA: new Date(Date.now() + dureeJours * 24 * 60 * 60 * 1000)
+      }
+    })
+
+    return { invitation, token }
+  }
+
+  /**
+   * Invitations en attente (non acceptées, non expirées) d'un jardin
+   */
+  async findPendingInvitations(jardinId: string): Promise<InvitationJardin[]> {
+    return this.prisma.invitationJardin.findMany({
+      where: {
+        jardinId,
+        accepteeA: null,
+        expireA: { gt: new Date() }
+      },
+      orderBy: { creeA: 'desc' }
+    })
+  }
+
+  /**
+   * Révoque une invitation en attente
+   */
+  async revokeInvitation(jardinId: string, invitationId: string): Promise<boolean> {
+    const result = await this.prisma.invitationJardin.deleteMany({
+      where: { id: invitationId, jardinId, accepteeA: null }
+    })
+
+    return result.count > 0
+  }
+
+  /**
+   * Accepte une invitation pour l'utilisateur connecté
+   * L'email du compte doit correspondre à celui de l'invitation.
+   */
+  async acceptInvitation(
+    token: string,
+    userId: string,
+    email: string
+  ): Promise<MembreJardin | null> {
+    const invitation = await this.prisma.invitationJardin.findUnique({
+      where: { tokenHash: hashToken(token) }
+    })
+
+    if (
+      !invitation ||
+      invitation.accepteeA ||
+      invitation.expireA <= new Date() ||
+      invitation.email !== email.toLowerCase()
+    ) {
+      return null
+    }
+
+    const membre = await this.prisma.$transaction(async (tx) => {
+      await tx.invitationJardin.update({
+        where: { id: invitation.id },
+        data: { accepteeA: new Date() }
+      })
+
+      // Un membre existant conserve le rôle le plus élevé entre l'actuel et l'invitation
+      const existant = await tx.membreJardin.findUnique({
+        where: { jardinId_utilisateurId: { jardinId: invitation.jardinId, utilisateurId: userId } }
+      })
+
+      if (existant) {
+        if (ROLE_RANG[invitation.role] >= ROLE_RANG[existant.role]) {
+          return existant
+        }
+        return tx.membreJardin.update({
+          where: { id: existant.id },
+          data: { role: invitation.role }
+        })
+      }
+
+      return tx.membreJardin.create({
+        data: {
+          jardinId: invitation.jardinId,
+          utilisateurId: userId,
+          role: invitation.role,
+          ajoutePar: invitation.invitePar
+        }
+      })
+    })
+
+    await this.invalidateMembership()
+
+    return membre
+  }
+
+  /**
+   * Les changements d'appartenance modifient les listes de jardins de chaque membre
+   */
+  private async invalidateMembership(): Promise<void> {
+    await this.invalidateCache()
+    await this.cache.invalidatePattern('jardin:*')
+  }
+}
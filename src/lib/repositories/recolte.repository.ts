@@ -2,6 +2,7 @@
 import { PrismaClient, Recolte, DestinationUsage } from '@prisma/client'
 import { BaseRepository } from './base.repository'
 import { CacheService } from '../cache/cache.service'
+import { requestPerformanceRecompute } from '../jobs/performance.jobs'
 
 export interface RecolteWithDetails extends Recolte {
   instanceCulture?: {
@@ -351,6 +352,8 @@ export class RecolteRepository extends BaseRepository<Recolte> {
     await this.invalidateCache()
     await this.cache.invalidatePattern(`instanceCulture:*`)
     await this.cache.invalidatePattern(`zone:*`)
+
+    await this.recomputePerformance(recolte.instanceCultureId)
     
     return recolte
   }
@@ -359,6 +362,7 @@ export class RecolteRepository extends BaseRepository<Recolte> {
    * Met à jour une récolte
    */
   async update(id: string, data: Partial<CreateRecolteInput>): Promise<Recolte> {
+    const avant = await this.prisma.recolte.findUnique({ where: { id }, select: { instanceCultureId: true } })
     const recolte = await this.prisma.recolte.update({
       where: { id },
       data
@@ -366,10 +370,31 @@ export class RecolteRepository extends BaseRepository<Recolte> {
 
     // Invalider le cache
     await this.invalidateCache()
+
+    // Récolte rattachée à une autre culture : les deux variétés sont recalculées
+    await this.recomputePerformance(recolte.instanceCultureId)
+    if (avant?.instanceCultureId && avant.instanceCultureId !== recolte.instanceCultureId) {
+      await this.recomputePerformance(avant.instanceCultureId)
+    }
     
     return recolte
   }
 
+  /**
+   * Planifie le recalcul de la performance de la variété de la culture récoltée
+   */
+  private async recomputePerformance(instanceCultureId: string | null): Promise<void> {
+    if (!instanceCultureId) return
+
+    const culture = await this.prisma.instanceCulture.findUnique({
+      where: { id: instanceCultureId },
+      select: { varieteId: true }
+    })
+    if (culture) {
+      await requestPerformanceRecompute(culture.varieteId)
+    }
+  }
+
   /**
    * Enrichit une récolte avec des analytics calculés
    */
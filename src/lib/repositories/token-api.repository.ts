@@ -0,0 +1,86 @@
+import { PrismaClient, TokenApi, TypeRessource } from '@prisma/client'
+import { BaseRepository } from './base.repository'
+import { CacheService } from '../cache/cache.service'
+import { generateSecureToken, hashToken } from '../security'
+import { API_TOKEN_PREFIX } from '@/types/auth'
+
+export type TokenApiPublic = Omit<TokenApi, 'tokenHash'>
+
+export interface CreateTokenApiInput {
+  utilisateurId: string
+  nom: string
+  scopes: TypeRessource[]
+  expireA: Date
+}
+
+// Longueur du préfixe affiché pour reconnaître un token (ex: bm_pat_AbC1)
+const LONGUEUR_PREFIXE = API_TOKEN_PREFIX.length + 4
+
+const TOKEN_PUBLIC_SELECT = {
+  id: true,
+  utilisateurId: true,
+  nom: true,
+  prefixe: true,
+  scopes: true,
+  expireA: true,
+  dernierUsageA: true,
+  revoqueA: true,
+  creeA: true
+} as const
+
+export class TokenApiRepository extends BaseRepository<TokenApi> {
+  constructor(prisma: PrismaClient, cache: CacheService) {
+    super(prisma, cache, 'tokenApi')
+  }
+
+  /**
+   * Liste les tokens d'un utilisateur (sans cache : dernierUsageA change à chaque appel)
+   */
+  async findByUserId(userId: string): Promise<TokenApiPublic[]> {
+    return this.prisma.tokenApi.findMany({
+      where: { utilisateurId: userId },
+      select: TOKEN_PUBLIC_SELECT,
+      orderBy: { creeA: 'desc' }
+    })
+  }
+
+  /**
+   * Crée un token et retourne sa valeur en clair (affichée une seule fois)
+   */
+  async createToken(data: CreateTokenApiInput): Promise<{ tokenApi: TokenApiPublic; token: string }> {
+    const token = `${API_TOKEN_PREFIX}${generateSecureToken()}`
+
+    const tokenApi = await this.prisma.tokenApi.create({
+      data: {
+        utilisateurId: data.utilisateurId,
+        nom: data.nom,
+        prefixe: token.slice(0, LONGUEUR_PREFIXE),
+        tokenHash: hashToken(token),
+        scopes: data.scopes,
+        expireA: data.expireA
+      },
+      select: TOKEN_PUBLIC_SELECT
+    })
+
+    return { tokenApi, token }
+  }
+
+  /**
+   * Révoque un token de l'utilisateur (idempotent)
+   */
+  async revoke(userId: string, tokenId: string): Promise<TokenApiPublic | null> {
+    const tokenApi = await this.prisma.tokenApi.findFirst({
+      where: { id: tokenId, utilisateurId: userId },
+      select: TOKEN_PUBLIC_SELECT
+    })
+
+    if (!tokenApi) return null
+    if (tokenApi.revoqueA) return tokenApi
+
+    return this.prisma.tokenApi.update({
+      where: { id: tokenId },
+      data: { revoqueA: new Date() },
+      select: TOKEN_PUBLIC_SELECT
+    })
+  }
+}
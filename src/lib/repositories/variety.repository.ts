@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { PrismaClient, VarieteCulture, VarieteCultureUtilisateur, CategorieCulture } from '@prisma/client'
+import { PrismaClient, Prisma, VarieteCulture, VarieteCultureUtilisateur, CategorieCulture, StatutModeration } from '@prisma/client'
 import { BaseRepository } from './base.repository'
 import { CacheService } from '../cache/cache.service'
+import { normaliser, Surlignage, surligner, termesRecherche, versTsquery } from '../recherche-texte'
 
 // Types pour F2.1
 export interface VarietyWithUserData extends VarieteCulture {
@@ -15,6 +16,10 @@ export interface VarietyWithUserData extends VarieteCulture {
     performance?: PerformancePersonnelle
     userRating?: number
   }
+  _search?: {
+    score: number
+    surlignages: Surlignage[]
+  }
 }
 
 export interface PerformancePersonnelle {
@@ -22,6 +27,11 @@ export interface PerformancePersonnelle {
   tauxReussite: number
   rendementMoyenKg: number
   rendementMoyenKgM2: number
+  // Calculés à partir des récoltes réelles (calculPar AUTO)
+  joursAvantPremiereRecolte?: number
+  tauxGermination?: number // 0-1
+  qualiteMoyenne?: number // 1-5
+  saisons?: number[]
   meilleureRecolte?: {
     annee: number
     poids: number
@@ -46,6 +56,30 @@ export interface PerformancePersonnelle {
   calculPar: 'MANUEL' | 'AUTO'
 }
 
+/**
+ * Variétés visibles d'un utilisateur : le catalogue publié et ses propres contributions
+ */
+export function catalogueVisible(userId?: string): Prisma.VarieteCultureWhereInput {
+  return userId
+    ? { OR: [{ statutModeration: StatutModeration.APPROUVEE }, { creeParId: userId }] }
+    : { statutModeration: StatutModeration.APPROUVEE }
+}
+
+/**
+ * Performance d'une variété que l'utilisateur n'a pas encore cultivée
+ */
+export function createDefaultPerformance(): PerformancePersonnelle {
+  return {
+    nombreCultivations: 0,
+    tauxReussite: 0,
+    rendementMoyenKg: 0,
+    rendementMoyenKgM2: 0,
+    historique: [],
+    derniereMiseAJour: new Date().toISOString(),
+    calculPar: 'MANUEL'
+  }
+}
+
 export interface VarietySearchParams {
   userId?: string
   query?: string
@@ -68,8 +102,18 @@ export interface VarietySearchResult {
   totalCount: number
   filters: AvailableFilters
   recommendations?: PersonalizedRecommendation[]
+  suggestions?: string[] // « Vouliez-vous dire » quand la requête trouve peu de chose
+}
+
+interface ResultatTexte {
+  id: string
+  score: number
+  exacte: boolean // Correspondance plein texte, et non seulement par similarité
 }
 
+// En dessous de ce nombre de correspondances exactes, on propose des corrections
+const SEUIL_SUGGESTIONS = 3
+
 export interface AvailableFilters {
   categories: Array<{ value: CategorieCulture, label: string, count: number }>
   difficulties: Array<{ value: number, label: string, count: number }>
@@ -99,8 +143,13 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
     return this.getOrSetCache(
       cacheKey,
       async () => {
+        // Recherche plein texte : candidats classés par pertinence
+        const termes = params.query ? termesRecherche(params.query) : []
+        const resultatsTexte = params.query ? await this.searchFullText(termes, params.query) : null
+        const scores = new Map(resultatsTexte?.map(resultat => [resultat.id, resultat.score]))
+
         // Construire la requête WHERE
-        const where = this.buildSearchWhereClause(params)
+        const where = this.buildSearchWhereClause(params, resultatsTexte?.map(resultat => resultat.id))
         
         // Exécuter la recherche
         const varieties = await this.prisma.varieteCulture.findMany({
@@ -124,11 +173,31 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
             }
           },
           orderBy: this.buildOrderBy(params.sortBy) as any,
-          take: params.limit || 50
+          // Avec une requête, tous les candidats sont classés avant d'être limités
+          take: resultatsTexte ? undefined : params.limit || 50
         })
 
         // Enrichir avec données utilisateur
-        const enrichedVarieties = varieties.map(variety => this.enrichWithUserData(variety, params.userId))
+        let enrichedVarieties = varieties.map(variety => this.enrichWithUserData(variety, params.userId))
+
+        if (resultatsTexte) {
+          for (const variety of enrichedVarieties) {
+            variety._search = {
+              score: scores.get(variety.id) ?? 0,
+              surlignages: this.buildSurlignages(variety, termes)
+            }
+          }
+          // Sans tri explicite, les plus pertinentes d'abord
+          if (!params.sortBy) {
+            enrichedVarieties.sort((a, b) => b._search!.score - a._search!.score)
+          }
+          enrichedVarieties = enrichedVarieties.slice(0, params.limit || 50)
+        }
+
+        const exactes = resultatsTexte?.filter(resultat => resultat.exacte).length ?? 0
+        const suggestions = resultatsTexte && exactes < SEUIL_SUGGESTIONS
+          ? await this.suggestCorrections(termes, params.query!)
+          : undefined
 
         // Obtenir filtres disponibles
         const filters = await this.getAvailableFilters()
@@ -138,26 +207,122 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
           totalCount: varieties.length,
           filters,
           recommendations: params.includeRecommendations && params.userId ? 
-            await this.getPersonalizedRecommendations(params.userId) : undefined
+            await this.getPersonalizedRecommendations(params.userId) : undefined,
+          suggestions
         }
       },
       300 // 5 minutes de cache
     )
   }
 
+  /**
+   * Variétés correspondant à la requête, de la plus pertinente à la moins pertinente.
+   * Combine le classement plein texte (noms, famille, conseils, sans accents) et la
+   * similarité trigramme des noms, qui rattrape les fautes de frappe.
+   * Aucune limite ici : elle s'applique après les filtres de catégorie, difficulté, etc.
+   */
+  private async searchFullText(termes: string[], query: string): Promise<ResultatTexte[]> {
+    if (termes.length === 0) return []
+
+    const resultats = await this.prisma.$queryRaw<ResultatTexte[]>`
+      WITH requete AS (
+        SELECT to_tsquery('french', ${versTsquery(termes)}) AS tsq, normaliser_recherche(${query}) AS texte
+      )
+      SELECT
+        v.id,
+        v.document_recherche @@ requete.tsq AS exacte,
+        (
+          ts_rank_cd(v.document_recherche, requete.tsq, 32)
+          + greatest(
+            similarity(normaliser_recherche(v.nom_commun), requete.texte),
+            word_similarity(requete.texte, normaliser_recherche(v.nom_commun))
+          )
+        )::float AS score
+      FROM varietes_culture v, requete
+      WHERE v.document_recherche @@ requete.tsq
+        OR requete.texte <% normaliser_recherche(v.nom_commun)
+        OR requete.texte % normaliser_recherche(coalesce(v.nom_scientifique, ''))
+      ORDER BY score DESC, v.nom_commun
+    `
+
+    return resultats.map(resultat => ({ ...resultat, score: Number(resultat.score) }))
+  }
+
+  /**
+   * Requête corrigée (chaque terme remplacé par le mot du catalogue le plus proche)
+   * suivie des noms de variétés les plus proches
+   */
+  private async suggestCorrections(termes: string[], query: string): Promise<string[]> {
+    if (termes.length === 0) return []
+
+    const corrections = await this.prisma.$queryRaw<Array<{ terme: string; mot: string }>>`
+      WITH mots AS (
+        SELECT DISTINCT unnest(regexp_split_to_array(
+          normaliser_recherche(nom_commun || ' ' || coalesce(famille, '')),
+          '[^[:alnum:]]+'
+        )) AS mot
+        FROM varietes_culture
+        WHERE statut_moderation = 'APPROUVEE'
+      )
+      SELECT t.terme, proche.mot
+      FROM unnest(${termes}::text[]) AS t(terme)
+      CROSS JOIN LATERAL (
+        SELECT mot FROM mots
+        WHERE length(mot) >= 2 AND mot % t.terme
+        ORDER BY similarity(mot, t.terme) DESC, mot
+        LIMIT 1
+      ) proche
+    `
+
+    const noms = await this.prisma.$queryRaw<Array<{ nom: string }>>`
+      SELECT nom_commun AS nom
+      FROM varietes_culture
+      WHERE statut_moderation = 'APPROUVEE'
+        AND normaliser_recherche(nom_commun) % normaliser_recherche(${query})
+      ORDER BY similarity(normaliser_recherche(nom_commun), normaliser_recherche(${query})) DESC, nom_commun
+      LIMIT 3
+    `
+
+    const remplacements = new Map(corrections.map(correction => [correction.terme, correction.mot]))
+    const corrigee = termes.map(terme => remplacements.get(terme) ?? terme).join(' ')
+    const suggestions = corrigee !== termes.join(' ') ? [corrigee] : []
+
+    for (const { nom } of noms) {
+      if (normaliser(nom) !== normaliser(query) && !suggestions.includes(nom)) {
+        suggestions.push(nom)
+      }
+    }
+
+    return suggestions
+  }
+
+  /**
+   * Passages à surligner dans les champs couverts par la recherche
+   */
+  private buildSurlignages(variety: VarieteCulture, termes: string[]): Surlignage[] {
+    const conseils = (variety.infosCulture as any)?.conseilsCulture
+    const champs = [
+      surligner(variety.nomCommun, 'nomCommun', termes),
+      variety.nomScientifique ? surligner(variety.nomScientifique, 'nomScientifique', termes) : null,
+      variety.famille ? surligner(variety.famille, 'famille', termes) : null,
+      ...(Array.isArray(conseils)
+        ? conseils.filter((conseil): conseil is string => typeof conseil === 'string')
+          .map(conseil => surligner(conseil, 'conseilsCulture', termes))
+        : [])
+    ]
+
+    return champs.filter((surlignage): surlignage is Surlignage => surlignage !== null)
+  }
+
   /**
    * Construction de la clause WHERE pour la recherche
    */
-  private buildSearchWhereClause(params: VarietySearchParams) {
-    const where: any = {}
+  private buildSearchWhereClause(params: VarietySearchParams, idsTexte?: string[]) {
+    const where: any = { AND: [catalogueVisible(params.userId)] }
 
-    // Recherche textuelle
-    if (params.query) {
-      where.OR = [
-        { nomCommun: { contains: params.query, mode: 'insensitive' } },
-        { nomScientifique: { contains: params.query, mode: 'insensitive' } },
-        { famille: { contains: params.query, mode: 'insensitive' } }
-      ]
+    // Recherche textuelle : candidats retenus par la recherche plein texte
+    if (idsTexte) {
+      where.id = { in: idsTexte }
     }
 
     // Filtrer par catégories
@@ -255,14 +420,15 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
         // Compter par catégorie
         const categories = await this.prisma.varieteCulture.groupBy({
           by: ['categorie'],
-          _count: { categorie: true }
+          _count: { categorie: true },
+          where: catalogueVisible()
         })
 
         // Compter par famille
         const families = await this.prisma.varieteCulture.groupBy({
           by: ['famille'],
           _count: { famille: true },
-          where: { famille: { not: null } }
+          where: { ...catalogueVisible(), famille: { not: null } }
         })
 
         // Pour la difficulté, on doit utiliser une requête raw car c'est dans JSON
@@ -272,6 +438,7 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
             COUNT(*) as count
           FROM varietes_culture 
           WHERE infos_culture->>'niveauDifficulte' IS NOT NULL
+            AND statut_moderation = 'APPROUVEE'
           GROUP BY infos_culture->>'niveauDifficulte'
           ORDER BY niveau
         `
@@ -312,6 +479,7 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
 
     const popularVarieties = await this.prisma.varieteCulture.findMany({
       where: {
+        ...catalogueVisible(),
         id: { notIn: userVarietyIds }
       },
       include: {
@@ -359,15 +527,7 @@ export class VarietyRepository extends BaseRepository<VarieteCulture> {
     }
 
     // Performance par défaut
-    const defaultPerformance: PerformancePersonnelle = {
-      nombreCultivations: 0,
-      tauxReussite: 0,
-      rendementMoyenKg: 0,
-      rendementMoyenKgM2: 0,
-      historique: [],
-      derniereMiseAJour: new Date().toISOString(),
-      calculPar: 'MANUEL'
-    }
+    const defaultPerformance = createDefaultPerformance()
 
     const userVariety = await this.prisma.varieteCultureUtilisateur.upsert({
       where: {
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { PrismaClient, Zone, TypeZone, ExpositionSoleil, AccesEau } from '@prisma/client'
+import { Prisma, PrismaClient, Zone, TypeZone, ExpositionSoleil, AccesEau, InstanceCulture, EtapeCycleVie } from '@prisma/client'
 import { BaseRepository } from './base.repository'
 import { CacheService } from '../cache/cache.service'
+import { buildZoneGeometry, GeometrieZoneInput, Point, polygonsOverlap, readZonePolygon } from '../geometry'
+import { checkZoneCapacity, Occupation, occupationAt, peakOccupation, ResultatReservation } from '../occupation'
 
 export interface ZoneWithCultures extends Zone {
   instancesCulture: Array<{
@@ -26,11 +28,7 @@ export interface CreateZoneInput {
   nom: string
   jardinId: string
   typeZone: TypeZone
-  geometrie: {
-    type: string
-    coordonnees: number[] | number[][]
-    surfaceM2: number
-  }
+  geometrie: GeometrieZoneInput
   expositionSoleil: ExpositionSoleil
   accesEau: AccesEau
   qualiteSol: number
@@ -40,6 +38,74 @@ export interface UpdateZoneInput extends Partial<CreateZoneInput> {
   id: string
 }
 
+export type ResultatEnregistrementZone =
+  | { statut: 'enregistree'; zone: Zone }
+  | { statut: 'chevauchement'; zones: Array<{ id: string; nom: string }> }
+
+export interface OccupationCulture {
+  instanceCultureId: string
+  nom: string
+  nomVariete: string
+  etapeCycleVie: EtapeCycleVie
+  partSurface: number
+  surfaceM2: number
+  debut: Date
+  fin: Date | null
+}
+
+export interface OccupationZone {
+  zone: { id: string; nom: string; jardinId: string; surfaceM2: number }
+  partOccupee: number
+  partLibre: number
+  surfaceLibreM2: number
+  cultures: OccupationCulture[]
+}
+
+export interface ZoneDisponible extends Zone {
+  partLibre: number
+  surfaceLibreM2: number
+}
+
+export interface CriteresDisponibilite {
+  debut?: Date
+  fin?: Date | null // Par défaut : la journée qui suit le début
+  surfaceM2?: number
+}
+
+// Cultures avec la période et la part de zone qu'elles occupent
+const occupationSelect = {
+  id: true,
+  nom: true,
+  etapeCycleVie: true,
+  partSurface: true,
+  dateDebutOccupation: true,
+  dateFinOccupation: true,
+  variete: {
+    select: {
+      nomPersonnalise: true,
+      varieteBase: { select: { nomCommun: true } }
+    }
+  }
+} as const
+
+const surfaceZone = (zone: Pick<Zone, 'geometrie'>): number => (zone.geometrie as any)?.surfaceM2 || 0
+
+const toOccupation = (culture: {
+  partSurface: number
+  dateDebutOccupation: Date
+  dateFinOccupation: Date | null
+}): Occupation => ({
+  partSurface: culture.partSurface,
+  debut: culture.dateDebutOccupation,
+  fin: culture.dateFinOccupation
+})
+
+// Cultures dont la période d'occupation recouvre [debut, fin[
+const occupationWhere = (debut: Date, fin: Date | null) => ({
+  ...(fin && { dateDebutOccupation: { lt: fin } }),
+  OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: debut } }]
+})
+
 export class ZoneRepository extends BaseRepository<Zone> {
   constructor(prisma: PrismaClient, cache: CacheService) {
     super(prisma, cache, 'zone')
@@ -97,12 +163,9 @@ export class ZoneRepository extends BaseRepository<Zone> {
         // Calculer les statistiques
         const nombreCultures = zone.instancesCulture.length
         const nombreCulturesActives = zone.instancesCulture.filter(c => c.estActive).length
-        const geometrie = zone.geometrie as any
-        const surfaceM2 = geometrie.surfaceM2 || 1
         
-        // Estimer le taux d'occupation basé sur le nombre de cultures actives
-        // et la surface (approximation simple)
-        const tauxOccupation = Math.min((nombreCulturesActives * 2) / Math.max(surfaceM2 / 5, 1), 1) * 100
+        // Part de la surface occupée aujourd'hui
+        const tauxOccupation = Math.min(occupationAt(zone.instancesCulture.map(toOccupation), new Date()), 1) * 100
 
         const stats = {
           nombreCultures,
@@ -120,114 +183,301 @@ export class ZoneRepository extends BaseRepository<Zone> {
   }
 
   /**
-   * Trouve les zones disponibles pour nouvelle culture
+   * Trouve les zones ayant de la place libre sur toute une période.
+   * Sans surface demandée, toute place libre suffit. Non mis en cache : sert à réserver.
    */
-  async findAvailableZones(jardinId: string, ttlSeconds: number = 300): Promise<Zone[]> {
-    const cacheKey = this.getCacheKey('findAvailableZones', { jardinId })
-    
+  async findAvailableZones(jardinId: string, criteres: CriteresDisponibilite = {}): Promise<ZoneDisponible[]> {
+    const debut = criteres.debut ?? new Date()
+    const fin = criteres.fin === undefined
+      ? new Date(debut.getTime() + 24 * 60 * 60 * 1000)
+      : criteres.fin
+
+    const zones = await this.prisma.zone.findMany({
+      where: { jardinId, estActive: true },
+      include: {
+        instancesCulture: {
+          where: occupationWhere(debut, fin),
+          select: { partSurface: true, dateDebutOccupation: true, dateFinOccupation: true }
+        }
+      },
+      orderBy: { nom: 'asc' }
+    })
+
+    return zones.flatMap(({ instancesCulture, ...zone }) => {
+      const surfaceM2 = surfaceZone(zone)
+      const partLibre = Math.max(0, Math.round((1 - peakOccupation(instancesCulture.map(toOccupation), { debut, fin })) * 1000) / 1000)
+      const surfaceLibreM2 = Math.round(surfaceM2 * partLibre * 100) / 100
+
+      const suffisante = criteres.surfaceM2 !== undefined
+        ? surfaceLibreM2 >= criteres.surfaceM2
+        : partLibre > 0
+      return suffisante ? [{ ...zone, partLibre, surfaceLibreM2 }] : []
+    })
+  }
+
+  /**
+   * Ce qui occupe une zone à une date donnée
+   */
+  async getOccupation(zoneId: string, date: Date = new Date()): Promise<OccupationZone | null> {
+    const zone = await this.prisma.zone.findUnique({
+      where: { id: zoneId },
+      include: {
+        instancesCulture: {
+          where: {
+            dateDebutOccupation: { lte: date },
+            OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: date } }]
+          },
+          select: occupationSelect,
+          orderBy: { dateDebutOccupation: 'asc' }
+        }
+      }
+    })
+
+    if (!zone) return null
+
+    const surfaceM2 = surfaceZone(zone)
+    const cultures = zone.instancesCulture.map(culture => this.toOccupationCulture(culture, surfaceM2))
+    const partOccupee = occupationAt(cultures, date)
+    const partLibre = Math.max(0, Math.round((1 - partOccupee) * 1000) / 1000)
+
+    return {
+      zone: { id: zone.id, nom: zone.nom, jardinId: zone.jardinId, surfaceM2 },
+      partOccupee,
+      partLibre,
+      surfaceLibreM2: Math.round(surfaceM2 * partLibre * 100) / 100,
+      cultures
+    }
+  }
+
+  /**
+   * Frise des occupations d'une zone sur une période, avec le pic d'occupation
+   */
+  async getTimeline(
+    zoneId: string,
+    debut: Date,
+    fin: Date,
+    ttlSeconds: number = 300
+  ): Promise<{ zone: OccupationZone['zone']; occupations: OccupationCulture[]; pic: number } | null> {
+    const cacheKey = this.getCacheKey('getTimeline', { zoneId, debut: debut.toISOString(), fin: fin.toISOString() })
+
     return this.getOrSetCache(
       cacheKey,
       async () => {
-        return await this.prisma.zone.findMany({
-          where: {
-            jardinId,
-            estActive: true,
-            OR: [
-              { cultureActuelleId: null },
-              {
-                cultureActuelle: {
-                  etapeCycleVie: {
-                    in: ['TERMINE', 'RECOLTE']
-                  }
-                }
-              }
-            ]
-          },
+        const zone = await this.prisma.zone.findUnique({
+          where: { id: zoneId },
           include: {
-            cultureActuelle: {
-              select: {
-                id: true,
-                nom: true,
-                etapeCycleVie: true,
-                dateFinCycle: true
-              }
-            },
-            _count: {
-              select: {
-                instancesCulture: {
-                  where: { estActive: true }
-                }
-              }
+            instancesCulture: {
+              where: occupationWhere(debut, fin),
+              select: occupationSelect,
+              orderBy: { dateDebutOccupation: 'asc' }
             }
-          },
-          orderBy: { nom: 'asc' }
+          }
         })
+
+        if (!zone) return null
+
+        const surfaceM2 = surfaceZone(zone)
+        const occupations = zone.instancesCulture.map(culture => this.toOccupationCulture(culture, surfaceM2))
+
+        return {
+          zone: { id: zone.id, nom: zone.nom, jardinId: zone.jardinId, surfaceM2 },
+          occupations,
+          pic: peakOccupation(occupations, { debut, fin })
+        }
       },
       ttlSeconds
     )
   }
 
   /**
-   * Crée une nouvelle zone
+   * Crée une nouvelle zone, refusée si son contour chevauche une zone active du jardin
    */
-  async create(data: CreateZoneInput): Promise<Zone> {
-    const zone = await this.prisma.zone.create({
-      data
+  async create(data: CreateZoneInput): Promise<ResultatEnregistrementZone> {
+    const geometrie = buildZoneGeometry(data.geometrie)
+
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatEnregistrementZone> => {
+      await this.lockJardin(tx, data.jardinId)
+
+      const chevauchements = await this.findOverlappingZones(data.jardinId, geometrie.coordonnees, undefined, tx)
+      if (chevauchements.length > 0) return { statut: 'chevauchement', zones: chevauchements }
+
+      const zone = await tx.zone.create({
+        data: { ...data, geometrie }
+      })
+      return { statut: 'enregistree', zone }
     })
 
-    // Invalider le cache
-    await this.invalidateCache()
-    await this.cache.delete(`jardin:findByIdWithStats:jardinId:${data.jardinId}`)
-    
-    return zone
+    if (resultat.statut === 'enregistree') {
+      // Invalider le cache
+      await this.invalidateCache()
+      await this.cache.delete(`jardin:findByIdWithStats:jardinId:${data.jardinId}`)
+    }
+
+    return resultat
   }
 
   /**
-   * Met à jour une zone
+   * Met à jour une zone ; un nouveau contour est refusé s'il chevauche une autre zone active
    */
-  async update(data: UpdateZoneInput): Promise<Zone> {
-    const { id, ...updateData } = data
-    
-    const zone = await this.prisma.zone.update({
-      where: { id },
-      data: updateData
+  async update(data: UpdateZoneInput & { jardinId: string }): Promise<ResultatEnregistrementZone> {
+    const { id, jardinId, geometrie, ...updateData } = data
+    const nouvelleGeometrie = geometrie && buildZoneGeometry(geometrie)
+
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatEnregistrementZone> => {
+      if (nouvelleGeometrie) {
+        await this.lockJardin(tx, jardinId)
+
+        const chevauchements = await this.findOverlappingZones(jardinId, nouvelleGeometrie.coordonnees, id, tx)
+        if (chevauchements.length > 0) return { statut: 'chevauchement', zones: chevauchements }
+      }
+
+      const zone = await tx.zone.update({
+        where: { id, jardinId },
+        data: {
+          ...updateData,
+          ...(nouvelleGeometrie && { geometrie: nouvelleGeometrie })
+        }
+      })
+      return { statut: 'enregistree', zone }
     })
 
-    // Invalider le cache
-    await this.invalidateCache()
-    await this.cache.delete(`jardin:findByIdWithStats:jardinId:${zone.jardinId}`)
-    
-    return zone
+    if (resultat.statut === 'enregistree') {
+      // Invalider le cache
+      await this.invalidateCache()
+      await this.cache.delete(`jardin:findByIdWithStats:jardinId:${jardinId}`)
+    }
+
+    return resultat
   }
 
   /**
-   * Assigne une culture à une zone
+   * Applique un import de zones (créations et mises à jour) en une seule
+   * transaction : un échec en cours de route ne laisse aucune zone modifiée
    */
-  async assignCulture(zoneId: string, instanceCultureId: string): Promise<Zone> {
-    const zone = await this.prisma.zone.update({
-      where: { id: zoneId },
-      data: { cultureActuelleId: instanceCultureId }
+  async importZones(
+    jardinId: string,
+    zones: Array<Omit<CreateZoneInput, 'jardinId'> | UpdateZoneInput>
+  ): Promise<Zone[]> {
+    const enregistrees = await this.prisma.$transaction(async (tx) => {
+      const resultat: Zone[] = []
+      for (const zone of zones) {
+        if ('id' in zone) {
+          const { id, geometrie, ...updateData } = zone
+          resultat.push(await tx.zone.update({
+            where: { id, jardinId },
+            data: {
+              ...updateData,
+              ...(geometrie && { geometrie: buildZoneGeometry(geometrie) })
+            }
+          }))
+        } else {
+          resultat.push(await tx.zone.create({
+            data: { ...zone, jardinId, geometrie: buildZoneGeometry(zone.geometrie) }
+          }))
+        }
+      }
+      return resultat
     })
 
     // Invalider le cache
     await this.invalidateCache()
-    
-    return zone
+    await this.cache.delete(`jardin:findByIdWithStats:jardinId:${jardinId}`)
+
+    return enregistrees
   }
 
   /**
-   * Libère une zone (retire la culture actuelle)
+   * Zones actives du jardin dont le contour chevauche celui donné.
+   * Les anciennes zones sans contour exploitable sont ignorées.
    */
-  async releaseCulture(zoneId: string): Promise<Zone> {
-    const zone = await this.prisma.zone.update({
-      where: { id: zoneId },
-      data: { cultureActuelleId: null }
+  async findOverlappingZones(
+    jardinId: string,
+    coordonnees: Point[],
+    excludeZoneId?: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Array<{ id: string; nom: string }>> {
+    const zones = await client.zone.findMany({
+      where: {
+        jardinId,
+        estActive: true,
+        ...(excludeZoneId && { id: { not: excludeZoneId } })
+      },
+      select: { id: true, nom: true, geometrie: true }
+    })
+
+    return zones
+      .filter(zone => {
+        const contour = readZonePolygon(zone.geometrie)
+        return contour !== null && polygonsOverlap(contour, coordonnees)
+      })
+      .map(({ id, nom }) => ({ id, nom }))
+  }
+
+  /**
+   * Place une culture dans une zone pour une part de sa surface et une période.
+   * Refuse la réservation si la zone est déjà trop occupée sur cette période.
+   */
+  async assignCulture(
+    zoneId: string,
+    instanceCultureId: string,
+    occupation: Occupation
+  ): Promise<ResultatReservation<InstanceCulture>> {
+    const resultat = await this.prisma.$transaction(async (tx): Promise<ResultatReservation<InstanceCulture>> => {
+      const capacite = await checkZoneCapacity(tx, zoneId, occupation, instanceCultureId)
+      if (!capacite) return { statut: 'zone_introuvable' }
+      if (!capacite.disponible) {
+        return { statut: 'surreservation', partDisponible: capacite.partDisponible, conflits: capacite.conflits }
+      }
+
+      const culture = await tx.instanceCulture.update({
+        where: { id: instanceCultureId },
+        data: {
+          zoneId,
+          partSurface: occupation.partSurface,
+          dateDebutOccupation: occupation.debut,
+          dateFinOccupation: occupation.fin
+        }
+      })
+      return { statut: 'reservee', culture }
+    })
+
+    if (resultat.statut === 'reservee') {
+      // Invalider le cache
+      await this.invalidateCache()
+      await this.invalidateCache('instanceCulture:*')
+    }
+
+    return resultat
+  }
+
+  /**
+   * Libère la place occupée par une culture à partir d'une date.
+   * Retourne null si la culture n'occupe pas cette zone.
+   */
+  async releaseCulture(
+    zoneId: string,
+    instanceCultureId: string,
+    date: Date = new Date()
+  ): Promise<InstanceCulture | null> {
+    const culture = await this.prisma.instanceCulture.findFirst({
+      where: { id: instanceCultureId, zoneId }
+    })
+    if (!culture) return null
+
+    // Une occupation qui n'a pas commencé est ramenée à une période vide
+    const fin = date < culture.dateDebutOccupation ? culture.dateDebutOccupation : date
+    if (culture.dateFinOccupation && culture.dateFinOccupation <= fin) return culture
+
+    const liberee = await this.prisma.instanceCulture.update({
+      where: { id: instanceCultureId },
+      data: { dateFinOccupation: fin }
     })
 
     // Invalider le cache
     await this.invalidateCache()
+    await this.invalidateCache('instanceCulture:*')
     
-    return zone
+    return liberee
   }
 
   /**
@@ -251,21 +501,28 @@ export class ZoneRepository extends BaseRepository<Zone> {
     return this.getOrSetCache(
       cacheKey,
       async () => {
+        const maintenant = new Date()
         const zones = await this.prisma.zone.findMany({
           where: { jardinId },
           include: {
             instancesCulture: {
-              where: { estActive: true },
-              select: { id: true }
+              where: {
+                dateDebutOccupation: { lte: maintenant },
+                OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: maintenant } }]
+              },
+              select: { partSurface: true, dateDebutOccupation: true, dateFinOccupation: true }
             }
           }
         })
+        const partsOccupees = new Map(
+          zones.map(zone => [zone.id, Math.min(occupationAt(zone.instancesCulture.map(toOccupation), maintenant), 1)])
+        )
 
         const stats = {
           totalZones: zones.length,
           zonesActives: zones.filter(z => z.estActive).length,
-          zonesOccupees: zones.filter(z => z.cultureActuelleId !== null).length,
-          zonesLibres: zones.filter(z => z.estActive && z.cultureActuelleId === null).length,
+          zonesOccupees: zones.filter(z => partsOccupees.get(z.id)! > 0).length,
+          zonesLibres: zones.filter(z => z.estActive && partsOccupees.get(z.id) === 0).length,
           surfaceTotaleM2: 0,
           surfaceOccupeeM2: 0,
           tauxOccupationGlobal: 0,
@@ -273,14 +530,10 @@ export class ZoneRepository extends BaseRepository<Zone> {
         }
 
         zones.forEach(zone => {
-          const geometrie = zone.geometrie as any
-          const surfaceM2 = geometrie.surfaceM2 || 0
+          const surfaceM2 = surfaceZone(zone)
           
           stats.surfaceTotaleM2 += surfaceM2
-          
-          if (zone.cultureActuelleId) {
-            stats.surfaceOccupeeM2 += surfaceM2
-          }
+          stats.surfaceOccupeeM2 += surfaceM2 * partsOccupees.get(zone.id)!
           
           // Compter par type
           const typeZone = zone.typeZone
@@ -337,55 +590,155 @@ export class ZoneRepository extends BaseRepository<Zone> {
           whereClause.qualiteSol = { gte: filters.qualiteSolMin }
         }
 
-        if (filters.estDisponible === true) {
-          whereClause.OR = [
-            { cultureActuelleId: null },
-            {
-              cultureActuelle: {
-                etapeCycleVie: {
-                  in: ['TERMINE', 'RECOLTE']
-                }
-              }
-            }
-          ]
-        }
-
-        return await this.prisma.zone.findMany({
+        const zones = await this.prisma.zone.findMany({
           where: whereClause,
-          include: {
-            cultureActuelle: {
-              select: {
-                id: true,
-                nom: true,
-                etapeCycleVie: true
-              }
-            }
-          },
           orderBy: [
             { qualiteSol: 'desc' },
             { nom: 'asc' }
           ]
         })
+
+        if (filters.estDisponible !== true) return zones
+
+        // Disponible : il reste de la place aujourd'hui
+        const disponibles = new Set(
+          (await this.findAvailableZones(jardinId)).map(zone => zone.id)
+        )
+        return zones.filter(zone => disponibles.has(zone.id))
+      },
+      ttlSeconds
+    )
+  }
+
+  /**
+   * Zones archivées d'un jardin, les plus récemment archivées d'abord
+   */
+  async findArchivedByJardinId(jardinId: string, ttlSeconds: number = 300): Promise<Zone[]> {
+    const cacheKey = this.getCacheKey('findArchivedByJardinId', { jardinId })
+    
+    return this.getOrSetCache(
+      cacheKey,
+      async () => {
+        return await this.prisma.zone.findMany({
+          where: { jardinId, estActive: false },
+          orderBy: { archiveA: 'desc' }
+        })
       },
       ttlSeconds
     )
   }
 
   /**
-   * Désactive une zone (soft delete)
+   * Archive une zone (soft delete) : masquée des listes, historique conservé.
+   * Retourne null si la zone n'existe pas ou est déjà archivée.
    */
-  async deactivate(zoneId: string): Promise<Zone> {
-    const zone = await this.prisma.zone.update({
-      where: { id: zoneId },
-      data: { 
-        estActive: false,
-        cultureActuelleId: null
-      }
+  async deactivate(zoneId: string): Promise<Zone | null> {
+    const maintenant = new Date()
+    const zone = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.zone.updateMany({
+        where: { id: zoneId, estActive: true },
+        data: { estActive: false, archiveA: maintenant }
+      })
+      if (count === 0) return null
+
+      // Les occupations en cours s'arrêtent, celles à venir sont annulées
+      await tx.instanceCulture.updateMany({
+        where: { zoneId, dateDebutOccupation: { lte: maintenant }, ...occupationWhere(maintenant, null) },
+        data: { dateFinOccupation: maintenant }
+      })
+      await tx.$executeRaw`
+        UPDATE "public"."instances_culture"
+        SET "date_fin_occupation" = "date_debut_occupation"
+        WHERE "zone_id" = ${zoneId} AND "date_debut_occupation" > ${maintenant}
+      `
+
+      return tx.zone.findUnique({ where: { id: zoneId } })
     })
 
-    // Invalider le cache
-    await this.invalidateCache()
+    if (zone) {
+      // Invalider le cache
+      await this.invalidateCache()
+      await this.invalidateCache('instanceCulture:*')
+      await this.cache.delete(`jardin:findByIdWithStats:jardinId:${zone.jardinId}`)
+    }
     
     return zone
   }
+
+  /**
+   * Restaure une zone archivée, si son contour ne chevauche pas une zone active
+   * et que son jardin n'est pas lui-même archivé. Les occupations closes le restent.
+   */
+  async restore(zoneId: string): Promise<
+    | { statut: 'restauree'; zone: Zone }
+    | { statut: 'chevauchement'; zones: Array<{ id: string; nom: string }> }
+    | { statut: 'jardin_archive' }
+    | null
+  > {
+    const zone = await this.prisma.zone.findUnique({
+      where: { id: zoneId },
+      include: { jardin: { select: { archiveA: true } } }
+    })
+    if (!zone || zone.estActive) return null
+    if (zone.jardin.archiveA) return { statut: 'jardin_archive' }
+
+    const contour = readZonePolygon(zone.geometrie)
+
+    const resultat = await this.prisma.$transaction(async (tx) => {
+      await this.lockJardin(tx, zone.jardinId)
+
+      if (contour) {
+        const chevauchements = await this.findOverlappingZones(zone.jardinId, contour, zone.id, tx)
+        if (chevauchements.length > 0) return { statut: 'chevauchement' as const, zones: chevauchements }
+      }
+
+      const restauree = await tx.zone.update({
+        where: { id: zoneId },
+        data: { estActive: true, archiveA: null }
+      })
+      return { statut: 'restauree' as const, zone: restauree }
+    })
+
+    if (resultat.statut === 'restauree') {
+      // Invalider le cache
+      await this.invalidateCache()
+      await this.cache.delete(`jardin:findByIdWithStats:jardinId:${zone.jardinId}`)
+    }
+
+    return resultat
+  }
+
+  /**
+   * Verrou sur le jardin : deux écritures de contour concurrentes ne vérifient
+   * pas les chevauchements sur le même état des zones
+   */
+  private async lockJardin(tx: Prisma.TransactionClient, jardinId: string): Promise<void> {
+    await tx.$queryRaw`
+      SELECT "id" FROM "public"."jardins" WHERE "id" = ${jardinId} FOR UPDATE
+    `
+  }
+
+  private toOccupationCulture(
+    culture: {
+      id: string
+      nom: string
+      etapeCycleVie: EtapeCycleVie
+      partSurface: number
+      dateDebutOccupation: Date
+      dateFinOccupation: Date | null
+      variete: { nomPersonnalise: string | null; varieteBase: { nomCommun: string } }
+    },
+    surfaceZoneM2: number
+  ): OccupationCulture {
+    return {
+      instanceCultureId: culture.id,
+      nom: culture.nom,
+      nomVariete: culture.variete.nomPersonnalise ?? culture.variete.varieteBase.nomCommun,
+      etapeCycleVie: culture.etapeCycleVie,
+      partSurface: culture.partSurface,
+      surfaceM2: Math.round(surfaceZoneM2 * culture.partSurface * 100) / 100,
+      debut: culture.dateDebutOccupation,
+      fin: culture.dateFinOccupation
+    }
+  }
 }
\ No newline at end of file
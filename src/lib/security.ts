@@ -1,6 +1,7 @@
 import bcrypt from 'bcryptjs';
-import { Permission, DEFAULT_PERMISSIONS } from '@/types/auth';
-import { TypeProfil, TypeRessource } from '@prisma/client';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { Permission, DEFAULT_PERMISSIONS, ROLE_JARDIN_PERMISSIONS, API_TOKEN_PREFIX, RequestIdentity } from '@/types/auth';
+import { TypeActivite, TypeAppareil, TypeProfil, TypeRessource } from '@prisma/client';
 import { prisma } from './db';
 
 /**
@@ -21,26 +22,121 @@ export async function verifyPassword(
   return bcrypt.compare(password, hash);
 }
 
+/**
+ * Génère un token aléatoire (à transmettre une seule fois à l'utilisateur)
+ */
+export function generateSecureToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hache un token pour stockage en base (SHA-256, comparaison par égalité)
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Clé AES-256 dérivée du secret NextAuth pour chiffrer les secrets au repos
+function getEncryptionKey(): Buffer {
+  return createHash('sha256').update(process.env.NEXTAUTH_SECRET || '').digest();
+}
+
+/**
+ * Chiffre un secret (AES-256-GCM) : iv.tag.données en base64url
+ */
+export function encryptSecret(plain: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64url')).join('.');
+}
+
+/**
+ * Déchiffre un secret produit par encryptSecret
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, tag, data] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Authentifie un token d'accès personnel
+ * Retourne null si le token est inconnu, révoqué ou expiré.
+ */
+export async function authenticateApiToken(rawToken: string): Promise<RequestIdentity | null> {
+  if (!rawToken.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const tokenApi = await prisma.tokenApi.findUnique({
+    where: { tokenHash: hashToken(rawToken) },
+    include: { utilisateur: { select: { typeProfil: true } } }
+  });
+
+  if (!tokenApi || tokenApi.revoqueA || tokenApi.expireA <= new Date()) {
+    return null;
+  }
+
+  await prisma.tokenApi.update({
+    where: { id: tokenApi.id },
+    data: { dernierUsageA: new Date() }
+  });
+
+  return {
+    userId: tokenApi.utilisateurId,
+    typeProfil: tokenApi.utilisateur.typeProfil,
+    apiToken: {
+      id: tokenApi.id,
+      scopes: tokenApi.scopes
+    }
+  };
+}
+
 /**
  * Récupère les permissions d'un utilisateur pour une ressource
+ *
+ * Avec un jardinId, les permissions de base viennent du rôle de membre
+ * dans ce jardin et non du profil : un READER peut être PROPRIETAIRE d'un
+ * jardin partagé. Un non-membre n'a aucune permission sur le jardin.
  */
 export async function getUserPermissions(
   userId: string, 
   typeProfil: TypeProfil,
-  resource?: TypeRessource
+  resource?: TypeRessource,
+  jardinId?: string
 ): Promise<Permission[]> {
-  // Permissions par défaut basées sur le profil
-  const defaultPerms = DEFAULT_PERMISSIONS[typeProfil];
+  let defaultPerms: Permission[];
+
+  if (jardinId) {
+    const membre = await prisma.membreJardin.findUnique({
+      where: { jardinId_utilisateurId: { jardinId, utilisateurId: userId } },
+      select: { role: true }
+    });
+
+    if (!membre) {
+      return [];
+    }
+
+    defaultPerms = ROLE_JARDIN_PERMISSIONS[membre.role];
+  } else {
+    // Permissions par défaut basées sur le profil
+    defaultPerms = DEFAULT_PERMISSIONS[typeProfil];
+  }
   
   if (!resource) {
     return defaultPerms;
   }
 
-  // Récupération des permissions spécifiques en DB
+  // Récupération des permissions spécifiques en DB (globales ou limitées au jardin)
   const customPerms = await prisma.permissionUtilisateur.findMany({
     where: {
       utilisateurId: userId,
       typeRessource: resource,
+      jardinId: jardinId ?? null,
       OR: [
         { expireA: null },
         { expireA: { gt: new Date() } }
@@ -67,12 +163,151 @@ export async function checkPermission(
   userId: string,
   typeProfil: TypeProfil,
   resource: TypeRessource,
-  permission: Permission
+  permission: Permission,
+  jardinId?: string
 ): Promise<boolean> {
-  const userPermissions = await getUserPermissions(userId, typeProfil, resource);
+  const userPermissions = await getUserPermissions(userId, typeProfil, resource, jardinId);
   return userPermissions.includes(permission);
 }
 
+/**
+ * Indique si l'utilisateur détient la permission ADMIN : par son profil, par une
+ * permission globale accordée, et avec un jardinId par son rôle ou une permission
+ * dans ce jardin (un propriétaire administre son jardin)
+ */
+export async function holdsAdminPermission(
+  userId: string,
+  typeProfil: TypeProfil,
+  jardinId?: string
+): Promise<boolean> {
+  if (DEFAULT_PERMISSIONS[typeProfil].includes(Permission.ADMIN)) {
+    return true;
+  }
+
+  if (jardinId) {
+    const membre = await prisma.membreJardin.findUnique({
+      where: { jardinId_utilisateurId: { jardinId, utilisateurId: userId } },
+      select: { role: true }
+    });
+
+    if (membre && ROLE_JARDIN_PERMISSIONS[membre.role].includes(Permission.ADMIN)) {
+      return true;
+    }
+  }
+
+  // Permission globale, ou limitée au jardin vérifié
+  const adminGrant = await prisma.permissionUtilisateur.findFirst({
+    where: {
+      utilisateurId: userId,
+      permissions: { has: Permission.ADMIN },
+      AND: [
+        { OR: [{ jardinId: null }, ...(jardinId ? [{ jardinId }] : [])] },
+        { OR: [{ expireA: null }, { expireA: { gt: new Date() } }] }
+      ]
+    },
+    select: { id: true }
+  });
+
+  return adminGrant !== null;
+}
+
+/**
+ * Jardins administrés par l'utilisateur : rôle de membre portant ADMIN
+ * ou permission ADMIN accordée dans le jardin (hors permissions globales)
+ */
+export async function getAdministeredJardinIds(userId: string): Promise<string[]> {
+  const rolesAdmin = (Object.keys(ROLE_JARDIN_PERMISSIONS) as (keyof typeof ROLE_JARDIN_PERMISSIONS)[])
+    .filter(role => ROLE_JARDIN_PERMISSIONS[role].includes(Permission.ADMIN));
+
+  const [membres, grants] = await Promise.all([
+    prisma.membreJardin.findMany({
+      where: { utilisateurId: userId, role: { in: rolesAdmin } },
+      select: { jardinId: true }
+    }),
+    prisma.permissionUtilisateur.findMany({
+      where: {
+        utilisateurId: userId,
+        jardinId: { not: null },
+        permissions: { has: Permission.ADMIN },
+        OR: [{ expireA: null }, { expireA: { gt: new Date() } }]
+      },
+      select: { jardinId: true }
+    })
+  ]);
+
+  return Array.from(new Set([
+    ...membres.map(membre => membre.jardinId),
+    ...grants.map(grant => grant.jardinId!)
+  ]));
+}
+
+/**
+ * La 2FA est obligatoire pour les détenteurs de ADMIN : tant qu'elle n'est pas
+ * activée, la session est marquée et les actions d'administration sont refusées.
+ * Avec un jardinId, l'ADMIN tenu dans ce jardin compte aussi.
+ */
+export async function isTwoFactorEnrolmentRequired(
+  userId: string,
+  typeProfil: TypeProfil,
+  jardinId?: string
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpActiveA: true }
+  });
+
+  return !user?.totpActiveA && await holdsAdminPermission(userId, typeProfil, jardinId);
+}
+
+/**
+ * La 2FA est-elle obligatoire pour ce compte, quel que soit le jardin ?
+ * Même définition que isTwoFactorEnrolmentRequired : ADMIN par le profil ou une
+ * permission globale, ou ADMIN tenu dans au moins un jardin (rôle ou permission).
+ */
+export async function isTwoFactorMandatory(userId: string, typeProfil: TypeProfil): Promise<boolean> {
+  if (await holdsAdminPermission(userId, typeProfil)) {
+    return true;
+  }
+
+  return (await getAdministeredJardinIds(userId)).length > 0;
+}
+
+/**
+ * Vérifie l'accès d'un utilisateur à un jardin partagé
+ * Retourne 404 si l'utilisateur n'est pas membre (le jardin reste invisible),
+ * 403 s'il est membre sans la permission demandée, null si l'accès est accordé.
+ */
+export async function checkJardinAccess(
+  userId: string,
+  typeProfil: TypeProfil,
+  jardinId: string,
+  permission: Permission
+): Promise<{ status: 403 | 404; error: string } | null> {
+  const permissions = await getUserPermissions(userId, typeProfil, TypeRessource.JARDIN, jardinId);
+
+  if (permissions.length === 0) {
+    return { status: 404, error: 'Jardin non trouvé' };
+  }
+
+  if (!permissions.includes(permission)) {
+    return { status: 403, error: `Permission ${permission} requise sur ce jardin` };
+  }
+
+  if (permission === Permission.ADMIN && await isTwoFactorEnrolmentRequired(userId, typeProfil, jardinId)) {
+    return { status: 403, error: 'Double authentification requise pour cette action' };
+  }
+
+  // Un jardin archivé reste consultable mais ne se modifie plus avant restauration
+  if (permission === Permission.ECRITURE || permission === Permission.SUPPRESSION) {
+    const jardin = await prisma.jardin.findUnique({ where: { id: jardinId }, select: { archiveA: true } });
+    if (jardin?.archiveA) {
+      return { status: 403, error: 'Jardin archivé : restaurez-le pour le modifier' };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Vérifie si un utilisateur peut accéder à une page
  */
@@ -100,14 +335,21 @@ export async function logActivity(data: {
   action: string;
   timestamp: Date;
   metadata?: Record<string, unknown>;
+  typeActivite?: TypeActivite;
+  typeEntite?: string;
+  idEntite?: string;
+  typeAppareil?: TypeAppareil;
 }): Promise<void> {
   try {
     await prisma.activiteUtilisateur.create({
       data: {
         utilisateurId: data.userId,
-        typeActivite: determineActivityType(data.action),
+        typeActivite: data.typeActivite ?? determineActivityType(data.action),
+        typeEntite: data.typeEntite,
+        idEntite: data.idEntite,
+        typeAppareil: data.typeAppareil,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        metadonneesActivite: data.metadata as any || {},
+        metadonneesActivite: { action: data.action, ...data.metadata } as any,
         creeA: data.timestamp
       }
     });
@@ -116,6 +358,16 @@ export async function logActivity(data: {
   }
 }
 
+/**
+ * Déduit le type d'appareil depuis le User-Agent (les TV avant les mobiles : certaines s'annoncent Android)
+ */
+export function detectTypeAppareil(userAgent: string | null): TypeAppareil | undefined {
+  if (!userAgent) return undefined;
+  if (/smart-?tv|tizen|webos|hbbtv|appletv|googletv|bravia|crkey/i.test(userAgent)) return TypeAppareil.TV;
+  if (/mobile|android|iphone|ipad|ipod/i.test(userAgent)) return TypeAppareil.MOBILE;
+  return TypeAppareil.DESKTOP;
+}
+
 function determineActivityType(action: string) {
   if (action.includes('POST')) return 'CREATION';
   if (action.includes('PUT') || action.includes('PATCH')) return 'MISE_A_JOUR';
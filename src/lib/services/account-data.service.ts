@@ -0,0 +1,654 @@
+/**
+ * Export des données personnelles et suppression de compte
+ *
+ * L'export produit une archive ZIP (JSON + CSV par modèle, photos référencées).
+ * La suppression est différée d'un délai de grâce, puis le compte est anonymisé :
+ * la ligne User subsiste sans données personnelles pour conserver le journal d'audit
+ * et les saisies faites dans des jardins partagés, le reste est supprimé.
+ */
+
+import { promises as fs } from 'fs'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import path from 'path'
+import JSZip from 'jszip'
+import { ExportDonnees, Prisma, PrismaClient, RoleJardin, StatutExport, StatutModeration, TypeActivite } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { getAppBaseUrl } from '../config/app-url'
+import { toCsv, CsvValue } from '../csv'
+import { logActivity, verifyPassword } from '../security'
+import { ArchiveService } from './archive.service'
+import { getMailService, MailService } from './mail.service'
+
+export const DELAI_SUPPRESSION_JOURS = 30
+const EXPORT_VALIDITE_JOURS = 7
+const PHOTO_TAILLE_MAX_OCTETS = 20 * 1024 * 1024
+const PHOTO_TIMEOUT_MS = 10000
+
+// Hôtes externes dont les photos peuvent être téléchargées (ex. un CDN), séparés par des virgules
+const PHOTO_HOTES_AUTORISES = (process.env.PHOTO_HOTES_AUTORISES ?? '')
+  .split(',')
+  .map(hote => hote.trim().toLowerCase())
+  .filter(Boolean)
+
+// Adresses jamais contactées : boucle locale, réseaux privés, lien local (métadonnées cloud)
+const ADRESSES_INTERDITES = new BlockList()
+for (const [reseau, prefixe] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4]] as const) {
+  ADRESSES_INTERDITES.addSubnet(reseau, prefixe, 'ipv4')
+}
+for (const [reseau, prefixe] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  ADRESSES_INTERDITES.addSubnet(reseau, prefixe, 'ipv6')
+}
+
+type Enregistrement = Record<string, unknown>
+
+// Le chemin du fichier sur le serveur n'est jamais exposé
+const EXPORT_PUBLIC_SELECT = {
+  id: true,
+  statut: true,
+  tailleOctets: true,
+  erreur: true,
+  expireA: true,
+  creeA: true,
+  termineA: true
+} satisfies Prisma.ExportDonneesSelect
+
+export type ExportDonneesPublic = Prisma.ExportDonneesGetPayload<{ select: typeof EXPORT_PUBLIC_SELECT }>
+
+export class AccountDataService {
+  constructor(
+    private prisma: PrismaClient = defaultPrisma,
+    private mail: MailService = getMailService()
+  ) {}
+
+  static getExportDirectory(): string {
+    return process.env.EXPORT_DIR || path.join(process.cwd(), 'storage', 'exports')
+  }
+
+  async listExports(userId: string): Promise<ExportDonneesPublic[]> {
+    return this.prisma.exportDonnees.findMany({
+      where: { utilisateurId: userId },
+      select: EXPORT_PUBLIC_SELECT,
+      orderBy: { creeA: 'desc' }
+    })
+  }
+
+  async findExport(userId: string, exportId: string): Promise<ExportDonnees | null> {
+    return this.prisma.exportDonnees.findFirst({
+      where: { id: exportId, utilisateurId: userId }
+    })
+  }
+
+  /**
+   * Crée une demande d'export (l'archive est construite par le worker)
+   * Retourne null si un export est déjà en attente ou en cours.
+   */
+  async requestExport(userId: string): Promise<ExportDonneesPublic | null> {
+    const enCours = await this.prisma.exportDonnees.count({
+      where: {
+        utilisateurId: userId,
+        statut: { in: [StatutExport.EN_ATTENTE, StatutExport.EN_COURS] }
+      }
+    })
+
+    if (enCours > 0) return null
+
+    return this.prisma.exportDonnees.create({
+      data: { utilisateurId: userId },
+      select: EXPORT_PUBLIC_SELECT
+    })
+  }
+
+  /**
+   * Construit l'archive ZIP d'un export et la dépose dans EXPORT_DIR
+   */
+  async buildExport(exportId: string): Promise<void> {
+    const demande = await this.prisma.exportDonnees.update({
+      where: { id: exportId },
+      data: { statut: StatutExport.EN_COURS, erreur: null }
+    })
+
+    try {
+      const donnees = await this.collectUserData(demande.utilisateurId)
+      const zip = new JSZip()
+
+      for (const [nom, enregistrements] of Object.entries(donnees)) {
+        zip.file(`json/${nom}.json`, JSON.stringify(enregistrements, null, 2))
+        if (enregistrements.length > 0) {
+          zip.file(`csv/${nom}.csv`, this.toCsvDocument(enregistrements))
+        }
+      }
+
+      const photos = await this.addPhotos(zip, donnees)
+
+      zip.file('manifest.json', JSON.stringify({
+        utilisateurId: demande.utilisateurId,
+        genereA: new Date().toISOString(),
+        fichiers: Object.fromEntries(Object.entries(donnees).map(([nom, lignes]) => [nom, lignes.length])),
+        photos
+      }, null, 2))
+
+      const contenu = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+      const dossier = AccountDataService.getExportDirectory()
+      const cheminFichier = path.join(dossier, `${exportId}.zip`)
+
+      await fs.mkdir(dossier, { recursive: true })
+      await fs.writeFile(cheminFichier, contenu)
+
+      await this.prisma.exportDonnees.update({
+        where: { id: exportId },
+        data: {
+          statut: StatutExport.TERMINE,
+          cheminFichier,
+          tailleOctets: contenu.length,
+          termineA: new Date(),
+          expireA: new Date(Date.now() + EXPORT_VALIDITE_JOURS * 24 * 60 * 60 * 1000)
+        }
+      })
+
+      await logActivity({
+        userId: demande.utilisateurId,
+        action: 'EXPORT donnees_personnelles',
+        timestamp: new Date(),
+        typeActivite: TypeActivite.EXPORT,
+        typeEntite: 'ExportDonnees',
+        idEntite: exportId,
+        metadata: { tailleOctets: contenu.length, photos: photos.incluses }
+      })
+    } catch (error) {
+      await this.prisma.exportDonnees.update({
+        where: { id: exportId },
+        data: {
+          statut: StatutExport.ECHEC,
+          erreur: error instanceof Error ? error.message : String(error),
+          termineA: new Date()
+        }
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Supprime les archives expirées (fichier et demande)
+   */
+  async purgeExpiredExports(): Promise<number> {
+    const expires = await this.prisma.exportDonnees.findMany({
+      where: { expireA: { lt: new Date() } }
+    })
+
+    for (const demande of expires) {
+      if (demande.cheminFichier) {
+        await fs.rm(demande.cheminFichier, { force: true })
+      }
+    }
+
+    const { count } = await this.prisma.exportDonnees.deleteMany({
+      where: { id: { in: expires.map(demande => demande.id) } }
+    })
+
+    return count
+  }
+
+  async getDeletionStatus(userId: string): Promise<{
+    suppressionDemandeeA: Date | null
+    suppressionPrevueA: Date | null
+    motDePasseRequis: boolean
+  }> {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { suppressionDemandeeA: true, suppressionPrevueA: true, passwordHash: true }
+    })
+
+    return {
+      suppressionDemandeeA: user.suppressionDemandeeA,
+      suppressionPrevueA: user.suppressionPrevueA,
+      motDePasseRequis: !!user.passwordHash
+    }
+  }
+
+  /**
+   * Vérifie le mot de passe avant une suppression (toujours vrai pour un compte OAuth)
+   */
+  async confirmIdentity(userId: string, password?: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) return false
+    if (!user.passwordHash) return true
+    if (!password) return false
+
+    return verifyPassword(password, user.passwordHash)
+  }
+
+  /**
+   * Planifie la suppression du compte à l'issue du délai de grâce
+   */
+  async requestDeletion(userId: string): Promise<Date> {
+    const suppressionPrevueA = new Date(Date.now() + DELAI_SUPPRESSION_JOURS * 24 * 60 * 60 * 1000)
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { suppressionDemandeeA: new Date(), suppressionPrevueA }
+    })
+
+    if (user.email) {
+      await this.mail.sendAccountDeletionScheduled(user.email, suppressionPrevueA)
+    }
+
+    return suppressionPrevueA
+  }
+
+  /**
+   * Annule une suppression planifiée. Retourne false si aucune n'était en cours.
+   */
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: userId, suppressionPrevueA: { not: null }, supprimeA: null },
+      data: { suppressionDemandeeA: null, suppressionPrevueA: null }
+    })
+
+    return count > 0
+  }
+
+  /**
+   * Exécute les suppressions dont le délai de grâce est écoulé
+   */
+  async purgeDueDeletions(): Promise<number> {
+    const users = await this.prisma.user.findMany({
+      where: { suppressionPrevueA: { lte: new Date() }, supprimeA: null },
+      select: { id: true }
+    })
+
+    for (const user of users) {
+      await this.deleteAccount(user.id)
+    }
+
+    return users.length
+  }
+
+  /**
+   * Supprime ou anonymise toutes les données d'un compte, dans l'ordre des dépendances
+   */
+  async deleteAccount(userId: string): Promise<void> {
+    const exports = await this.prisma.exportDonnees.findMany({ where: { utilisateurId: userId } })
+
+    const bilan = await this.prisma.$transaction(async tx => {
+      const user = await tx.user.findUniqueOrThrow({ where: { id: userId } })
+
+      // 1. Jardins possédés (propriétaire en titre ou membre PROPRIETAIRE) : transmis
+      // à un autre membre pour qu'il reste un propriétaire, sinon supprimés
+      const jardins = await tx.jardin.findMany({
+        where: {
+          OR: [
+            { proprietaireId: userId },
+            { membres: { some: { utilisateurId: userId, role: RoleJardin.PROPRIETAIRE } } }
+          ]
+        },
+        include: { membres: { where: { utilisateurId: { not: userId } }, orderBy: { creeA: 'asc' } } }
+      })
+
+      let jardinsTransferes = 0
+      let jardinsSupprimes = 0
+
+      for (const jardin of jardins) {
+        const coProprietaire = jardin.membres.find(membre => membre.role === RoleJardin.PROPRIETAIRE)
+        const successeur = coProprietaire ?? jardin.membres[0]
+        const estTitulaire = jardin.proprietaireId === userId
+
+        if (successeur) {
+          // Dernier PROPRIETAIRE parmi les membres : le plus ancien membre est promu
+          if (!coProprietaire) {
+            await tx.membreJardin.update({
+              where: { id: successeur.id },
+              data: { role: RoleJardin.PROPRIETAIRE }
+            })
+          }
+          if (estTitulaire) {
+            await tx.jardin.update({
+              where: { id: jardin.id },
+              data: { proprietaireId: successeur.utilisateurId }
+            })
+          }
+          if (!coProprietaire || estTitulaire) jardinsTransferes++
+        } else if (estTitulaire) {
+          await new ArchiveService(this.prisma).deleteJardinTree(tx, jardin.id)
+          jardinsSupprimes++
+        }
+      }
+
+      // 2. Données strictement personnelles
+      await tx.tacheQuotidienne.deleteMany({ where: { utilisateurId: userId } })
+      await tx.alerteMeteo.deleteMany({ where: { utilisateurId: userId } })
+      await tx.resumeProduction.deleteMany({ where: { utilisateurId: userId } })
+      await tx.configurationEnrichissement.deleteMany({ where: { utilisateurId: userId } })
+      await tx.sachetGraines.deleteMany({ where: { utilisateurId: userId } })
+
+      // Les sources peuvent contenir des identifiants de services tiers
+      const sourceFilter = { source: { utilisateurId: userId } }
+      await tx.enrichissementDonnees.deleteMany({ where: { donneesCollectees: sourceFilter } })
+      await tx.synchronisationLog.deleteMany({ where: { donneesCollectees: sourceFilter } })
+      await tx.donneesCollectees.deleteMany({ where: sourceFilter })
+      await tx.sourceCollecte.deleteMany({ where: { utilisateurId: userId } })
+
+      // Variétés personnelles encore utilisées par des cultures conservées (jardins partagés)
+      await tx.varieteCultureUtilisateur.deleteMany({
+        where: { utilisateurId: userId, instancesCulture: { none: {} } }
+      })
+      // Contributions non publiées : privées, donc supprimées si rien n'y fait plus référence
+      await tx.varieteCulture.deleteMany({
+        where: {
+          creeParId: userId,
+          statutModeration: { not: StatutModeration.APPROUVEE },
+          varietesUtilisateur: { none: {} },
+          plannedCultures: { none: {} }
+        }
+      })
+      await tx.varieteCulture.updateMany({
+        where: { creeParId: userId },
+        data: { creeParId: null }
+      })
+      await tx.varieteCulture.updateMany({
+        where: { moderateurId: userId },
+        data: { moderateurId: null }
+      })
+      await tx.historiqueVarieteCulture.updateMany({
+        where: { auteurId: userId },
+        data: { auteurId: null }
+      })
+      await tx.transitionCycleCulture.updateMany({
+        where: { acteurId: userId },
+        data: { acteurId: null }
+      })
+      await tx.analyseSol.updateMany({
+        where: { utilisateurId: userId },
+        data: { utilisateurId: null }
+      })
+
+      // 3. Accès et identité
+      await tx.membreJardin.deleteMany({ where: { utilisateurId: userId } })
+      await tx.invitationJardin.deleteMany({ where: { invitePar: userId } })
+      await tx.permissionUtilisateur.deleteMany({ where: { utilisateurId: userId } })
+      await tx.tokenApi.deleteMany({ where: { utilisateurId: userId } })
+      await tx.codeRecuperation.deleteMany({ where: { utilisateurId: userId } })
+      await tx.session.deleteMany({ where: { userId } })
+      await tx.account.deleteMany({ where: { userId } })
+      await tx.exportDonnees.deleteMany({ where: { utilisateurId: userId } })
+      await tx.modeleAmenagement.deleteMany({ where: { utilisateurId: userId } })
+      if (user.email) {
+        await tx.verificationToken.deleteMany({
+          where: { identifier: { endsWith: `:${user.email.toLowerCase()}` } }
+        })
+      }
+
+      // Le journal d'activité est conservé sans adresse IP, user agent ni position
+      await tx.$executeRaw`
+        UPDATE "public"."activites_utilisateur"
+        SET "metadonnees_activite" = "metadonnees_activite" - 'ip' - 'userAgent',
+            "geolocalisation" = NULL
+        WHERE "utilisateur_id" = ${userId}
+      `
+
+      // 4. Anonymisation : récoltes, interventions et cultures des jardins partagés restent rattachées
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          name: 'Utilisateur supprimé',
+          email: null,
+          emailVerified: null,
+          image: null,
+          passwordHash: null,
+          prenom: null,
+          nom: null,
+          preferences: Prisma.DbNull,
+          totpSecret: null,
+          totpActiveA: null,
+          suppressionPrevueA: null,
+          supprimeA: new Date()
+        }
+      })
+
+      return { jardinsTransferes, jardinsSupprimes }
+    }, { timeout: 120000 })
+
+    for (const demande of exports) {
+      if (demande.cheminFichier) {
+        await fs.rm(demande.cheminFichier, { force: true })
+      }
+    }
+
+    await logActivity({
+      userId,
+      action: 'DELETE compte',
+      timestamp: new Date(),
+      typeActivite: TypeActivite.SUPPRESSION,
+      typeEntite: 'User',
+      idEntite: userId,
+      metadata: { evenement: 'compte_supprime', ...bilan }
+    })
+  }
+
+  /**
+   * Tous les modèles rattachés à l'utilisateur, sans secrets (hash, TOTP, tokens OAuth)
+   */
+  private async collectUserData(userId: string): Promise<Record<string, Enregistrement[]>> {
+    const jardinsPossedes = { jardin: { proprietaireId: userId } }
+
+    const [
+      profil, comptesLies, sessions, tokensApi, permissions, activites,
+      jardins, membresJardin, invitations, zones,
+      varietesUtilisateur, varietesCreees, instancesCulture, recoltes, interventions,
+      plansPlantation, culturesPlanifiees, tachesQuotidiennes, resumesProduction,
+      alertesMeteo, sourcesCollecte, configurationsEnrichissement, modelesAmenagement, analysesSol,
+      sachetsGraines, historiqueVarietes, transitionsCycleCulture
+    ] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: {
+          id: true, name: true, email: true, emailVerified: true, image: true,
+          typeProfil: true, prenom: true, nom: true, locale: true, preferences: true,
+          derniereConnexionA: true, totpActiveA: true, createdAt: true, updatedAt: true
+        }
+      }),
+      this.prisma.account.findMany({
+        where: { userId },
+        select: { provider: true, providerAccountId: true, type: true }
+      }),
+      this.prisma.session.findMany({
+        where: { userId },
+        select: { typeAppareil: true, userAgent: true, adresseIp: true, creeA: true, dernierAccesA: true, expires: true }
+      }),
+      this.prisma.tokenApi.findMany({
+        where: { utilisateurId: userId },
+        select: { nom: true, prefixe: true, scopes: true, expireA: true, dernierUsageA: true, revoqueA: true, creeA: true }
+      }),
+      this.prisma.permissionUtilisateur.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.activiteUtilisateur.findMany({ where: { utilisateurId: userId }, orderBy: { creeA: 'asc' } }),
+      this.prisma.jardin.findMany({ where: { proprietaireId: userId } }),
+      this.prisma.membreJardin.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.invitationJardin.findMany({
+        where: { invitePar: userId },
+        select: { id: true, jardinId: true, email: true, role: true, expireA: true, accepteeA: true, creeA: true }
+      }),
+      this.prisma.zone.findMany({ where: jardinsPossedes }),
+      this.prisma.varieteCultureUtilisateur.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.varieteCulture.findMany({ where: { creeParId: userId } }),
+      this.prisma.instanceCulture.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.recolte.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.intervention.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.planPlantation.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.plannedCulture.findMany({ where: { plan: { utilisateurId: userId } } }),
+      this.prisma.tacheQuotidienne.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.resumeProduction.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.alerteMeteo.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.sourceCollecte.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.configurationEnrichissement.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.modeleAmenagement.findMany({ where: { utilisateurId: userId } }),
+      this.prisma.analyseSol.findMany({ where: { OR: [{ utilisateurId: userId }, { zone: jardinsPossedes }] } }),
+      this.prisma.sachetGraines.findMany({ where: { utilisateurId: userId }, include: { prelevements: true } }),
+      this.prisma.historiqueVarieteCulture.findMany({ where: { auteurId: userId }, orderBy: { creeA: 'asc' } }),
+      this.prisma.transitionCycleCulture.findMany({ where: { acteurId: userId }, orderBy: { creeA: 'asc' } })
+    ])
+
+    return {
+      profil: [profil],
+      comptesLies,
+      sessions,
+      tokensApi,
+      permissions,
+      activites,
+      jardins,
+      membresJardin,
+      invitations,
+      zones,
+      varietesUtilisateur,
+      varietesCreees,
+      instancesCulture,
+      recoltes,
+      interventions,
+      plansPlantation,
+      culturesPlanifiees,
+      tachesQuotidiennes,
+      resumesProduction,
+      alertesMeteo,
+      sourcesCollecte,
+      configurationsEnrichissement,
+      modelesAmenagement,
+      analysesSol,
+      sachetsGraines,
+      historiqueVarietes,
+      transitionsCycleCulture
+    }
+  }
+
+  /**
+   * Ajoute les photos référencées (champ JSON `photos`) sous photos/
+   * Les URL relatives (ou de l'application) sont lues dans public/ ; les URL
+   * absolues ne sont téléchargées que depuis les hôtes autorisés.
+   */
+  private async addPhotos(
+    zip: JSZip,
+    donnees: Record<string, Enregistrement[]>
+  ): Promise<{ incluses: number; manquantes: string[] }> {
+    const urls = new Set<string>()
+
+    for (const enregistrements of Object.values(donnees)) {
+      for (const enregistrement of enregistrements) {
+        if (!Array.isArray(enregistrement.photos)) continue
+        for (const photo of enregistrement.photos as Array<{ url?: unknown }>) {
+          if (typeof photo?.url === 'string') urls.add(photo.url)
+        }
+      }
+    }
+
+    const index: Record<string, string> = {}
+    const manquantes: string[] = []
+    let numero = 0
+
+    for (const url of urls) {
+      try {
+        const contenu = await this.readPhoto(url)
+        const nomFichier = `photos/${String(++numero).padStart(4, '0')}-${path.basename(url.split('?')[0]) || 'photo'}`
+        zip.file(nomFichier, contenu)
+        index[url] = nomFichier
+      } catch (error) {
+        console.error(`Photo non exportée (${url}):`, error)
+        manquantes.push(url)
+      }
+    }
+
+    zip.file('photos/index.json', JSON.stringify(index, null, 2))
+
+    return { incluses: Object.keys(index).length, manquantes }
+  }
+
+  private async readPhoto(url: string): Promise<Buffer> {
+    if (/^https?:\/\//i.test(url)) {
+      const cible = new URL(url)
+      const appUrl = getAppBaseUrl()
+
+      // Photo servie par l'application elle-même : lue sur disque, sans requête réseau
+      if (appUrl && cible.origin === new URL(appUrl).origin) {
+        return this.readLocalPhoto(decodeURIComponent(cible.pathname))
+      }
+
+      return this.downloadPhoto(cible)
+    }
+
+    return this.readLocalPhoto(url)
+  }
+
+  private async readLocalPhoto(url: string): Promise<Buffer> {
+    // Fichier local servi depuis public/ : on refuse toute sortie du dossier
+    const racine = path.join(process.cwd(), 'public')
+    const chemin = path.resolve(racine, `.${path.posix.normalize(`/${url}`)}`)
+    if (!chemin.startsWith(racine + path.sep)) throw new Error('Chemin de photo invalide')
+
+    const { size } = await fs.stat(chemin)
+    if (size > PHOTO_TAILLE_MAX_OCTETS) throw new Error('Photo trop volumineuse')
+
+    return fs.readFile(chemin)
+  }
+
+  /**
+   * Télécharge une photo externe : hôte autorisé, adresse publique après
+   * résolution DNS, sans redirection, taille plafonnée pendant la lecture
+   */
+  private async downloadPhoto(cible: URL): Promise<Buffer> {
+    if (!PHOTO_HOTES_AUTORISES.includes(cible.hostname.toLowerCase())) {
+      throw new Error(`Hôte de photo non autorisé : ${cible.hostname}`)
+    }
+
+    const hote = cible.hostname.replace(/^\[|\]$/g, '')
+    const adresses = isIP(hote) ? [{ address: hote, family: isIP(hote) }] : await lookup(hote, { all: true })
+    for (const { address, family } of adresses) {
+      if (ADRESSES_INTERDITES.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+        throw new Error(`Adresse de photo interdite : ${address}`)
+      }
+    }
+
+    const controleur = new AbortController()
+    const delai = setTimeout(() => controleur.abort(), PHOTO_TIMEOUT_MS)
+
+    try {
+      // Une redirection pourrait mener vers une adresse interne : elle est refusée
+      const response = await fetch(cible, { signal: controleur.signal, redirect: 'error' })
+      if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`)
+
+      if (Number(response.headers.get('content-length') ?? 0) > PHOTO_TAILLE_MAX_OCTETS) {
+        throw new Error('Photo trop volumineuse')
+      }
+
+      const morceaux: Uint8Array[] = []
+      let taille = 0
+      const lecteur = response.body.getReader()
+
+      for (let lu = await lecteur.read(); !lu.done; lu = await lecteur.read()) {
+        taille += lu.value.byteLength
+        if (taille > PHOTO_TAILLE_MAX_OCTETS) {
+          controleur.abort()
+          throw new Error('Photo trop volumineuse')
+        }
+        morceaux.push(lu.value)
+      }
+
+      return Buffer.concat(morceaux)
+    } finally {
+      clearTimeout(delai)
+    }
+  }
+
+  private toCsvDocument(enregistrements: Enregistrement[]): string {
+    const headers = Array.from(new Set(enregistrements.flatMap(Object.keys)))
+
+    return toCsv(headers, enregistrements.map(enregistrement =>
+      headers.map(header => this.toCsvValue(enregistrement[header]))
+    ))
+  }
+
+  private toCsvValue(value: unknown): CsvValue {
+    if (value === null || value === undefined || value instanceof Date) return value
+    if (Prisma.Decimal.isDecimal(value)) return value.toString()
+    if (typeof value === 'object') return JSON.stringify(value)
+    return value as CsvValue
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Réinitialisation de mot de passe et vérification d'email
+ *
+ * Les tokens transitent par VerificationToken : seul leur hash SHA-256 est stocké,
+ * l'identifier préfixe l'usage (reset:/verify:) et l'email. Un token est supprimé
+ * dès sa consommation et toute nouvelle demande remplace la précédente.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { generateSecureToken, hashPassword, hashToken, logActivity } from '../security'
+import { getMailService, MailService } from './mail.service'
+
+type UsageToken = 'reset' | 'verify'
+
+const RESET_VALIDITE_MINUTES = 60
+const VERIFICATION_VALIDITE_HEURES = 48
+
+export class AccountService {
+  constructor(
+    private prisma: PrismaClient = defaultPrisma,
+    private mail: MailService = getMailService()
+  ) {}
+
+  /**
+   * Envoie un lien de réinitialisation. Ne révèle jamais si l'email existe.
+   */
+  async requestPasswordReset(email: string, baseUrl: string): Promise<void> {
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } }
+    })
+
+    if (!user?.email) return
+
+    const token = await this.issueToken('reset', user.email, RESET_VALIDITE_MINUTES * 60 * 1000)
+    const lien = `${baseUrl}/auth/reset-password?token=${encodeURIComponent(token)}`
+
+    // Un échec d'envoi ne doit pas se distinguer d'une adresse inconnue
+    try {
+      await this.mail.sendPasswordReset(user.email, lien, RESET_VALIDITE_MINUTES)
+    } catch (error) {
+      console.error('Erreur lors de l\'envoi du lien de réinitialisation:', error)
+    }
+  }
+
+  /**
+   * Remplace le mot de passe si le token est valide (usage unique)
+   */
+  async resetPassword(token: string, newPassword: string): Promise<boolean> {
+    const email = await this.consumeToken('reset', token)
+    if (!email) return false
+
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } }
+    })
+    if (!user) return false
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          passwordHash: await hashPassword(newPassword),
+          // Le lien reçu prouve la possession de l'adresse
+          emailVerified: user.emailVerified ?? new Date()
+        }
+      }),
+      // Aucune session (registre des JWT) ne doit survivre à un changement de mot de passe
+      this.prisma.session.deleteMany({ where: { userId: user.id } })
+    ])
+
+    await logActivity({
+      userId: user.id,
+      action: 'PATCH /api/auth/password-reset',
+      timestamp: new Date(),
+      typeEntite: 'User',
+      idEntite: user.id,
+      metadata: { evenement: 'reinitialisation_mot_de_passe' }
+    })
+
+    return true
+  }
+
+  /**
+   * Envoie un lien de vérification à l'adresse du compte
+   * Retourne false si l'adresse est déjà vérifiée.
+   */
+  async sendEmailVerification(userId: string, baseUrl: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.email || user.emailVerified) return false
+
+    const token = await this.issueToken('verify', user.email, VERIFICATION_VALIDITE_HEURES * 60 * 60 * 1000)
+    const lien = `${baseUrl}/auth/verify-email?token=${encodeURIComponent(token)}`
+
+    await this.mail.sendEmailVerification(user.email, lien, VERIFICATION_VALIDITE_HEURES)
+    return true
+  }
+
+  /**
+   * Marque l'email comme vérifié si le token est valide (usage unique)
+   */
+  async verifyEmail(token: string): Promise<boolean> {
+    const email = await this.consumeToken('verify', token)
+    if (!email) return false
+
+    const result = await this.prisma.user.updateMany({
+      where: { email: { equals: email, mode: 'insensitive' }, emailVerified: null },
+      data: { emailVerified: new Date() }
+    })
+
+    return result.count > 0
+  }
+
+  private async issueToken(usage: UsageToken, email: string, validiteMs: number): Promise<string> {
+    const identifier = `${usage}:${email.toLowerCase()}`
+    const token = generateSecureToken()
+
+    await this.prisma.$transaction([
+      this.prisma.verificationToken.deleteMany({ where: { identifier } }),
+      this.prisma.verificationToken.create({
+        data: {
+          identifier,
+          token: hashToken(token),
+          expires: new Date(Date.now() + validiteMs)
+        }
+      })
+    ])
+
+    return token
+  }
+
+  /**
+   * Consomme un token et retourne l'email associé, ou null s'il est invalide/expiré
+   */
+  private async consumeToken(usage: UsageToken, token: string): Promise<string | null> {
+    const tokenHash = hashToken(token)
+    const record = await this.prisma.verificationToken.findFirst({
+      where: { token: tokenHash, identifier: { startsWith: `${usage}:` } }
+    })
+
+    if (!record) return null
+
+    // deleteMany ne lève pas d'erreur si une requête concurrente a déjà consommé le token
+    const { count } = await this.prisma.verificationToken.deleteMany({
+      where: { identifier: record.identifier, token: tokenHash }
+    })
+
+    if (count === 0 || record.expires <= new Date()) return null
+
+    return record.identifier.slice(usage.length + 1)
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Archivage des jardins et des zones
+ *
+ * Un jardin ou une zone archivé disparaît des listes mais garde son historique
+ * (cultures, récoltes, analyses) pour les statistiques. Il peut être restauré
+ * pendant la durée de rétention, après quoi la maintenance le supprime.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+
+// Durée de rétention par défaut des archives, surchargeable par ARCHIVE_RETENTION_JOURS
+export const RETENTION_ARCHIVES_JOURS = 365
+
+export class ArchiveService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  static getRetentionJours(): number {
+    const jours = parseInt(process.env.ARCHIVE_RETENTION_JOURS || '', 10)
+    return Number.isFinite(jours) && jours > 0 ? jours : RETENTION_ARCHIVES_JOURS
+  }
+
+  /**
+   * Date à laquelle une archive sera purgée
+   */
+  static getPurgeDate(archiveA: Date): Date {
+    return new Date(archiveA.getTime() + ArchiveService.getRetentionJours() * 24 * 60 * 60 * 1000)
+  }
+
+  /**
+   * Supprime les jardins puis les zones archivés depuis plus longtemps que la rétention
+   */
+  async purgeExpiredArchives(): Promise<{ jardins: number; zones: number }> {
+    const limite = new Date(Date.now() - ArchiveService.getRetentionJours() * 24 * 60 * 60 * 1000)
+
+    const jardins = await this.prisma.jardin.findMany({
+      where: { archiveA: { lte: limite } },
+      select: { id: true }
+    })
+
+    for (const jardin of jardins) {
+      await this.prisma.$transaction(tx => this.deleteJardinTree(tx, jardin.id))
+    }
+
+    // Les zones des jardins encore archivés partiront avec leur jardin
+    const zones = await this.prisma.zone.findMany({
+      where: { archiveA: { lte: limite }, jardin: { archiveA: null } },
+      select: { id: true }
+    })
+
+    if (zones.length > 0) {
+      await this.prisma.$transaction(tx => this.deleteZonesTree(tx, { id: { in: zones.map(zone => zone.id) } }))
+    }
+
+    return { jardins: jardins.length, zones: zones.length }
+  }
+
+  /**
+   * Supprime un jardin et tout ce qui en dépend, dans l'ordre des dépendances
+   */
+  async deleteJardinTree(tx: Prisma.TransactionClient, jardinId: string): Promise<void> {
+    const sourceFilter = { source: { jardinId } }
+
+    await tx.lectureCapteur.deleteMany({ where: { appareil: { jardinId } } })
+    await tx.appareilIoT.deleteMany({ where: { jardinId } })
+
+    await tx.enrichissementDonnees.deleteMany({ where: { donneesCollectees: sourceFilter } })
+    await tx.synchronisationLog.deleteMany({ where: { donneesCollectees: sourceFilter } })
+    await tx.donneesCollectees.deleteMany({ where: sourceFilter })
+    await tx.sourceCollecte.deleteMany({ where: { jardinId } })
+
+    await tx.donneeMeteo.deleteMany({ where: { jardinId } })
+    await tx.alerteMeteo.deleteMany({ where: { jardinId } })
+
+    await tx.tacheQuotidienne.deleteMany({ where: { plannedCulture: { plan: { jardinId } } } })
+    await this.deleteZonesTree(tx, { jardinId })
+
+    await tx.plannedCulture.deleteMany({ where: { plan: { jardinId } } })
+    await tx.planPlantation.deleteMany({ where: { jardinId } })
+
+    // Membres, invitations et permissions ciblées suivent en cascade
+    await tx.jardin.delete({ where: { id: jardinId } })
+  }
+
+  /**
+   * Supprime des zones avec leurs cultures, récoltes, interventions et analyses
+   */
+  async deleteZonesTree(tx: Prisma.TransactionClient, where: Prisma.ZoneWhereInput): Promise<void> {
+    const zoneFilter = { zone: where }
+    const interventionFilter = {
+      OR: [zoneFilter, { instanceCulture: zoneFilter }]
+    }
+
+    await tx.tacheQuotidienne.deleteMany({
+      where: { OR: [zoneFilter, { plannedCulture: zoneFilter }] }
+    })
+    await tx.typeInterventionIntervention.deleteMany({ where: { intervention: interventionFilter } })
+    await tx.intervention.deleteMany({ where: interventionFilter })
+    await tx.recolte.deleteMany({ where: { OR: [zoneFilter, { instanceCulture: zoneFilter }] } })
+    await tx.resumeProduction.deleteMany({ where: { instanceCulture: zoneFilter } })
+
+    await tx.instanceCulture.deleteMany({ where: zoneFilter })
+    await tx.plannedCulture.deleteMany({ where: zoneFilter })
+    await tx.analyseSol.deleteMany({ where: zoneFilter })
+
+    // Les appareils appartiennent au jardin : ils perdent seulement leur zone
+    await tx.appareilIoT.updateMany({ where: zoneFilter, data: { zoneId: null } })
+
+    await tx.zone.deleteMany({ where })
+  }
+}
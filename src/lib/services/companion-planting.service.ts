@@ -0,0 +1,324 @@
+/**
+ * Voisinage des cultures : compagnonnage entre une culture et celles de sa zone
+ * et des zones adjacentes sur le plan du jardin, sur la même période
+ */
+
+import { Prisma, PrismaClient, StatutPlan } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import {
+  CibleCompagnonnage,
+  evaluerVoisinage,
+  EvaluationVoisinage,
+  POIDS_MEME_ZONE,
+  POIDS_ZONE_VOISINE,
+  resoudreLiens,
+  VarietePourCompagnonnage
+} from '../compagnonnage'
+import { polygonDistance, readZonePolygon } from '../geometry'
+import { catalogueVisible } from '../repositories/variety.repository'
+import { PeriodeOccupation, periodesChevauchent } from '../occupation'
+
+// Zones séparées par moins que cela (une allée étroite) sont voisines
+export const DISTANCE_VOISINAGE_M = 1
+
+export interface CultureVoisine {
+  type: 'culture' | 'planifiee'
+  id: string // Index du placement pour evaluateEntries
+  nom: string
+  varietyId: string
+  zoneId: string
+  nomZone: string
+  memeZone: boolean
+}
+
+export interface ResultatVoisinage extends EvaluationVoisinage<CultureVoisine> {
+  avertissements: string[]
+}
+
+export interface LiensVariete {
+  varietyId: string
+  compagnes: Array<CibleCompagnonnage & { varietes: Array<{ id: string; nomCommun: string }> }>
+  incompatibles: Array<CibleCompagnonnage & { varietes: Array<{ id: string; nomCommun: string }> }>
+  nonResolus: string[]
+}
+
+export interface PlacementEnvisage extends PeriodeOccupation {
+  varietyId: string
+  zoneId: string
+}
+
+const varieteSelect = { id: true, nomCommun: true, famille: true, infosCulture: true } as const
+
+/**
+ * Période d'une culture planifiée : de sa mise en place (repiquage, sinon semis)
+ * à la fin de sa fenêtre de récolte, ou à la fin de l'année à défaut
+ */
+export function periodePlanifiee(culture: {
+  dateSemisPrevue: Date
+  dateRepiquagePrevue: Date | null
+  fenetreRecolte: Prisma.JsonValue
+}): PeriodeOccupation {
+  const debut = culture.dateRepiquagePrevue ?? culture.dateSemisPrevue
+  const finRecolte = (culture.fenetreRecolte as { fin?: unknown } | null)?.fin
+  const fin = typeof finRecolte === 'string' && !isNaN(Date.parse(finRecolte))
+    ? new Date(finRecolte)
+    : new Date(debut.getFullYear() + 1, 0, 1)
+
+  return { debut, fin: fin > debut ? fin : new Date(debut.getFullYear() + 1, 0, 1) }
+}
+
+// Un avertissement lisible par incompatibilité
+function avecAvertissements(nom: string, evaluation: EvaluationVoisinage<CultureVoisine>): ResultatVoisinage {
+  return {
+    ...evaluation,
+    avertissements: evaluation.incompatibles.map(({ voisin, raison }) => {
+      const lieu = voisin.memeZone ? 'dans la même zone' : `dans la zone voisine ${voisin.nomZone}`
+      return `${nom} et ${voisin.nom} (${lieu}) ne s'associent pas${raison ? ` : ${raison}` : ''}`
+    })
+  }
+}
+
+export class CompanionPlantingService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Compagnes et incompatibles d'une variété, résolues vers le catalogue.
+   * Retourne null si la variété n'existe pas.
+   */
+  async getCompanions(varietyId: string): Promise<LiensVariete | null> {
+    // Les contributions non publiées ne servent pas de cible, sauf la variété demandée
+    const catalogue: VarietePourCompagnonnage[] = await this.prisma.varieteCulture.findMany({
+      where: { OR: [catalogueVisible(), { id: varietyId }] },
+      select: varieteSelect
+    })
+    const variete = catalogue.find(entree => entree.id === varietyId)
+    if (!variete) return null
+
+    const noms = new Map(catalogue.map(entree => [entree.id, entree.nomCommun]))
+    const { compagnes, incompatibles, nonResolus } = resoudreLiens(variete, catalogue)
+    const avecNoms = (cibles: CibleCompagnonnage[]) => cibles.map(cible => ({
+      ...cible,
+      varietes: cible.varieteIds.map(id => ({ id, nomCommun: noms.get(id)! }))
+    }))
+
+    return { varietyId, compagnes: avecNoms(compagnes), incompatibles: avecNoms(incompatibles), nonResolus }
+  }
+
+  /**
+   * Zones actives voisines d'une zone, avec leur distance. Null si la zone n'existe pas.
+   */
+  async findAdjacentZones(zoneId: string): Promise<Array<{ id: string; nom: string; distanceM: number }> | null> {
+    const zone = await this.prisma.zone.findUnique({ where: { id: zoneId }, select: { jardinId: true } })
+    if (!zone) return null
+
+    const voisinage = await this.loadNeighbourhood(zone.jardinId)
+    const voisines = voisinage.get(zoneId)?.voisines ?? new Map<string, number>()
+
+    return [...voisines.entries()]
+      .filter(([id]) => id !== zoneId)
+      .map(([id, distanceM]) => ({ id, nom: voisinage.get(id)!.nom, distanceM }))
+      .sort((a, b) => a.distanceM - b.distanceM)
+  }
+
+  /**
+   * Évalue une variété placée dans une zone sur une période, face aux cultures
+   * (en place ou planifiées) de la zone et des zones voisines.
+   * Retourne null si la zone ou la variété n'existe pas.
+   */
+  async evaluatePlacement(
+    placement: PlacementEnvisage,
+    exclure: { instanceCultureId?: string; plannedCultureId?: string } = {}
+  ): Promise<ResultatVoisinage | null> {
+    const [zone, variete] = await Promise.all([
+      this.prisma.zone.findUnique({ where: { id: placement.zoneId }, select: { jardinId: true } }),
+      this.prisma.varieteCulture.findUnique({ where: { id: placement.varietyId }, select: varieteSelect })
+    ])
+    if (!zone || !variete) return null
+
+    const voisinage = await this.loadNeighbourhood(zone.jardinId)
+    const zoneIds = [...(voisinage.get(placement.zoneId)?.voisines.keys() ?? [placement.zoneId])]
+
+    const [cultures, planifiees] = await Promise.all([
+      this.prisma.instanceCulture.findMany({
+        where: {
+          zoneId: { in: zoneIds },
+          estActive: true,
+          ...(exclure.instanceCultureId && { id: { not: exclure.instanceCultureId } }),
+          ...(placement.fin && { dateDebutOccupation: { lt: placement.fin } }),
+          OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: placement.debut } }]
+        },
+        select: { id: true, nom: true, zoneId: true, variete: { select: { varieteBase: { select: varieteSelect } } } }
+      }),
+      // Une culture planifiée réalisée est déjà comptée comme culture en place
+      this.prisma.plannedCulture.findMany({
+        where: {
+          zoneId: { in: zoneIds },
+          estatRealise: false,
+          ...(exclure.plannedCultureId && { id: { not: exclure.plannedCultureId } }),
+          plan: { statut: { not: StatutPlan.ARCHIVE }, anneeCible: placement.debut.getFullYear() }
+        },
+        select: {
+          id: true, zoneId: true, dateSemisPrevue: true, dateRepiquagePrevue: true, fenetreRecolte: true,
+          variete: { select: varieteSelect }
+        }
+      })
+    ])
+
+    const voisinePour = (type: CultureVoisine['type'], id: string, nom: string, varietyId: string, zoneId: string) => ({
+      voisin: {
+        type, id, nom, varietyId, zoneId,
+        nomZone: voisinage.get(zoneId)?.nom ?? '',
+        memeZone: zoneId === placement.zoneId
+      },
+      poids: zoneId === placement.zoneId ? POIDS_MEME_ZONE : POIDS_ZONE_VOISINE
+    })
+
+    const voisins = [
+      ...cultures.map(culture => ({
+        ...voisinePour('culture', culture.id, culture.nom, culture.variete.varieteBase.id, culture.zoneId),
+        variete: culture.variete.varieteBase
+      })),
+      ...planifiees
+        .filter(planifiee => periodesChevauchent(periodePlanifiee(planifiee), placement))
+        .map(planifiee => ({
+          ...voisinePour('planifiee', planifiee.id, planifiee.variete.nomCommun, planifiee.variete.id, planifiee.zoneId),
+          variete: planifiee.variete
+        }))
+    ]
+
+    return avecAvertissements(variete.nomCommun, evaluerVoisinage(variete, voisins))
+  }
+
+  /**
+   * Évalue une culture en place sur sa période d'occupation. Null si elle n'existe pas.
+   */
+  async evaluateCulture(instanceCultureId: string): Promise<ResultatVoisinage | null> {
+    const culture = await this.prisma.instanceCulture.findUnique({
+      where: { id: instanceCultureId },
+      select: {
+        zoneId: true, dateDebutOccupation: true, dateFinOccupation: true,
+        variete: { select: { varieteBaseId: true } }
+      }
+    })
+    if (!culture) return null
+
+    return this.evaluatePlacement(
+      {
+        varietyId: culture.variete.varieteBaseId,
+        zoneId: culture.zoneId,
+        debut: culture.dateDebutOccupation,
+        fin: culture.dateFinOccupation
+      },
+      { instanceCultureId }
+    )
+  }
+
+  /**
+   * Évalue des placements envisagés les uns face aux autres (plan pas encore créé)
+   */
+  async evaluateEntries(jardinId: string, placements: PlacementEnvisage[]): Promise<ResultatVoisinage[]> {
+    const [voisinage, varietes] = await Promise.all([
+      this.loadNeighbourhood(jardinId),
+      this.prisma.varieteCulture.findMany({
+        where: { id: { in: [...new Set(placements.map(placement => placement.varietyId))] } },
+        select: varieteSelect
+      })
+    ])
+    const varieteParId = new Map(varietes.map(variete => [variete.id, variete]))
+
+    return placements.map((placement, index) => {
+      const variete = varieteParId.get(placement.varietyId)
+      if (!variete) return avecAvertissements('', { score: null, compagnes: [], incompatibles: [], neutres: 0 })
+
+      const voisines = voisinage.get(placement.zoneId)?.voisines ?? new Map([[placement.zoneId, 0]])
+      const voisins = placements.flatMap((autre, autreIndex) => {
+        const autreVariete = varieteParId.get(autre.varietyId)
+        if (autreIndex === index || !autreVariete || !voisines.has(autre.zoneId) || !periodesChevauchent(autre, placement)) {
+          return []
+        }
+        const memeZone = autre.zoneId === placement.zoneId
+        return [{
+          voisin: {
+            type: 'planifiee' as const,
+            id: String(autreIndex),
+            nom: autreVariete.nomCommun,
+            varietyId: autreVariete.id,
+            zoneId: autre.zoneId,
+            nomZone: voisinage.get(autre.zoneId)?.nom ?? '',
+            memeZone
+          },
+          variete: autreVariete,
+          poids: memeZone ? POIDS_MEME_ZONE : POIDS_ZONE_VOISINE
+        }]
+      })
+
+      return avecAvertissements(variete.nomCommun, evaluerVoisinage(variete, voisins))
+    })
+  }
+
+  /**
+   * Calcule et enregistre compatibiliteVoisinage pour chaque culture d'un plan.
+   * Les autres informations du champ (rotations) sont conservées.
+   */
+  async updatePlanCompatibility(planId: string): Promise<Array<{ plannedCultureId: string; avertissements: string[] }>> {
+    const planifiees = await this.prisma.plannedCulture.findMany({
+      where: { planId },
+      select: {
+        id: true, varietyId: true, zoneId: true, dateSemisPrevue: true, dateRepiquagePrevue: true,
+        fenetreRecolte: true, compatibiliteVoisinage: true
+      }
+    })
+
+    const resultats: Array<{ plannedCultureId: string; avertissements: string[] }> = []
+    for (const planifiee of planifiees) {
+      const evaluation = await this.evaluatePlacement(
+        { varietyId: planifiee.varietyId, zoneId: planifiee.zoneId, ...periodePlanifiee(planifiee) },
+        { plannedCultureId: planifiee.id }
+      )
+      if (!evaluation) continue
+
+      const existant = planifiee.compatibiliteVoisinage
+      await this.prisma.plannedCulture.update({
+        where: { id: planifiee.id },
+        data: {
+          compatibiliteVoisinage: {
+            ...(existant && typeof existant === 'object' && !Array.isArray(existant) ? existant : {}),
+            associations: [...new Set(evaluation.compagnes.map(({ voisin }) => voisin.nom))],
+            incompatibilites: [...new Set(evaluation.incompatibles.map(({ voisin }) => voisin.nom))],
+            score: evaluation.score,
+            avertissements: evaluation.avertissements,
+            calculeA: new Date().toISOString()
+          }
+        }
+      })
+      resultats.push({ plannedCultureId: planifiee.id, avertissements: evaluation.avertissements })
+    }
+
+    return resultats
+  }
+
+  /**
+   * Pour chaque zone active du jardin, ses voisines (elle-même comprise) et leur distance
+   */
+  private async loadNeighbourhood(
+    jardinId: string
+  ): Promise<Map<string, { nom: string; voisines: Map<string, number> }>> {
+    const zones = await this.prisma.zone.findMany({
+      where: { jardinId, estActive: true },
+      select: { id: true, nom: true, geometrie: true }
+    })
+    const contours = zones.map(zone => ({ ...zone, contour: readZonePolygon(zone.geometrie) }))
+
+    return new Map(contours.map(zone => {
+      const voisines = new Map<string, number>([[zone.id, 0]])
+      if (zone.contour) {
+        for (const autre of contours) {
+          if (autre.id === zone.id || !autre.contour) continue
+          const distance = polygonDistance(zone.contour, autre.contour)
+          if (distance <= DISTANCE_VOISINAGE_M) voisines.set(autre.id, Math.round(distance * 100) / 100)
+        }
+      }
+      return [zone.id, { nom: zone.nom, voisines }]
+    }))
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Étiquettes QR des cultures d'un jardin et résolution d'un code lot scanné
+ *
+ * Le QR encode un lien court /q/<codeLot> ; au scan, le code est résolu vers la
+ * culture (la plus récente si le code n'est pas unique) dans un jardin accessible.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { EtiquetteCulture } from '../etiquettes'
+
+export interface SelectionEtiquettes {
+  zoneId?: string
+  cultureIds?: string[]
+  inclureTerminees?: boolean // Cultures actives seulement par défaut
+}
+
+export interface CultureScannee {
+  cultureId: string
+  jardinId: string
+}
+
+export const lienScan = (baseUrl: string, codeLot: string) => `${baseUrl}/q/${encodeURIComponent(codeLot)}`
+
+export class CultureLabelService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Étiquettes des cultures sélectionnées dans le jardin, par zone puis par nom.
+   * Lecture seule : toute culture a son code lot (attribué à la création).
+   * Retourne null si le jardin n'existe pas.
+   */
+  async labelsForJardin(
+    jardinId: string,
+    selection: SelectionEtiquettes,
+    baseUrl: string
+  ): Promise<EtiquetteCulture[] | null> {
+    const jardin = await this.prisma.jardin.findUnique({ where: { id: jardinId }, select: { id: true } })
+    if (!jardin) return null
+
+    const cultures = await this.prisma.instanceCulture.findMany({
+      where: {
+        zone: { jardinId, ...(selection.zoneId && { id: selection.zoneId }) },
+        ...(selection.cultureIds && { id: { in: selection.cultureIds } }),
+        ...(!selection.inclureTerminees && { estActive: true }),
+        codeLot: { not: null }
+      },
+      include: {
+        variete: { select: { nomPersonnalise: true, varieteBase: { select: { nomCommun: true } } } }
+      },
+      orderBy: [{ zone: { nom: 'asc' } }, { nom: 'asc' }]
+    })
+
+    return cultures.map(culture => ({
+      code: culture.codeLot!,
+      lien: lienScan(baseUrl, culture.codeLot!),
+      variete: culture.variete.nomPersonnalise ?? culture.variete.varieteBase.nomCommun,
+      culture: culture.nom,
+      dateSemis: culture.dateSemisReelle ?? culture.dateSemisPrevue,
+      semisPrevu: !culture.dateSemisReelle && culture.dateSemisPrevue !== null
+    }))
+  }
+
+  /**
+   * Cultures portant ce code lot, de la plus récente à la plus ancienne ;
+   * l'appelant retient la première dont le jardin lui est accessible
+   */
+  async findByCode(codeLot: string): Promise<CultureScannee[]> {
+    const cultures = await this.prisma.instanceCulture.findMany({
+      where: { codeLot },
+      select: { id: true, zone: { select: { jardinId: true } } },
+      orderBy: { creeA: 'desc' }
+    })
+
+    return cultures.map(culture => ({ cultureId: culture.id, jardinId: culture.zone.jardinId }))
+  }
+}
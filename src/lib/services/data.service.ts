@@ -5,6 +5,10 @@ import { JardinRepository } from '../repositories/jardin.repository'
 import { ZoneRepository } from '../repositories/zone.repository'
 import { CultureRepository } from '../repositories/culture.repository'
 import { RecolteRepository } from '../repositories/recolte.repository'
+import { MembreJardinRepository } from '../repositories/membre-jardin.repository'
+import { TokenApiRepository } from '../repositories/token-api.repository'
+import { ActiviteRepository } from '../repositories/activite.repository'
+import { AnalyseSolRepository } from '../repositories/analyse-sol.repository'
 
 export interface DataServiceConfig {
   redis: {
@@ -27,6 +31,10 @@ export class DataService {
   public zone: ZoneRepository
   public culture: CultureRepository
   public recolte: RecolteRepository
+  public membreJardin: MembreJardinRepository
+  public tokenApi: TokenApiRepository
+  public activite: ActiviteRepository
+  public analyseSol: AnalyseSolRepository
 
   constructor(config: DataServiceConfig) {
     // Initialiser Prisma
@@ -50,6 +58,10 @@ export class DataService {
     this.zone = new ZoneRepository(this.prisma, this.cache)
     this.culture = new CultureRepository(this.prisma, this.cache)
     this.recolte = new RecolteRepository(this.prisma, this.cache)
+    this.membreJardin = new MembreJardinRepository(this.prisma, this.cache)
+    this.tokenApi = new TokenApiRepository(this.prisma, this.cache)
+    this.activite = new ActiviteRepository(this.prisma, this.cache)
+    this.analyseSol = new AnalyseSolRepository(this.prisma, this.cache)
   }
 
   /**
@@ -0,0 +1,255 @@
+/**
+ * Import et export GeoJSON d'un jardin et de ses zones (aller-retour avec un SIG)
+ */
+
+import { AccesEau, ExpositionSoleil, PrismaClient, TypeZone } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { getDataService } from '../config/database'
+import { DataService } from './data.service'
+import { buildZoneGeometry, geometrieZoneSchema, Point, polygonsOverlap, readZonePolygon } from '../geometry'
+import {
+  boundingBoxOf,
+  FeatureCollectionJardin,
+  featureImportSchema,
+  positionToLocal,
+  readReference,
+  RepereGeoJson,
+  toRing
+} from '../geojson'
+
+export interface ZoneImportee {
+  index: number
+  id?: string // Zone mise à jour ; absent pour une création
+  nom: string
+  surfaceM2: number
+}
+
+export interface ErreurImport {
+  index: number
+  nom?: string
+  message: string
+}
+
+export type ResultatImport =
+  | { statut: 'valide'; creations: ZoneImportee[]; misesAJour: ZoneImportee[] }
+  | { statut: 'invalide'; erreurs: ErreurImport[] }
+  | { statut: 'sans_localisation' }
+  | { statut: 'jardin_introuvable' }
+
+// Valeurs retenues pour les zones créées sans ces propriétés
+const ZONE_PAR_DEFAUT = {
+  typeZone: TypeZone.PARCELLE,
+  expositionSoleil: ExpositionSoleil.PLEIN_SOLEIL,
+  accesEau: AccesEau.MOYEN,
+  qualiteSol: 3
+}
+
+export class GeoJsonService {
+  constructor(
+    private prisma: PrismaClient = defaultPrisma,
+    private dataService: DataService = getDataService()
+  ) {}
+
+  /**
+   * FeatureCollection des zones actives, avec les cultures qui les occupent aujourd'hui.
+   * Les zones sans contour exploitable (anciennes géométries) sont omises.
+   */
+  async exportJardin(
+    jardinId: string,
+    repere: RepereGeoJson = 'wgs84'
+  ): Promise<FeatureCollectionJardin | 'sans_localisation' | null> {
+    const maintenant = new Date()
+    const jardin = await this.prisma.jardin.findUnique({
+      where: { id: jardinId },
+      include: {
+        zones: {
+          where: { estActive: true },
+          orderBy: { nom: 'asc' },
+          include: {
+            instancesCulture: {
+              where: {
+                dateDebutOccupation: { lte: maintenant },
+                OR: [{ dateFinOccupation: null }, { dateFinOccupation: { gt: maintenant } }]
+              },
+              select: {
+                id: true,
+                nom: true,
+                etapeCycleVie: true,
+                partSurface: true,
+                variete: { select: { nomPersonnalise: true, varieteBase: { select: { nomCommun: true } } } }
+              },
+              orderBy: { dateDebutOccupation: 'asc' }
+            }
+          }
+        }
+      }
+    })
+
+    if (!jardin) return null
+
+    const reference = readReference(jardin.localisation)
+    if (repere === 'wgs84' && !reference) return 'sans_localisation'
+    const referenceExport = repere === 'wgs84' ? reference : null
+
+    const features = jardin.zones.flatMap(zone => {
+      const contour = readZonePolygon(zone.geometrie)
+      if (!contour) return []
+
+      const cultures = zone.instancesCulture.map(culture => ({
+        id: culture.id,
+        nom: culture.nom,
+        variete: culture.variete.nomPersonnalise ?? culture.variete.varieteBase.nomCommun,
+        etapeCycleVie: culture.etapeCycleVie,
+        partSurface: culture.partSurface
+      }))
+
+      return [{
+        type: 'Feature' as const,
+        id: zone.id,
+        geometry: { type: 'Polygon' as const, coordinates: [toRing(contour, referenceExport)] },
+        properties: {
+          id: zone.id,
+          nom: zone.nom,
+          typeZone: zone.typeZone,
+          expositionSoleil: zone.expositionSoleil,
+          accesEau: zone.accesEau,
+          qualiteSol: zone.qualiteSol,
+          surfaceM2: (zone.geometrie as { surfaceM2?: number }).surfaceM2 ?? null,
+          culturesActuelles: cultures,
+          // Lisible comme étiquette dans un SIG, qui aplatit mal les tableaux
+          resumeCultures: cultures.map(culture => `${culture.variete} (${Math.round(culture.partSurface * 100)} %)`).join(', ')
+        }
+      }]
+    })
+
+    return {
+      type: 'FeatureCollection',
+      bbox: boundingBoxOf(features.flatMap(feature => feature.geometry.coordinates[0])),
+      jardin: {
+        id: jardin.id,
+        nom: jardin.nom,
+        repere,
+        reference: reference ?? null
+      },
+      features
+    }
+  }
+
+  /**
+   * Crée ou met à jour les zones à partir des polygones d'une FeatureCollection.
+   * Une zone est mise à jour si son id (ou à défaut son nom) correspond à une zone
+   * active du jardin ; les zones absentes du fichier ne sont pas modifiées.
+   * Rien n'est écrit si une feature est invalide ou en simulation.
+   */
+  async importZones(
+    jardinId: string,
+    features: unknown[],
+    options: { repere?: RepereGeoJson; simulation?: boolean } = {}
+  ): Promise<ResultatImport> {
+    const repere = options.repere ?? 'wgs84'
+
+    const jardin = await this.prisma.jardin.findUnique({
+      where: { id: jardinId },
+      select: {
+        localisation: true,
+        zones: { where: { estActive: true }, select: { id: true, nom: true, geometrie: true } }
+      }
+    })
+    if (!jardin) return { statut: 'jardin_introuvable' }
+
+    const reference = readReference(jardin.localisation)
+    if (repere === 'wgs84' && !reference) return { statut: 'sans_localisation' }
+
+    const zonesParId = new Map(jardin.zones.map(zone => [zone.id, zone]))
+    const zonesParNom = new Map(jardin.zones.map(zone => [zone.nom.toLowerCase(), zone]))
+
+    const erreurs: ErreurImport[] = []
+    const importees: Array<{
+      index: number
+      zoneId?: string
+      nom: string
+      contour: Point[]
+      surfaceM2: number
+      proprietes: { typeZone?: TypeZone; expositionSoleil?: ExpositionSoleil; accesEau?: AccesEau; qualiteSol?: number }
+    }> = []
+
+    features.forEach((brute, index) => {
+      const feature = featureImportSchema.safeParse(brute)
+      if (!feature.success) {
+        erreurs.push({ index, message: feature.error.issues[0].message })
+        return
+      }
+
+      const { id, nom, ...proprietes } = feature.data.properties
+      const existante = (id && zonesParId.get(id))
+        || (typeof feature.data.id === 'string' && zonesParId.get(feature.data.id))
+        || (nom && zonesParNom.get(nom.toLowerCase()))
+        || undefined
+      const nomZone = nom ?? existante?.nom ?? `Zone ${index + 1}`
+
+      const geometrie = geometrieZoneSchema.safeParse({
+        type: 'polygone',
+        coordonnees: feature.data.geometry.map(position => positionToLocal(position, repere === 'wgs84' ? reference : null))
+      })
+      if (!geometrie.success) {
+        erreurs.push({ index, nom: nomZone, message: geometrie.error.issues[0].message })
+        return
+      }
+
+      if (existante && importees.some(importee => importee.zoneId === existante.id)) {
+        erreurs.push({ index, nom: nomZone, message: 'Zone présente plusieurs fois dans le fichier' })
+        return
+      }
+
+      const { coordonnees, surfaceM2 } = buildZoneGeometry(geometrie.data)
+      importees.push({ index, zoneId: existante?.id, nom: nomZone, contour: coordonnees, surfaceM2, proprietes })
+    })
+
+    // Chevauchements avec les zones importées et avec celles que le fichier ne modifie pas
+    const conservees = jardin.zones
+      .filter(zone => !importees.some(importee => importee.zoneId === zone.id))
+      .flatMap(zone => {
+        const contour = readZonePolygon(zone.geometrie)
+        return contour ? [{ nom: zone.nom, contour }] : []
+      })
+
+    importees.forEach((importee, i) => {
+      const autres = [...conservees, ...importees.slice(i + 1)]
+      const chevauchees = autres.filter(autre => polygonsOverlap(importee.contour, autre.contour))
+      if (chevauchees.length > 0) {
+        erreurs.push({
+          index: importee.index,
+          nom: importee.nom,
+          message: `Chevauchement avec ${chevauchees.map(autre => autre.nom).join(', ')}`
+        })
+      }
+    })
+
+    if (erreurs.length > 0) {
+      return { statut: 'invalide', erreurs: erreurs.sort((a, b) => a.index - b.index) }
+    }
+
+    if (!options.simulation) {
+      // Tout ou rien : un import interrompu ne laisse pas le jardin à moitié redessiné
+      await this.dataService.zone.importZones(jardinId, importees.map(importee => {
+        const geometrie = { type: 'polygone' as const, coordonnees: importee.contour }
+        return importee.zoneId
+          ? { id: importee.zoneId, nom: importee.nom, geometrie, ...importee.proprietes }
+          : { ...ZONE_PAR_DEFAUT, ...importee.proprietes, nom: importee.nom, geometrie }
+      }))
+    }
+
+    const resume = (importee: typeof importees[number]): ZoneImportee => ({
+      index: importee.index,
+      id: importee.zoneId,
+      nom: importee.nom,
+      surfaceM2: importee.surfaceM2
+    })
+
+    return {
+      statut: 'valide',
+      creations: importees.filter(importee => !importee.zoneId).map(resume),
+      misesAJour: importees.filter(importee => importee.zoneId).map(resume)
+    }
+  }
+}
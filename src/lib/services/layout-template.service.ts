@@ -0,0 +1,163 @@
+/**
+ * Modèles d'aménagement : prédéfinis (paramétrables) et personnels
+ * (enregistrés à partir d'un jardin existant)
+ */
+
+import { ModeleAmenagement, PrismaClient } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { geometrieZoneSchema, readZonePolygon } from '../geometry'
+import {
+  ApercuAmenagement,
+  applyReglages,
+  buildApercu,
+  ConfigAmenagement,
+  findModelePredefini,
+  MODELES_PREDEFINIS,
+  parseParametres,
+  ParametreModele,
+  ReglagesZones,
+  translateToOrigin,
+  ZoneModele,
+  zonesFromStructure
+} from '../layout-templates'
+
+export interface ModeleAmenagementResume {
+  id: string
+  nom: string
+  description: string | null
+  personnel: boolean
+  parametres: ParametreModele[]
+  nombreZones?: number
+  creeA?: Date
+}
+
+export class LayoutTemplateService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Modèles prédéfinis puis modèles personnels de l'utilisateur
+   */
+  async listTemplates(userId: string): Promise<ModeleAmenagementResume[]> {
+    const personnels = await this.prisma.modeleAmenagement.findMany({
+      where: { utilisateurId: userId },
+      orderBy: { creeA: 'desc' }
+    })
+
+    return [
+      ...MODELES_PREDEFINIS.map(({ id, nom, description, parametres }) => ({
+        id,
+        nom,
+        description,
+        personnel: false,
+        parametres
+      })),
+      ...personnels.map(modele => ({
+        id: modele.id,
+        nom: modele.nom,
+        description: modele.description,
+        personnel: true,
+        parametres: [],
+        nombreZones: (modele.zones as unknown as ZoneModele[]).length,
+        creeA: modele.creeA
+      }))
+    ]
+  }
+
+  /**
+   * Zones à créer pour une configuration d'aménagement.
+   * Retourne null si le modèle n'existe pas ou n'appartient pas à l'utilisateur.
+   */
+  async resolveZones(userId: string, config: ConfigAmenagement): Promise<ZoneModele[] | null> {
+    if (config.type === 'structure') {
+      return zonesFromStructure(config.contenants)
+    }
+    return this.generateZones(userId, config.modeleId, config.parametres, config.reglages)
+  }
+
+  /**
+   * Aperçu des zones d'un modèle avant création du jardin
+   */
+  async previewTemplate(
+    userId: string,
+    modeleId: string,
+    parametres: Record<string, unknown> = {},
+    reglages: ReglagesZones = {}
+  ): Promise<ApercuAmenagement | null> {
+    const zones = await this.generateZones(userId, modeleId, parametres, reglages)
+    return zones ? buildApercu(zones) : null
+  }
+
+  /**
+   * Enregistre l'aménagement actuel d'un jardin comme modèle personnel.
+   * Les zones sans contour exploitable (anciennes géométries) sont ignorées.
+   */
+  async saveFromJardin(
+    userId: string,
+    jardinId: string,
+    donnees: { nom: string; description?: string }
+  ): Promise<{ modele: ModeleAmenagement; zonesIgnorees: number } | null> {
+    const zones = await this.prisma.zone.findMany({
+      where: { jardinId, estActive: true },
+      orderBy: { nom: 'asc' }
+    })
+
+    const exploitables = zones.flatMap(zone => {
+      const geometrie = geometrieZoneSchema.safeParse(zone.geometrie)
+      const contour = readZonePolygon(zone.geometrie)
+      return geometrie.success && contour ? [{ zone, geometrie: geometrie.data, contour }] : []
+    })
+
+    if (exploitables.length === 0) return null
+
+    const geometries = translateToOrigin(
+      exploitables.map(({ geometrie }) => geometrie),
+      exploitables.map(({ contour }) => contour)
+    )
+
+    const zonesModele: ZoneModele[] = exploitables.map(({ zone }, index) => ({
+      nom: zone.nom,
+      typeZone: zone.typeZone,
+      geometrie: geometries[index],
+      expositionSoleil: zone.expositionSoleil,
+      accesEau: zone.accesEau,
+      qualiteSol: zone.qualiteSol
+    }))
+
+    const modele = await this.prisma.modeleAmenagement.create({
+      data: {
+        utilisateurId: userId,
+        nom: donnees.nom,
+        description: donnees.description,
+        zones: zonesModele
+      }
+    })
+
+    return { modele, zonesIgnorees: zones.length - exploitables.length }
+  }
+
+  async deleteTemplate(userId: string, modeleId: string): Promise<boolean> {
+    const { count } = await this.prisma.modeleAmenagement.deleteMany({
+      where: { id: modeleId, utilisateurId: userId }
+    })
+    return count > 0
+  }
+
+  private async generateZones(
+    userId: string,
+    modeleId: string,
+    parametres: Record<string, unknown>,
+    reglages: ReglagesZones
+  ): Promise<ZoneModele[] | null> {
+    const predefini = findModelePredefini(modeleId)
+    if (predefini) {
+      return applyReglages(predefini.generer(parseParametres(predefini, parametres)), reglages)
+    }
+
+    const personnel = await this.prisma.modeleAmenagement.findFirst({
+      where: { id: modeleId, utilisateurId: userId }
+    })
+    if (!personnel) return null
+
+    return applyReglages(personnel.zones as unknown as ZoneModele[], reglages)
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Service d'envoi d'emails avec transport interchangeable
+ *
+ * MAIL_TRANSPORT=smtp   → serveur SMTP (en dev : un catcher local type Mailpit sur localhost:1025)
+ * MAIL_TRANSPORT=console → emails affichés dans les logs (défaut hors production)
+ */
+
+import nodemailer from 'nodemailer'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+/**
+ * Transport SMTP (production, ou catcher local en développement)
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter
+
+  constructor() {
+    const user = process.env.SMTP_USER
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD } : undefined
+    })
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message)
+  }
+}
+
+/**
+ * Transport console : aucun envoi réel, utile sans serveur SMTP
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Email pour ${message.to} — ${message.subject}\n${message.text}`)
+  }
+}
+
+export class MailService {
+  private transport: MailTransport
+  private from: string
+
+  constructor(transport?: MailTransport) {
+    this.transport = transport ?? MailService.createDefaultTransport()
+    this.from = process.env.MAIL_FROM || 'Baš-Malin <no-reply@bas-malin.local>'
+  }
+
+  private static createDefaultTransport(): MailTransport {
+    const type = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console')
+    return type === 'smtp' ? new SmtpMailTransport() : new ConsoleMailTransport()
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from })
+  }
+
+  /**
+   * Lien de réinitialisation du mot de passe
+   */
+  async sendPasswordReset(to: string, lien: string, validiteMinutes: number): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Réinitialisation de votre mot de passe Baš-Malin',
+      text: [
+        'Bonjour,',
+        '',
+        'Vous avez demandé à réinitialiser votre mot de passe. Ouvrez ce lien pour en choisir un nouveau :',
+        lien,
+        '',
+        `Ce lien est valable ${validiteMinutes} minutes et ne peut servir qu'une fois.`,
+        'Si vous n\'êtes pas à l\'origine de cette demande, ignorez cet email.'
+      ].join('\n')
+    })
+  }
+
+  /**
+   * Lien de vérification de l'adresse email
+   */
+  async sendEmailVerification(to: string, lien: string, validiteHeures: number): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Confirmez votre adresse email Baš-Malin',
+      text: [
+        'Bonjour,',
+        '',
+        'Confirmez votre adresse email en ouvrant ce lien :',
+        lien,
+        '',
+        `Ce lien est valable ${validiteHeures} heures.`
+      ].join('\n')
+    })
+  }
+
+  /**
+   * Invitation à rejoindre un jardin partagé
+   */
+  async sendGardenInvitation(to: string, nomJardin: string, lien: string, expireA: Date): Promise<void> {
+    await this.send({
+      to,
+      subject: `Invitation au jardin ${nomJardin} sur Baš-Malin`,
+      text: [
+        'Bonjour,',
+        '',
+        `Vous êtes invité à rejoindre le jardin "${nomJardin}". Connectez-vous avec cette adresse email puis ouvrez ce lien :`,
+        lien,
+        '',
+        `Cette invitation est valable jusqu'au ${expireA.toLocaleDateString('fr-FR')}.`
+      ].join('\n')
+    })
+  }
+
+  /**
+   * Confirmation de la suppression planifiée du compte
+   */
+  async sendAccountDeletionScheduled(to: string, suppressionPrevueA: Date): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Suppression de votre compte Baš-Malin',
+      text: [
+        'Bonjour,',
+        '',
+        `Votre compte et vos données seront supprimés le ${suppressionPrevueA.toLocaleDateString('fr-FR')}.`,
+        'Jusqu\'à cette date, vous pouvez annuler la suppression depuis la page "Mes données" de votre profil.',
+        '',
+        'Pensez à exporter vos données avant cette échéance si vous souhaitez les conserver.'
+      ].join('\n')
+    })
+  }
+}
+
+let mailService: MailService | null = null
+
+export function getMailService(): MailService {
+  if (!mailService) {
+    mailService = new MailService()
+  }
+  return mailService
+}
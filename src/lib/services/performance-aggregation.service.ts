@@ -0,0 +1,66 @@
+/**
+ * Recalcul de performancePersonnelle à partir des récoltes et cultures réelles
+ *
+ * Exécuté en tâche de fond (file "performance") après chaque récolte ou clôture de culture.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { readZoneArea } from '../geometry'
+import { calculerPerformance, CulturePourPerformance, lireNoteQualite } from '../performance-variete'
+import type { PerformancePersonnelle } from '../repositories/variety.repository'
+
+const cultureInclude = {
+  zone: { select: { nom: true, geometrie: true } },
+  recoltes: { select: { dateRecolte: true, poidsTotalKg: true, evaluationQualite: true } }
+} as const
+
+type CultureChargee = Prisma.InstanceCultureGetPayload<{ include: typeof cultureInclude }>
+
+function versCulturePourPerformance(culture: CultureChargee): CulturePourPerformance {
+  const surface = readZoneArea(culture.zone.geometrie)
+  return {
+    anneeSaison: culture.anneeSaison,
+    etapeCycleVie: culture.etapeCycleVie,
+    dateSemisReelle: culture.dateSemisReelle,
+    dateRepiquageReelle: culture.dateRepiquageReelle,
+    dateFinCycle: culture.dateFinCycle,
+    quantitePlantee: culture.quantitePlantee,
+    quantiteGermee: culture.quantiteGermee,
+    surfaceM2: surface !== null ? surface * culture.partSurface : null,
+    nomZone: culture.zone.nom,
+    recoltes: culture.recoltes.map(recolte => ({
+      dateRecolte: recolte.dateRecolte,
+      poidsTotalKg: Number(recolte.poidsTotalKg),
+      noteQualite: lireNoteQualite(recolte.evaluationQualite)
+    }))
+  }
+}
+
+export class PerformanceAggregationService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Recalcule la performance d'une variété personnelle (VarieteCultureUtilisateur).
+   * Retourne null si la variété n'existe plus.
+   */
+  async recomputeVariety(varieteId: string): Promise<{ utilisateurId: string; performance: PerformancePersonnelle } | null> {
+    const variete = await this.prisma.varieteCultureUtilisateur.findUnique({
+      where: { id: varieteId },
+      include: { instancesCulture: { include: cultureInclude } }
+    })
+    if (!variete) return null
+
+    const performance = calculerPerformance(
+      variete.instancesCulture.map(versCulturePourPerformance),
+      variete.performancePersonnelle as Partial<PerformancePersonnelle> | null
+    )
+
+    await this.prisma.varieteCultureUtilisateur.update({
+      where: { id: varieteId },
+      data: { performancePersonnelle: performance as unknown as Prisma.InputJsonValue }
+    })
+
+    return { utilisateurId: variete.utilisateurId, performance }
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Passage à une nouvelle saison d'un jardin
+ *
+ * Les zones appartiennent au jardin et sont reconduites telles quelles : seules
+ * les zones actives reçoivent les cultures de la nouvelle saison. Le dernier plan
+ * de plantation est dupliqué en brouillon un an plus tard, les vivaces sont
+ * reconduites et les cultures de la saison écoulée sont clôturées.
+ */
+
+import { CategorieCulture, EtapeCycleVie, PlanPlantation, Prisma, PrismaClient, StatutPlan, VarieteCulture } from '@prisma/client'
+import { addYears } from 'date-fns'
+import { prisma as defaultPrisma } from '../db'
+import { getDataService } from '../config/database'
+import { DataService } from './data.service'
+import { CompanionPlantingService, periodePlanifiee } from './companion-planting.service'
+
+export interface ViolationRotation {
+  zoneId: string
+  nomZone: string
+  varietyId: string
+  nomVariete: string
+  famille: string
+  anneeConflit: number
+  nomConflit: string
+}
+
+export interface ApercuNouvelleSaison {
+  anneeCible: number
+  planSource: { id: string; nom: string; anneeCible: number } | null
+  zones: Array<{ id: string; nom: string }>
+  culturesPlanifiees: Array<{ varietyId: string; nomVariete: string; zoneId: string; nomZone: string; dateSemisPrevue: Date }>
+  culturesIgnorees: Array<{ nomVariete: string; nomZone: string }> // Zones désactivées depuis
+  vivaces: Array<{ instanceCultureId: string; nom: string; zoneId: string }>
+  culturesAFermer: Array<{ instanceCultureId: string; nom: string }>
+  culturesAArchiver: Array<{ instanceCultureId: string; nom: string }>
+  violationsRotation: ViolationRotation[]
+  avertissementsVoisinage: string[] // Cultures reconduites incompatibles avec leurs voisines
+}
+
+export type ResultatNouvelleSaison =
+  | { statut: 'cree'; plan: PlanPlantation | null; apercu: ApercuNouvelleSaison; vivacesNonReconduites: string[] }
+  | { statut: 'rotation'; violationsRotation: ViolationRotation[] }
+  | { statut: 'saison_existante'; planId: string | null }
+
+// Cycle de rotation retenu quand le jardin n'a pas encore de plan
+const CYCLE_ROTATION_DEFAUT = 4
+
+// Étapes après lesquelles une culture est considérée comme finie
+const ETAPES_FINIES: EtapeCycleVie[] = [EtapeCycleVie.RECOLTE, EtapeCycleVie.TERMINE]
+
+/**
+ * Une variété est reconduite d'une année sur l'autre si elle est ligneuse
+ * ou si son cycle couvre une année entière (fraisiers, aromatiques vivaces...)
+ */
+export function estVivace(variete: Pick<VarieteCulture, 'categorie' | 'infosCulture'>): boolean {
+  if (variete.categorie === CategorieCulture.ARBRE || variete.categorie === CategorieCulture.VIGNE) {
+    return true
+  }
+  const infos = variete.infosCulture as { vivace?: boolean; joursRecolte?: number } | null
+  return infos?.vivace === true || (infos?.joursRecolte ?? 0) >= 365
+}
+
+const normaliserFamille = (famille: string | null) => famille?.trim().toLowerCase() || null
+
+// Décale d'un an les dates d'un objet JSON {debut, fin} ou d'une liste [{date}]
+function decalerJson(valeur: Prisma.JsonValue, cles: string[]): Prisma.InputJsonValue {
+  if (Array.isArray(valeur)) {
+    return valeur.map(element => decalerJson(element, cles)) as Prisma.InputJsonValue
+  }
+  if (valeur === null || typeof valeur !== 'object') {
+    return valeur as Prisma.InputJsonValue
+  }
+  return Object.fromEntries(Object.entries(valeur).map(([cle, contenu]) => [
+    cle,
+    cles.includes(cle) && typeof contenu === 'string' && !isNaN(Date.parse(contenu))
+      ? addYears(new Date(contenu), 1).toISOString()
+      : contenu
+  ])) as Prisma.InputJsonValue
+}
+
+export class SeasonRolloverService {
+  constructor(
+    private prisma: PrismaClient = defaultPrisma,
+    private dataService: DataService = getDataService()
+  ) {}
+
+  /**
+   * Calcule tout ce que ferait le passage à la nouvelle saison, sans rien écrire
+   */
+  async previewRollover(jardinId: string): Promise<ApercuNouvelleSaison> {
+    const planSource = await this.prisma.planPlantation.findFirst({
+      where: { jardinId, statut: { not: StatutPlan.ARCHIVE } },
+      orderBy: [{ anneeCible: 'desc' }, { creeA: 'desc' }],
+      include: {
+        culturesPlannifiees: {
+          include: { variete: true, zone: { select: { id: true, nom: true, estActive: true } } },
+          orderBy: { dateSemisPrevue: 'asc' }
+        }
+      }
+    })
+
+    const anneeCible = planSource ? planSource.anneeCible + 1 : new Date().getFullYear() + 1
+    const cycleRotation = planSource?.cycleRotationAnnees ?? CYCLE_ROTATION_DEFAUT
+
+    const [zones, culturesOuvertes] = await Promise.all([
+      this.prisma.zone.findMany({
+        where: { jardinId, estActive: true },
+        select: { id: true, nom: true },
+        orderBy: { nom: 'asc' }
+      }),
+      this.prisma.instanceCulture.findMany({
+        where: { zone: { jardinId }, estActive: true, anneeSaison: { lt: anneeCible } },
+        include: { variete: { include: { varieteBase: true } } },
+        orderBy: { creeA: 'asc' }
+      })
+    ])
+
+    const planifiees = planSource?.culturesPlannifiees ?? []
+    const reconduites = planifiees.filter(culture => culture.zone.estActive)
+
+    const vivaces = culturesOuvertes.filter(culture => estVivace(culture.variete.varieteBase))
+    const annuelles = culturesOuvertes.filter(culture => !estVivace(culture.variete.varieteBase))
+    const finies = annuelles.filter(culture =>
+      ETAPES_FINIES.includes(culture.etapeCycleVie) || (culture.dateFinCycle !== null && culture.dateFinCycle <= new Date())
+    )
+    const ouvertes = annuelles.filter(culture => !finies.includes(culture))
+
+    const violationsRotation = await this.findRotationViolations(
+      jardinId,
+      anneeCible,
+      cycleRotation,
+      reconduites
+        .filter(culture => !estVivace(culture.variete))
+        .map(culture => ({ variete: culture.variete, zone: culture.zone }))
+    )
+
+    // Chaque paire incompatible n'est signalée qu'une fois
+    const evaluations = await new CompanionPlantingService(this.prisma).evaluateEntries(
+      jardinId,
+      reconduites.map(culture => {
+        const periode = periodePlanifiee(culture)
+        return {
+          varietyId: culture.varietyId,
+          zoneId: culture.zoneId,
+          debut: addYears(periode.debut, 1),
+          fin: periode.fin && addYears(periode.fin, 1)
+        }
+      })
+    )
+    const avertissementsVoisinage = evaluations.flatMap((evaluation, index) =>
+      evaluation.incompatibles
+        .map(({ voisin }, rang) => ({ voisinIndex: Number(voisin.id), message: evaluation.avertissements[rang] }))
+        .filter(({ voisinIndex }) => voisinIndex > index)
+        .map(({ message }) => message)
+    )
+
+    return {
+      anneeCible,
+      planSource: planSource && { id: planSource.id, nom: planSource.nom, anneeCible: planSource.anneeCible },
+      zones,
+      culturesPlanifiees: reconduites.map(culture => ({
+        varietyId: culture.varietyId,
+        nomVariete: culture.variete.nomCommun,
+        zoneId: culture.zoneId,
+        nomZone: culture.zone.nom,
+        dateSemisPrevue: addYears(culture.dateSemisPrevue, 1)
+      })),
+      culturesIgnorees: planifiees
+        .filter(culture => !culture.zone.estActive)
+        .map(culture => ({ nomVariete: culture.variete.nomCommun, nomZone: culture.zone.nom })),
+      vivaces: vivaces.map(culture => ({ instanceCultureId: culture.id, nom: culture.nom, zoneId: culture.zoneId })),
+      culturesAFermer: ouvertes.map(culture => ({ instanceCultureId: culture.id, nom: culture.nom })),
+      culturesAArchiver: finies.map(culture => ({ instanceCultureId: culture.id, nom: culture.nom })),
+      violationsRotation,
+      avertissementsVoisinage
+    }
+  }
+
+  /**
+   * Passe le jardin à la saison suivante. Les violations de rotation bloquent
+   * l'opération tant qu'elles ne sont pas explicitement acceptées.
+   *
+   * Chaque étape repart de l'état courant du jardin : après un échec, relancer
+   * l'opération reprend là où elle s'est arrêtée. Le plan est dupliqué en dernier,
+   * dans la transaction qui pose le marqueur saisonCourante du jardin.
+   *
+   * La saison suivante (année civile + 1) ne s'ouvre qu'une fois : un plan de cette
+   * année ou au-delà, ou le marqueur d'un passage sans plan, la signale comme créée.
+   */
+  async rollover(
+    jardinId: string,
+    userId: string,
+    options: { ignorerRotation?: boolean } = {}
+  ): Promise<ResultatNouvelleSaison> {
+    const apercu = await this.previewRollover(jardinId)
+
+    const anneeSuivante = new Date().getFullYear() + 1
+
+    const [existant, jardin] = await Promise.all([
+      this.prisma.planPlantation.findFirst({
+        where: { jardinId, anneeCible: { gte: Math.min(apercu.anneeCible, anneeSuivante) } },
+        orderBy: { anneeCible: 'asc' },
+        select: { id: true }
+      }),
+      this.prisma.jardin.findUnique({ where: { id: jardinId }, select: { saisonCourante: true } })
+    ])
+    if (existant || (jardin?.saisonCourante ?? 0) >= apercu.anneeCible) {
+      return { statut: 'saison_existante', planId: existant?.id ?? null }
+    }
+
+    if (apercu.violationsRotation.length > 0 && !options.ignorerRotation) {
+      return { statut: 'rotation', violationsRotation: apercu.violationsRotation }
+    }
+
+    // Les cultures de la saison écoulée libèrent leur place au début de la nouvelle
+    const debutSaison = new Date(Math.max(new Date(apercu.anneeCible, 0, 1).getTime(), Date.now()))
+
+    for (const { instanceCultureId } of apercu.culturesAArchiver) {
+      await this.dataService.culture.archive(instanceCultureId)
+    }
+
+    for (const { instanceCultureId } of apercu.culturesAFermer) {
+      const culture = await this.dataService.culture.findById(instanceCultureId)
+      if (culture) {
+        await this.dataService.zone.releaseCulture(culture.zoneId, culture.id, debutSaison)
+      }
+    }
+
+    const vivacesNonReconduites: string[] = []
+    for (const { instanceCultureId } of apercu.vivaces) {
+      const reconduite = await this.carryOverPerennial(instanceCultureId, apercu.anneeCible, debutSaison)
+      if (!reconduite) vivacesNonReconduites.push(instanceCultureId)
+    }
+
+    const plan = apercu.planSource
+      ? await this.duplicatePlan(apercu.planSource.id, apercu.anneeCible, userId)
+      : null
+
+    if (!plan) {
+      await this.prisma.jardin.update({
+        where: { id: jardinId },
+        data: { saisonCourante: apercu.anneeCible }
+      })
+    }
+
+    // Voisinage recalculé avec les vivaces reconduites et les plans de l'année
+    if (plan) {
+      await new CompanionPlantingService(this.prisma).updatePlanCompatibility(plan.id)
+    }
+
+    return { statut: 'cree', plan, apercu, vivacesNonReconduites }
+  }
+
+  /**
+   * Familles déjà cultivées dans chaque zone pendant le cycle de rotation
+   * qui précède l'année cible (cultures réelles et plans)
+   */
+  private async findRotationViolations(
+    jardinId: string,
+    anneeCible: number,
+    cycleRotation: number,
+    prevues: Array<{ variete: VarieteCulture; zone: { id: string; nom: string } }>
+  ): Promise<ViolationRotation[]> {
+    if (prevues.length === 0 || cycleRotation < 2) return []
+
+    const anneeMin = anneeCible - (cycleRotation - 1)
+    const zoneIds = [...new Set(prevues.map(prevue => prevue.zone.id))]
+
+    const [cultures, planifiees] = await Promise.all([
+      this.prisma.instanceCulture.findMany({
+        where: { zoneId: { in: zoneIds }, anneeSaison: { gte: anneeMin, lt: anneeCible } },
+        select: { zoneId: true, nom: true, anneeSaison: true, variete: { select: { varieteBase: true } } }
+      }),
+      this.prisma.plannedCulture.findMany({
+        where: {
+          zoneId: { in: zoneIds },
+          plan: { jardinId, anneeCible: { gte: anneeMin, lt: anneeCible }, statut: { not: StatutPlan.ARCHIVE } }
+        },
+        select: { zoneId: true, variete: true, plan: { select: { anneeCible: true } } }
+      })
+    ])
+
+    const historique = [
+      ...cultures
+        .filter(culture => !estVivace(culture.variete.varieteBase))
+        .map(culture => ({
+          zoneId: culture.zoneId,
+          famille: normaliserFamille(culture.variete.varieteBase.famille),
+          annee: culture.anneeSaison,
+          nom: culture.nom
+        })),
+      ...planifiees.map(planifiee => ({
+        zoneId: planifiee.zoneId,
+        famille: normaliserFamille(planifiee.variete.famille),
+        annee: planifiee.plan.anneeCible,
+        nom: planifiee.variete.nomCommun
+      }))
+    ]
+
+    return prevues.flatMap(({ variete, zone }) => {
+      const famille = normaliserFamille(variete.famille)
+      if (!famille) return []
+
+      // Le conflit le plus récent est le plus parlant
+      const conflit = historique
+        .filter(entree => entree.zoneId === zone.id && entree.famille === famille)
+        .sort((a, b) => b.annee - a.annee)[0]
+
+      return conflit
+        ? [{
+            zoneId: zone.id,
+            nomZone: zone.nom,
+            varietyId: variete.id,
+            nomVariete: variete.nomCommun,
+            famille: variete.famille!,
+            anneeConflit: conflit.annee,
+            nomConflit: conflit.nom
+          }]
+        : []
+    })
+  }
+
+  /**
+   * Copie le plan en brouillon un an plus tard ; le plan source est terminé
+   */
+  private async duplicatePlan(planId: string, anneeCible: number, userId: string): Promise<PlanPlantation> {
+    return this.prisma.$transaction(async (tx) => {
+      const source = await tx.planPlantation.findUniqueOrThrow({
+        where: { id: planId },
+        include: { culturesPlannifiees: { where: { zone: { estActive: true } } } }
+      })
+
+      await tx.jardin.update({
+        where: { id: source.jardinId },
+        data: { saisonCourante: anneeCible }
+      })
+
+      const plan = await tx.planPlantation.create({
+        data: {
+          utilisateurId: userId,
+          jardinId: source.jardinId,
+          nom: source.nom.includes(String(source.anneeCible))
+            ? source.nom.replace(String(source.anneeCible), String(anneeCible))
+            : `Plan Saison ${anneeCible}`,
+          description: source.description,
+          anneeCible,
+          strategiePlanification: source.strategiePlanification,
+          cycleRotationAnnees: source.cycleRotationAnnees,
+          contraintes: source.contraintes ?? undefined,
+          rendementTotalAttendu: source.rendementTotalAttendu,
+          coutEstime: source.coutEstime,
+          heuresTravailEstimees: source.heuresTravailEstimees,
+          statut: StatutPlan.BROUILLON
+        }
+      })
+
+      // Les ajustements météo et les risques datés ne valent que pour l'année écoulée
+      await tx.plannedCulture.createMany({
+        data: source.culturesPlannifiees.map(culture => ({
+          planId: plan.id,
+          varietyId: culture.varietyId,
+          zoneId: culture.zoneId,
+          dateSemisPrevue: addYears(culture.dateSemisPrevue, 1),
+          fenetreSemis: decalerJson(culture.fenetreSemis, ['debut', 'fin']),
+          dateRepiquagePrevue: culture.dateRepiquagePrevue && addYears(culture.dateRepiquagePrevue, 1),
+          fenetreRecolte: decalerJson(culture.fenetreRecolte, ['debut', 'fin']),
+          interventionsProgrammees: decalerJson(culture.interventionsProgrammees, ['date']),
+          scoreOptimisationZone: culture.scoreOptimisationZone,
+          compatibiliteVoisinage: culture.compatibiliteVoisinage ?? undefined,
+          recommandations: culture.recommandations ?? undefined
+        }))
+      })
+
+      if (source.statut !== StatutPlan.TERMINE) {
+        await tx.planPlantation.update({
+          where: { id: source.id },
+          data: { statut: StatutPlan.TERMINE }
+        })
+      }
+
+      return plan
+    })
+  }
+
+  /**
+   * Termine la saison d'une vivace et la reconduit dans la même zone.
+   * Retourne false si la zone n'a plus la place nécessaire : la vivace garde alors sa place.
+   */
+  private async carryOverPerennial(instanceCultureId: string, anneeCible: number, debutSaison: Date): Promise<boolean> {
+    const culture = await this.dataService.culture.findById(instanceCultureId)
+    if (!culture) return false
+
+    // Reprise après un échec : la vivace a déjà sa culture dans la nouvelle saison
+    const dejaReconduite = await this.prisma.instanceCulture.findFirst({
+      where: { zoneId: culture.zoneId, varieteId: culture.varieteId, nom: culture.nom, anneeSaison: anneeCible, estActive: true },
+      select: { id: true, etapeCycleVie: true }
+    })
+    if (dejaReconduite) {
+      if (dejaReconduite.etapeCycleVie !== EtapeCycleVie.CROISSANCE) {
+        await this.dataService.culture.updateEtapeCycle(dejaReconduite.id, EtapeCycleVie.CROISSANCE, {
+          commentaire: 'Vivace reconduite'
+        })
+      }
+      await this.dataService.culture.archive(culture.id)
+      return true
+    }
+
+    const resultat = await this.dataService.culture.create({
+      nom: culture.nom,
+      utilisateurId: culture.utilisateurId,
+      varieteId: culture.varieteId,
+      zoneId: culture.zoneId,
+      anneeSaison: anneeCible,
+      quantitePlantee: culture.quantitePlantee ?? undefined,
+      prelevementGraines: false, // La vivace reste en place : aucune graine semée
+      partSurface: culture.partSurface,
+      dateDebutOccupation: debutSaison,
+      remplaceCultureId: culture.id,
+      notes: culture.notes ?? undefined
+    })
+
+    if (resultat.statut !== 'reservee') return false
+
+    // La plante est déjà en place : elle reprend directement en croissance
+    await this.dataService.culture.updateEtapeCycle(resultat.culture.id, EtapeCycleVie.CROISSANCE, {
+      commentaire: 'Vivace reconduite'
+    })
+    await this.dataService.culture.archive(culture.id)
+
+    return true
+  }
+}
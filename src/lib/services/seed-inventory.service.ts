@@ -0,0 +1,193 @@
+/**
+ * Stock de graines de l'utilisateur : sachets, viabilité et alertes par variété
+ *
+ * Les sachets se rattachent à la variété personnelle (VarieteCultureUtilisateur),
+ * créée au besoin ; les semis les décomptent via syncSeedWithdrawals.
+ */
+
+import { Prisma, PrismaClient, SachetGraines } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { catalogueVisible, createDefaultPerformance } from '../repositories/variety.repository'
+import {
+  AlerteGraines,
+  alertesVariete,
+  dureeGerminative,
+  EstimationViabilite,
+  estimerViabilite,
+  estPerime
+} from '../stock-graines'
+
+export interface SachetAvecEtat extends SachetGraines {
+  variete: { id: string; varieteBaseId: string; nom: string }
+  viabilite: EstimationViabilite
+  perime: boolean
+}
+
+export interface StockVariete {
+  varieteId: string
+  varieteBaseId: string
+  nom: string
+  quantiteRestante: number // Graines des sachets non périmés
+  nombreSachets: number
+  alertes: AlerteGraines[]
+}
+
+export interface CreateSachetInput {
+  varieteBaseId: string
+  fournisseur?: string
+  numeroLot?: string
+  dateAchat?: Date
+  anneeProduction?: number
+  dateExpiration?: Date
+  quantiteInitiale: number
+  quantiteRestante?: number // Sachet déjà entamé ; plein par défaut
+  seuilAlerte?: number
+  notes?: string
+}
+
+export type UpdateSachetInput = Partial<Omit<CreateSachetInput, 'varieteBaseId'>>
+
+export type ResultatModificationSachet =
+  | { statut: 'modifie'; sachet: SachetGraines }
+  | { statut: 'quantite_invalide' }
+
+const varieteSelect = {
+  id: true,
+  varieteBaseId: true,
+  nomPersonnalise: true,
+  varieteBase: { select: { nomCommun: true, famille: true } }
+} as const
+
+export class SeedInventoryService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Sachets de l'utilisateur, les plus anciens d'abord, avec leur viabilité estimée
+   */
+  async listSachets(
+    userId: string,
+    options: { varieteBaseId?: string; inclureEpuises?: boolean } = {}
+  ): Promise<SachetAvecEtat[]> {
+    const sachets = await this.prisma.sachetGraines.findMany({
+      where: {
+        utilisateurId: userId,
+        ...(options.varieteBaseId && { variete: { varieteBaseId: options.varieteBaseId } }),
+        ...(!options.inclureEpuises && { quantiteRestante: { gt: 0 } })
+      },
+      include: { variete: { select: varieteSelect } },
+      orderBy: [{ anneeProduction: { sort: 'asc', nulls: 'last' } }, { dateAchat: { sort: 'asc', nulls: 'last' } }]
+    })
+
+    const maintenant = new Date()
+    return sachets.map(({ variete, ...sachet }) => ({
+      ...sachet,
+      variete: {
+        id: variete.id,
+        varieteBaseId: variete.varieteBaseId,
+        nom: variete.nomPersonnalise ?? variete.varieteBase.nomCommun
+      },
+      viabilite: estimerViabilite(
+        sachet,
+        dureeGerminative(variete.varieteBase.nomCommun, variete.varieteBase.famille),
+        maintenant
+      ),
+      perime: estPerime(sachet, maintenant)
+    }))
+  }
+
+  /**
+   * Stock par variété ayant au moins un sachet, avec ses alertes
+   */
+  async getStock(userId: string): Promise<StockVariete[]> {
+    const varietes = await this.prisma.varieteCultureUtilisateur.findMany({
+      where: { utilisateurId: userId, sachetsGraines: { some: {} } },
+      select: { ...varieteSelect, sachetsGraines: true }
+    })
+
+    const maintenant = new Date()
+    return varietes
+      .map(variete => {
+        const duree = dureeGerminative(variete.varieteBase.nomCommun, variete.varieteBase.famille)
+        return {
+          varieteId: variete.id,
+          varieteBaseId: variete.varieteBaseId,
+          nom: variete.nomPersonnalise ?? variete.varieteBase.nomCommun,
+          quantiteRestante: variete.sachetsGraines
+            .filter(sachet => !estPerime(sachet, maintenant))
+            .reduce((total, sachet) => total + sachet.quantiteRestante, 0),
+          nombreSachets: variete.sachetsGraines.filter(sachet => sachet.quantiteRestante > 0).length,
+          alertes: alertesVariete(variete.sachetsGraines, duree, maintenant)
+        }
+      })
+      .sort((a, b) => b.alertes.length - a.alertes.length || a.nom.localeCompare(b.nom))
+  }
+
+  /**
+   * Ajoute un sachet ; la variété personnelle est créée si l'utilisateur ne l'a pas encore.
+   * Retourne null si la variété du catalogue n'existe pas ou n'est pas visible de l'utilisateur.
+   */
+  async createSachet(userId: string, input: CreateSachetInput): Promise<SachetGraines | null> {
+    const { varieteBaseId, ...donnees } = input
+
+    const varieteBase = await this.prisma.varieteCulture.findFirst({
+      where: { AND: [{ id: varieteBaseId }, catalogueVisible(userId)] },
+      select: { id: true }
+    })
+    if (!varieteBase) return null
+
+    const variete = await this.prisma.varieteCultureUtilisateur.upsert({
+      where: { utilisateurId_varieteBaseId: { utilisateurId: userId, varieteBaseId } },
+      create: {
+        utilisateurId: userId,
+        varieteBaseId,
+        performancePersonnelle: createDefaultPerformance() as unknown as Prisma.InputJsonValue
+      },
+      update: {},
+      select: { id: true }
+    })
+
+    return this.prisma.sachetGraines.create({
+      data: {
+        ...donnees,
+        quantiteRestante: donnees.quantiteRestante ?? donnees.quantiteInitiale,
+        utilisateurId: userId,
+        varieteId: variete.id
+      }
+    })
+  }
+
+  /**
+   * Met à jour un sachet de l'utilisateur (inventaire, dates...).
+   * Retourne null si le sachet n'existe pas ou appartient à un autre utilisateur.
+   */
+  async updateSachet(
+    userId: string,
+    sachetId: string,
+    input: UpdateSachetInput
+  ): Promise<ResultatModificationSachet | null> {
+    const existant = await this.prisma.sachetGraines.findFirst({
+      where: { id: sachetId, utilisateurId: userId }
+    })
+    if (!existant) return null
+
+    const quantiteInitiale = input.quantiteInitiale ?? existant.quantiteInitiale
+    const quantiteRestante = input.quantiteRestante ?? existant.quantiteRestante
+    if (quantiteRestante > quantiteInitiale) return { statut: 'quantite_invalide' }
+
+    const sachet = await this.prisma.sachetGraines.update({
+      where: { id: existant.id },
+      data: input
+    })
+    return { statut: 'modifie', sachet }
+  }
+
+  /**
+   * Supprime un sachet de l'utilisateur ; les semis déjà faits restent décomptés
+   */
+  async deleteSachet(userId: string, sachetId: string): Promise<boolean> {
+    const { count } = await this.prisma.sachetGraines.deleteMany({
+      where: { id: sachetId, utilisateurId: userId }
+    })
+    return count > 0
+  }
+}
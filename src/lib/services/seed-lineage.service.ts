@@ -0,0 +1,150 @@
+/**
+ * Graines récoltées au jardin et lignée d'une variété au fil des générations
+ *
+ * Les graines sauvées d'une culture forment un nouveau sachet rattaché à la
+ * culture d'origine ; les cultures suivantes y puisent via leur lot source
+ * (sachetSourceId) ou leurs prélèvements. Voir lignee-graines pour l'arbre.
+ */
+
+import { Prisma, PrismaClient, SachetGraines } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { readZoneArea } from '../geometry'
+import { construireLignee, CulturePourLignee, Lignee } from '../lignee-graines'
+import { lireNoteQualite } from '../performance-variete'
+
+export interface SaveSeedsInput {
+  quantiteInitiale: number
+  anneeProduction?: number // Année de la culture par défaut
+  numeroLot?: string // Code lot de la culture par défaut
+  seuilAlerte?: number
+  notes?: string
+}
+
+export interface LigneeVariete extends Lignee {
+  varieteId: string
+  varieteBaseId: string
+  nom: string
+}
+
+const cultureInclude = {
+  zone: { select: { geometrie: true } },
+  recoltes: { select: { poidsTotalKg: true, evaluationQualite: true } },
+  prelevementsGraines: { select: { sachetId: true, quantite: true } }
+} as const
+
+type CultureChargee = Prisma.InstanceCultureGetPayload<{ include: typeof cultureInclude }>
+
+const moyenneNotes = (notes: Array<number | null>): number | null => {
+  const renseignees = notes.filter((note): note is number => note !== null)
+  return renseignees.length > 0 ? renseignees.reduce((somme, note) => somme + note, 0) / renseignees.length : null
+}
+
+/**
+ * Lot dont la culture est issue : le lot source déclaré, sinon le sachet le plus prélevé
+ */
+function lotParent(culture: Pick<CultureChargee, 'sachetSourceId' | 'prelevementsGraines'>): string | null {
+  if (culture.sachetSourceId) return culture.sachetSourceId
+
+  const principal = [...culture.prelevementsGraines].sort((a, b) => b.quantite - a.quantite)[0]
+  return principal?.sachetId ?? null
+}
+
+function versCulturePourLignee(culture: CultureChargee): CulturePourLignee {
+  const poidsTotalKg = culture.recoltes.reduce((total, recolte) => total + Number(recolte.poidsTotalKg), 0)
+  const surface = readZoneArea(culture.zone.geometrie)
+  const surfaceCulture = surface !== null ? surface * culture.partSurface : null
+
+  return {
+    id: culture.id,
+    lotParentId: lotParent(culture),
+    nom: culture.nom,
+    codeLot: culture.codeLot,
+    anneeSaison: culture.anneeSaison,
+    poidsTotalKg: Math.round(poidsTotalKg * 1000) / 1000,
+    rendementKgM2: surfaceCulture && culture.recoltes.length > 0
+      ? Math.round((poidsTotalKg / surfaceCulture) * 100) / 100
+      : null,
+    qualiteMoyenne: moyenneNotes(culture.recoltes.map(recolte => lireNoteQualite(recolte.evaluationQualite))),
+    goutMoyen: moyenneNotes(culture.recoltes.map(recolte => lireNoteQualite(recolte.evaluationQualite, 'noteGout')))
+  }
+}
+
+export class SeedLineageService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Enregistre les graines sauvées d'une culture de l'utilisateur, une génération
+   * après le lot dont la culture est issue. Retourne null si la culture n'existe pas.
+   */
+  async saveSeeds(userId: string, cultureId: string, input: SaveSeedsInput): Promise<SachetGraines | null> {
+    const culture = await this.prisma.instanceCulture.findFirst({
+      where: { id: cultureId, utilisateurId: userId },
+      select: {
+        id: true,
+        varieteId: true,
+        codeLot: true,
+        anneeSaison: true,
+        sachetSourceId: true,
+        prelevementsGraines: { select: { sachetId: true, quantite: true } }
+      }
+    })
+    if (!culture) return null
+
+    const parentId = lotParent(culture)
+    const parent = parentId
+      ? await this.prisma.sachetGraines.findUnique({ where: { id: parentId }, select: { generation: true } })
+      : null
+
+    return this.prisma.sachetGraines.create({
+      data: {
+        utilisateurId: userId,
+        varieteId: culture.varieteId,
+        cultureOrigineId: culture.id,
+        generation: (parent?.generation ?? 0) + 1,
+        numeroLot: input.numeroLot ?? culture.codeLot,
+        anneeProduction: input.anneeProduction ?? culture.anneeSaison,
+        quantiteInitiale: input.quantiteInitiale,
+        quantiteRestante: input.quantiteInitiale,
+        seuilAlerte: input.seuilAlerte,
+        notes: input.notes
+      }
+    })
+  }
+
+  /**
+   * Arbre des lots et cultures d'une variété de l'utilisateur, avec le bilan par génération.
+   * Retourne null si l'utilisateur n'a pas cette variété.
+   */
+  async getLineage(userId: string, varieteBaseId: string): Promise<LigneeVariete | null> {
+    const variete = await this.prisma.varieteCultureUtilisateur.findUnique({
+      where: { utilisateurId_varieteBaseId: { utilisateurId: userId, varieteBaseId } },
+      include: {
+        varieteBase: { select: { nomCommun: true } },
+        sachetsGraines: true,
+        instancesCulture: { include: cultureInclude }
+      }
+    })
+    if (!variete) return null
+
+    const lignee = construireLignee(
+      variete.sachetsGraines.map(sachet => ({
+        id: sachet.id,
+        cultureOrigineId: sachet.cultureOrigineId,
+        generation: sachet.generation,
+        numeroLot: sachet.numeroLot,
+        fournisseur: sachet.fournisseur,
+        anneeProduction: sachet.anneeProduction,
+        quantiteInitiale: sachet.quantiteInitiale,
+        quantiteRestante: sachet.quantiteRestante
+      })),
+      variete.instancesCulture.map(versCulturePourLignee)
+    )
+
+    return {
+      varieteId: variete.id,
+      varieteBaseId: variete.varieteBaseId,
+      nom: variete.nomPersonnalise ?? variete.varieteBase.nomCommun,
+      ...lignee
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Registre des sessions et appareils connectés
+ *
+ * Les sessions NextAuth sont des JWT : chaque connexion crée une ligne Session dont
+ * le sessionToken est porté par le JWT. Supprimer la ligne invalide le JWT au prochain
+ * appel et la révocation est publiée sur Redis pour fermer le WebSocket de synchro.
+ */
+
+import { PrismaClient, Session, TypeAppareil } from '@prisma/client'
+import Redis from 'ioredis'
+import { prisma as defaultPrisma } from '../db'
+import { detectTypeAppareil, generateSecureToken } from '../security'
+import { DeviceConnection } from '@/types/sync'
+import { SESSION_MAX_AGE_SECONDES } from '../auth.config'
+
+// Évite une écriture en base à chaque requête authentifiée
+const RAFRAICHISSEMENT_ACCES_MS = 5 * 60 * 1000
+// Validité mémorisée par processus : une révocation sur une autre instance prend effet sous ce délai
+const CACHE_VALIDITE_MS = 30 * 1000
+
+// sessionToken -> identifiant de session et fin de validité du cache
+const sessionsValidees = new Map<string, { sessionId: string; jusqua: number }>()
+
+export function sessionRevocationChannel(userId: string): string {
+  return `user:${userId}:sessions`
+}
+
+export interface AppareilSession {
+  id: string
+  nom: string
+  typeAppareil: TypeAppareil | null
+  adresseIp: string | null
+  creeA: Date
+  derniereActiviteA: Date
+  courante: boolean
+  connexionsSync: DeviceConnection[]
+}
+
+let publisher: Redis | null = null
+
+function getPublisher(): Redis {
+  if (!publisher) {
+    publisher = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      lazyConnect: true
+    })
+  }
+  return publisher
+}
+
+export class SessionService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Enregistre une nouvelle session à la connexion
+   */
+  async createSession(
+    userId: string,
+    contexte: { userAgent: string | null; adresseIp: string | null }
+  ): Promise<Session> {
+    return this.prisma.session.create({
+      data: {
+        sessionToken: generateSecureToken(),
+        userId,
+        expires: new Date(Date.now() + SESSION_MAX_AGE_SECONDES * 1000),
+        userAgent: contexte.userAgent,
+        adresseIp: contexte.adresseIp,
+        typeAppareil: detectTypeAppareil(contexte.userAgent) ?? null
+      }
+    })
+  }
+
+  /**
+   * Retourne la session si elle est toujours valide et rafraîchit sa dernière activité
+   */
+  async validateSession(sessionToken: string): Promise<Session | null> {
+    const session = await this.prisma.session.findUnique({ where: { sessionToken } })
+
+    if (!session || session.expires <= new Date()) return null
+
+    if (Date.now() - session.dernierAccesA.getTime() > RAFRAICHISSEMENT_ACCES_MS) {
+      await this.prisma.session.update({
+        where: { id: session.id },
+        data: { dernierAccesA: new Date() }
+      })
+    }
+
+    return session
+  }
+
+  /**
+   * Indique si la session est toujours valide, en s'appuyant sur un cache court
+   * pour ne pas interroger la base à chaque décodage du JWT
+   */
+  async isSessionValid(sessionToken: string): Promise<boolean> {
+    const enCache = sessionsValidees.get(sessionToken)
+    if (enCache && enCache.jusqua > Date.now()) return true
+
+    const session = await this.validateSession(sessionToken)
+    if (!session) {
+      sessionsValidees.delete(sessionToken)
+      return false
+    }
+
+    // Purge des entrées périmées avant d'ajouter (le cache ne croît pas sans borne)
+    for (const [token, entree] of sessionsValidees) {
+      if (entree.jusqua <= Date.now()) sessionsValidees.delete(token)
+    }
+    sessionsValidees.set(sessionToken, {
+      sessionId: session.id,
+      jusqua: Math.min(Date.now() + CACHE_VALIDITE_MS, session.expires.getTime())
+    })
+
+    return true
+  }
+
+  /**
+   * Supprime la session à la déconnexion volontaire
+   */
+  async endSession(sessionToken: string): Promise<void> {
+    sessionsValidees.delete(sessionToken)
+    await this.prisma.session.deleteMany({ where: { sessionToken } })
+  }
+
+  /**
+   * Sessions actives jointes aux devices de synchro enregistrés
+   */
+  async listDevices(
+    userId: string,
+    devices: DeviceConnection[],
+    currentSessionId?: string
+  ): Promise<{ appareils: AppareilSession[]; connexionsSansSession: DeviceConnection[] }> {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, expires: { gt: new Date() } },
+      orderBy: { dernierAccesA: 'desc' }
+    })
+
+    const appareils = sessions.map(session => {
+      const connexionsSync = devices.filter(device => device.sessionId === session.id)
+      const dernierSync = Math.max(0, ...connexionsSync.map(device => device.lastSeen))
+
+      return {
+        id: session.id,
+        nom: this.describeUserAgent(session.userAgent),
+        typeAppareil: session.typeAppareil,
+        adresseIp: session.adresseIp,
+        creeA: session.creeA,
+        derniereActiviteA: new Date(Math.max(session.dernierAccesA.getTime(), dernierSync)),
+        courante: session.id === currentSessionId,
+        connexionsSync
+      }
+    })
+
+    const sessionIds = new Set(sessions.map(session => session.id))
+
+    return {
+      appareils,
+      connexionsSansSession: devices.filter(device => !device.sessionId || !sessionIds.has(device.sessionId))
+    }
+  }
+
+  /**
+   * Révoque une session : le JWT devient invalide et son WebSocket est fermé
+   */
+  async revoke(userId: string, sessionId: string): Promise<boolean> {
+    const { count } = await this.prisma.session.deleteMany({
+      where: { id: sessionId, userId }
+    })
+
+    if (count === 0) return false
+
+    for (const [token, entree] of sessionsValidees) {
+      if (entree.sessionId === sessionId) sessionsValidees.delete(token)
+    }
+
+    try {
+      await getPublisher().publish(sessionRevocationChannel(userId), JSON.stringify({ sessionId }))
+    } catch (error) {
+      // Le JWT est déjà invalidé ; le WebSocket sera refusé à sa reconnexion
+      console.error('Erreur lors de la publication de la révocation:', error)
+    }
+
+    return true
+  }
+
+  private describeUserAgent(userAgent: string | null): string {
+    if (!userAgent) return 'Appareil inconnu'
+
+    const navigateur =
+      /edg\//i.test(userAgent) ? 'Edge' :
+      /firefox\//i.test(userAgent) ? 'Firefox' :
+      /chrome\//i.test(userAgent) ? 'Chrome' :
+      /safari\//i.test(userAgent) ? 'Safari' :
+      'Navigateur'
+
+    const systeme =
+      /android/i.test(userAgent) ? 'Android' :
+      /iphone|ipad|ipod/i.test(userAgent) ? 'iOS' :
+      /tizen|webos|smart-?tv/i.test(userAgent) ? 'TV' :
+      /windows/i.test(userAgent) ? 'Windows' :
+      /mac os/i.test(userAgent) ? 'macOS' :
+      /linux/i.test(userAgent) ? 'Linux' :
+      null
+
+    return systeme ? `${navigateur} sur ${systeme}` : navigateur
+  }
+}
@@ -10,6 +10,7 @@
 
 import { PrismaClient, VarieteCulture } from '@prisma/client'
 import { addDays, addWeeks, format, isBefore } from 'date-fns'
+import { CompanionPlantingService } from './companion-planting.service'
 
 interface Zone {
   id: string
@@ -98,6 +99,12 @@ interface PlanificationResult {
     severite: 'FAIBLE' | 'MOYEN' | 'ELEVE'
     recommandation: string
   }>
+  compatibiliteVoisinage: {
+    associations: string[]
+    incompatibilites: string[]
+    score: number | null
+    avertissements: string[]
+  } | null
   scoreOptimisation: number
 }
 
@@ -197,7 +204,15 @@ export class SmartPlanningService {
         variety
       )
 
-      // 10. Calculer le score d'optimisation global
+      // 10. Vérifier le compagnonnage avec les cultures voisines sur la période
+      const voisinage = await new CompanionPlantingService(this.prisma).evaluatePlacement({
+        varietyId,
+        zoneId,
+        debut: repiquageDate ?? semisWindow.startDate,
+        fin: recolteWindow.endDate
+      })
+
+      // 11. Calculer le score d'optimisation global
       const scoreOptimisation = this.calculateOptimizationScore(
         semisWindow,
         recolteWindow,
@@ -223,6 +238,12 @@ export class SmartPlanningService {
         },
         interventionsProgrammees: interventions,
         risquesIdentifies: risques,
+        compatibiliteVoisinage: voisinage && {
+          associations: [...new Set(voisinage.compagnes.map(({ voisin }) => voisin.nom))],
+          incompatibilites: [...new Set(voisinage.incompatibles.map(({ voisin }) => voisin.nom))],
+          score: voisinage.score,
+          avertissements: voisinage.avertissements
+        },
         scoreOptimisation: scoreOptimisation
       }
 
@@ -0,0 +1,282 @@
+/**
+ * Double authentification TOTP (RFC 6238) et codes de secours
+ *
+ * Le secret est chiffré en base et ne devient actif qu'après validation d'un
+ * premier code. Les codes de secours sont à usage unique et stockés hachés ;
+ * un code TOTP ne sert qu'une fois et les échecs répétés bloquent la vérification.
+ */
+
+import { randomInt } from 'crypto'
+import { PrismaClient, TypeActivite, User } from '@prisma/client'
+import { Secret, TOTP } from 'otpauth'
+import QRCode from 'qrcode'
+import { prisma as defaultPrisma } from '../db'
+import { decryptSecret, encryptSecret, hashToken, logActivity } from '../security'
+
+const ISSUER = 'Baš-Malin'
+const NOMBRE_CODES_RECUPERATION = 10
+// Alphabet sans caractères ambigus (0/O, 1/I/L) pour les codes de secours
+const ALPHABET_CODES = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+// Tolérance d'une période (30 s) avant/après pour les horloges décalées
+const FENETRE_VALIDATION = 1
+const PERIODE_SECONDES = 30
+// Au-delà de TENTATIVES_MAX codes erronés consécutifs, la vérification est suspendue
+const TENTATIVES_MAX = 5
+const BLOCAGE_MINUTES = 15
+
+export type MethodeDeuxFacteurs = 'totp' | 'recuperation'
+
+export class TwoFactorService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Génère un nouveau secret (non actif) et son QR code de provisionnement
+   */
+  async startEnrolment(userId: string): Promise<{ otpauthUrl: string; qrCodeSvg: string; secret: string }> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      throw new Error('Utilisateur non trouvé')
+    }
+
+    if (user.totpActiveA) {
+      throw new Error('La double authentification est déjà active')
+    }
+
+    const secret = new Secret({ size: 20 })
+    const totp = this.buildTotp(secret.base32, user.email ?? user.id)
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: encryptSecret(secret.base32), totpDernierPas: null }
+    })
+
+    await this.log(userId, '2fa_enrolement_demarre', TypeActivite.MISE_A_JOUR)
+
+    const otpauthUrl = totp.toString()
+
+    return {
+      otpauthUrl,
+      qrCodeSvg: await QRCode.toString(otpauthUrl, { type: 'svg', margin: 1 }),
+      secret: secret.base32
+    }
+  }
+
+  /**
+   * Active la 2FA si le code correspond au secret en attente
+   * Retourne les codes de secours en clair (affichés une seule fois), ou null.
+   */
+  async activate(userId: string, code: string): Promise<string[] | null> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.totpSecret || user.totpActiveA || await this.isLocked(user)) return null
+
+    if (!await this.consumeTotp(user, code)) {
+      await this.recordFailure(userId, '2fa_activation_echec', TypeActivite.MISE_A_JOUR)
+      return null
+    }
+
+    const codes = await this.replaceRecoveryCodes(userId, { totpActiveA: new Date() })
+    await this.log(userId, '2fa_active', TypeActivite.MISE_A_JOUR)
+
+    return codes
+  }
+
+  /**
+   * Vérifie le second facteur à la connexion : code TOTP ou code de secours
+   */
+  async verifyLogin(userId: string, code: string): Promise<MethodeDeuxFacteurs | null> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.totpSecret || !user.totpActiveA || await this.isLocked(user)) return null
+
+    const saisie = code.replace(/\s/g, '')
+
+    if (/^\d{6}$/.test(saisie) && await this.consumeTotp(user, saisie)) {
+      await this.log(userId, '2fa_succes', TypeActivite.CONNEXION)
+      return 'totp'
+    }
+
+    // updateMany garantit l'usage unique même en cas de requêtes concurrentes
+    const { count } = await this.prisma.codeRecuperation.updateMany({
+      where: { utilisateurId: userId, codeHash: hashToken(this.normalizeRecoveryCode(saisie)), utiliseA: null },
+      data: { utiliseA: new Date() }
+    })
+
+    if (count > 0) {
+      await this.prisma.user.update({ where: { id: userId }, data: { totpEchecs: 0 } })
+      const restants = await this.prisma.codeRecuperation.count({
+        where: { utilisateurId: userId, utiliseA: null }
+      })
+      await this.log(userId, '2fa_code_recuperation_utilise', TypeActivite.CONNEXION, { codesRestants: restants })
+      return 'recuperation'
+    }
+
+    await this.recordFailure(userId, '2fa_echec', TypeActivite.CONNEXION)
+    return null
+  }
+
+  /**
+   * Régénère les codes de secours (exige un code TOTP valide)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[] | null> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.totpSecret || !user.totpActiveA || await this.isLocked(user)) return null
+
+    if (!await this.consumeTotp(user, code)) {
+      await this.recordFailure(userId, '2fa_regeneration_echec', TypeActivite.MISE_A_JOUR)
+      return null
+    }
+
+    const codes = await this.replaceRecoveryCodes(userId)
+    await this.log(userId, '2fa_codes_regeneres', TypeActivite.MISE_A_JOUR)
+
+    return codes
+  }
+
+  /**
+   * Désactive la 2FA (exige un code TOTP valide)
+   */
+  async disable(userId: string, code: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user?.totpSecret || !user.totpActiveA || await this.isLocked(user)) return false
+
+    if (!await this.consumeTotp(user, code)) {
+      await this.recordFailure(userId, '2fa_desactivation_echec', TypeActivite.MISE_A_JOUR)
+      return false
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.codeRecuperation.deleteMany({ where: { utilisateurId: userId } }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: { totpSecret: null, totpActiveA: null, totpDernierPas: null, totpEchecs: 0 }
+      })
+    ])
+
+    await this.log(userId, '2fa_desactive', TypeActivite.MISE_A_JOUR)
+    return true
+  }
+
+  /**
+   * Statut 2FA d'un utilisateur
+   */
+  async getStatus(userId: string): Promise<{ active: boolean; codesRestants: number }> {
+    const [user, codesRestants] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { totpActiveA: true } }),
+      this.prisma.codeRecuperation.count({ where: { utilisateurId: userId, utiliseA: null } })
+    ])
+
+    return { active: !!user?.totpActiveA, codesRestants }
+  }
+
+  private buildTotp(secretBase32: string, label: string): TOTP {
+    return new TOTP({
+      issuer: ISSUER,
+      label,
+      algorithm: 'SHA1',
+      digits: 6,
+      period: PERIODE_SECONDES,
+      secret: Secret.fromBase32(secretBase32)
+    })
+  }
+
+  /**
+   * Valide un code TOTP et consomme son pas de temps : un code déjà accepté
+   * (ou antérieur au dernier accepté) est refusé, même pendant sa fenêtre de validité
+   */
+  private async consumeTotp(user: User, code: string): Promise<boolean> {
+    if (!user.totpSecret) return false
+
+    const totp = this.buildTotp(decryptSecret(user.totpSecret), user.email ?? user.id)
+    const delta = totp.validate({ token: code.replace(/\s/g, ''), window: FENETRE_VALIDATION })
+    if (delta === null) return false
+
+    const pas = Math.floor(Date.now() / 1000 / PERIODE_SECONDES) + delta
+
+    // updateMany conditionnel : deux requêtes concurrentes ne consomment pas le même pas
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpDernierPas: null }, { totpDernierPas: { lt: pas } }] },
+      data: { totpDernierPas: pas, totpEchecs: 0 }
+    })
+
+    if (count === 0) {
+      await this.log(user.id, '2fa_rejeu_refuse', TypeActivite.CONNEXION)
+    }
+
+    return count > 0
+  }
+
+  private async isLocked(user: User): Promise<boolean> {
+    if (!user.totpBloqueJusqua || user.totpBloqueJusqua <= new Date()) return false
+
+    await this.log(user.id, '2fa_bloque', TypeActivite.CONNEXION, { jusqua: user.totpBloqueJusqua })
+    return true
+  }
+
+  /**
+   * Compte un code erroné ; au TENTATIVES_MAX-ième consécutif, la vérification
+   * est suspendue BLOCAGE_MINUTES et le compteur repart de zéro
+   */
+  private async recordFailure(userId: string, evenement: string, typeActivite: TypeActivite): Promise<void> {
+    const { totpEchecs } = await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpEchecs: { increment: 1 } },
+      select: { totpEchecs: true }
+    })
+
+    await this.log(userId, evenement, typeActivite, { echecs: totpEchecs })
+
+    if (totpEchecs >= TENTATIVES_MAX) {
+      const jusqua = new Date(Date.now() + BLOCAGE_MINUTES * 60 * 1000)
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { totpEchecs: 0, totpBloqueJusqua: jusqua }
+      })
+      await this.log(userId, '2fa_blocage', typeActivite, { jusqua })
+    }
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toUpperCase()
+  }
+
+  private async replaceRecoveryCodes(
+    userId: string,
+    userData: { totpActiveA?: Date } = {}
+  ): Promise<string[]> {
+    // Codes lisibles de 10 caractères, affichés en deux groupes (XXXXX-XXXXX)
+    const codes = Array.from({ length: NOMBRE_CODES_RECUPERATION }, () =>
+      Array.from({ length: 10 }, () => ALPHABET_CODES[randomInt(ALPHABET_CODES.length)]).join('')
+    )
+
+    await this.prisma.$transaction([
+      this.prisma.codeRecuperation.deleteMany({ where: { utilisateurId: userId } }),
+      this.prisma.codeRecuperation.createMany({
+        data: codes.map(code => ({ utilisateurId: userId, codeHash: hashToken(code) }))
+      }),
+      this.prisma.user.update({ where: { id: userId }, data: userData })
+    ])
+
+    return codes.map(code => `${code.slice(0, 5)}-${code.slice(5)}`)
+  }
+
+  private async log(
+    userId: string,
+    evenement: string,
+    typeActivite: TypeActivite,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    await logActivity({
+      userId,
+      action: `2FA ${evenement}`,
+      timestamp: new Date(),
+      typeActivite,
+      typeEntite: 'User',
+      idEntite: userId,
+      metadata: { evenement, ...metadata }
+    })
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Comparaison côte à côte de 2 à 5 variétés du catalogue
+ *
+ * Les données de base, la performance personnelle de l'utilisateur et l'usage
+ * communautaire sont alignés critère par critère (voir comparaison-varietes).
+ */
+
+import { CategorieCulture, PrismaClient } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { comparerVarietes, LigneComparaison } from '../comparaison-varietes'
+import { catalogueVisible, PerformancePersonnelle } from '../repositories/variety.repository'
+
+export const VARIETES_COMPARABLES_MIN = 2
+export const VARIETES_COMPARABLES_MAX = 5
+
+export interface UsageCommunautaire {
+  utilisateurs: number
+  favoris: number
+  noteMoyenne: number | null
+}
+
+export interface VarieteComparee {
+  id: string
+  nomCommun: string
+  nomScientifique: string | null
+  famille: string | null
+  categorie: CategorieCulture
+  infosCulture: unknown
+  calendrierDefaut: unknown
+  personnelle: {
+    varieteUtilisateurId: string
+    nomPersonnalise: string | null
+    estFavorite: boolean
+    noteGlobale: number | null
+    performance: PerformancePersonnelle | null // null tant que la variété n'a jamais été cultivée
+  } | null
+  communaute: UsageCommunautaire
+}
+
+export interface ComparaisonVarietes {
+  varietes: VarieteComparee[]
+  lignes: LigneComparaison[]
+}
+
+export type ResultatComparaison =
+  | { statut: 'ok'; comparaison: ComparaisonVarietes }
+  | { statut: 'introuvables'; ids: string[] }
+
+export class VarietyComparisonService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Compare les variétés dans l'ordre demandé ; toutes doivent être visibles par l'utilisateur
+   */
+  async compare(userId: string, ids: string[]): Promise<ResultatComparaison> {
+    const [varietes, usages, favoris] = await Promise.all([
+      this.prisma.varieteCulture.findMany({
+        where: { AND: [{ id: { in: ids } }, catalogueVisible(userId)] },
+        include: {
+          varietesUtilisateur: {
+            where: { utilisateurId: userId },
+            select: { id: true, nomPersonnalise: true, estFavorite: true, noteGlobale: true, performancePersonnelle: true }
+          }
+        }
+      }),
+      this.prisma.varieteCultureUtilisateur.groupBy({
+        by: ['varieteBaseId'],
+        where: { varieteBaseId: { in: ids } },
+        _count: { _all: true },
+        _avg: { noteGlobale: true }
+      }),
+      this.prisma.varieteCultureUtilisateur.groupBy({
+        by: ['varieteBaseId'],
+        where: { varieteBaseId: { in: ids }, estFavorite: true },
+        _count: { _all: true }
+      })
+    ])
+
+    const parId = new Map(varietes.map(variete => [variete.id, variete]))
+    const introuvables = ids.filter(id => !parId.has(id))
+    if (introuvables.length > 0) {
+      return { statut: 'introuvables', ids: introuvables }
+    }
+
+    const comparees: VarieteComparee[] = ids.map(id => {
+      const variete = parId.get(id)!
+      const usage = usages.find(groupe => groupe.varieteBaseId === id)
+      const noteMoyenne = usage?._avg.noteGlobale
+      const personnelle = variete.varietesUtilisateur[0]
+      const performance = personnelle?.performancePersonnelle as PerformancePersonnelle | null | undefined
+
+      return {
+        id: variete.id,
+        nomCommun: variete.nomCommun,
+        nomScientifique: variete.nomScientifique,
+        famille: variete.famille,
+        categorie: variete.categorie,
+        infosCulture: variete.infosCulture,
+        calendrierDefaut: variete.calendrierDefaut,
+        personnelle: personnelle ? {
+          varieteUtilisateurId: personnelle.id,
+          nomPersonnalise: personnelle.nomPersonnalise,
+          estFavorite: personnelle.estFavorite,
+          noteGlobale: personnelle.noteGlobale,
+          performance: performance && performance.nombreCultivations > 0 ? performance : null
+        } : null,
+        communaute: {
+          utilisateurs: usage?._count._all ?? 0,
+          favoris: favoris.find(groupe => groupe.varieteBaseId === id)?._count._all ?? 0,
+          noteMoyenne: noteMoyenne != null ? Math.round(noteMoyenne * 10) / 10 : null
+        }
+      }
+    })
+
+    return {
+      statut: 'ok',
+      comparaison: {
+        varietes: comparees,
+        lignes: comparerVarietes(comparees.map(variete => ({
+          infosCulture: variete.infosCulture,
+          calendrierDefaut: variete.calendrierDefaut,
+          performance: (variete.personnelle?.performance ?? null) as Record<string, unknown> | null,
+          communaute: variete.communaute
+        })))
+      }
+    }
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Contributions au catalogue de variétés et leur modération
+ *
+ * Un utilisateur propose une variété en brouillon privé, la soumet, puis un
+ * relecteur (permission ADMIN) la publie dans le catalogue partagé ou la refuse
+ * avec un commentaire. Une variété refusée redevient modifiable et peut être
+ * resoumise. Chaque étape est tracée dans l'historique de la variété.
+ */
+
+import {
+  ActionHistoriqueVariete,
+  Prisma,
+  PrismaClient,
+  SourceDonnees,
+  StatutModeration,
+  VarieteCulture
+} from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { cleVariete, VarieteCatalogue } from '../catalogue-varietes'
+import { catalogueVisible } from '../repositories/variety.repository'
+
+export interface Contributeur {
+  id: string
+  name: string | null
+}
+
+export interface VarieteSoumise extends VarieteCulture {
+  creePar: Contributeur | null
+}
+
+export interface EntreeHistoriqueVariete {
+  id: string
+  action: ActionHistoriqueVariete
+  version: number
+  donnees: VarieteCatalogue | null
+  commentaire: string | null
+  creeA: Date
+  auteur: Contributeur | null
+}
+
+export interface HistoriqueVariete {
+  varieteId: string
+  nomCommun: string
+  statutModeration: StatutModeration
+  version: number
+  creePar: Contributeur | null
+  moderateur: Contributeur | null
+  modereA: Date | null
+  historique: EntreeHistoriqueVariete[]
+}
+
+export type ResultatContribution =
+  | { statut: 'ok'; variete: VarieteCulture }
+  | { statut: 'introuvable' }
+  | { statut: 'non_modifiable'; statutModeration: StatutModeration }
+
+export type ResultatSuppressionContribution =
+  | { statut: 'supprimee' }
+  | { statut: 'introuvable' }
+  | { statut: 'non_modifiable'; statutModeration: StatutModeration }
+  | { statut: 'utilisee' }
+
+export type ResultatModeration =
+  | { statut: 'ok'; variete: VarieteCulture }
+  | { statut: 'introuvable' }
+  | { statut: 'non_soumise'; statutModeration: StatutModeration }
+  | { statut: 'auto_moderation' }
+  | { statut: 'doublon'; varieteId: string }
+
+// L'auteur ne modifie sa contribution qu'avant la soumission ou après un refus
+const STATUTS_MODIFIABLES: StatutModeration[] = [StatutModeration.BROUILLON, StatutModeration.REJETEE]
+
+const contributeurSelect = { id: true, name: true } as const
+
+function versDonnees(variete: VarieteCatalogue) {
+  return {
+    nomScientifique: variete.nomScientifique ?? null,
+    nomCommun: variete.nomCommun,
+    famille: variete.famille ?? null,
+    categorie: variete.categorie,
+    infosCulture: variete.infosCulture as Prisma.InputJsonValue,
+    calendrierDefaut: variete.calendrierDefaut as Prisma.InputJsonValue,
+    photos: (variete.photos ?? Prisma.DbNull) as Prisma.InputJsonValue | typeof Prisma.DbNull,
+    liens: (variete.liens ?? Prisma.DbNull) as Prisma.InputJsonValue | typeof Prisma.DbNull
+  }
+}
+
+export class VarietyContributionService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Variétés proposées par l'utilisateur, tous statuts confondus, les plus récentes d'abord
+   */
+  async listContributions(userId: string): Promise<VarieteCulture[]> {
+    return this.prisma.varieteCulture.findMany({
+      where: { creeParId: userId, estPersonnalise: true },
+      orderBy: { misAJourA: 'desc' }
+    })
+  }
+
+  async createDraft(userId: string, donnees: VarieteCatalogue): Promise<VarieteCulture> {
+    return this.prisma.$transaction(async (tx) => {
+      const variete = await tx.varieteCulture.create({
+        data: {
+          ...versDonnees(donnees),
+          sourceDonnees: SourceDonnees.MANUEL,
+          estPersonnalise: true,
+          creeParId: userId,
+          statutModeration: StatutModeration.BROUILLON
+        }
+      })
+
+      await tx.historiqueVarieteCulture.create({
+        data: {
+          varieteId: variete.id,
+          auteurId: userId,
+          action: ActionHistoriqueVariete.CREATION,
+          version: variete.version,
+          donnees: donnees as Prisma.InputJsonValue
+        }
+      })
+
+      return variete
+    })
+  }
+
+  /**
+   * Remplace le contenu d'une contribution et en crée une nouvelle version.
+   * Une contribution refusée repasse en brouillon.
+   */
+  async updateDraft(userId: string, varieteId: string, donnees: VarieteCatalogue): Promise<ResultatContribution> {
+    const existante = await this.prisma.varieteCulture.findFirst({
+      where: { id: varieteId, creeParId: userId, estPersonnalise: true }
+    })
+    if (!existante) return { statut: 'introuvable' }
+    if (!STATUTS_MODIFIABLES.includes(existante.statutModeration)) {
+      return { statut: 'non_modifiable', statutModeration: existante.statutModeration }
+    }
+
+    const variete = await this.prisma.$transaction(async (tx) => {
+      const modifiee = await tx.varieteCulture.update({
+        where: { id: varieteId },
+        data: {
+          ...versDonnees(donnees),
+          statutModeration: StatutModeration.BROUILLON,
+          version: { increment: 1 }
+        }
+      })
+
+      await tx.historiqueVarieteCulture.create({
+        data: {
+          varieteId,
+          auteurId: userId,
+          action: ActionHistoriqueVariete.MODIFICATION,
+          version: modifiee.version,
+          donnees: donnees as Prisma.InputJsonValue
+        }
+      })
+
+      return modifiee
+    })
+
+    return { statut: 'ok', variete }
+  }
+
+  /**
+   * Supprime une contribution non publiée, tant qu'aucune culture ni personnalisation n'y fait référence
+   */
+  async deleteDraft(userId: string, varieteId: string): Promise<ResultatSuppressionContribution> {
+    const existante = await this.prisma.varieteCulture.findFirst({
+      where: { id: varieteId, creeParId: userId, estPersonnalise: true },
+      include: { _count: { select: { varietesUtilisateur: true, plannedCultures: true } } }
+    })
+    if (!existante) return { statut: 'introuvable' }
+    if (!STATUTS_MODIFIABLES.includes(existante.statutModeration)) {
+      return { statut: 'non_modifiable', statutModeration: existante.statutModeration }
+    }
+    if (existante._count.varietesUtilisateur > 0 || existante._count.plannedCultures > 0) {
+      return { statut: 'utilisee' }
+    }
+
+    await this.prisma.varieteCulture.delete({ where: { id: varieteId } })
+    return { statut: 'supprimee' }
+  }
+
+  async submit(userId: string, varieteId: string): Promise<ResultatContribution> {
+    const existante = await this.prisma.varieteCulture.findFirst({
+      where: { id: varieteId, creeParId: userId, estPersonnalise: true }
+    })
+    if (!existante) return { statut: 'introuvable' }
+    if (!STATUTS_MODIFIABLES.includes(existante.statutModeration)) {
+      return { statut: 'non_modifiable', statutModeration: existante.statutModeration }
+    }
+
+    const variete = await this.prisma.$transaction(async (tx) => {
+      const soumise = await tx.varieteCulture.update({
+        where: { id: varieteId },
+        data: {
+          statutModeration: StatutModeration.SOUMISE,
+          soumisA: new Date(),
+          commentaireModeration: null
+        }
+      })
+
+      await tx.historiqueVarieteCulture.create({
+        data: {
+          varieteId,
+          auteurId: userId,
+          action: ActionHistoriqueVariete.SOUMISSION,
+          version: soumise.version
+        }
+      })
+
+      return soumise
+    })
+
+    return { statut: 'ok', variete }
+  }
+
+  /**
+   * File de relecture : contributions soumises, les plus anciennes d'abord
+   */
+  async getReviewQueue(): Promise<VarieteSoumise[]> {
+    return this.prisma.varieteCulture.findMany({
+      where: { statutModeration: StatutModeration.SOUMISE },
+      include: { creePar: { select: contributeurSelect } },
+      orderBy: { soumisA: 'asc' }
+    })
+  }
+
+  /**
+   * Publie ou refuse une contribution soumise. Un relecteur ne modère pas ses propres
+   * contributions, et une variété déjà publiée sous les mêmes noms n'est pas dupliquée.
+   */
+  async review(
+    moderateurId: string,
+    varieteId: string,
+    decision: { approuver: boolean; commentaire?: string }
+  ): Promise<ResultatModeration> {
+    const existante = await this.prisma.varieteCulture.findUnique({ where: { id: varieteId } })
+    if (!existante) return { statut: 'introuvable' }
+    if (existante.statutModeration !== StatutModeration.SOUMISE) {
+      return { statut: 'non_soumise', statutModeration: existante.statutModeration }
+    }
+    if (existante.creeParId === moderateurId) return { statut: 'auto_moderation' }
+
+    if (decision.approuver) {
+      const publiees = await this.prisma.varieteCulture.findMany({
+        where: catalogueVisible(),
+        select: { id: true, nomScientifique: true, nomCommun: true }
+      })
+      const cle = cleVariete(existante)
+      const doublon = publiees.find(publiee => cleVariete(publiee) === cle)
+      if (doublon) return { statut: 'doublon', varieteId: doublon.id }
+    }
+
+    const variete = await this.prisma.$transaction(async (tx) => {
+      const moderee = await tx.varieteCulture.update({
+        where: { id: varieteId },
+        data: {
+          statutModeration: decision.approuver ? StatutModeration.APPROUVEE : StatutModeration.REJETEE,
+          moderateurId,
+          modereA: new Date(),
+          commentaireModeration: decision.commentaire ?? null
+        }
+      })
+
+      await tx.historiqueVarieteCulture.create({
+        data: {
+          varieteId,
+          auteurId: moderateurId,
+          action: decision.approuver ? ActionHistoriqueVariete.APPROBATION : ActionHistoriqueVariete.REJET,
+          version: moderee.version,
+          commentaire: decision.commentaire
+        }
+      })
+
+      return moderee
+    })
+
+    return { statut: 'ok', variete }
+  }
+
+  /**
+   * Attribution et historique d'une variété, du plus récent au plus ancien.
+   * Une contribution non publiée n'est visible que de son auteur et des relecteurs.
+   */
+  async getHistory(varieteId: string, userId: string, estRelecteur: boolean): Promise<HistoriqueVariete | null> {
+    const variete = await this.prisma.varieteCulture.findFirst({
+      where: estRelecteur ? { id: varieteId } : { id: varieteId, ...catalogueVisible(userId) },
+      include: {
+        creePar: { select: contributeurSelect },
+        moderateur: { select: contributeurSelect },
+        historique: {
+          include: { auteur: { select: contributeurSelect } },
+          orderBy: { creeA: 'desc' }
+        }
+      }
+    })
+    if (!variete) return null
+
+    return {
+      varieteId: variete.id,
+      nomCommun: variete.nomCommun,
+      statutModeration: variete.statutModeration,
+      version: variete.version,
+      creePar: variete.creePar,
+      moderateur: variete.moderateur,
+      modereA: variete.modereA,
+      historique: variete.historique.map(entree => ({
+        id: entree.id,
+        action: entree.action,
+        version: entree.version,
+        donnees: entree.donnees as VarieteCatalogue | null,
+        commentaire: entree.commentaire,
+        creeA: entree.creeA,
+        auteur: entree.auteur
+      }))
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Import et export du catalogue de variétés (CSV / JSON)
+ *
+ * Une ligne correspond à une variété du catalogue existante si leurs noms
+ * scientifique et commun coïncident (sans casse ni accents). Seules les variétés
+ * créées par l'utilisateur et hors relecture sont mises à jour ; celles du catalogue
+ * partagé, soumises ou publiées sont laissées telles quelles. Rien n'est écrit si une
+ * ligne est invalide ou en simulation.
+ */
+
+import { ActionHistoriqueVariete, Prisma, PrismaClient, SourceDonnees, StatutModeration } from '@prisma/client'
+import { prisma as defaultPrisma } from '../db'
+import { cleVariete, VarieteCatalogue, varieteCatalogueSchema } from '../catalogue-varietes'
+import { catalogueVisible } from '../repositories/variety.repository'
+
+export interface VarieteImportee {
+  index: number // Rang de la ligne dans le fichier, en-tête CSV exclu
+  id?: string // Variété existante ; absent pour une création
+  nomCommun: string
+}
+
+export interface VarieteMiseAJour extends VarieteImportee {
+  id: string
+  champsModifies: string[]
+}
+
+export interface VarieteIgnoree extends VarieteImportee {
+  id: string
+  raison: 'identique' | 'catalogue_partage' | 'moderation' // moderation : soumise, en attente de relecture
+}
+
+export interface ErreurImportVariete {
+  index: number
+  nom?: string
+  message: string
+}
+
+export type ResultatImportCatalogue =
+  | { statut: 'valide'; creations: VarieteImportee[]; misesAJour: VarieteMiseAJour[]; ignorees: VarieteIgnoree[] }
+  | { statut: 'invalide'; erreurs: ErreurImportVariete[] }
+
+const varieteSelect = {
+  id: true,
+  nomScientifique: true,
+  nomCommun: true,
+  famille: true,
+  categorie: true,
+  infosCulture: true,
+  calendrierDefaut: true,
+  photos: true,
+  liens: true,
+  creeParId: true,
+  statutModeration: true
+} as const
+
+type VarieteExistante = Prisma.VarieteCultureGetPayload<{ select: typeof varieteSelect }>
+
+// Détail des erreurs de validation, limité pour rester lisible
+const ERREURS_PAR_LIGNE_MAX = 3
+
+// Un import complet tient dans une transaction plus longue que les 5 s par défaut
+const TRANSACTION_IMPORT = { maxWait: 10_000, timeout: 60_000 }
+
+// Une variété soumise attend sa relecture : l'import ne la modifie pas
+const STATUTS_EN_RELECTURE: StatutModeration[] = [StatutModeration.SOUMISE]
+
+/**
+ * Champs qui diffèrent entre la ligne et la variété existante ;
+ * les sous-champs de infosCulture et calendrierDefaut sont détaillés
+ */
+function listerChampsModifies(ligne: VarieteCatalogue, existante: VarieteExistante): string[] {
+  const egal = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+  const champs: string[] = []
+
+  for (const champ of ['nomScientifique', 'nomCommun', 'famille', 'categorie'] as const) {
+    if (!egal(ligne[champ], existante[champ])) champs.push(champ)
+  }
+
+  for (const champ of ['infosCulture', 'calendrierDefaut'] as const) {
+    const avant = (existante[champ] ?? {}) as Record<string, unknown>
+    const apres = ligne[champ] as Record<string, unknown>
+    for (const cle of new Set([...Object.keys(avant), ...Object.keys(apres)])) {
+      if (!egal(apres[cle], avant[cle])) champs.push(`${champ}.${cle}`)
+    }
+  }
+
+  // Photos et liens ne sont comparés que si le fichier les fournit (le CSV ne les porte pas)
+  for (const champ of ['photos', 'liens'] as const) {
+    if (ligne[champ] !== undefined && !egal(ligne[champ], existante[champ])) champs.push(champ)
+  }
+
+  return champs
+}
+
+function versDonnees(ligne: VarieteCatalogue) {
+  return {
+    nomScientifique: ligne.nomScientifique ?? null,
+    nomCommun: ligne.nomCommun,
+    famille: ligne.famille ?? null,
+    categorie: ligne.categorie,
+    infosCulture: ligne.infosCulture as Prisma.InputJsonValue,
+    calendrierDefaut: ligne.calendrierDefaut as Prisma.InputJsonValue,
+    ...(ligne.photos !== undefined && { photos: ligne.photos as Prisma.InputJsonValue }),
+    ...(ligne.liens !== undefined && { liens: ligne.liens as Prisma.InputJsonValue }),
+    sourceDonnees: SourceDonnees.IMPORT_CATALOGUE
+  }
+}
+
+export class VarietyExchangeService {
+  constructor(private prisma: PrismaClient = defaultPrisma) {}
+
+  /**
+   * Variétés du catalogue au format d'échange, par nom commun.
+   * Avec un utilisateur, seulement celles qu'il a créées (son catalogue personnel,
+   * contributions non publiées comprises) ; sinon le catalogue publié.
+   */
+  async exportCatalogue(options: { creeParId?: string } = {}): Promise<VarieteCatalogue[]> {
+    const varietes = await this.prisma.varieteCulture.findMany({
+      where: options.creeParId ? { creeParId: options.creeParId } : catalogueVisible(),
+      select: varieteSelect,
+      orderBy: { nomCommun: 'asc' }
+    })
+
+    return varietes.map(variete => ({
+      nomCommun: variete.nomCommun,
+      nomScientifique: variete.nomScientifique ?? undefined,
+      famille: variete.famille ?? undefined,
+      categorie: variete.categorie,
+      infosCulture: variete.infosCulture as VarieteCatalogue['infosCulture'],
+      calendrierDefaut: variete.calendrierDefaut as VarieteCatalogue['calendrierDefaut'],
+      photos: (variete.photos as VarieteCatalogue['photos']) ?? undefined,
+      liens: (variete.liens as VarieteCatalogue['liens']) ?? undefined
+    }))
+  }
+
+  /**
+   * Valide chaque ligne, la rapproche du catalogue et, hors simulation, crée ou met à jour
+   * les variétés dans une transaction. Les variétés importées sont marquées IMPORT_CATALOGUE
+   * et restent des brouillons : seule la relecture publie dans le catalogue partagé.
+   */
+  async importCatalogue(
+    userId: string,
+    lignes: unknown[],
+    options: { simulation?: boolean } = {}
+  ): Promise<ResultatImportCatalogue> {
+    const existantes = await this.prisma.varieteCulture.findMany({ where: catalogueVisible(userId), select: varieteSelect })
+
+    // À clé égale, la variété de l'utilisateur prime sur celle du catalogue partagé
+    const parCle = new Map<string, VarieteExistante>()
+    for (const existante of existantes) {
+      const cle = cleVariete(existante)
+      if (!parCle.has(cle) || existante.creeParId === userId) parCle.set(cle, existante)
+    }
+
+    const erreurs: ErreurImportVariete[] = []
+    const creations: Array<VarieteImportee & { ligne: VarieteCatalogue }> = []
+    const misesAJour: Array<VarieteMiseAJour & { ligne: VarieteCatalogue }> = []
+    const ignorees: VarieteIgnoree[] = []
+    const vues = new Map<string, number>()
+
+    lignes.forEach((brute, index) => {
+      const resultat = varieteCatalogueSchema.safeParse(brute)
+      const nom = (brute as { nomCommun?: unknown } | null)?.nomCommun
+      if (!resultat.success) {
+        erreurs.push({
+          index,
+          nom: typeof nom === 'string' ? nom : undefined,
+          message: resultat.error.issues
+            .slice(0, ERREURS_PAR_LIGNE_MAX)
+            .map(issue => issue.path.length > 0 ? `${issue.path.join('.')} : ${issue.message}` : issue.message)
+            .join(' ; ')
+        })
+        return
+      }
+
+      const ligne = resultat.data
+      const cle = cleVariete(ligne)
+
+      const doublon = vues.get(cle)
+      if (doublon !== undefined) {
+        erreurs.push({ index, nom: ligne.nomCommun, message: `Doublon de la ligne ${doublon + 1}` })
+        return
+      }
+      vues.set(cle, index)
+
+      const existante = parCle.get(cle)
+      if (!existante) {
+        creations.push({ index, nomCommun: ligne.nomCommun, ligne })
+      } else if (existante.creeParId !== userId) {
+        ignorees.push({ index, id: existante.id, nomCommun: existante.nomCommun, raison: 'catalogue_partage' })
+      } else if (STATUTS_EN_RELECTURE.includes(existante.statutModeration)) {
+        ignorees.push({ index, id: existante.id, nomCommun: existante.nomCommun, raison: 'moderation' })
+      } else {
+        const modifies = listerChampsModifies(ligne, existante)
+        if (modifies.length === 0) {
+          ignorees.push({ index, id: existante.id, nomCommun: existante.nomCommun, raison: 'identique' })
+        } else {
+          misesAJour.push({ index, id: existante.id, nomCommun: ligne.nomCommun, champsModifies: modifies, ligne })
+        }
+      }
+    })
+
+    if (erreurs.length > 0) {
+      return { statut: 'invalide', erreurs }
+    }
+
+    if (!options.simulation) {
+      await this.prisma.$transaction(async (tx) => {
+        // Créations groupées ; chaque variété retrouve sa ligne par sa clé, unique dans le fichier
+        const creees = await tx.varieteCulture.createManyAndReturn({
+          data: creations.map(creation => ({
+            ...versDonnees(creation.ligne),
+            estPersonnalise: true,
+            creeParId: userId,
+            statutModeration: StatutModeration.BROUILLON
+          })),
+          select: { id: true, version: true, nomScientifique: true, nomCommun: true }
+        })
+        const lignesParCle = new Map(creations.map(creation => [cleVariete(creation.ligne), creation.ligne]))
+        await tx.historiqueVarieteCulture.createMany({
+          data: creees.map(variete => ({
+            varieteId: variete.id,
+            auteurId: userId,
+            action: ActionHistoriqueVariete.CREATION,
+            version: variete.version,
+            donnees: lignesParCle.get(cleVariete(variete)) as Prisma.InputJsonValue
+          }))
+        })
+
+        for (const miseAJour of misesAJour) {
+          const variete = await tx.varieteCulture.update({
+            where: { id: miseAJour.id },
+            // Une variété publiée modifiée par l'import repasse par la relecture
+            data: { ...versDonnees(miseAJour.ligne), statutModeration: StatutModeration.BROUILLON, version: { increment: 1 } }
+          })
+          await tx.historiqueVarieteCulture.create({
+            data: {
+              varieteId: variete.id,
+              auteurId: userId,
+              action: ActionHistoriqueVariete.MODIFICATION,
+              version: variete.version,
+              donnees: miseAJour.ligne as Prisma.InputJsonValue,
+              commentaire: 'Import de catalogue'
+            }
+          })
+        }
+      }, TRANSACTION_IMPORT)
+    }
+
+    return {
+      statut: 'valide',
+      creations: creations.map(({ index, nomCommun }) => ({ index, nomCommun })),
+      misesAJour: misesAJour.map(({ index, id, nomCommun, champsModifies }) => ({ index, id, nomCommun, champsModifies })),
+      ignorees
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client'
 import { CacheService } from '../cache/cache.service'
 import { 
   VarietyRepository, 
+  catalogueVisible,
   VarietySearchParams, 
   VarietySearchResult,
   PersonalizedRecommendation,
@@ -44,6 +45,12 @@ export interface GardenProfile {
     exposition: string
     surfaceM2: number
     typeZone: string
+    // Dernière analyse de sol de la zone, si elle en a une
+    analyseSol?: {
+      dateAnalyse: Date
+      ph: number | null
+      texture: string | null
+    }
   }>
 }
 
@@ -54,6 +61,8 @@ export interface UserHistory {
   famillesPreferees: string[]
   niveauExperience: number
   saisonsActives: number[]
+  // Résultats mesurés sur les récoltes réelles (performance calculée), par famille
+  performancesFamilles: Record<string, { tauxReussite: number; rendementMoyenKgM2: number }>
 }
 
 /**
@@ -159,7 +168,8 @@ export class VarietyManagementService {
           }).map(v => v.varieteBaseId),
           famillesPreferees: this.extractPreferredFamilies(userVarieties),
           niveauExperience: this.calculateExperienceLevel(userVarieties),
-          saisonsActives: this.extractActiveSeasonsIds(userVarieties)
+          saisonsActives: this.extractActiveSeasonsIds(userVarieties),
+          performancesFamilles: this.extractFamilyPerformance(userVarieties)
         }
 
         return { experience }
@@ -190,6 +200,27 @@ export class VarietyManagementService {
       .map(([famille]) => famille)
   }
 
+  /**
+   * Réussite et rendement moyens par famille, sur les seules performances calculées
+   * à partir de récoltes réelles
+   */
+  private extractFamilyPerformance(userVarieties: any[]): UserHistory['performancesFamilles'] {
+    const parFamille = new Map<string, PerformancePersonnelle[]>()
+
+    userVarieties.forEach(uv => {
+      const famille = uv.varieteBase.famille
+      const perf = uv.performancePersonnelle as PerformancePersonnelle
+      if (famille && perf?.calculPar === 'AUTO' && perf.nombreCultivations > 0) {
+        parFamille.set(famille, [...(parFamille.get(famille) ?? []), perf])
+      }
+    })
+
+    return Object.fromEntries(Array.from(parFamille.entries()).map(([famille, perfs]) => [famille, {
+      tauxReussite: perfs.reduce((sum, perf) => sum + perf.tauxReussite, 0) / perfs.length,
+      rendementMoyenKgM2: perfs.reduce((sum, perf) => sum + perf.rendementMoyenKgM2, 0) / perfs.length
+    }]))
+  }
+
   /**
    * Calculer niveau d'expérience utilisateur
    */
@@ -295,6 +326,12 @@ export class VarietyManagementService {
       reasons.push(`Vous avez du succès avec les ${variety.famille}`)
     }
 
+    // Rendement mesuré sur les récoltes de la même famille
+    const performanceFamille = userContext.experience.performancesFamilles?.[variety.famille || '']
+    if (performanceFamille && performanceFamille.tauxReussite >= 0.7 && performanceFamille.rendementMoyenKgM2 > 0) {
+      reasons.push(`Vos ${variety.famille} donnent ${performanceFamille.rendementMoyenKgM2.toFixed(1)} kg/m² en moyenne`)
+    }
+
     // Niveau de difficulté adapté
     if (infosCulture?.niveauDifficulte <= userContext.experience.niveauExperience + 1) {
       reasons.push('Niveau de difficulté adapté à votre expérience')
@@ -373,6 +410,7 @@ export class VarietyManagementService {
         // Algorithme de recommandation basique (à améliorer Phase 14)
         const candidates = await this.prisma.varieteCulture.findMany({
           where: {
+            ...catalogueVisible(),
             id: { notIn: userContext.experience.varietesTestees }
           },
           include: {
@@ -422,6 +460,12 @@ export class VarietyManagementService {
       score += 0.15
     }
 
+    // Réussite mesurée sur la même famille (±10%)
+    const performanceFamille = userContext.experience.performancesFamilles?.[variety.famille]
+    if (performanceFamille) {
+      score += (performanceFamille.tauxReussite - 0.5) * 0.2
+    }
+
     // Niveau difficulté approprié (+25%)
     if (infosCulture?.niveauDifficulte) {
       const difficultyFit = this.calculateDifficultyFit(infosCulture.niveauDifficulte, userContext.experience.niveauExperience)
@@ -443,17 +487,24 @@ export class VarietyManagementService {
 
     let fit = 0.5 // Base
 
-    // Adaptation pH sol
-    if (infosCulture.phOptimal && gardenProfile.sol.ph) {
+    // Dernières analyses des zones en priorité, sinon valeurs déclarées pour le jardin
+    const analyses = gardenProfile.zones.flatMap(zone => zone.analyseSol ? [zone.analyseSol] : [])
+    const phMesures = analyses.flatMap(analyse => analyse.ph !== null ? [analyse.ph] : [])
+    const phSols = phMesures.length > 0 ? phMesures : gardenProfile.sol.ph ? [gardenProfile.sol.ph] : []
+    const texturesMesurees = analyses.flatMap(analyse => analyse.texture ? [analyse.texture] : [])
+    const typesSol = texturesMesurees.length > 0 ? texturesMesurees : gardenProfile.sol.type ? [gardenProfile.sol.type] : []
+
+    // Adaptation pH sol : au moins une zone dans la plage optimale
+    if (infosCulture.phOptimal && phSols.length > 0) {
       const [minPh, maxPh] = infosCulture.phOptimal
-      if (gardenProfile.sol.ph >= minPh && gardenProfile.sol.ph <= maxPh) {
+      if (phSols.some(ph => ph >= minPh && ph <= maxPh)) {
         fit += 0.2
       }
     }
 
     // Adaptation type de sol
-    if (infosCulture.typesolPrefere && gardenProfile.sol.type) {
-      if (infosCulture.typesolPrefere.includes(gardenProfile.sol.type)) {
+    if (infosCulture.typesolPrefere && typesSol.length > 0) {
+      if (typesSol.some(type => infosCulture.typesolPrefere.includes(type.toLowerCase()))) {
         fit += 0.2
       }
     }
@@ -469,10 +520,27 @@ export class VarietyManagementService {
 
   /**
    * Obtenir profil jardin utilisateur
+   * Le sol vient des jardins de l'utilisateur et de la dernière analyse de chaque zone.
    */
   private async getGardenProfile(userId: string): Promise<GardenProfile> {
-    // Simplification pour Phase 3-4, sera enrichi avec vraies données jardin
-    return {
+    const jardins = await this.prisma.jardin.findMany({
+      where: { membres: { some: { utilisateurId: userId } }, archiveA: null },
+      include: {
+        zones: {
+          where: { estActive: true },
+          include: {
+            analysesSol: {
+              orderBy: { dateAnalyse: 'desc' },
+              take: 1
+            }
+          }
+        }
+      },
+      orderBy: { creeA: 'desc' }
+    })
+
+    // Climat simplifié en attendant les données météo par jardin
+    const profil: GardenProfile = {
       climat: {
         zone: 'tempéré',
         temperatureMin: -5,
@@ -486,6 +554,28 @@ export class VarietyManagementService {
       },
       zones: []
     }
+
+    const jardinPrincipal = jardins[0]
+    if (!jardinPrincipal) return profil
+
+    profil.sol.type = jardinPrincipal.typeSol.toLowerCase()
+    profil.sol.ph = jardinPrincipal.phSol !== null ? Number(jardinPrincipal.phSol) : profil.sol.ph
+    profil.zones = jardins.flatMap(jardin => jardin.zones.map(zone => {
+      const [derniereAnalyse] = zone.analysesSol
+      return {
+        id: zone.id,
+        exposition: zone.expositionSoleil,
+        surfaceM2: (zone.geometrie as any)?.surfaceM2 ?? 0,
+        typeZone: zone.typeZone,
+        analyseSol: derniereAnalyse && {
+          dateAnalyse: derniereAnalyse.dateAnalyse,
+          ph: derniereAnalyse.ph,
+          texture: derniereAnalyse.texture
+        }
+      }
+    }))
+
+    return profil
   }
 
   /**
@@ -524,7 +614,7 @@ export class VarietyManagementService {
     return this.cache.getOrSet(
       cacheKey,
       async () => {
-        const totalVarieties = await this.prisma.varieteCulture.count()
+        const totalVarieties = await this.prisma.varieteCulture.count({ where: catalogueVisible() })
         
         let userSpecificStats = {}
         if (userId) {
@@ -547,7 +637,8 @@ export class VarietyManagementService {
         // Statistiques par catégorie
         const byCategory = await this.prisma.varieteCulture.groupBy({
           by: ['categorie'],
-          _count: { categorie: true }
+          _count: { categorie: true },
+          where: catalogueVisible()
         })
 
         return {
@@ -0,0 +1,256 @@
+/**
+ * Stock de graines : viabilité des sachets, alertes et prélèvements des semis
+ *
+ * La viabilité est estimée à partir de la durée germinative usuelle de l'espèce
+ * (graines conservées au sec et au frais) : la germination reste bonne jusqu'à
+ * la moitié de cette durée, décline jusqu'à son terme puis devient aléatoire.
+ */
+
+import { Prisma } from '@prisma/client'
+import { normaliser } from './recherche-texte'
+
+export type StatutViabilite = 'bonne' | 'declin' | 'faible'
+
+export interface EstimationViabilite {
+  ageAnnees: number | null // null si ni année de production ni date d'achat
+  dureeGerminativeAnnees: number
+  tauxGerminationEstime: number // 0-1
+  statut: StatutViabilite
+}
+
+export type TypeAlerteGraines = 'epuise' | 'stock_bas' | 'perime' | 'expire_bientot' | 'viabilite_faible'
+
+export interface AlerteGraines {
+  type: TypeAlerteGraines
+  sachetId?: string // Absent pour les alertes de stock, qui portent sur la variété
+  message: string
+}
+
+export interface SachetPourAlertes {
+  id: string
+  quantiteInitiale: number
+  quantiteRestante: number
+  seuilAlerte: number | null
+  dateAchat: Date | null
+  anneeProduction: number | null
+  dateExpiration: Date | null
+}
+
+// Durée germinative (années) par espèce, reconnue au début d'un mot du nom commun.
+// L'ordre compte : « courgette » doit passer avant « courge ».
+const DUREES_PAR_ESPECE: Array<[string, number]> = [
+  ['tomate', 4], ['aubergine', 5], ['poivron', 3], ['piment', 3],
+  ['concombre', 6], ['cornichon', 6], ['courgette', 5], ['courge', 5], ['potiron', 5],
+  ['potimarron', 5], ['melon', 5], ['pasteque', 5],
+  ['laitue', 4], ['salade', 4], ['chicoree', 5], ['epinard', 3], ['mache', 5], ['roquette', 4],
+  ['carotte', 3], ['panais', 1], ['radis', 5], ['betterave', 5], ['navet', 5],
+  ['oignon', 2], ['echalote', 2], ['poireau', 3], ['ciboulette', 2],
+  ['chou', 5], ['brocoli', 5], ['haricot', 3], ['pois', 3], ['feve', 5], ['mais', 2],
+  ['persil', 3], ['basilic', 5], ['coriandre', 4], ['aneth', 3], ['fenouil', 4],
+  ['celeri', 5], ['cerfeuil', 2], ['oeillet', 3], ['capucine', 5], ['souci', 3], ['tournesol', 3]
+]
+
+// À défaut d'espèce reconnue, par famille botanique
+const DUREES_PAR_FAMILLE: Record<string, number> = {
+  solanaceae: 4,
+  cucurbitaceae: 5,
+  brassicaceae: 4,
+  fabaceae: 3,
+  apiaceae: 3,
+  asteraceae: 4,
+  amaranthaceae: 4,
+  amaryllidaceae: 2,
+  lamiaceae: 4,
+  poaceae: 2
+}
+
+const DUREE_PAR_DEFAUT = 3
+const TAUX_GERMINATION_NEUF = 0.9
+const TAUX_GERMINATION_TERME = 0.6
+
+// Une date limite plus proche que cela déclenche une alerte
+const JOURS_AVANT_EXPIRATION = 60
+// Seuil de stock bas quand le sachet n'en précise pas : 20 % du sachet, au moins 5 graines
+const PART_STOCK_BAS = 0.2
+const SEUIL_STOCK_BAS_MIN = 5
+
+const JOUR_MS = 24 * 60 * 60 * 1000
+
+const arrondir = (valeur: number) => Math.round(valeur * 100) / 100
+
+export function dureeGerminative(nomCommun: string, famille?: string | null): number {
+  const nom = normaliser(nomCommun)
+  const espece = DUREES_PAR_ESPECE.find(([cle]) => new RegExp(`(^|[^a-z])${cle}`).test(nom))
+  if (espece) return espece[1]
+
+  return (famille && DUREES_PAR_FAMILLE[normaliser(famille)]) || DUREE_PAR_DEFAUT
+}
+
+/**
+ * Âge des graines : depuis l'année de production si elle est connue
+ * (récolte supposée en fin d'été), sinon depuis l'achat
+ */
+export function ageGraines(
+  sachet: Pick<SachetPourAlertes, 'anneeProduction' | 'dateAchat'>,
+  date: Date = new Date()
+): number | null {
+  const origine = sachet.anneeProduction !== null
+    ? new Date(sachet.anneeProduction, 8, 1)
+    : sachet.dateAchat
+  if (!origine) return null
+
+  return Math.max(0, Math.round((date.getTime() - origine.getTime()) / (365.25 * JOUR_MS) * 10) / 10)
+}
+
+export function estimerViabilite(
+  sachet: Pick<SachetPourAlertes, 'anneeProduction' | 'dateAchat'>,
+  duree: number,
+  date: Date = new Date()
+): EstimationViabilite {
+  const age = ageGraines(sachet, date)
+
+  // Âge inconnu : on suppose un sachet de l'année
+  if (age === null || age <= duree / 2) {
+    return { ageAnnees: age, dureeGerminativeAnnees: duree, tauxGerminationEstime: TAUX_GERMINATION_NEUF, statut: 'bonne' }
+  }
+
+  if (age <= duree) {
+    const avancement = (age - duree / 2) / (duree / 2)
+    return {
+      ageAnnees: age,
+      dureeGerminativeAnnees: duree,
+      tauxGerminationEstime: arrondir(TAUX_GERMINATION_NEUF - avancement * (TAUX_GERMINATION_NEUF - TAUX_GERMINATION_TERME)),
+      statut: 'declin'
+    }
+  }
+
+  return {
+    ageAnnees: age,
+    dureeGerminativeAnnees: duree,
+    tauxGerminationEstime: arrondir(Math.max(0, TAUX_GERMINATION_TERME * (1 - (age - duree) / duree))),
+    statut: 'faible'
+  }
+}
+
+export function seuilStockBas(sachet: Pick<SachetPourAlertes, 'seuilAlerte' | 'quantiteInitiale'>): number {
+  return sachet.seuilAlerte ?? Math.max(SEUIL_STOCK_BAS_MIN, Math.ceil(sachet.quantiteInitiale * PART_STOCK_BAS))
+}
+
+export function estPerime(sachet: Pick<SachetPourAlertes, 'dateExpiration'>, date: Date = new Date()): boolean {
+  return sachet.dateExpiration !== null && sachet.dateExpiration < date
+}
+
+/**
+ * Alertes d'une variété : stock utilisable (sachets non périmés) et état de chaque sachet entamé
+ */
+export function alertesVariete(sachets: SachetPourAlertes[], duree: number, date: Date = new Date()): AlerteGraines[] {
+  if (sachets.length === 0) return []
+
+  const alertes: AlerteGraines[] = []
+  const utilisables = sachets.filter(sachet => !estPerime(sachet, date))
+  const stock = utilisables.reduce((total, sachet) => total + sachet.quantiteRestante, 0)
+
+  if (stock === 0) {
+    alertes.push({ type: 'epuise', message: 'Plus aucune graine utilisable' })
+  } else if (stock <= Math.max(...utilisables.map(seuilStockBas))) {
+    alertes.push({ type: 'stock_bas', message: `Stock bas : ${stock} graine(s)` })
+  }
+
+  for (const sachet of sachets.filter(sachet => sachet.quantiteRestante > 0)) {
+    if (estPerime(sachet, date)) {
+      alertes.push({ type: 'perime', sachetId: sachet.id, message: 'Sachet périmé' })
+      continue
+    }
+
+    if (sachet.dateExpiration && sachet.dateExpiration.getTime() - date.getTime() <= JOURS_AVANT_EXPIRATION * JOUR_MS) {
+      alertes.push({ type: 'expire_bientot', sachetId: sachet.id, message: 'Sachet bientôt périmé' })
+    }
+
+    if (estimerViabilite(sachet, duree, date).statut === 'faible') {
+      alertes.push({ type: 'viabilite_faible', sachetId: sachet.id, message: 'Germination incertaine : semer plus dense' })
+    }
+  }
+
+  return alertes
+}
+
+/**
+ * Aligne les graines prélevées pour une culture sur sa quantitePlantee, à appeler
+ * dans une transaction. Le lot source de la culture est entamé en premier, puis les
+ * sachets les plus anciens ; une quantité revue à la baisse rend les graines aux
+ * derniers sachets prélevés.
+ * Retourne le nombre de graines que le stock n'a pas pu couvrir.
+ */
+export async function syncSeedWithdrawals(
+  tx: Prisma.TransactionClient,
+  instanceCultureId: string
+): Promise<number> {
+  const culture = await tx.instanceCulture.findUnique({
+    where: { id: instanceCultureId },
+    select: {
+      varieteId: true,
+      quantitePlantee: true,
+      sachetSourceId: true,
+      prelevementsGraines: { select: { id: true, sachetId: true, quantite: true }, orderBy: { creeA: 'desc' } }
+    }
+  })
+  if (!culture) return 0
+
+  const dejaPreleve = culture.prelevementsGraines.reduce((total, prelevement) => total + prelevement.quantite, 0)
+  const ecart = (culture.quantitePlantee ?? 0) - dejaPreleve
+
+  if (ecart < 0) {
+    let aRendre = -ecart
+    for (const prelevement of culture.prelevementsGraines) {
+      if (aRendre === 0) break
+      const quantite = Math.min(aRendre, prelevement.quantite)
+
+      await tx.sachetGraines.update({
+        where: { id: prelevement.sachetId },
+        data: { quantiteRestante: { increment: quantite } }
+      })
+      if (quantite === prelevement.quantite) {
+        await tx.prelevementGraines.delete({ where: { id: prelevement.id } })
+      } else {
+        await tx.prelevementGraines.update({
+          where: { id: prelevement.id },
+          data: { quantite: { decrement: quantite } }
+        })
+      }
+      aRendre -= quantite
+    }
+    return 0
+  }
+
+  let aPrelever = ecart
+  if (aPrelever === 0) return 0
+
+  const sachets = await tx.sachetGraines.findMany({
+    where: { varieteId: culture.varieteId, quantiteRestante: { gt: 0 } },
+    orderBy: [{ anneeProduction: { sort: 'asc', nulls: 'last' } }, { dateAchat: { sort: 'asc', nulls: 'last' } }, { creeA: 'asc' }],
+    select: { id: true, quantiteRestante: true }
+  })
+  const source = sachets.findIndex(sachet => sachet.id === culture.sachetSourceId)
+  if (source > 0) sachets.unshift(...sachets.splice(source, 1))
+
+  for (const sachet of sachets) {
+    if (aPrelever === 0) break
+    const quantite = Math.min(aPrelever, sachet.quantiteRestante)
+
+    // Garde contre un prélèvement concurrent sur le même sachet
+    const { count } = await tx.sachetGraines.updateMany({
+      where: { id: sachet.id, quantiteRestante: { gte: quantite } },
+      data: { quantiteRestante: { decrement: quantite } }
+    })
+    if (count === 0) continue
+
+    await tx.prelevementGraines.upsert({
+      where: { sachetId_instanceCultureId: { sachetId: sachet.id, instanceCultureId } },
+      create: { sachetId: sachet.id, instanceCultureId, quantite },
+      update: { quantite: { increment: quantite } }
+    })
+    aPrelever -= quantite
+  }
+
+  return aPrelever
+}
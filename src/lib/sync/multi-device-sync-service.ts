@@ -267,6 +267,8 @@ export class MultiDeviceSyncService {
       300, // 5 minutes TTL
       JSON.stringify(device)
     );
+    // Index par utilisateur pour la page "mes appareils"
+    await this.redis.sadd(`user:${device.userId}:devices`, device.id);
   }
 
   async unregisterDevice(deviceId: string): Promise<void> {
@@ -279,6 +281,24 @@ export class MultiDeviceSyncService {
     await this.redis.del(`device:${deviceId}`);
   }
 
+  /**
+   * Devices enregistrés d'un utilisateur (toutes instances confondues, via Redis)
+   */
+  async getUserDevices(userId: string): Promise<DeviceConnection[]> {
+    const deviceIds = await this.redis.smembers(`user:${userId}:devices`);
+    if (deviceIds.length === 0) return [];
+
+    const values = await this.redis.mget(deviceIds.map(id => `device:${id}`));
+    const expired = deviceIds.filter((_, index) => !values[index]);
+    if (expired.length > 0) {
+      await this.redis.srem(`user:${userId}:devices`, ...expired);
+    }
+
+    return values
+      .filter((value): value is string => !!value)
+      .map(value => JSON.parse(value) as DeviceConnection);
+  }
+
   /**
    * Statistiques de synchronisation
    */
@@ -1,4 +1,4 @@
-import { TypeProfil } from '@prisma/client';
+import { TypeProfil, RoleJardin, TypeRessource } from '@prisma/client';
 
 export enum Permission {
   LECTURE = "read",
@@ -14,6 +14,26 @@ export const DEFAULT_PERMISSIONS: Record<TypeProfil, Permission[]> = {
   READER: [Permission.LECTURE]
 };
 
+// Permissions par rôle dans un jardin partagé (remplacent celles du profil pour ce jardin)
+export const ROLE_JARDIN_PERMISSIONS: Record<RoleJardin, Permission[]> = {
+  PROPRIETAIRE: [Permission.LECTURE, Permission.ECRITURE, Permission.SUPPRESSION, Permission.ADMIN],
+  JARDINIER: [Permission.LECTURE, Permission.ECRITURE],
+  OBSERVATEUR: [Permission.LECTURE]
+};
+
+// Préfixe des tokens d'accès personnels (permet de les distinguer d'un JWT de session)
+export const API_TOKEN_PREFIX = 'bm_pat_';
+
+// Identité résolue pour une requête API (session NextAuth ou token personnel)
+export interface RequestIdentity {
+  userId: string;
+  typeProfil: TypeProfil;
+  apiToken?: {
+    id: string;
+    scopes: TypeRessource[];
+  };
+}
+
 // Pages autorisées par profil
 export const ALLOWED_PAGES: Record<TypeProfil, string[]> = {
   EXPERT: ['*'], // Toutes les pages
@@ -43,6 +63,9 @@ export interface ExtendedUser {
   prenom?: string;
   nom?: string;
   permissions: Permission[];
+  deuxFacteursRequis?: boolean; // ADMIN sans 2FA activée
+  deuxFacteursEnAttente?: boolean; // Connexion OAuth dont le code 2FA reste à saisir
+  sessionId?: string; // Identifiant de la ligne Session (page "mes appareils")
 }
 
 export interface User {
@@ -81,5 +104,9 @@ declare module "next-auth/jwt" {
     prenom?: string;
     nom?: string;
     permissions?: Permission[];
+    deuxFacteursRequis?: boolean;
+    deuxFacteursEnAttente?: boolean;
+    sessionId?: string;
+    sessionToken?: string; // Jamais exposé au client
   }
 }
\ No newline at end of file
@@ -43,6 +43,7 @@ export interface DeviceConnection {
   isOnline: boolean;
   pendingSync: number;
   socketId?: string;
+  sessionId?: string; // Session d'authentification ayant ouvert la connexion
 }
 
 export interface SyncStats {